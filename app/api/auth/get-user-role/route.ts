@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { resolveAccountWallet } from '@/lib/firebase/wallet-links';
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,8 +18,11 @@ export async function POST(request: NextRequest) {
     // Normalize wallet address
     const normalizedWallet = wallet.toLowerCase();
 
+    // Linked wallets report the role of their primary account
+    const accountWallet = await resolveAccountWallet(normalizedWallet);
+
     // Get user from database
-    const userDoc = await adminDb.collection('users').doc(normalizedWallet).get();
+    const userDoc = await adminDb.collection('users').doc(accountWallet).get();
     
     if (!userDoc.exists) {
       return NextResponse.json(
@@ -39,7 +43,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       role: userData.role,
-      wallet: normalizedWallet
+      wallet: accountWallet
     });
 
   } catch (error) {
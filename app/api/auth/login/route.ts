@@ -1,16 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ethers } from 'ethers';
 import { adminDb } from '@/lib/firebase/admin';
-import { createCustomToken } from '@/lib/firebase/auth';
+import { createCustomToken, consumeAuthNonce } from '@/lib/firebase/auth';
+import { startSession } from '@/lib/firebase/sessions';
+import { resolveAccountWallet } from '@/lib/firebase/wallet-links';
+import { verifySiweMessage, getSiweRole, getAllowedSiweDomains } from '@/lib/wallet/siwe';
+import { getSupportedChainIds } from '@/lib/wallet/connection';
 import admin from 'firebase-admin';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { wallet, signature, message, nonce, timestamp } = body;
+    const { wallet, signature, message } = body;
 
     // Validate required fields
-    if (!wallet || !signature || !message || !nonce || !timestamp) {
+    if (!wallet || !signature || !message) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -20,33 +23,25 @@ export async function POST(request: NextRequest) {
     // Normalize wallet address
     const normalizedWallet = wallet.toLowerCase();
 
-    // Verify signature
-    try {
-      const recoveredAddress = ethers.verifyMessage(message, signature);
-      if (recoveredAddress.toLowerCase() !== normalizedWallet) {
-        return NextResponse.json(
-          { error: 'Invalid signature' },
-          { status: 401 }
-        );
-      }
-    } catch (error) {
-      return NextResponse.json(
-        { error: 'Signature verification failed' },
-        { status: 401 }
-      );
-    }
+    // Parse and verify the SIWE message (domain, chain, expiry and signature)
+    const siwe = verifySiweMessage(message, signature, {
+      domain: getAllowedSiweDomains(),
+      address: normalizedWallet,
+      chainIds: getSupportedChainIds()
+    });
 
-    // Check timestamp (5 minutes tolerance)
-    const currentTime = Math.floor(Date.now() / 1000);
-    if (currentTime - timestamp > 300) {
+    if (!siwe.isValid || !siwe.fields) {
       return NextResponse.json(
-        { error: 'Signature expired' },
+        { error: siwe.error || 'Signature verification failed' },
         { status: 401 }
       );
     }
 
+    // Linked wallets sign in to the account of their primary wallet
+    const accountWallet = await resolveAccountWallet(normalizedWallet);
+
     // Get user from database
-    const userDoc = await adminDb.collection('users').doc(normalizedWallet).get();
+    const userDoc = await adminDb.collection('users').doc(accountWallet).get();
     
     if (!userDoc.exists) {
       return NextResponse.json(
@@ -56,23 +51,51 @@ export async function POST(request: NextRequest) {
     }
 
     const userData = userDoc.data();
+
+    // Accounts disabled by staff or by the on-chain role sync cannot sign in
+    if (userData?.isActive === false) {
+      return NextResponse.json(
+        { error: 'This account has been disabled' },
+        { status: 403 }
+      );
+    }
     
-    // Check if message contains the correct wallet and role
-    if (!message.includes(normalizedWallet) || !message.includes(userData?.role || '')) {
+    // Check that the message was signed for the user's role
+    if (getSiweRole(siwe.fields) !== userData?.role) {
       return NextResponse.json(
         { error: 'Message content validation failed' },
         { status: 401 }
       );
     }
 
+    // Redeem the server-issued nonce (rejects unknown, expired or reused nonces)
+    const nonceResult = await consumeAuthNonce(siwe.fields.nonce, normalizedWallet, userData?.role, 'login');
+    if (!nonceResult.valid) {
+      return NextResponse.json(
+        { error: nonceResult.error || 'Invalid nonce' },
+        { status: 401 }
+      );
+    }
+
     // Update last login timestamp
-    await adminDb.collection('users').doc(normalizedWallet).update({
+    await adminDb.collection('users').doc(accountWallet).update({
       lastLoginAt: admin.firestore.FieldValue.serverTimestamp()
     });
 
+    // Track this device and bind the token to its session
+    const sessionId = await startSession(accountWallet, userData?.role, request, normalizedWallet);
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Failed to create session' },
+        { status: 500 }
+      );
+    }
+
     // Create custom token with user's role
-    const customToken = await createCustomToken(normalizedWallet, { 
-      role: userData?.role || 'user' 
+    const customToken = await createCustomToken(accountWallet, { 
+      role: userData?.role || 'user',
+      sid: sessionId,
+      signerWallet: normalizedWallet
     });
     
     if (!customToken) {
@@ -86,11 +109,13 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       customToken,
+      sessionId,
       role: userData?.role,
       user: {
-        wallet: normalizedWallet,
+        wallet: accountWallet,
+        signerWallet: normalizedWallet,
         role: userData?.role,
-        uid: normalizedWallet,
+        uid: accountWallet,
         lastLoginAt: new Date().toISOString()
       }
     });
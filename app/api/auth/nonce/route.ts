@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { createAuthNonce, AuthNoncePurpose } from '@/lib/firebase/auth';
+
+const VALID_PURPOSES: AuthNoncePurpose[] = ['login', 'register'];
+
+/**
+ * POST /api/auth/nonce
+ * Issues a single-use nonce that must be embedded in the signed login/register message
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { wallet, role, purpose } = await request.json();
+
+    // Validate required fields
+    if (!wallet || !role || !purpose) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (!ethers.isAddress(wallet)) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address' },
+        { status: 400 }
+      );
+    }
+
+    if (!VALID_PURPOSES.includes(purpose)) {
+      return NextResponse.json(
+        { error: 'Invalid nonce purpose' },
+        { status: 400 }
+      );
+    }
+
+    const authNonce = await createAuthNonce(wallet, role, purpose);
+
+    return NextResponse.json({
+      success: true,
+      ...authNonce
+    });
+
+  } catch (error) {
+    console.error('Nonce generation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
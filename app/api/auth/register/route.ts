@@ -1,15 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ethers } from 'ethers';
 import { adminDb } from '@/lib/firebase/admin';
-import { createCustomToken } from '@/lib/firebase/auth';
+import { createCustomToken, consumeAuthNonce } from '@/lib/firebase/auth';
+import { startSession } from '@/lib/firebase/sessions';
+import { getWalletLink } from '@/lib/firebase/wallet-links';
+import { verifySiweMessage, getSiweRole, getAllowedSiweDomains } from '@/lib/wallet/siwe';
+import { getSupportedChainIds } from '@/lib/wallet/connection';
+import { getOnChainRole, isRoleAuthConfigured, getRoleAuthConfig } from '@/lib/blockchain/roles';
+import { getServerProvider, getServerChainId } from '@/lib/blockchain/provider';
 import admin from 'firebase-admin';
 
+// Roles that can only be registered once they have been granted in the RoleAuth contract
+const ON_CHAIN_ROLES = ['staff', 'admin'];
+
 export async function POST(request: NextRequest) {
   try {
-    const { wallet, role, signature, message, nonce, timestamp } = await request.json();
+    const { wallet, role, signature, message } = await request.json();
 
     // Validate required fields
-    if (!wallet || !role || !signature || !message || !nonce || !timestamp) {
+    if (!wallet || !role || !signature || !message) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -17,7 +25,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate role
-    if (!['parent', 'pickup', 'staff'].includes(role)) {
+    if (!['parent', 'pickup', 'staff', 'admin'].includes(role)) {
       return NextResponse.json(
         { error: 'Invalid role' },
         { status: 400 }
@@ -27,39 +35,65 @@ export async function POST(request: NextRequest) {
     // Normalize wallet address
     const normalizedWallet = wallet.toLowerCase();
 
-    // Verify signature
-    try {
-      const recoveredAddress = ethers.verifyMessage(message, signature);
-      if (recoveredAddress.toLowerCase() !== normalizedWallet) {
-        return NextResponse.json(
-          { error: 'Invalid signature' },
-          { status: 401 }
-        );
-      }
-    } catch (error) {
+    // Parse and verify the SIWE message (domain, chain, expiry and signature)
+    const siwe = verifySiweMessage(message, signature, {
+      domain: getAllowedSiweDomains(),
+      address: normalizedWallet,
+      chainIds: getSupportedChainIds()
+    });
+
+    if (!siwe.isValid || !siwe.fields) {
       return NextResponse.json(
-        { error: 'Signature verification failed' },
+        { error: siwe.error || 'Signature verification failed' },
         { status: 401 }
       );
     }
 
-    // Check if message contains the correct wallet and role
-    if (!message.includes(normalizedWallet) || !message.includes(role)) {
+    // Check that the message was signed for the requested role
+    if (getSiweRole(siwe.fields) !== role) {
       return NextResponse.json(
         { error: 'Message content validation failed' },
         { status: 401 }
       );
     }
 
-    // Check timestamp (5 minutes tolerance)
-    const currentTime = Math.floor(Date.now() / 1000);
-    if (currentTime - timestamp > 300) {
+    // Redeem the server-issued nonce (rejects unknown, expired or reused nonces)
+    const nonceResult = await consumeAuthNonce(siwe.fields.nonce, normalizedWallet, role, 'register');
+    if (!nonceResult.valid) {
       return NextResponse.json(
-        { error: 'Signature expired' },
+        { error: nonceResult.error || 'Invalid nonce' },
         { status: 401 }
       );
     }
 
+    // Privileged roles must be granted on chain before they can be registered
+    if (ON_CHAIN_ROLES.includes(role)) {
+      const roleAuthConfig = getRoleAuthConfig(getServerChainId());
+
+      if (!isRoleAuthConfigured(roleAuthConfig)) {
+        return NextResponse.json(
+          { error: 'On-chain role registry is not configured' },
+          { status: 403 }
+        );
+      }
+
+      try {
+        const onChainRole = await getOnChainRole(getServerProvider(), normalizedWallet, roleAuthConfig);
+        if (onChainRole !== role) {
+          return NextResponse.json(
+            { error: `The ${role} role has not been granted to this wallet on chain` },
+            { status: 403 }
+          );
+        }
+      } catch (error) {
+        console.error('Failed to read on-chain role:', error);
+        return NextResponse.json(
+          { error: 'Unable to verify on-chain role' },
+          { status: 503 }
+        );
+      }
+    }
+
     // Check if user already exists
     const userDoc = await adminDb.collection('users').doc(normalizedWallet).get();
     if (userDoc.exists) {
@@ -69,6 +103,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A linked wallet signs in to its primary account instead
+    const walletLink = await getWalletLink(normalizedWallet);
+    if (walletLink?.status === 'active') {
+      return NextResponse.json(
+        { error: 'This wallet is linked to an existing account' },
+        { status: 409 }
+      );
+    }
+
     // Create user in Firestore
     const userData = {
       wallet: normalizedWallet,
@@ -80,8 +123,17 @@ export async function POST(request: NextRequest) {
 
     await adminDb.collection('users').doc(normalizedWallet).set(userData);
 
+    // Track this device and bind the token to its session
+    const sessionId = await startSession(normalizedWallet, role, request);
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Failed to create session' },
+        { status: 500 }
+      );
+    }
+
     // Create custom token
-    const customToken = await createCustomToken(normalizedWallet, { role });
+    const customToken = await createCustomToken(normalizedWallet, { role, sid: sessionId });
     
     if (!customToken) {
       return NextResponse.json(
@@ -93,6 +145,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       customToken,
+      sessionId,
       user: {
         wallet: normalizedWallet,
         role: role,
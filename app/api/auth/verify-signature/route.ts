@@ -1,14 +1,24 @@
 /**
  * Verify Signature API Endpoint
- * Handles server-side signature verification for authorization messages
+ * Handles server-side signature verification for authorization messages,
+ * both EIP-712 typed data and legacy text signatures
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifySignature, validateAuthorizationMessage } from '../../../../lib/wallet/signature';
-import { isValidAddress } from '../../../../lib/wallet/connection';
+import {
+  verifySignature,
+  validateAuthorizationMessage,
+  isPickupAuthorizationTypedData,
+  verifyPickupAuthorizationSignature
+} from '../../../../lib/wallet/signature';
+import { isValidAddress, getSupportedChainIds } from '../../../../lib/wallet/connection';
+import { isSiweMessage, verifySiweMessage, getAllowedSiweDomains } from '../../../../lib/wallet/siwe';
+import type { SiweMessageFields, PickupAuthorizationTypedData } from '../../../../types/wallet';
 
 interface VerifySignatureRequest {
-  message: string;
+  message?: string;
+  typedData?: PickupAuthorizationTypedData;
+  chainId?: number;
   signature: string;
   expectedAddress: string;
 }
@@ -17,6 +27,8 @@ interface VerifySignatureResponse {
   success: boolean;
   isValid?: boolean;
   recoveredAddress?: string;
+  siwe?: SiweMessageFields;
+  typedData?: PickupAuthorizationTypedData;
   error?: string;
   timestamp?: number;
 }
@@ -24,12 +36,12 @@ interface VerifySignatureResponse {
 export async function POST(request: NextRequest): Promise<NextResponse<VerifySignatureResponse>> {
   try {
     const body = await request.json() as VerifySignatureRequest;
-    const { message, signature, expectedAddress } = body;
+    const { message, typedData, chainId, signature, expectedAddress } = body;
 
     // Validate input parameters
-    if (!message || !signature || !expectedAddress) {
+    if ((!message && !typedData) || !signature || !expectedAddress) {
       return NextResponse.json(
-        { success: false, error: 'Missing required parameters: message, signature, or expectedAddress' },
+        { success: false, error: 'Missing required parameters: message or typedData, signature, or expectedAddress' },
         { status: 400 }
       );
     }
@@ -43,6 +55,65 @@ export async function POST(request: NextRequest): Promise<NextResponse<VerifySig
 
     const normalizedExpectedAddress = expectedAddress.toLowerCase();
 
+    // EIP-712 pickup authorizations are bound to a supported chain
+    if (typedData) {
+      if (!isPickupAuthorizationTypedData(typedData)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid pickup authorization format' },
+          { status: 400 }
+        );
+      }
+
+      if (!chainId || !getSupportedChainIds().includes(chainId)) {
+        return NextResponse.json(
+          { success: false, error: 'Missing or unsupported chainId' },
+          { status: 400 }
+        );
+      }
+
+      const typedResult = verifyPickupAuthorizationSignature({
+        typedData,
+        signature,
+        expectedAddress: normalizedExpectedAddress,
+        chainId
+      });
+      const parentMatches = typedData.parent.toLowerCase() === normalizedExpectedAddress;
+
+      return NextResponse.json({
+        success: true,
+        isValid: typedResult.isValid && parentMatches,
+        recoveredAddress: typedResult.recoveredAddress,
+        typedData,
+        error: typedResult.error || (parentMatches ? undefined : 'Parent wallet does not match expected address'),
+        timestamp: Date.now()
+      });
+    }
+
+    if (!message) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required parameter: message' },
+        { status: 400 }
+      );
+    }
+
+    // Sign-In With Ethereum messages are validated against this server's domain and chains
+    if (isSiweMessage(message)) {
+      const siweResult = verifySiweMessage(message, signature, {
+        domain: getAllowedSiweDomains(),
+        address: normalizedExpectedAddress,
+        chainIds: getSupportedChainIds()
+      });
+
+      return NextResponse.json({
+        success: true,
+        isValid: siweResult.isValid,
+        recoveredAddress: siweResult.recoveredAddress,
+        siwe: siweResult.fields,
+        error: siweResult.error,
+        timestamp: Date.now()
+      });
+    }
+
     // Validate authorization message format if applicable
     if (message.includes('KidGuard - Child Pickup Authorization')) {
       if (!validateAuthorizationMessage(message)) {
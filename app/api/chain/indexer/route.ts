@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+import { getChainIndexerStatus, runChainIndexer } from '@/lib/firebase/chain-indexer';
+
+const POLICY = {
+  GET: { roles: ['admin'] },
+  POST: { roles: ['admin'] },
+} satisfies RoutePolicyTable;
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/chain/indexer
+ * Last indexed block and recent drift between the chain and our records
+ */
+export const GET = withAuth(POLICY.GET, async () => {
+  try {
+    const status = await getChainIndexerStatus();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        chainId: status.chainId,
+        lastBlock: status.lastBlock,
+        updatedAt: status.updatedAt?.toISOString() || null,
+        drift: status.drift.map(record => ({
+          id: record.id,
+          kind: record.kind,
+          ref: record.ref,
+          detail: record.detail,
+          blockNumber: record.blockNumber,
+          transactionHash: record.transactionHash || null,
+          detectedAt: record.detectedAt?.toISOString() || null,
+        })),
+      },
+    });
+
+  } catch (error) {
+    console.error('Error fetching chain indexer status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/chain/indexer
+ * Indexes PickupSecurity events up to the confirmed head. Meant to be called on a schedule.
+ */
+export const POST = withAuth(POLICY.POST, async () => {
+  try {
+    const result = await runChainIndexer();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    console.error('Error indexing chain events:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
 
-export async function GET(request: NextRequest) {
+const POLICY = {
+  GET: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
+
+export const GET = withAuth(POLICY.GET, async (request) => {
   try {
     console.log('🔍 Debug: Checking staff collection...');
     
@@ -41,4 +46,4 @@ export async function GET(request: NextRequest) {
       stack: error instanceof Error ? error.stack : undefined
     }, { status: 500 });
   }
-}
+});
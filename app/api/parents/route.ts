@@ -1,6 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
 import admin from 'firebase-admin';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['staff'] },
+  POST: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
 
 // TypeScript interfaces
 interface ParentData {
@@ -18,7 +24,7 @@ interface ParentDocument extends ParentData {
 }
 
 // GET method - Read all parents from the 'parents' collection
-export async function GET(request: NextRequest) {
+export const GET = withAuth(POLICY.GET, async (request) => {
   try {
     // Get query parameters for filtering
     const { searchParams } = new URL(request.url);
@@ -92,10 +98,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST method - Add a new parent to the 'parents' collection
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request) => {
   try {
     const { name, contactNumber, studentIds, walletAddress } = await request.json();
 
@@ -226,4 +232,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { getStudentById, getUserById } from '@/lib/firebase/server-collections';
+import { isValidPhotoOwnerId, loadPhoto, savePhoto, getPhotoUrl, PHOTO_SETTINGS, type PhotoOwnerKind } from '@/lib/firebase/photos';
+import { withAuth, forbiddenResponse, isRoleAllowed, AuthContext, RoutePolicy, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+export const runtime = 'nodejs';
+
+const POLICY = {
+  GET: { roles: ['parent', 'pickup', 'staff'], trackActivity: false },
+  PUT: { roles: ['parent', 'pickup', 'staff'] },
+} satisfies RoutePolicyTable;
+
+// Staff can view and replace every photo
+const MANAGE_OTHERS_POLICY: RoutePolicy = { roles: ['staff'] };
+
+const PHOTO_KINDS: PhotoOwnerKind[] = ['user', 'student'];
+
+/**
+ * Resolves the photo owner from the route, or null when it does not exist
+ */
+const getPhotoOwner = async (kind: string, rawId: string) => {
+  if (!PHOTO_KINDS.includes(kind as PhotoOwnerKind) || !isValidPhotoOwnerId(rawId)) {
+    return null;
+  }
+
+  if (kind === 'user') {
+    const user = await getUserById(rawId);
+    return user ? { kind: 'user' as const, id: user.walletAddress, parentId: null } : null;
+  }
+  const student = await getStudentById(rawId);
+  return student ? { kind: 'student' as const, id: student.id, parentId: student.parentId } : null;
+};
+
+/**
+ * Whether the caller may see a photo: staff, the user themself, a parent for their pickup
+ * persons, and a parent for their own children
+ */
+const canViewPhoto = async (
+  auth: AuthContext,
+  owner: { kind: PhotoOwnerKind; id: string; parentId: string | null }
+): Promise<boolean> => {
+  if (isRoleAllowed(auth.role, MANAGE_OTHERS_POLICY)) {
+    return true;
+  }
+  if (owner.kind === 'student') {
+    return owner.parentId === auth.wallet;
+  }
+  if (owner.id === auth.wallet) {
+    return true;
+  }
+  if (auth.role !== 'parent') {
+    return false;
+  }
+  const parent = await getUserById(auth.wallet);
+  return !!parent?.pickup?.[owner.id];
+};
+
+/**
+ * Whether the caller may replace a photo: staff, the user themself, and a parent for their own
+ * children. A pickup person's photo is shared by every family that delegates to them and is what
+ * staff check at pickup, so the families cannot replace it.
+ */
+const canChangePhoto = (
+  auth: AuthContext,
+  owner: { kind: PhotoOwnerKind; id: string; parentId: string | null }
+): boolean => {
+  if (isRoleAllowed(auth.role, MANAGE_OTHERS_POLICY)) {
+    return true;
+  }
+  return owner.kind === 'student' ? owner.parentId === auth.wallet : owner.id === auth.wallet;
+};
+
+/**
+ * GET /api/photos/[kind]/[id]
+ * The current photo of a user or student (kind is 'user' or 'student'), as the image itself
+ */
+export const GET = withAuth<{ kind: string; id: string }>(POLICY.GET, async (request, auth, context) => {
+  try {
+    const { kind, id } = await context.params;
+    const owner = await getPhotoOwner(kind, id);
+
+    if (!owner) {
+      return NextResponse.json(
+        { error: 'Photo owner not found' },
+        { status: 404 }
+      );
+    }
+    if (!(await canViewPhoto(auth, owner))) {
+      return forbiddenResponse('You cannot view this photo');
+    }
+
+    const photo = await loadPhoto(owner.kind, owner.id);
+    if (!photo) {
+      return NextResponse.json(
+        { error: 'No photo on file' },
+        { status: 404 }
+      );
+    }
+
+    // Versioned URLs (?v=, see getPhotoUrl) never go stale; unversioned ones are not cached
+    const versioned = new URL(request.url).searchParams.has('v');
+    return new Response(Buffer.from(photo.content), {
+      headers: {
+        'Content-Type': photo.contentType,
+        'Cache-Control': versioned ? 'private, max-age=86400' : 'no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error fetching photo:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/photos/[kind]/[id]
+ * Upload a new photo as multipart form data with a `photo` file (JPEG, PNG or WebP, at most 2 MB)
+ */
+export const PUT = withAuth<{ kind: string; id: string }>(POLICY.PUT, async (request, auth, context) => {
+  try {
+    const { kind, id } = await context.params;
+    const owner = await getPhotoOwner(kind, id);
+
+    if (!owner) {
+      return NextResponse.json(
+        { error: 'Photo owner not found' },
+        { status: 404 }
+      );
+    }
+    if (!canChangePhoto(auth, owner)) {
+      return forbiddenResponse('You cannot change this photo');
+    }
+
+    const form = await request.formData();
+    const file = form.get('photo');
+    if (!(file instanceof Blob)) {
+      return NextResponse.json(
+        { error: 'A photo file is required' },
+        { status: 400 }
+      );
+    }
+    if (file.size > PHOTO_SETTINGS.MAX_SIZE) {
+      return NextResponse.json(
+        { error: 'Photo must be at most 2 MB' },
+        { status: 413 }
+      );
+    }
+
+    const result = await savePhoto(owner.kind, owner.id, new Uint8Array(await file.arrayBuffer()), auth.wallet);
+    if (!result.success || !result.photo) {
+      return NextResponse.json(
+        { error: result.error || 'Invalid photo' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      photo: {
+        url: getPhotoUrl(owner.kind, owner.id, result.photo),
+        contentType: result.photo.contentType,
+        updatedAt: result.photo.updatedAt,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error uploading photo:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
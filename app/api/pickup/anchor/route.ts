@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+import {
+  runPickupBatchAnchoring,
+  retryPickupBatch,
+  getRecentPickupBatches,
+  countUnanchoredPickups
+} from '@/lib/firebase/pickup-batches';
+
+const POLICY = {
+  GET: { roles: ['staff'] },
+  POST: { roles: ['admin'] },
+} satisfies RoutePolicyTable;
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/pickup/anchor
+ * Recent Merkle batches and the number of pickups waiting to be batched
+ */
+export const GET = withAuth(POLICY.GET, async () => {
+  try {
+    const [batches, unanchored] = await Promise.all([
+      getRecentPickupBatches(),
+      countUnanchoredPickups(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        unanchored,
+        batches: batches.map(batch => ({
+          id: batch.id,
+          status: batch.status,
+          merkleRoot: batch.merkleRoot,
+          eventCount: batch.eventCount,
+          ipfsHash: batch.ipfsHash || null,
+          chainId: batch.chainId,
+          batchNumber: batch.batchNumber ?? null,
+          txHash: batch.txHash || null,
+          attempts: batch.attempts,
+          lastError: batch.lastError || null,
+          nextAttemptAt: batch.nextAttemptAt?.toISOString() || null,
+          createdAt: batch.createdAt?.toISOString() || null,
+        })),
+      },
+    });
+
+  } catch (error) {
+    console.error('Error fetching pickup batches:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/pickup/anchor
+ * Runs the Merkle batch anchoring job. Meant to be called on a schedule;
+ * pass { retryBatchId } to re-enable a batch that ran out of attempts first.
+ */
+export const POST = withAuth(POLICY.POST, async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (body?.retryBatchId) {
+      if (!(await retryPickupBatch(String(body.retryBatchId)))) {
+        return NextResponse.json(
+          { error: 'Only failed batches can be retried' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await runPickupBatchAnchoring();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    console.error('Error anchoring pickup batches:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
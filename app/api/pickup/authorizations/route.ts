@@ -1,6 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
 import admin from 'firebase-admin';
+import { withAuth, forbiddenResponse, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['parent', 'pickup', 'staff'] },
+  POST: { roles: ['parent'] },
+} satisfies RoutePolicyTable;
 
 // TypeScript interfaces
 interface PickupAuthorizationData {
@@ -20,13 +26,14 @@ interface PickupAuthorizationDocument extends PickupAuthorizationData {
 }
 
 // GET method - Read all pickup authorizations from the 'pickup_authorizations' collection
-export async function GET(request: NextRequest) {
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
   try {
     // Get query parameters for filtering
     const { searchParams } = new URL(request.url);
-    const parentId = searchParams.get('parentId');
+    // Parents only see authorizations they granted, pickup persons only those granted to them
+    const parentId = auth.role === 'parent' ? auth.wallet : searchParams.get('parentId');
     const studentId = searchParams.get('studentId');
-    const authorizedPickupId = searchParams.get('authorizedPickupId');
+    const authorizedPickupId = auth.role === 'pickup' ? auth.wallet : searchParams.get('authorizedPickupId');
     const isActive = searchParams.get('isActive');
     const limit = parseInt(searchParams.get('limit') || '100');
     const offset = parseInt(searchParams.get('offset') || '0');
@@ -106,10 +113,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST method - Add a new pickup authorization to the 'pickup_authorizations' collection
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request, auth) => {
   try {
     const { 
       authorizedPickupId, 
@@ -180,6 +187,11 @@ export async function POST(request: NextRequest) {
     const normalizedAuthorizedPickupId = authorizedPickupId.toLowerCase();
     const normalizedParentId = parentId.toLowerCase();
 
+    // Parents can only create authorizations on their own behalf
+    if (normalizedParentId !== auth.wallet) {
+      return forbiddenResponse('Parent ID does not match the authenticated wallet');
+    }
+
     // Check if parent exists in users collection
     const parentDoc = await adminDb.collection('users').doc(normalizedParentId).get();
     if (!parentDoc.exists) {
@@ -257,4 +269,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
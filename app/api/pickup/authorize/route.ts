@@ -1,47 +1,62 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { ethers } from 'ethers';
 import { 
   addPickupPersonToParent,
-  removePickupPersonFromParent,
   getUserById
 } from '@/lib/firebase/server-collections';
-import { verifyIdToken } from '@/lib/firebase/auth';
+import {
+  requestPickupRevocation,
+  recordPickupRevocationTransaction,
+  syncPickupRevocations
+} from '@/lib/firebase/pickup-revocations';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+import type { PickupRevocationMethod } from '@/types/database';
+
+const POLICY = {
+  GET: { roles: ['parent'] },
+  POST: { roles: ['parent'] },
+  PATCH: { roles: ['parent'] },
+  DELETE: { roles: ['parent'] },
+} satisfies RoutePolicyTable;
+
+const REVOCATION_METHODS: PickupRevocationMethod[] = ['parent', 'relayer'];
 
 /**
  * POST /api/pickup/authorize
  * Adds a pickup person authorization for a parent
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request, auth) => {
   try {
     const body = await request.json();
-    const { pickupWallet, relationship, startDate, endDate, idToken } = body;
+    const { pickupWallet, relationship, startDate, endDate, authHash } = body;
 
     // Validate required fields
-    if (!pickupWallet || !relationship || !startDate || !endDate || !idToken) {
+    if (!pickupWallet || !relationship || !startDate || !endDate) {
       return NextResponse.json(
-        { error: 'All fields are required: pickupWallet, relationship, startDate, endDate, idToken' },
+        { error: 'All fields are required: pickupWallet, relationship, startDate, endDate' },
         { status: 400 }
       );
     }
 
-    // Verify the parent's Firebase ID token
-    const decodedToken = await verifyIdToken(idToken);
-    if (!decodedToken) {
+    // Optional PickupSecurity authorization created for this person
+    if (authHash !== undefined && !ethers.isHexString(authHash, 32)) {
       return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
+        { error: 'authHash must be a 32-byte hex string' },
+        { status: 400 }
       );
     }
 
-    // Check if user is a parent
-    if (decodedToken.role !== 'parent') {
+    const parentWallet = auth.wallet;
+
+    // Re-adding would drop the revocation that is still being confirmed on chain
+    const parentUser = await getUserById(parentWallet);
+    if (parentUser?.pickup?.[pickupWallet.toLowerCase()]?.revocation?.status === 'pending') {
       return NextResponse.json(
-        { error: 'Only parents can authorize pickup persons' },
-        { status: 403 }
+        { error: 'This pickup person is still being revoked on chain' },
+        { status: 409 }
       );
     }
 
-    const parentWallet = decodedToken.wallet;
-
     // Validate date range
     const start = new Date(startDate);
     const end = new Date(endDate);
@@ -67,6 +82,7 @@ export async function POST(request: NextRequest) {
       relationship,
       startDate,
       endDate,
+      ...(authHash ? { authHash: authHash.toLowerCase() } : {}),
     });
 
     if (!success) {
@@ -94,68 +110,61 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
- * DELETE /api/pickup/authorize
- * Removes a pickup person authorization for a parent
+ * DELETE /api/pickup/authorize?pickupWallet=0x...&method=parent|relayer
+ * Revokes a pickup person. If they have an active authorization on chain, they are marked
+ * as pending revocation until revokeAuthorization is confirmed: sent by the relayer, or by
+ * the parent's wallet (who then reports each transaction through PATCH).
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(POLICY.DELETE, async (request, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const pickupWallet = searchParams.get('pickupWallet');
-    const authHeader = request.headers.get('authorization');
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Authorization header required' },
-        { status: 401 }
-      );
-    }
-
-    const idToken = authHeader.substring(7);
+    const method = searchParams.get('method') as PickupRevocationMethod | null;
 
     // Validate required fields
-    if (!pickupWallet || !idToken) {
+    if (!pickupWallet) {
       return NextResponse.json(
-        { error: 'Pickup wallet and authorization token are required' },
+        { error: 'Pickup wallet is required' },
         { status: 400 }
       );
     }
 
-    // Verify the parent's Firebase ID token
-    const decodedToken = await verifyIdToken(idToken);
-    if (!decodedToken) {
+    if (method && !REVOCATION_METHODS.includes(method)) {
       return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is a parent
-    if (decodedToken.role !== 'parent') {
-      return NextResponse.json(
-        { error: 'Only parents can revoke pickup authorizations' },
-        { status: 403 }
+        { error: 'method must be parent or relayer' },
+        { status: 400 }
       );
     }
 
-    const parentWallet = decodedToken.wallet;
+    const parentWallet = auth.wallet;
 
-    // Remove pickup person from parent's authorized list
-    const success = await removePickupPersonFromParent(parentWallet, pickupWallet);
+    const result = await requestPickupRevocation(parentWallet, pickupWallet, method || undefined);
 
-    if (!success) {
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'Failed to remove pickup authorization' },
-        { status: 500 }
+        { error: result.error || 'Failed to remove pickup authorization' },
+        { status: result.error === 'Pickup person not found' ? 404 : 500 }
       );
     }
 
+    if (result.removed) {
+      return NextResponse.json({
+        success: true,
+        message: 'Pickup authorization revoked successfully',
+        data: { removed: true },
+      });
+    }
+
     return NextResponse.json({
       success: true,
-      message: 'Pickup authorization revoked successfully',
-    });
+      message: result.revocation?.method === 'parent'
+        ? 'Sign the revocation transaction in your wallet to finish revoking'
+        : 'Revocation submitted on chain',
+      data: { removed: false, revocation: result.revocation },
+    }, { status: 202 });
 
   } catch (error) {
     console.error('Error revoking pickup authorization:', error);
@@ -164,35 +173,56 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
- * GET /api/pickup/authorize
- * Gets authorized pickup persons for a parent
+ * PATCH /api/pickup/authorize
+ * Records a revokeAuthorization transaction the parent sent from their own wallet
  */
-export async function GET(request: NextRequest) {
+export const PATCH = withAuth(POLICY.PATCH, async (request, auth) => {
   try {
-    const authHeader = request.headers.get('authorization');
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const { pickupWallet, authHash, txHash } = await request.json();
+
+    if (!pickupWallet || !authHash || !txHash) {
       return NextResponse.json(
-        { error: 'Authorization header required' },
-        { status: 401 }
+        { error: 'pickupWallet, authHash and txHash are required' },
+        { status: 400 }
       );
     }
 
-    const idToken = authHeader.substring(7);
+    const result = await recordPickupRevocationTransaction(auth.wallet, pickupWallet, authHash, txHash);
 
-    // Verify the parent's Firebase ID token
-    const decodedToken = await verifyIdToken(idToken);
-    if (!decodedToken) {
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
+        { error: result.error || 'Failed to record revocation transaction' },
+        { status: 400 }
       );
     }
 
-    const parentWallet = decodedToken.wallet;
+    return NextResponse.json({
+      success: true,
+      data: { revocation: result.revocation },
+    });
+
+  } catch (error) {
+    console.error('Error recording revocation transaction:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * GET /api/pickup/authorize
+ * Gets authorized pickup persons for a parent
+ */
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
+  try {
+    const parentWallet = auth.wallet;
+
+    // Settle revocations whose transactions have been mined since the last look
+    await syncPickupRevocations(parentWallet);
 
     // Get parent's user data including pickup authorizations
     const parentUser = await getUserById(parentWallet);
@@ -210,7 +240,7 @@ export async function GET(request: NextRequest) {
       const now = new Date();
       const startDate = new Date(person.startDate);
       const endDate = new Date(person.endDate);
-      const isActive = now >= startDate && now <= endDate;
+      const isActive = now >= startDate && now <= endDate && !person.revocation;
       
       return {
         walletAddress: wallet,
@@ -218,6 +248,8 @@ export async function GET(request: NextRequest) {
         startDate: person.startDate,
         endDate: person.endDate,
         isActive,
+        authHash: person.authHash || null,
+        revocation: person.revocation || null,
       };
     });
 
@@ -238,4 +270,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
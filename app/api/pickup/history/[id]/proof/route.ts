@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPickupHistoryById } from '@/lib/firebase/server-collections';
+import { getPickupSecurityConfig } from '@/lib/blockchain/contract';
+import { getServerChainId } from '@/lib/blockchain/provider';
+import { createPickupProof } from '@/lib/blockchain/verification';
+import type { PickupEventProof } from '@/lib/blockchain/types';
+
+/**
+ * GET /api/pickup/history/[id]/proof
+ * Public: returns the event preimage, leaf hash and Merkle proof of one pickup so
+ * anyone holding the record ID can check it against the chain themselves
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const record = await getPickupHistoryById(id);
+
+    // Pickups recorded before on-chain anchoring have nothing to prove
+    if (!record || !record.pickupEvent) {
+      return NextResponse.json(
+        { error: 'No anchored pickup event found for this record' },
+        { status: 404 }
+      );
+    }
+
+    const eventData = { ...record.pickupEvent, eventHash: record.blockchainHash };
+    const proof = record.merkleProof || [];
+
+    // Never hand out a proof that does not match its own batch root
+    if (record.merkleRoot) {
+      const check = createPickupProof(eventData, {
+        eventHash: record.blockchainHash,
+        batchNumber: record.batchNumber ?? 0,
+        proof,
+        merkleRoot: record.merkleRoot,
+      });
+      if (!check.isValid) {
+        console.error(`Stored proof for pickup ${id} does not match its batch root`);
+        return NextResponse.json(
+          { error: 'Stored proof is inconsistent' },
+          { status: 500 }
+        );
+      }
+    }
+
+    const chainId = record.chainId ?? getServerChainId();
+    const data: PickupEventProof = {
+      historyId: record.id,
+      event: record.pickupEvent,
+      eventHash: record.blockchainHash,
+      anchorMode: record.anchorMode || 'batch',
+      anchorStatus: record.anchorStatus || 'queued',
+      chainId: record.anchorStatus === 'confirmed' ? chainId : null,
+      contractAddress: record.anchorStatus === 'confirmed' ? getPickupSecurityConfig(chainId).contractAddress : null,
+      txHash: record.contractTxHash || null,
+      batchNumber: record.batchNumber ?? null,
+      merkleRoot: record.merkleRoot || null,
+      proof,
+    };
+
+    return NextResponse.json({ success: true, data });
+
+  } catch (error) {
+    console.error('Error building pickup proof:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
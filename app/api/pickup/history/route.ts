@@ -1,12 +1,37 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getAllPickupHistory, getStudentById } from '@/lib/firebase/server-collections';
+import { NextResponse } from 'next/server';
+import {
+  getAllPickupHistory,
+  getPickupHistoryByPickupWallet,
+  getPickupHistoryByStudent,
+  getStudentById,
+  getStudentsByParent
+} from '@/lib/firebase/server-collections';
+import type { PickupHistory } from '@/types/database';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
 
-export async function GET(request: NextRequest) {
-  try {
-    // Optional filters (not yet applied): wallet, limit, date range
-    // const searchParams = request.nextUrl.searchParams;
+const POLICY = {
+  GET: { roles: ['parent', 'pickup', 'staff'] },
+} satisfies RoutePolicyTable;
 
-    const rawHistory = await getAllPickupHistory();
+/**
+ * Loads the pickups a caller may see: staff every pickup, parents their children's and
+ * pickup persons their own
+ */
+const getVisiblePickupHistory = async (role: string, wallet: string): Promise<PickupHistory[]> => {
+  if (role === 'pickup') {
+    return getPickupHistoryByPickupWallet(wallet);
+  }
+  if (role === 'parent') {
+    const students = await getStudentsByParent(wallet);
+    const histories = await Promise.all(students.map(student => getPickupHistoryByStudent(student.id)));
+    return histories.flat().sort((a, b) => b.time.getTime() - a.time.getTime());
+  }
+  return getAllPickupHistory();
+};
+
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
+  try {
+    const rawHistory = await getVisiblePickupHistory(auth.role, auth.wallet);
 
     // Enrich with student names and normalized ISO time
     const history = await Promise.all(
@@ -29,11 +54,14 @@ export async function GET(request: NextRequest) {
           id: rec.id,
           blockchainHash: rec.blockchainHash,
           contractTxHash: rec.contractTxHash,
+          anchorStatus: rec.anchorStatus,
           pickupBy: rec.pickupBy,
           staffId: rec.staffId,
           studentId: rec.studentId,
           studentName: student?.name || rec.studentId,
+          parentId: student?.parentId || '',
           time: isoTime,
+          evidence: rec.evidence || null,
         };
       })
     );
@@ -46,4 +74,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { 
   createAuthorizationRecord,
   getUserById,
@@ -8,38 +8,38 @@ import {
   generateQRHash,
   generateQRCodeId,
   createQRCodeContent,
+  createSignedQRCode,
   encodeQRContent,
-  calculateExpirationTime
+  calculateExpirationTime,
+  isQRSigningConfigured
 } from '@/lib/firebase/qr-utils';
-import { verifyIdToken, validatePickupAuthorization } from '@/lib/firebase/auth';
+import { getQRSettings, getUserSchoolId } from '@/lib/firebase/qr-settings';
+import { generateRotationSecret } from '@/lib/firebase/qr-totp';
+import { validatePickupAuthorization } from '@/lib/firebase/auth';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  POST: { roles: ['parent', 'pickup'] },
+} satisfies RoutePolicyTable;
 
 /**
  * POST /api/qr/generate
  * Generates a new QR code for pickup authorization
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request, auth) => {
   try {
     const body = await request.json();
-    const { studentId, idToken } = body;
+    const { studentId } = body;
 
     // Validate required fields
-    if (!studentId || !idToken) {
+    if (!studentId) {
       return NextResponse.json(
-        { error: 'Student ID and ID token are required' },
+        { error: 'Student ID is required' },
         { status: 400 }
       );
     }
 
-    // Verify the user's Firebase ID token
-    const decodedToken = await verifyIdToken(idToken);
-    if (!decodedToken) {
-      return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
-      );
-    }
-
-    const pickupWallet = decodedToken.wallet;
+    const pickupWallet = auth.wallet;
 
     // Get pickup person user data
     const pickupUser = await getUserById(pickupWallet);
@@ -73,11 +73,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The student's school is that of their parent
+    const schoolId = await getUserSchoolId(student.parentId);
+    if (!schoolId) {
+      return NextResponse.json(
+        { error: 'The student is not assigned to a valid school' },
+        { status: 400 }
+      );
+    }
+
     // Generate QR code components
     const qrCodeId = generateQRCodeId();
     const timestamp = Date.now();
     const hash = generateQRHash(studentId, pickupWallet, timestamp);
-    const expiresAt = calculateExpirationTime(5); // 5 minutes
+    const settings = await getQRSettings(schoolId);
+    const expiresAt = calculateExpirationTime(settings.expiryMinutes);
+    // The pickup device derives a new code from this secret every rotation interval
+    const rotationSecret = settings.rotationSeconds > 0 ? generateRotationSecret() : null;
 
     // Create authorization record
     const authorizationId = await createAuthorizationRecord({
@@ -89,6 +101,11 @@ export async function POST(request: NextRequest) {
       expiresAt,
       isUsed: false,
       isActive: true,
+      ...(rotationSecret && {
+        rotationSecret,
+        rotationSeconds: settings.rotationSeconds,
+        rotationDriftSteps: settings.driftSteps,
+      }),
     });
 
     if (!authorizationId) {
@@ -98,9 +115,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create QR code content
-    const qrContent = createQRCodeContent(authorizationId, hash);
-    const qrCodeData = encodeQRContent(qrContent);
+    // Create QR code content: a signed token staff can check offline, or the legacy JSON
+    const qrCodeData = isQRSigningConfigured()
+      ? createSignedQRCode(authorizationId, { hash, studentId, pickupWallet, expiresAt })
+      : encodeQRContent(createQRCodeContent(authorizationId, hash));
 
     return NextResponse.json({
       success: true,
@@ -110,6 +128,9 @@ export async function POST(request: NextRequest) {
         studentName: student.name,
         expiresAt: expiresAt.toISOString(),
         relationship: authResult.relationship,
+        rotation: rotationSecret
+          ? { authorizationId, secret: rotationSecret, intervalSeconds: settings.rotationSeconds }
+          : null,
       },
     });
 
@@ -120,4 +141,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
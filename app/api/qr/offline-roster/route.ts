@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { buildOfflineRoster } from '@/lib/firebase/offline-gate';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
+
+/**
+ * GET /api/qr/offline-roster
+ * Students, their authorized pickup wallets and the QR public key, cached by staff
+ * devices so the gate keeps working while the school is offline
+ */
+export const GET = withAuth(POLICY.GET, async () => {
+  try {
+    const roster = await buildOfflineRoster();
+
+    return NextResponse.json({
+      success: true,
+      data: roster,
+    });
+
+  } catch (error) {
+    console.error('Error building offline roster:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getQRPublicKeyInfo } from '@/lib/firebase/qr-utils';
+
+/**
+ * GET /api/qr/public-key
+ * Public: the key signed QR codes are checked against. Staff devices cache it so they can
+ * validate codes at the gate while offline.
+ */
+export async function GET() {
+  try {
+    const key = getQRPublicKeyInfo();
+
+    if (!key) {
+      return NextResponse.json({ success: true, enabled: false });
+    }
+
+    return NextResponse.json(
+      { success: true, enabled: true, ...key },
+      { headers: { 'Cache-Control': 'public, max-age=3600' } }
+    );
+
+  } catch (error) {
+    console.error('Error loading QR public key:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { withAuth, forbiddenResponse, RoutePolicyTable } from '@/lib/firebase/api-auth';
+import { getQRSettings, getUserSchoolId, updateQRSettings, validateQRSettings } from '@/lib/firebase/qr-settings';
+import type { QRSettings } from '@/types/database';
+
+const POLICY = {
+  GET: { roles: ['parent', 'pickup', 'staff'], trackActivity: false },
+  PUT: { roles: ['admin'] },
+} satisfies RoutePolicyTable;
+
+const serializeSettings = (settings: QRSettings) => ({
+  expiryMinutes: settings.expiryMinutes,
+  rotationSeconds: settings.rotationSeconds,
+  driftSteps: settings.driftSteps,
+  updatedAt: settings.updatedAt?.toISOString() || null,
+});
+
+const NO_SCHOOL_ERROR = 'No valid school is assigned to this account';
+
+/**
+ * GET /api/qr/settings
+ * The QR code expiry and rotation settings of the caller's school (see getUserSchoolId)
+ */
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
+  try {
+    const schoolId = await getUserSchoolId(auth.wallet);
+    if (!schoolId) {
+      return forbiddenResponse(NO_SCHOOL_ERROR);
+    }
+
+    const settings = await getQRSettings(schoolId);
+
+    return NextResponse.json({
+      success: true,
+      data: serializeSettings(settings),
+    });
+
+  } catch (error) {
+    console.error('Error fetching QR settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/qr/settings
+ * Updates the QR code settings of the admin's school: { expiryMinutes?, rotationSeconds?, driftSteps? }.
+ * Codes already issued keep the settings they were generated with.
+ */
+export const PUT = withAuth(POLICY.PUT, async (request, auth) => {
+  try {
+    const schoolId = await getUserSchoolId(auth.wallet);
+    if (!schoolId) {
+      return forbiddenResponse(NO_SCHOOL_ERROR);
+    }
+
+    const body = await request.json();
+    const updates: Partial<QRSettings> = {};
+    for (const key of ['expiryMinutes', 'rotationSeconds', 'driftSteps'] as const) {
+      if (body[key] !== undefined) {
+        updates[key] = body[key];
+      }
+    }
+
+    const current = await getQRSettings(schoolId);
+    const validationError = validateQRSettings({ ...current, ...updates });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const settings = await updateQRSettings(updates, auth.wallet, schoolId);
+
+    return NextResponse.json({
+      success: true,
+      data: serializeSettings(settings),
+    });
+
+  } catch (error) {
+    console.error('Error updating QR settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { Wallet } from 'ethers';
+import { adminDb } from '@/lib/firebase/admin';
+import { createAuthorizationRecord, createStudent, getAuthorizationRecordById } from '@/lib/firebase/server-collections';
+import { createQRCodeContent, encodeQRContent } from '@/lib/firebase/qr-utils';
+import type { AuthContext } from '@/lib/firebase/api-auth';
+import { POST } from './route';
+
+const STAFF_WALLETS = [Wallet.createRandom().address.toLowerCase(), Wallet.createRandom().address.toLowerCase()];
+
+// Each request is made by the staff wallet in its x-test-staff header, without a session
+vi.mock('@/lib/firebase/api-auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/firebase/api-auth')>()),
+  withAuth: (_policy: unknown, handler: (request: NextRequest, auth: AuthContext, context: unknown) => Promise<Response>) =>
+    (request: NextRequest, context: unknown) => handler(request, {
+      uid: 'staff',
+      wallet: request.headers.get('x-test-staff')!,
+      role: 'staff',
+      sessionId: 'test-session',
+      token: {} as AuthContext['token'],
+    }, context),
+}));
+
+const confirmPickup = (qrCodeData: string, staffWallet: string, options: object = { confirmPickup: true }) => POST(
+  new NextRequest('http://localhost/api/qr/verify', {
+    method: 'POST',
+    headers: { 'x-test-staff': staffWallet },
+    body: JSON.stringify({ qrCodeData, ...options }),
+  }),
+  { params: Promise.resolve({}) }
+);
+
+// Registers a student and a legacy (unsigned) QR code for their parent
+const createLegacyQRCode = async () => {
+  const studentId = `CH${Math.floor(Math.random() * 1e6)}`;
+  const parentWallet = Wallet.createRandom().address.toLowerCase();
+  await createStudent({ id: studentId, name: 'Test Student', grade: '3', parentId: parentWallet });
+
+  const hash = `hash-${Math.random().toString(36).slice(2)}`;
+  const recordId = (await createAuthorizationRecord({
+    qrCodeId: `qr-${Math.random().toString(36).slice(2)}`,
+    hash,
+    studentId,
+    pickupWallet: parentWallet,
+    parentWallet,
+    expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+    isUsed: false,
+    isActive: true,
+  }))!;
+  return { studentId, recordId, qrCodeData: encodeQRContent(createQRCodeContent(recordId, hash)) };
+};
+
+// Runs against the Firestore emulator (`npm run test:emulator`)
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('POST /api/qr/verify', () => {
+  it('records a QR code confirmed by two staff members at once only once', async () => {
+    const { studentId, recordId, qrCodeData } = await createLegacyQRCode();
+
+    const responses = await Promise.all(STAFF_WALLETS.map(staff => confirmPickup(qrCodeData, staff)));
+    const bodies = await Promise.all(responses.map(response => response.json()));
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 400]);
+    const succeeded = bodies.find(body => body.success)!;
+    expect(bodies.find(body => !body.success)).toMatchObject({ status: 'used', error: 'QR code has already been used' });
+
+    const record = await getAuthorizationRecordById(recordId);
+    expect(record?.isUsed).toBe(true);
+    expect(record?.usedBy).toBe(succeeded.data.staffId);
+    expect(record?.pickupHistoryId).toBe(succeeded.data.pickupHistoryId);
+
+    const history = await adminDb.collection('pickupHistory').where('studentId', '==', studentId).get();
+    expect(history.size).toBe(1);
+    expect(history.docs[0].id).toBe(succeeded.data.pickupHistoryId);
+  });
+
+  it('records unchecked evidence for the legacy verify-and-record call', async () => {
+    const { qrCodeData } = await createLegacyQRCode();
+
+    const response = await confirmPickup(qrCodeData, STAFF_WALLETS[0], {});
+
+    expect(response.status).toBe(200);
+    const { data } = await response.json();
+    const history = await adminDb.collection('pickupHistory').doc(data.pickupHistoryId).get();
+    expect(history.data()?.evidence).toEqual({
+      studentIdentity: false,
+      pickupPersonPhoto: false,
+      pickupPersonId: false,
+      relationship: 'Parent',
+      studentPhotoKey: null,
+      pickupPersonPhotoKey: null,
+    });
+  });
+});
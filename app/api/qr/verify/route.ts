@@ -1,53 +1,356 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { 
   verifyAuthorizationRecord,
-  markAuthorizationRecordAsUsed,
-  createPickupHistory,
-  getStudentById
+  getAuthorizationRecordById,
+  consumeAuthorizationRecord,
+  updatePickupHistoryAnchor,
+  getStudentById,
+  getUserById
 } from '@/lib/firebase/server-collections';
 import { 
+  getQRPublicKeyInfo,
   parseQRCodeContent,
-  validateQRCodeFormat,
-  generateBlockchainHash,
-  generateContractTxHash
+  validateQRCodeFormat
 } from '@/lib/firebase/qr-utils';
-import { verifyIdToken } from '@/lib/firebase/auth';
+import { verifyQRToken } from '@/lib/firebase/qr-tokens';
+import { verifyRotatingCode } from '@/lib/firebase/qr-totp';
+import { getPhotoUrl } from '@/lib/firebase/photos';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+import { anchorPickupEvent, createPickupEventData, getPickupAnchorMode } from '@/lib/blockchain/anchoring';
+import { getRelayerNetwork } from '@/lib/blockchain/relayer';
+import type {
+  AuthorizationConsumeStatus,
+  AuthorizationRecord,
+  OfflinePickup,
+  OfflinePickupResult,
+  PickupAnchorStatus,
+  PickupEvidence,
+  PickupEvidenceChecks,
+  QRCodeContent
+} from '@/types/database';
+
+const POLICY = {
+  POST: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
+
+// Most offline pickups reconciled per request
+const MAX_OFFLINE_PICKUPS = 100;
+
+// Allowed clock drift of a staff device when checking offline scan times
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Time staff may take between scanning a rotating code and confirming the pickup
+const CONFIRM_GRACE_MS = 2 * 60 * 1000;
+
+// Why a pickup could not be recorded, by consume status
+const CONSUME_ERRORS: Record<Exclude<AuthorizationConsumeStatus, 'consumed'>, string> = {
+  invalid: 'Invalid or inactive QR code',
+  expired: 'QR code has expired',
+  used: 'QR code has already been used',
+  error: 'Failed to record pickup',
+};
+
+const ROTATED_CODE_ERROR = 'QR code has changed. Ask the pickup person to show the current code';
+
+/**
+ * Checks the rotating code of a record issued with one; records without rotation pass
+ * @param time When the code was scanned (ms)
+ * @param graceMs Extra age allowed on top of the record's drift window
+ */
+const hasCurrentRotatingCode = (
+  authRecord: AuthorizationRecord,
+  qrContent: QRCodeContent,
+  time: number = Date.now(),
+  graceMs: number = 0
+): boolean => {
+  if (!authRecord.rotationSecret || !authRecord.rotationSeconds) {
+    return true;
+  }
+  const driftSteps = (authRecord.rotationDriftSteps ?? 0) + Math.ceil(graceMs / 1000 / authRecord.rotationSeconds);
+  return !!qrContent.rotating && verifyRotatingCode(
+    authRecord.rotationSecret,
+    authRecord.id,
+    qrContent.rotating,
+    authRecord.rotationSeconds,
+    driftSteps,
+    time
+  );
+};
+
+/**
+ * Gets the pickup person's account and how they are registered with the student's parent
+ * (the parent themself counts as 'Parent')
+ */
+const getPickupPersonDetails = async (authRecord: AuthorizationRecord) => {
+  const pickupWallet = authRecord.pickupWallet.toLowerCase();
+  const isParent = pickupWallet === authRecord.parentWallet.toLowerCase();
+  const [pickupUser, parent] = await Promise.all([
+    getUserById(pickupWallet),
+    isParent ? null : getUserById(authRecord.parentWallet),
+  ]);
+
+  return {
+    pickupUser,
+    relationship: isParent ? 'Parent' : parent?.pickup?.[pickupWallet]?.relationship || 'Authorized Person',
+  };
+};
+
+/**
+ * Builds the evidence record of a pickup from the checks staff ticked. A photo check only
+ * counts when a photo was shown. Without checks (the legacy verify-and-record call) nothing
+ * was shown or checked, which is recorded as such.
+ */
+const createPickupEvidence = (
+  checks: PickupEvidenceChecks | undefined,
+  relationship: string,
+  studentPhotoKey: string | null,
+  pickupPersonPhotoKey: string | null
+): PickupEvidence => {
+  if (!checks) {
+    return {
+      studentIdentity: false,
+      pickupPersonPhoto: false,
+      pickupPersonId: false,
+      relationship,
+      studentPhotoKey: null,
+      pickupPersonPhotoKey: null,
+    };
+  }
+
+  // Checks come from the request body, so only an explicit true counts
+  return {
+    studentIdentity: checks.studentIdentity === true,
+    pickupPersonPhoto: checks.pickupPersonPhoto === true && pickupPersonPhotoKey !== null,
+    pickupPersonId: checks.pickupPersonId === true,
+    relationship,
+    studentPhotoKey,
+    pickupPersonPhotoKey,
+  };
+};
+
+/**
+ * Uses the authorization record and writes the pickup history record (one transaction, see
+ * consumeAuthorizationRecord), then anchors the pickup event. In direct mode the record only
+ * gets a contractTxHash once the transaction is confirmed, and is left to the batch job if the
+ * request dies before then; in batch mode it stays queued for the Merkle batch job.
+ * @returns The consume result, with the pickup when it was recorded
+ */
+const recordConfirmedPickup = async (
+  authRecord: AuthorizationRecord,
+  staffWallet: string,
+  qrCodeData: string,
+  time: Date,
+  evidence: PickupEvidence
+) => {
+  const eventData = createPickupEventData({
+    studentId: authRecord.studentId,
+    pickupWallet: authRecord.pickupWallet,
+    staffWallet,
+    qrCodeData,
+    time,
+  });
+  const anchorMode = getPickupAnchorMode();
+
+  const consumed = await consumeAuthorizationRecord(authRecord.id, authRecord.hash, {
+    blockchainHash: eventData.eventHash,
+    contractTxHash: '',
+    pickupBy: authRecord.pickupWallet,
+    staffId: staffWallet,
+    studentId: authRecord.studentId,
+    pickupEvent: {
+      studentHash: eventData.studentHash,
+      pickupWallet: eventData.pickupWallet,
+      staffWallet: eventData.staffWallet,
+      qrCodeHash: eventData.qrCodeHash,
+      timestamp: eventData.timestamp,
+    },
+    anchorMode,
+    anchorStatus: anchorMode === 'direct' ? 'pending' : 'queued',
+    // Written with the record, so the batch job never takes a fresh direct anchor for a dead one
+    ...(anchorMode === 'direct' && { anchorRequestedAt: new Date() }),
+    evidence,
+  }, time);
+
+  if (consumed.status !== 'consumed') {
+    return { ...consumed, pickup: null };
+  }
+  const pickupHistoryId = consumed.pickupHistoryId!;
+
+  let contractTxHash = '';
+  let anchorStatus: PickupAnchorStatus = 'queued';
+  let anchorError: string | undefined;
+
+  if (anchorMode === 'direct') {
+    // The hash is stored as soon as the transaction is sent, so if this request dies the batch
+    // job can tell whether the event landed before batching it (see reconcileDirectPickups)
+    const result = await anchorPickupEvent(eventData, async (tx) => {
+      await updatePickupHistoryAnchor(pickupHistoryId, { submittedTxHash: tx.hash });
+    });
+
+    if (result.success && result.hash) {
+      contractTxHash = result.hash;
+      anchorStatus = 'confirmed';
+      await updatePickupHistoryAnchor(pickupHistoryId, {
+        contractTxHash,
+        anchorStatus,
+        chainId: getRelayerNetwork().chainId,
+        blockNumber: result.blockNumber,
+      });
+    } else {
+      // The pickup itself stands; the batch job checks the chain and then batches the event
+      anchorStatus = 'failed';
+      anchorError = result.error || 'Failed to anchor pickup event';
+      await updatePickupHistoryAnchor(pickupHistoryId, { anchorStatus, anchorError });
+    }
+  }
+
+  return {
+    ...consumed,
+    pickup: {
+      pickupHistoryId,
+      timestamp: time.toISOString(),
+      blockchainHash: eventData.eventHash,
+      contractTxHash,
+      anchorStatus,
+      anchorError,
+    },
+  };
+};
+
+/**
+ * Records one pickup a staff device confirmed while offline. The QR code (and its rotating
+ * code) is checked as of the scan time; a code already used (on another device, or online)
+ * is a conflict.
+ */
+const reconcileOfflinePickup = async (
+  entry: OfflinePickup,
+  staffWallet: string
+): Promise<OfflinePickupResult> => {
+  const localId = String(entry?.localId || '');
+  const scannedAt = new Date(entry?.scannedAt);
+
+  if (!localId || typeof entry.qrCodeData !== 'string' || isNaN(scannedAt.getTime())) {
+    return { localId, outcome: 'rejected', error: 'Malformed offline pickup' };
+  }
+  if (scannedAt.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+    return { localId, outcome: 'rejected', error: 'Scan time is in the future' };
+  }
+
+  const qrContent = parseQRCodeContent(entry.qrCodeData);
+  if (!qrContent?.signed) {
+    return { localId, outcome: 'rejected', error: 'Only signed QR codes can be accepted offline' };
+  }
+
+  const publicKey = getQRPublicKeyInfo();
+  const tokenCheck = publicKey ? verifyQRToken(entry.qrCodeData, publicKey.publicKey, scannedAt.getTime()) : null;
+  if (!tokenCheck?.valid) {
+    return {
+      localId,
+      outcome: 'rejected',
+      error: tokenCheck?.error === 'expired' ? 'QR code had expired when scanned' : 'Invalid QR code signature',
+    };
+  }
+
+  const authRecord = await getAuthorizationRecordById(qrContent.id);
+  if (
+    !authRecord ||
+    !authRecord.isActive ||
+    authRecord.hash !== qrContent.hash ||
+    authRecord.studentId !== qrContent.signed.sid ||
+    authRecord.pickupWallet.toLowerCase() !== qrContent.signed.pw
+  ) {
+    return { localId, outcome: 'rejected', error: 'Invalid or inactive QR code' };
+  }
+  if (!hasCurrentRotatingCode(authRecord, qrContent, scannedAt.getTime())) {
+    return { localId, outcome: 'rejected', error: 'QR code had already changed when scanned' };
+  }
+
+  // Offline devices show the photos cached with their roster, recorded as the current ones
+  const [{ pickupUser, relationship }, student] = await Promise.all([
+    getPickupPersonDetails(authRecord),
+    getStudentById(authRecord.studentId),
+  ]);
+  const evidence = createPickupEvidence(
+    entry.evidence,
+    relationship,
+    student?.photo?.key ?? null,
+    pickupUser?.photo?.key ?? null
+  );
+
+  const { status, pickup, usedBy, usedAt } = await recordConfirmedPickup(
+    authRecord,
+    staffWallet,
+    entry.qrCodeData,
+    scannedAt,
+    evidence
+  );
+  if (status === 'used') {
+    return {
+      localId,
+      outcome: 'conflict',
+      error: 'QR code was already used',
+      usedBy,
+      usedAt: usedAt?.toISOString(),
+    };
+  }
+  if (!pickup) {
+    return { localId, outcome: 'rejected', error: CONSUME_ERRORS[status as keyof typeof CONSUME_ERRORS] };
+  }
+
+  return { localId, outcome: 'recorded', pickupHistoryId: pickup.pickupHistoryId };
+};
 
 /**
  * POST /api/qr/verify
- * Verifies a scanned QR code and processes pickup
+ * Verifies a scanned QR code and processes pickup. verifyOnly returns the details staff check
+ * (relationship and photos); confirmPickup records the pickup with the { evidence } staff
+ * confirmed (see PickupEvidenceChecks). With { offlinePickups } it instead
+ * reconciles pickups confirmed while offline and reports each one's outcome.
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request, auth) => {
   try {
     const body = await request.json();
-    const { qrCodeData, idToken, selectedStudentId, verifyOnly = false, confirmPickup = false } = body;
+    const {
+      qrCodeData,
+      selectedStudentId,
+      verifyOnly = false,
+      confirmPickup = false,
+      evidence,
+      offlinePickups
+    } = body;
 
-    // Validate required fields
-    if (!qrCodeData || !idToken) {
-      return NextResponse.json(
-        { error: 'QR code data and ID token are required' },
-        { status: 400 }
-      );
-    }
+    if (offlinePickups !== undefined) {
+      if (!Array.isArray(offlinePickups) || offlinePickups.length > MAX_OFFLINE_PICKUPS) {
+        return NextResponse.json(
+          { error: `offlinePickups must be an array of at most ${MAX_OFFLINE_PICKUPS} pickups` },
+          { status: 400 }
+        );
+      }
 
-    // Verify the staff's Firebase ID token
-    const decodedToken = await verifyIdToken(idToken);
-    if (!decodedToken) {
-      return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
+      // One at a time, oldest scan first, so a code used twice goes to the earlier scan
+      const ordered = [...offlinePickups].sort((a, b) =>
+        String(a?.scannedAt).localeCompare(String(b?.scannedAt))
       );
+      const results: OfflinePickupResult[] = [];
+      for (const entry of ordered) {
+        results.push(await reconcileOfflinePickup(entry, auth.wallet));
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { results },
+      });
     }
 
-    // Check if user is staff
-    if (decodedToken.role !== 'staff') {
+    // Validate required fields
+    if (!qrCodeData) {
       return NextResponse.json(
-        { error: 'Only staff members can verify pickups' },
-        { status: 403 }
+        { error: 'QR code data is required' },
+        { status: 400 }
       );
     }
 
-    const staffWallet = decodedToken.wallet;
+    const staffWallet = auth.wallet;
 
     // Validate QR code format
     if (!validateQRCodeFormat(qrCodeData)) {
@@ -66,6 +369,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Signed tokens must carry the school's current signature
+    if (qrContent.signed) {
+      const publicKey = getQRPublicKeyInfo();
+      const tokenCheck = publicKey ? verifyQRToken(qrCodeData, publicKey.publicKey) : null;
+
+      if (!tokenCheck?.valid) {
+        const expired = tokenCheck?.error === 'expired';
+        return NextResponse.json(
+          {
+            error: expired ? 'QR code has expired' : 'Invalid QR code signature',
+            status: expired ? 'expired' : 'invalid'
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Verify authorization record
     const verificationResult = await verifyAuthorizationRecord(
       qrContent.id,
@@ -99,6 +419,27 @@ export async function POST(request: NextRequest) {
 
     const authRecord = verificationResult.record;
 
+    // A token's claims must match the record it points to
+    if (
+      qrContent.signed &&
+      (qrContent.signed.sid !== authRecord.studentId ||
+        qrContent.signed.pw !== authRecord.pickupWallet.toLowerCase())
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid or inactive QR code', status: 'invalid' },
+        { status: 400 }
+      );
+    }
+
+    // A rotating code must be within the drift window, so a screenshot soon stops working.
+    // Confirmation re-sends the code scanned earlier, so it gets time for the staff review.
+    if (!hasCurrentRotatingCode(authRecord, qrContent, Date.now(), confirmPickup ? CONFIRM_GRACE_MS : 0)) {
+      return NextResponse.json(
+        { error: ROTATED_CODE_ERROR, status: 'expired' },
+        { status: 400 }
+      );
+    }
+
     // Get student information
     const student = await getStudentById(authRecord.studentId);
     if (!student) {
@@ -121,6 +462,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { pickupUser, relationship } = await getPickupPersonDetails(authRecord);
+
     // If this is verification only, return details without recording pickup
     if (verifyOnly) {
       return NextResponse.json({
@@ -133,7 +476,11 @@ export async function POST(request: NextRequest) {
           parentWallet: authRecord.parentWallet,
           authorizationId: authRecord.id,
           expiresAt: authRecord.expiresAt.toISOString(),
-          relationship: 'Authorized Person', // This could be enhanced with actual relationship data
+          pickupPersonName: pickupUser?.name || null,
+          relationship,
+          // Shown to staff so they can compare faces before confirming
+          pickupPersonPhotoUrl: getPhotoUrl('user', authRecord.pickupWallet.toLowerCase(), pickupUser?.photo),
+          studentPhotoUrl: getPhotoUrl('student', student.id, student.photo),
           authorizationDetails: {
             startDate: authRecord.generatedAt,
             endDate: authRecord.expiresAt,
@@ -144,93 +491,35 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // If confirmPickup is true, proceed with recording the pickup
-    if (confirmPickup) {
-      // Mark authorization record as used
-      const markUsedSuccess = await markAuthorizationRecordAsUsed(authRecord.id);
-      if (!markUsedSuccess) {
-        return NextResponse.json(
-          { error: 'Failed to mark authorization as used' },
-          { status: 500 }
-        );
-      }
-
-      // Generate blockchain hashes (placeholders for now)
-      const blockchainHash = generateBlockchainHash();
-      const contractTxHash = generateContractTxHash();
-
-      // Create pickup history record
-      const pickupHistoryId = await createPickupHistory({
-        blockchainHash,
-        contractTxHash,
-        pickupBy: authRecord.pickupWallet,
-        staffId: staffWallet,
-        studentId: authRecord.studentId,
-      });
-
-      if (!pickupHistoryId) {
-        return NextResponse.json(
-          { error: 'Failed to create pickup history record' },
-          { status: 500 }
-        );
-      }
-
-      return NextResponse.json({
-        success: true,
-        data: {
-          pickupHistoryId,
-          studentName: student.name,
-          studentGrade: student.grade,
-          pickupBy: authRecord.pickupWallet,
-          staffId: staffWallet,
-          timestamp: new Date().toISOString(),
-          blockchainHash,
-          contractTxHash,
-        },
-      });
-    }
-
-    // Default behavior (for backward compatibility) - verify and record pickup
-    // Mark authorization record as used
-    const markUsedSuccess = await markAuthorizationRecordAsUsed(authRecord.id);
-    if (!markUsedSuccess) {
-      return NextResponse.json(
-        { error: 'Failed to mark authorization as used' },
-        { status: 500 }
-      );
-    }
-
-    // Generate blockchain hashes (placeholders for now)
-    const blockchainHash = generateBlockchainHash();
-    const contractTxHash = generateContractTxHash();
-
-    // Create pickup history record
-    const pickupHistoryId = await createPickupHistory({
-      blockchainHash,
-      contractTxHash,
-      pickupBy: authRecord.pickupWallet,
-      staffId: staffWallet,
-      studentId: authRecord.studentId,
-    });
+    // Record the pickup (confirmPickup, or the legacy verify-and-record call). Using the
+    // authorization and writing the history record happen in one transaction, so this fails
+    // if another staff member confirmed the same QR code meanwhile.
+    const { status, pickup } = await recordConfirmedPickup(
+      authRecord,
+      staffWallet,
+      qrCodeData,
+      new Date(),
+      createPickupEvidence(evidence, relationship, student.photo?.key ?? null, pickupUser?.photo?.key ?? null)
+    );
 
-    if (!pickupHistoryId) {
+    if (!pickup) {
       return NextResponse.json(
-        { error: 'Failed to create pickup history record' },
-        { status: 500 }
+        {
+          error: CONSUME_ERRORS[status as keyof typeof CONSUME_ERRORS],
+          status
+        },
+        { status: status === 'error' ? 500 : 400 }
       );
     }
 
     return NextResponse.json({
       success: true,
       data: {
-        pickupHistoryId,
+        ...pickup,
         studentName: student.name,
         studentGrade: student.grade,
         pickupBy: authRecord.pickupWallet,
         staffId: staffWallet,
-        timestamp: new Date().toISOString(),
-        blockchainHash,
-        contractTxHash,
       },
     });
 
@@ -241,4 +530,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,108 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { ethers, Wallet } from 'ethers';
+import { createPickupEventHash, createQRCodeHash, createStudentHash } from '@/lib/blockchain/hashing';
+import { getRelayDomain, signRelayRequest } from '@/lib/blockchain/typed-data';
+import type { AuthContext } from '@/lib/firebase/api-auth';
+import type { RelayRecordPickupEventMessage } from '@/lib/blockchain/types';
+import { deployLocalContract, LOCAL_CHAIN_RPC_URL, useLocalChain } from '@/vitest.chain';
+
+// Each request is made by the staff wallet in its x-test-staff header, without a session
+vi.mock('@/lib/firebase/api-auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/firebase/api-auth')>()),
+  withAuth: (_policy: unknown, handler: (request: NextRequest, auth: AuthContext, context: unknown) => Promise<Response>) =>
+    (request: NextRequest, context: unknown) => handler(request, {
+      uid: 'staff',
+      wallet: request.headers.get('x-test-staff')!,
+      role: 'staff',
+      sessionId: 'test-session',
+      token: {} as AuthContext['token'],
+    }, context),
+}));
+
+// Runs against the Firestore emulator (`npm run test:emulator`) and a local chain (LOCAL_CHAIN_RPC_URL)
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST || !LOCAL_CHAIN_RPC_URL)('POST /api/relay', () => {
+  let route: typeof import('./route');
+  let relayer: typeof import('@/lib/blockchain/relayer');
+
+  beforeAll(async () => {
+    const pickupSecurity = await deployLocalContract('PickupSecurity');
+    useLocalChain({ pickupSecurity: await pickupSecurity.getAddress() });
+    route = await import('./route');
+    relayer = await import('@/lib/blockchain/relayer');
+  });
+
+  const relay = (staff: ethers.HDNodeWallet, body: object) => route.POST(
+    new NextRequest('http://localhost/api/relay', {
+      method: 'POST',
+      headers: { 'x-test-staff': staff.address.toLowerCase() },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({}) }
+  );
+
+  // A pickup recorded by the staff member, signed under the relay domain the GET endpoint hands out
+  const signPickup = async (staff: ethers.HDNodeWallet, nonce: number, signer: ethers.Signer = staff) => {
+    const network = relayer.getRelayerNetwork();
+    const message: RelayRecordPickupEventMessage = {
+      studentHash: createStudentHash(`CH${Math.floor(Math.random() * 1e6)}`),
+      pickupWallet: Wallet.createRandom().address,
+      staffWallet: staff.address,
+      qrCodeHash: createQRCodeHash(`qr-${Math.random().toString(36).slice(2)}`),
+      timestamp: Math.floor(Date.now() / 1000),
+      nonce,
+      deadline: Math.floor(Date.now() / 1000) + 600,
+    };
+    const signature = await signRelayRequest(signer, 'recordPickupEvent', message, getRelayDomain(network.chainId, network.contractAddress));
+    return { kind: 'recordPickupEvent', message, signature };
+  };
+
+  it('relays a pickup signed by the staff member and records it on chain', async () => {
+    const staff = Wallet.createRandom();
+    const request = await signPickup(staff, 0);
+
+    const response = await relay(staff, request);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.success).toBe(true);
+    const { getPickupEventFromChain } = await import('@/lib/blockchain/contract');
+    const { getServerProvider } = await import('@/lib/blockchain/provider');
+    const eventHash = createPickupEventHash({ ...request.message, eventHash: '' });
+    expect(await getPickupEventFromChain(getServerProvider(), eventHash, relayer.getRelayerNetwork()))
+      .toMatchObject({ staffWallet: staff.address, pickupWallet: request.message.pickupWallet });
+  });
+
+  it('does not relay the same signed request twice', async () => {
+    const staff = Wallet.createRandom();
+    const request = await signPickup(staff, 0);
+    expect((await relay(staff, request)).status).toBe(200);
+
+    const replay = await relay(staff, request);
+
+    expect(replay.status).toBe(409);
+    expect(await replay.json()).toEqual({ error: 'Invalid or already used relay nonce' });
+  });
+
+  it('rejects requests signed by another wallet', async () => {
+    const staff = Wallet.createRandom();
+    const request = await signPickup(staff, 0, Wallet.createRandom());
+
+    const response = await relay(staff, request);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Invalid signature' });
+  });
+
+  it('rejects messages changed after signing', async () => {
+    const staff = Wallet.createRandom();
+    const request = await signPickup(staff, 0);
+    const tampered = { ...request, message: { ...request.message, pickupWallet: Wallet.createRandom().address } };
+
+    const response = await relay(staff, tampered);
+
+    expect(response.status).toBe(401);
+    // Rejected before the nonce is redeemed, so the genuine request still goes through
+    expect((await relay(staff, request)).status).toBe(200);
+  });
+});
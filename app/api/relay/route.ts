@@ -0,0 +1,190 @@
+import { NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { withAuth, forbiddenResponse, isRoleAllowed, RoutePolicy, RoutePolicyTable } from '@/lib/firebase/api-auth';
+import { isWalletAuthorizedForAccount } from '@/lib/firebase/wallet-links';
+import { getRelayNonce, consumeRelayNonce, createRelayRequest, completeRelayRequest } from '@/lib/firebase/relay';
+import { getRelayDomain, isRelayRequestKind, recoverRelaySigner } from '@/lib/blockchain/typed-data';
+import {
+  RELAYER_SETTINGS,
+  getRelayerNetwork,
+  getRelayerWallet,
+  isRelayerConfigured,
+  relayCreateAuthorization,
+  relayRecordPickupEvent
+} from '@/lib/blockchain/relayer';
+import type {
+  RelayRequest,
+  RelayRequestKind,
+  RelayCreateAuthorizationMessage,
+  RelayRecordPickupEventMessage
+} from '@/lib/blockchain/types';
+
+const POLICY = {
+  GET: { roles: ['parent', 'staff'] },
+  POST: { roles: ['parent', 'staff'] },
+} satisfies RoutePolicyTable;
+
+// Parents create authorizations; staff record pickups
+const KIND_POLICIES: Record<RelayRequestKind, RoutePolicy> = {
+  createAuthorization: { roles: ['parent'] },
+  recordPickupEvent: { roles: ['staff'] },
+};
+
+const isRelayEnabled = () => {
+  return isRelayerConfigured() && getRelayerNetwork().contractAddress !== ethers.ZeroAddress;
+};
+
+/**
+ * GET /api/relay?signer=0x...
+ * Relayer status, the EIP-712 domain to sign under and the signer's next relay nonce
+ */
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const signer = (searchParams.get('signer') || auth.token.signerWallet || auth.wallet).toLowerCase();
+
+    if (!(await isWalletAuthorizedForAccount(signer, auth.wallet))) {
+      return forbiddenResponse('This wallet is not authorized for your account');
+    }
+
+    if (!isRelayEnabled()) {
+      return NextResponse.json({ success: true, enabled: false });
+    }
+
+    const nonce = await getRelayNonce(signer);
+    if (nonce === null) {
+      return NextResponse.json(
+        { error: 'Failed to load relay nonce' },
+        { status: 500 }
+      );
+    }
+
+    const network = getRelayerNetwork();
+
+    return NextResponse.json({
+      success: true,
+      enabled: true,
+      relayer: getRelayerWallet().address,
+      chainId: network.chainId,
+      domain: getRelayDomain(network.chainId, network.contractAddress),
+      nonce,
+    });
+
+  } catch (error) {
+    console.error('Error fetching relay status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/relay
+ * Submit an EIP-712 signed request on chain from the school relayer
+ */
+export const POST = withAuth(POLICY.POST, async (request, auth) => {
+  try {
+    if (!isRelayEnabled()) {
+      return NextResponse.json(
+        { error: 'Gasless transactions are not enabled' },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+    const { kind, message, signature } = body as RelayRequest;
+
+    if (!isRelayRequestKind(kind) || !message || !signature) {
+      return NextResponse.json(
+        { error: 'kind, message and signature are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isRoleAllowed(auth.role, KIND_POLICIES[kind])) {
+      return forbiddenResponse(`Your role cannot submit ${kind} requests`);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (!Number.isInteger(message.deadline) || message.deadline < now) {
+      return NextResponse.json(
+        { error: 'Relay request has expired. Please sign it again.' },
+        { status: 400 }
+      );
+    }
+    if (message.deadline > now + RELAYER_SETTINGS.MAX_DEADLINE_SECONDS) {
+      return NextResponse.json(
+        { error: 'Relay request deadline is too far in the future' },
+        { status: 400 }
+      );
+    }
+
+    // The request must be made for the caller's own account
+    const accountWallet = kind === 'createAuthorization'
+      ? (message as RelayCreateAuthorizationMessage).parentWallet
+      : (message as RelayRecordPickupEventMessage).staffWallet;
+    if (accountWallet?.toLowerCase() !== auth.wallet) {
+      return forbiddenResponse('Relay requests can only be made for your own wallet');
+    }
+
+    const network = getRelayerNetwork();
+    const domain = getRelayDomain(network.chainId, network.contractAddress);
+    const signer = recoverRelaySigner(kind, message, signature, domain);
+
+    if (!signer || !(await isWalletAuthorizedForAccount(signer, auth.wallet))) {
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    // Redeem the nonce before submitting so a request is never relayed twice
+    if (!(await consumeRelayNonce(signer, message.nonce))) {
+      return NextResponse.json(
+        { error: 'Invalid or already used relay nonce' },
+        { status: 409 }
+      );
+    }
+
+    const requestId = await createRelayRequest({
+      kind,
+      signer,
+      account: auth.wallet,
+      nonce: message.nonce,
+      message: { ...message },
+      signature,
+      chainId: network.chainId,
+    });
+
+    const result = kind === 'createAuthorization'
+      ? await relayCreateAuthorization(message as RelayCreateAuthorizationMessage)
+      : await relayRecordPickupEvent(message as RelayRecordPickupEventMessage);
+
+    if (requestId) {
+      await completeRelayRequest(requestId, result);
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Relayed transaction failed', requestId, hash: result.hash },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      requestId,
+      hash: result.hash,
+      blockNumber: result.blockNumber,
+      gasUsed: result.gasUsed,
+    });
+
+  } catch (error) {
+    console.error('Error relaying request:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,5 +1,10 @@
 import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
 
 export const runtime = 'nodejs';
 
@@ -28,7 +33,7 @@ function isValidEthereumAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
 
-export async function GET() {
+export const GET = withAuth(POLICY.GET, async () => {
   try {
     const now = new Date();
     const today = now.toISOString().slice(0, 10);
@@ -102,6 +107,6 @@ export async function GET() {
     console.error('Auto reminder error:', error);
     return NextResponse.json({ error: error?.message || 'Auto failed' }, { status: 500 });
   }
-}
+});
 
 
@@ -1,11 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['staff'] },
+  POST: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
 
 const CONFIG_DOC_PATH = 'reminders/config';
 
 export const runtime = 'nodejs';
 
-export async function GET() {
+export const GET = withAuth(POLICY.GET, async () => {
   try {
     const docSnap = await adminDb.doc(CONFIG_DOC_PATH).get();
     const data = docSnap.exists ? docSnap.data() : {};
@@ -15,9 +21,9 @@ export async function GET() {
     const message = (error as any)?.message || 'Failed to fetch reminder config';
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request) => {
   try {
     const { finishSchoolTime, messageTemplate } = await request.json();
 
@@ -33,6 +39,6 @@ export async function POST(request: NextRequest) {
     const message = (error as any)?.message || 'Failed to update reminder config';
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
 
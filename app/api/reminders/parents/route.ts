@@ -1,9 +1,14 @@
 import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
 
 export const runtime = 'nodejs';
 
-export async function GET() {
+export const GET = withAuth(POLICY.GET, async () => {
   try {
     const [parentsSnap, studentsSnap] = await Promise.all([
       adminDb.collection('users').where('role', '==', 'parent').get(),
@@ -35,6 +40,6 @@ export async function GET() {
     console.error('Error fetching parents:', error);
     return NextResponse.json({ error: 'Failed to fetch parents' }, { status: 500 });
   }
-}
+});
 
 
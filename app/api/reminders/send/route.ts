@@ -1,5 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  POST: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
 
 export const runtime = 'nodejs';
 
@@ -7,7 +12,7 @@ function isValidEthereumAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request) => {
   try {
     const configSnap = await adminDb.doc('reminders/config').get();
     const config = configSnap.data() || {};
@@ -68,6 +73,6 @@ export async function POST(request: NextRequest) {
     const message = typeof error?.message === 'string' ? error.message : 'Failed to send reminders';
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
+});
 
 
@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
 
-export async function GET() {
+const POLICY = {
+  GET: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
+
+export const GET = withAuth(POLICY.GET, async () => {
   try {
     const parentsSnap = await adminDb
       .collection('users')
@@ -25,6 +30,6 @@ export async function GET() {
     console.error('Error listing parent FCM tokens:', error);
     return NextResponse.json({ error: 'Failed to list tokens' }, { status: 500 });
   }
-}
+});
 
 
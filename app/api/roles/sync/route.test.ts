@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import admin from 'firebase-admin';
+import { Wallet } from 'ethers';
+import { adminDb } from '@/lib/firebase/admin';
+import type { AuthContext } from '@/lib/firebase/api-auth';
+import { deployLocalContract, LOCAL_CHAIN_RPC_URL, ROLE_AUTH_ROLES, useLocalChain } from '@/vitest.chain';
+
+// Each request is made by an admin, without a session
+vi.mock('@/lib/firebase/api-auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/firebase/api-auth')>()),
+  withAuth: (_policy: unknown, handler: (request: NextRequest, auth: AuthContext, context: unknown) => Promise<Response>) =>
+    (request: NextRequest, context: unknown) => handler(request, {
+      uid: 'admin',
+      wallet: 'admin',
+      role: 'admin',
+      sessionId: 'test-session',
+      token: {} as AuthContext['token'],
+    }, context),
+}));
+
+const syncRoles = async () => {
+  const { POST } = await import('./route');
+  return POST(
+    new NextRequest('http://localhost/api/roles/sync', { method: 'POST', body: JSON.stringify({}) }),
+    { params: Promise.resolve({}) }
+  );
+};
+
+describe('POST /api/roles/sync', () => {
+  it('fails when no RoleAuth contract is configured', async () => {
+    vi.stubEnv('BLOCKCHAIN_CHAIN_ID', '31337');
+    vi.stubEnv('NEXT_PUBLIC_ROLE_AUTH_CONTRACT_LOCALHOST', '');
+    vi.stubEnv('NEXT_PUBLIC_ROLE_AUTH_CONTRACT', '');
+    vi.resetModules();
+
+    const response = await syncRoles();
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'RoleAuth contract is not configured' });
+    vi.unstubAllEnvs();
+  });
+
+  // Runs against the Firestore and Auth emulators (`npm run test:emulator`) and a local chain (LOCAL_CHAIN_RPC_URL)
+  it.skipIf(
+    !process.env.FIRESTORE_EMULATOR_HOST || !process.env.FIREBASE_AUTH_EMULATOR_HOST || !LOCAL_CHAIN_RPC_URL
+  )('mirrors roles granted on chain', async () => {
+    const roleAuth = await deployLocalContract('RoleAuth');
+    useLocalChain({ roleAuth: await roleAuth.getAddress() });
+    const wallet = Wallet.createRandom().address.toLowerCase();
+    await admin.auth().createUser({ uid: wallet });
+    await adminDb.collection('users').doc(wallet).set({ wallet, role: 'parent', isActive: true, createdAt: new Date() });
+    await (await roleAuth.setRole(wallet, ROLE_AUTH_ROLES.Admin)).wait();
+
+    const response = await syncRoles();
+
+    expect(response.status).toBe(200);
+    const { data } = await response.json();
+    expect(data.promoted).toContain(wallet);
+    const { customClaims } = await admin.auth().getUser(wallet);
+    expect(customClaims).toMatchObject({ wallet, role: 'admin' });
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { syncOnChainRoles } from '@/lib/firebase/role-sync';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  POST: { roles: ['admin'] },
+} satisfies RoutePolicyTable;
+
+/**
+ * POST /api/roles/sync
+ * Mirrors staff/admin roles from the RoleAuth contract into Firebase
+ */
+export const POST = withAuth(POLICY.POST, async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const fromBlock = Number.isInteger(body?.fromBlock) ? body.fromBlock : undefined;
+
+    const result = await syncOnChainRoles({ fromBlock });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    console.error('Error syncing on-chain roles:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { endSession, SESSION_SETTINGS } from '@/lib/firebase/sessions';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  // Polled by the dashboard, so it must not keep an idle session alive
+  GET: { roles: ['parent', 'pickup', 'staff'], trackActivity: false },
+  DELETE: { roles: ['parent', 'pickup', 'staff'] },
+} satisfies RoutePolicyTable;
+
+/**
+ * GET /api/sessions/current
+ * Session heartbeat; withAuth answers 401 SESSION_REVOKED/SESSION_EXPIRED once the session ends
+ */
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
+  return NextResponse.json({
+    success: true,
+    sessionId: auth.sessionId,
+    idleTimeoutMs: SESSION_SETTINGS.IDLE_TIMEOUT_MS,
+  });
+});
+
+/**
+ * DELETE /api/sessions/current
+ * End the caller's session on logout
+ */
+export const DELETE = withAuth(POLICY.DELETE, async (request, auth) => {
+  try {
+    await endSession(auth.sessionId, auth.wallet);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Session ended',
+    });
+
+  } catch (error) {
+    console.error('Error ending session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
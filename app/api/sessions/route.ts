@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import type { UserSession } from '@/types/database';
+import { getUserSession, getUserSessionsByWallet } from '@/lib/firebase/server-collections';
+import { revokeSession } from '@/lib/firebase/sessions';
+import { withAuth, forbiddenResponse, isRoleAllowed, RoutePolicy, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['parent', 'pickup', 'staff'] },
+  DELETE: { roles: ['parent', 'pickup', 'staff'] },
+} satisfies RoutePolicyTable;
+
+// Staff can look up and revoke sessions of any wallet
+const MANAGE_OTHERS_POLICY: RoutePolicy = { roles: ['staff'] };
+
+const toSessionResponse = (session: UserSession, currentSessionId: string) => ({
+  id: session.id,
+  wallet: session.wallet,
+  role: session.role,
+  deviceLabel: session.deviceLabel,
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  status: session.status,
+  createdAt: session.createdAt.toISOString(),
+  lastActive: session.lastActive.toISOString(),
+  endedAt: session.endedAt?.toISOString(),
+  endedBy: session.endedBy,
+  isCurrent: session.id === currentSessionId,
+});
+
+/**
+ * GET /api/sessions
+ * List device sessions for the caller, or for ?wallet= when called by staff
+ */
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const wallet = (searchParams.get('wallet') || auth.wallet).toLowerCase();
+
+    if (wallet !== auth.wallet && !isRoleAllowed(auth.role, MANAGE_OTHERS_POLICY)) {
+      return forbiddenResponse('You can only view your own sessions');
+    }
+
+    const sessions = await getUserSessionsByWallet(wallet);
+
+    return NextResponse.json({
+      success: true,
+      wallet,
+      sessions: sessions.map(session => toSessionResponse(session, auth.sessionId)),
+    });
+
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/sessions?sessionId=...
+ * Revoke a device session; the wallet's other sessions keep working
+ */
+export const DELETE = withAuth(POLICY.DELETE, async (request, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'sessionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const session = await getUserSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const isOwnSession = session.wallet === auth.wallet;
+    if (!isOwnSession && !isRoleAllowed(auth.role, MANAGE_OTHERS_POLICY)) {
+      return forbiddenResponse('You can only revoke your own sessions');
+    }
+    if (!isOwnSession && session.role === 'admin' && auth.role !== 'admin') {
+      return forbiddenResponse('Only admins can revoke admin sessions');
+    }
+
+    if (session.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Session is no longer active' },
+        { status: 409 }
+      );
+    }
+
+    const revoked = await revokeSession(session, auth.wallet);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Failed to revoke session' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
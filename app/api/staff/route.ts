@@ -1,10 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
 import admin from 'firebase-admin';
 import { getAddress } from 'ethers';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['staff'] },
+  POST: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
 
 // CREATE STAFF
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request) => {
   try {
     const { name, role, walletAddress } = await request.json();
 
@@ -77,10 +83,10 @@ export async function POST(request: NextRequest) {
     console.error('Error creating staff:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 // GET STAFF LIST
-export async function GET(request: NextRequest) {
+export const GET = withAuth(POLICY.GET, async (request) => {
   try {
     console.log('🔍 Fetching staff list...');
     
@@ -202,4 +208,4 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+});
@@ -1,30 +1,39 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { 
   createStudent,
   getAllStudents,
   getStudentsByParent,
+  getStudentsForPickupPerson,
   getStudentById
 } from '@/lib/firebase/server-collections';
-import { verifyIdToken } from '@/lib/firebase/auth';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['parent', 'pickup', 'staff'] },
+  POST: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
 
 /**
  * GET /api/students
  * Get students with optional filtering
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const parentId = searchParams.get('parentId');
+    // Parents may only list their own children
+    const parentId = auth.role === 'parent' ? auth.wallet : searchParams.get('parentId');
     
     let students;
     
-    if (parentId) {
+    if (auth.role === 'pickup') {
+      // Pickup persons only see the children they are currently authorized to collect
+      students = await getStudentsForPickupPerson(auth.wallet);
+    } else if (parentId) {
       // Get students for a specific parent
       students = await getStudentsByParent(parentId);
     } else {
       // Get all students
       students = await getAllStudents();
-      console.log('Fetched all students:', students);
     }
 
     return NextResponse.json({
@@ -40,16 +49,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/students
  * Create a new student
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request) => {
   try {
     const body = await request.json();
-    const { id, name, grade, parentId, idToken } = body;
+    const { id, name, grade, parentId } = body;
 
     // Validate required fields
     if (!name || !grade || !parentId) {
@@ -59,17 +68,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // If idToken is provided, verify it (optional for staff operations)
-    if (idToken) {
-      const decodedToken = await verifyIdToken(idToken);
-      if (!decodedToken) {
-        return NextResponse.json(
-          { error: 'Invalid token' },
-          { status: 401 }
-        );
-      }
-    }
-
     // Generate ID if not provided
     const studentId = id || `CH${Date.now().toString().slice(-6)}${Math.random().toString(36).substr(2, 3).toUpperCase()}`;
 
@@ -113,4 +111,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
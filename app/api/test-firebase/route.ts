@@ -1,7 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
 
-export async function GET(request: NextRequest) {
+const POLICY = {
+  GET: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
+
+export const GET = withAuth(POLICY.GET, async (request) => {
   try {
     console.log('🧪 Testing Firebase connection...');
     
@@ -54,4 +59,4 @@ export async function GET(request: NextRequest) {
       }
     }, { status: 500 });
   }
-}
+});
@@ -1,4 +1,4 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { 
   createUser,
   createStudent,
@@ -15,12 +15,17 @@ import {
   generateBlockchainHash,
   generateContractTxHash
 } from '@/lib/firebase/qr-utils';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
 
 /**
  * GET /api/test/firebase-new
  * Tests the new Firebase collections and operations
  */
-export async function GET() {
+export const GET = withAuth(POLICY.GET, async () => {
   try {
     const testResults: any[] = [];
 
@@ -135,4 +140,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
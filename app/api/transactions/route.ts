@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { getServerChainId, getServerProvider } from '@/lib/blockchain/provider';
+import {
+  getTrackedTransaction,
+  getWalletTransactions,
+  refreshTrackedTransaction,
+  trackTransaction
+} from '@/lib/firebase/transactions';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+import type { TrackedTransactionRecord } from '@/types/database';
+
+const POLICY = {
+  GET: { roles: ['parent', 'staff', 'pickup'], trackActivity: false },
+  POST: { roles: ['parent', 'staff', 'pickup'] },
+} satisfies RoutePolicyTable;
+
+export const runtime = 'nodejs';
+
+const serializeTransaction = (record: TrackedTransactionRecord) => ({
+  hash: record.hash,
+  chainId: record.chainId,
+  nonce: record.nonce,
+  method: record.method,
+  status: record.status,
+  speedUps: record.speedUps,
+  replaces: record.replaces || null,
+  replacedBy: record.replacedBy || null,
+  blockNumber: record.blockNumber ?? null,
+  gasUsed: record.gasUsed ?? null,
+  submittedAt: record.submittedAt?.toISOString() || null,
+  updatedAt: record.updatedAt?.toISOString() || null,
+});
+
+/**
+ * GET /api/transactions
+ * The caller's recent transactions with pending ones re-checked on chain, or one of them with ?hash=
+ */
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
+  try {
+    const hash = request.nextUrl.searchParams.get('hash');
+
+    if (hash) {
+      const record = await refreshTrackedTransaction(hash);
+      if (!record || (record.from !== auth.wallet && auth.role !== 'admin')) {
+        return NextResponse.json(
+          { error: 'Transaction not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, data: serializeTransaction(record) });
+    }
+
+    const records = await getWalletTransactions(auth.wallet);
+    const refreshed = await Promise.all(records.map(record =>
+      record.status === 'pending' ? refreshTrackedTransaction(record.hash) : record
+    ));
+
+    return NextResponse.json({
+      success: true,
+      data: refreshed
+        .filter((record): record is TrackedTransactionRecord => Boolean(record))
+        .map(serializeTransaction),
+    });
+
+  } catch (error) {
+    console.error('Error fetching transactions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/transactions
+ * Tracks a transaction the caller sent from their own wallet: { hash, method, replaces? }
+ */
+export const POST = withAuth(POLICY.POST, async (request, auth) => {
+  try {
+    const body = await request.json();
+    const { hash, method, replaces } = body;
+
+    if (!ethers.isHexString(hash, 32) || typeof method !== 'string' || !method) {
+      return NextResponse.json(
+        { error: 'hash (32-byte hex) and method are required' },
+        { status: 400 }
+      );
+    }
+    if (replaces !== undefined && !ethers.isHexString(replaces, 32)) {
+      return NextResponse.json(
+        { error: 'replaces must be a 32-byte hex string' },
+        { status: 400 }
+      );
+    }
+
+    const tx = await getServerProvider().getTransaction(hash);
+    if (!tx) {
+      return NextResponse.json(
+        { error: `Transaction not found on chain ${getServerChainId()}` },
+        { status: 404 }
+      );
+    }
+    if (tx.from.toLowerCase() !== auth.wallet) {
+      return NextResponse.json(
+        { error: 'Transaction was sent from another wallet' },
+        { status: 403 }
+      );
+    }
+    if (replaces) {
+      const replaced = await getTrackedTransaction(replaces);
+      if (!replaced || replaced.from !== auth.wallet || replaced.nonce !== tx.nonce) {
+        return NextResponse.json(
+          { error: 'Replaced transaction does not match' },
+          { status: 400 }
+        );
+      }
+    }
+
+    await trackTransaction(tx, { method, source: 'wallet', replaces });
+    const record = await getTrackedTransaction(hash);
+
+    return NextResponse.json({
+      success: true,
+      data: record ? serializeTransaction(record) : null,
+    });
+
+  } catch (error) {
+    console.error('Error tracking transaction:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
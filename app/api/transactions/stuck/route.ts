@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+import { isRelayerConfigured, processStuckRelayerTransactions } from '@/lib/blockchain/relayer';
+
+const POLICY = {
+  POST: { roles: ['admin'] },
+} satisfies RoutePolicyTable;
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/transactions/stuck
+ * Speeds up or cancels relayer transactions stuck in the mempool. Meant to be called on a schedule.
+ */
+export const POST = withAuth(POLICY.POST, async () => {
+  try {
+    if (!isRelayerConfigured()) {
+      return NextResponse.json(
+        { error: 'RELAYER_PRIVATE_KEY is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const result = await processStuckRelayerTransactions();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    console.error('Error processing stuck transactions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,4 +1,4 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { 
   createUser,
   getUserById,
@@ -6,13 +6,22 @@ import {
   getAllUsers,
   getUsersByRole
 } from '@/lib/firebase/server-collections';
-import { verifyIdToken } from '@/lib/firebase/auth';
+import { withAuth, forbiddenResponse, isRoleAllowed, RoutePolicy, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['parent', 'pickup', 'staff'] },
+  POST: { roles: ['staff'] },
+  PUT: { roles: ['parent', 'pickup', 'staff'] },
+} satisfies RoutePolicyTable;
+
+// Staff (and admins) can look up any user; everyone else only themselves
+const MANAGE_OTHERS_POLICY: RoutePolicy = { roles: ['staff'] };
 
 /**
  * GET /api/users
  * Get user information or list of users
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const wallet = searchParams.get('wallet');
@@ -21,6 +30,10 @@ export async function GET(request: NextRequest) {
     
     // If wallet is specified, get specific user
     if (wallet) {
+      if (wallet.toLowerCase() !== auth.wallet && !isRoleAllowed(auth.role, MANAGE_OTHERS_POLICY)) {
+        return forbiddenResponse('You can only look up your own user record');
+      }
+
       const user = await getUserById(wallet);
       
       if (!user && includeUnregistered) {
@@ -52,7 +65,11 @@ export async function GET(request: NextRequest) {
       });
     }
     
-    // Get all users (for staff dashboard)
+    // Get all users (for staff dashboard and pickup persons resolving their authorizing parents)
+    if (auth.role === 'parent') {
+      return forbiddenResponse('Only staff and pickup persons can list users');
+    }
+
     let users: any[] = [];
     
     if (role) {
@@ -74,16 +91,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/users
  * Create a new user
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(POLICY.POST, async (request) => {
   try {
     const body = await request.json();
-    const { walletAddress, name, contactNumber, role, idToken } = body;
+    const { walletAddress, name, contactNumber, role } = body;
     
     // Validate required fields
     if (!walletAddress || !name || !role) {
@@ -101,17 +118,6 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // If idToken is provided, verify it matches the wallet address
-    if (idToken) {
-      const decodedToken = await verifyIdToken(idToken);
-      if (!decodedToken || decodedToken.wallet !== walletAddress.toLowerCase()) {
-        return NextResponse.json(
-          { error: 'Invalid token or wallet address mismatch' },
-          { status: 401 }
-        );
-      }
-    }
-    
     // Check if user already exists
     const existingUser = await getUserById(walletAddress);
     if (existingUser) {
@@ -153,31 +159,27 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/users
  * Update user last login time
  */
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(POLICY.PUT, async (request, auth) => {
   try {
     const body = await request.json();
-    const { walletAddress, idToken } = body;
+    const { walletAddress } = body;
     
-    if (!walletAddress || !idToken) {
+    if (!walletAddress) {
       return NextResponse.json(
-        { error: 'Wallet address and ID token are required' },
+        { error: 'Wallet address is required' },
         { status: 400 }
       );
     }
     
-    // Verify token
-    const decodedToken = await verifyIdToken(idToken);
-    if (!decodedToken || decodedToken.wallet !== walletAddress.toLowerCase()) {
-      return NextResponse.json(
-        { error: 'Invalid token or wallet address mismatch' },
-        { status: 401 }
-      );
+    // Users can only update their own record
+    if (auth.wallet !== walletAddress.toLowerCase()) {
+      return forbiddenResponse('Wallet address does not match the authenticated user');
     }
     
     // Update last login
@@ -202,4 +204,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { createAuthNonce } from '@/lib/firebase/auth';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  POST: { roles: ['parent', 'pickup'] },
+} satisfies RoutePolicyTable;
+
+/**
+ * POST /api/wallets/links/nonce
+ * Issues a single-use nonce for a wallet link message
+ */
+export const POST = withAuth(POLICY.POST, async (request, auth) => {
+  try {
+    const authNonce = await createAuthNonce(auth.wallet, auth.role, 'link');
+
+    return NextResponse.json({
+      success: true,
+      ...authNonce,
+    });
+
+  } catch (error) {
+    console.error('Error issuing link nonce:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,208 @@
+import { NextResponse } from 'next/server';
+import { consumeAuthNonce } from '@/lib/firebase/auth';
+import {
+  createWalletLink,
+  getActiveWalletLinks,
+  getWalletLink,
+  isWalletAuthorizedForAccount,
+  revokeWalletLink
+} from '@/lib/firebase/wallet-links';
+import { revokeWalletSessions } from '@/lib/firebase/sessions';
+import { parseWalletLinkMessage, isLinkSignatureValid } from '@/lib/wallet/linking';
+import { withAuth, forbiddenResponse, isRoleAllowed, RoutePolicy, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['parent', 'pickup', 'staff'] },
+  POST: { roles: ['parent', 'pickup'] },
+  DELETE: { roles: ['parent', 'pickup', 'staff'] },
+} satisfies RoutePolicyTable;
+
+// Staff can view and remove links of any account
+const MANAGE_OTHERS_POLICY: RoutePolicy = { roles: ['staff'] };
+
+/**
+ * GET /api/wallets/links
+ * List wallets linked to the caller's account, or to ?wallet= when called by staff
+ */
+export const GET = withAuth(POLICY.GET, async (request, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const wallet = (searchParams.get('wallet') || auth.wallet).toLowerCase();
+
+    if (wallet !== auth.wallet && !isRoleAllowed(auth.role, MANAGE_OTHERS_POLICY)) {
+      return forbiddenResponse('You can only view your own linked wallets');
+    }
+
+    const links = await getActiveWalletLinks(wallet);
+
+    return NextResponse.json({
+      success: true,
+      primaryWallet: wallet,
+      links: links.map(link => ({
+        wallet: link.wallet,
+        authorizedBy: link.authorizedBy,
+        createdAt: link.createdAt.toISOString(),
+        isCurrentSigner: link.wallet === auth.token.signerWallet,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Error fetching wallet links:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/wallets/links
+ * Link a new wallet to the caller's account. The link message must be signed both by
+ * a wallet already authorized for the account and by the wallet being linked.
+ */
+export const POST = withAuth(POLICY.POST, async (request, auth) => {
+  try {
+    const { message, signature, linkedSignature } = await request.json();
+
+    if (!message || !signature || !linkedSignature) {
+      return NextResponse.json(
+        { error: 'message, signature and linkedSignature are required' },
+        { status: 400 }
+      );
+    }
+
+    const fields = parseWalletLinkMessage(message);
+    if (!fields) {
+      return NextResponse.json(
+        { error: 'Invalid link message' },
+        { status: 400 }
+      );
+    }
+
+    if (fields.accountWallet !== auth.wallet) {
+      return forbiddenResponse('Link message was created for a different account');
+    }
+
+    if (fields.linkedWallet === auth.wallet) {
+      return NextResponse.json(
+        { error: 'A wallet cannot be linked to itself' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isWalletAuthorizedForAccount(fields.authorizingWallet, auth.wallet))) {
+      return forbiddenResponse('The approving wallet is not authorized for this account');
+    }
+
+    if (!isLinkSignatureValid(message, signature, fields.authorizingWallet)) {
+      return NextResponse.json(
+        { error: 'Invalid signature from the approving wallet' },
+        { status: 401 }
+      );
+    }
+
+    if (!isLinkSignatureValid(message, linkedSignature, fields.linkedWallet)) {
+      return NextResponse.json(
+        { error: 'Invalid signature from the new wallet' },
+        { status: 401 }
+      );
+    }
+
+    // Redeem the server-issued nonce (rejects unknown, expired or reused nonces)
+    const nonceResult = await consumeAuthNonce(fields.nonce, auth.wallet, auth.role, 'link');
+    if (!nonceResult.valid) {
+      return NextResponse.json(
+        { error: nonceResult.error || 'Invalid nonce' },
+        { status: 401 }
+      );
+    }
+
+    const result = await createWalletLink({
+      wallet: fields.linkedWallet,
+      primaryWallet: auth.wallet,
+      authorizedBy: fields.authorizingWallet,
+      message,
+      signature,
+      linkedSignature,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to link wallet' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Wallet linked successfully',
+      data: {
+        wallet: fields.linkedWallet,
+        primaryWallet: auth.wallet,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error linking wallet:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/wallets/links?wallet=...
+ * Unlink a wallet and sign out the sessions it opened
+ */
+export const DELETE = withAuth(POLICY.DELETE, async (request, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const wallet = searchParams.get('wallet')?.toLowerCase();
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: 'Wallet is required' },
+        { status: 400 }
+      );
+    }
+
+    const link = await getWalletLink(wallet);
+    if (!link || link.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Wallet link not found' },
+        { status: 404 }
+      );
+    }
+
+    if (link.primaryWallet !== auth.wallet && !isRoleAllowed(auth.role, MANAGE_OTHERS_POLICY)) {
+      return forbiddenResponse('You can only unlink wallets from your own account');
+    }
+
+    const success = await revokeWalletLink(wallet, auth.wallet);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to unlink wallet' },
+        { status: 500 }
+      );
+    }
+
+    try {
+      await revokeWalletSessions(link.primaryWallet, auth.wallet, wallet);
+    } catch (error) {
+      console.error('Error revoking sessions of unlinked wallet:', error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Wallet unlinked successfully',
+    });
+
+  } catch (error) {
+    console.error('Error unlinking wallet:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { approveWalletRecovery, rejectWalletRecovery, toRecoveryResponse } from '@/lib/firebase/wallet-recovery';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  PATCH: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
+
+/**
+ * PATCH /api/wallets/recoveries/[id]
+ * Approve or reject a pending recovery. The reviewer must not be the staff member who opened it.
+ */
+export const PATCH = withAuth<{ id: string }>(POLICY.PATCH, async (request, auth, context) => {
+  try {
+    const { id } = await context.params;
+    const { action, note } = await request.json();
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: "action must be 'approve' or 'reject'" },
+        { status: 400 }
+      );
+    }
+
+    const result = action === 'approve'
+      ? await approveWalletRecovery(id, auth.wallet, note)
+      : await rejectWalletRecovery(id, auth.wallet, note);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to review recovery request' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: action === 'approve' ? 'Account moved to the new wallet' : 'Recovery request rejected',
+      recovery: result.recovery ? toRecoveryResponse(result.recovery) : undefined,
+    });
+
+  } catch (error) {
+    console.error('Error reviewing wallet recovery:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
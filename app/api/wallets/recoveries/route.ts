@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import type { WalletRecoveryStatus } from '@/types/database';
+import { getWalletRecoveries, requestWalletRecovery, toRecoveryResponse } from '@/lib/firebase/wallet-recovery';
+import { withAuth, RoutePolicyTable } from '@/lib/firebase/api-auth';
+
+const POLICY = {
+  GET: { roles: ['staff'] },
+  POST: { roles: ['staff'] },
+} satisfies RoutePolicyTable;
+
+const WALLET_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const STATUSES: WalletRecoveryStatus[] = ['pending', 'approved', 'completed', 'rejected', 'failed'];
+
+/**
+ * GET /api/wallets/recoveries
+ * List wallet recovery requests, optionally filtered by ?status=
+ */
+export const GET = withAuth(POLICY.GET, async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as WalletRecoveryStatus | null;
+
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status' },
+        { status: 400 }
+      );
+    }
+
+    const recoveries = await getWalletRecoveries(status || undefined);
+
+    return NextResponse.json({
+      success: true,
+      recoveries: recoveries.map(toRecoveryResponse),
+    });
+
+  } catch (error) {
+    console.error('Error fetching wallet recoveries:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/wallets/recoveries
+ * Open a request to move an account from a lost wallet to a new one
+ */
+export const POST = withAuth(POLICY.POST, async (request, auth) => {
+  try {
+    const { oldWallet, newWallet, reason } = await request.json();
+
+    if (!oldWallet || !newWallet || !reason?.trim()) {
+      return NextResponse.json(
+        { error: 'oldWallet, newWallet and reason are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!WALLET_PATTERN.test(oldWallet) || !WALLET_PATTERN.test(newWallet)) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address' },
+        { status: 400 }
+      );
+    }
+
+    const result = await requestWalletRecovery(oldWallet, newWallet, reason.trim(), auth.wallet);
+    if (!result.success || !result.recovery) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to create recovery request' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Recovery request created. Another staff member must approve it.',
+      recovery: toRecoveryResponse(result.recovery),
+    });
+
+  } catch (error) {
+    console.error('Error creating wallet recovery:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
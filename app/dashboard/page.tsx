@@ -1,8 +1,9 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
-import { useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useFirebaseAuth } from "../../hooks/useFirebaseAuth";
+import { useSessionGuard, SessionEndedReason } from "../../hooks/useSessionGuard";
 import DashboardNavbar from '../../components/dashboard/DashboardNavbar';
 import ParentDashboardSection from '../../components/dashboard/parent/ParentDashboardSection';
 import StaffDashboardSection from '../../components/dashboard/staff/StaffDashboardSection';
@@ -11,13 +12,26 @@ import PickupDashboardSection from '../../components/dashboard/pickup/PickupDash
 export default function Dashboard() {
   const router = useRouter();
   const { user, isAuthenticated, logout, isLoading } = useFirebaseAuth();
+  const [sessionEndedReason, setSessionEndedReason] = useState<SessionEndedReason | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
-      router.push('/login');
+      router.push(sessionEndedReason ? `/login?reason=${sessionEndedReason}` : '/login');
     }
-  }, [isLoading, isAuthenticated, router]);
+  }, [isLoading, isAuthenticated, router, sessionEndedReason]);
+
+  // Sign out when this device's session is revoked elsewhere or expires
+  const handleSessionEnded = useCallback(async (reason: SessionEndedReason) => {
+    setSessionEndedReason(reason);
+    try {
+      await logout();
+    } catch (error) {
+      console.error('Logout after session end failed:', error);
+    }
+  }, [logout]);
+
+  useSessionGuard(isAuthenticated, handleSessionEnded);
 
   const handleLogout = async () => {
     try {
@@ -68,10 +82,10 @@ export default function Dashboard() {
         </div>
         <div className="space-y-8">
           {user.role === 'parent' && <ParentDashboardSection />}
-          {user.role === 'staff' && <StaffDashboardSection />}
+          {(user.role === 'staff' || user.role === 'admin') && <StaffDashboardSection />}
           {user.role === 'pickup' && <PickupDashboardSection />}
           {/* Fallback for unknown roles */}
-          {!['parent', 'staff', 'pickup'].includes(user.role) && (
+          {!['parent', 'staff', 'admin', 'pickup'].includes(user.role) && (
             <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-slate-200/50 p-8 text-center">
               <div className="w-16 h-16 bg-gradient-to-r from-slate-500 to-slate-600 rounded-2xl mx-auto mb-4 flex items-center justify-center">
                 <span className="text-white text-2xl">❓</span>
@@ -0,0 +1,16 @@
+import React from 'react';
+import PickupProofVerifier from '@/components/PickupProofVerifier';
+
+export default async function VerifyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ id?: string }>;
+}) {
+  const { id } = await searchParams;
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4">
+      <PickupProofVerifier initialId={id || ''} />
+    </main>
+  );
+}
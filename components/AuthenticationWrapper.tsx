@@ -7,6 +7,12 @@ import { useFirebaseAuth } from '@/hooks/useFirebaseAuth';
 import WalletConnection from './WalletConnection';
 import RoleSelection, { UserRole } from './RoleSelection';
 
+// Messages for the `reason` query parameter set when the dashboard ends a session
+const SESSION_NOTICES: Record<string, string> = {
+  session_revoked: 'This device was signed out from another session. Reconnect your wallet and sign in again.',
+  session_expired: 'Your session expired due to inactivity. Please sign in again.',
+};
+
 interface AuthenticationWrapperProps {
   onAuthenticated?: (user: any) => void;
   autoSignIn?: boolean;
@@ -26,6 +32,22 @@ export const AuthenticationWrapper: React.FC<AuthenticationWrapperProps> = ({
   const [authError, setAuthError] = useState<string | null>(null);
   const [hasAttemptedAutoSignIn, setHasAttemptedAutoSignIn] = useState(false);
   const [countdown, setCountdown] = useState<number>(0);
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
+
+  // A revoked or expired session disconnects the wallet and requires an explicit sign-in
+  useEffect(() => {
+    const reason = new URLSearchParams(window.location.search).get('reason');
+    if (reason && SESSION_NOTICES[reason]) {
+      setSessionNotice(SESSION_NOTICES[reason]);
+      wallet.disconnect();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionNotice && wallet.isConnected && authState === 'connecting') {
+      setAuthState('manual-signin');
+    }
+  }, [sessionNotice, wallet.isConnected, authState]);
 
   // Clear errors when wallet state changes
   useEffect(() => {
@@ -55,12 +77,12 @@ export const AuthenticationWrapper: React.FC<AuthenticationWrapperProps> = ({
 
     const attemptAutoSignIn = async () => {
       // Only attempt auto sign-in if:
-      // 1. Auto sign-in is enabled
+      // 1. Auto sign-in is enabled and the previous session was not revoked or expired
       // 2. We haven't already attempted it
       // 3. Wallet is actually connected with an address AND signer
       // 4. Auth is not currently loading
       // 5. Not already in authentication process
-      if (!autoSignIn || hasAttemptedAutoSignIn || !wallet.isConnected || !wallet.address || !wallet.signer || auth.isLoading || isCancelled) {
+      if (!autoSignIn || sessionNotice || hasAttemptedAutoSignIn || !wallet.isConnected || !wallet.address || !wallet.signer || auth.isLoading || isCancelled) {
         return;
       }
 
@@ -175,7 +197,7 @@ export const AuthenticationWrapper: React.FC<AuthenticationWrapperProps> = ({
         clearInterval(signerCheckInterval);
       }
     };
-  }, [wallet.isConnected, wallet.address, wallet.signer, autoSignIn, hasAttemptedAutoSignIn]);
+  }, [wallet.isConnected, wallet.address, wallet.signer, autoSignIn, hasAttemptedAutoSignIn, sessionNotice]);
 
   // Reset auto sign-in attempt when wallet disconnects
   useEffect(() => {
@@ -268,8 +290,8 @@ export const AuthenticationWrapper: React.FC<AuthenticationWrapperProps> = ({
   }, [wallet.isConnected]);
 
   const getStatusMessage = () => {
-    if (!wallet.isMetaMaskInstalled) {
-      return 'MetaMask not detected. Please install MetaMask extension.';
+    if (!wallet.isWalletAvailable) {
+      return 'No wallet detected. Please install a browser wallet extension.';
     }
     
     switch (authState) {
@@ -282,12 +304,15 @@ export const AuthenticationWrapper: React.FC<AuthenticationWrapperProps> = ({
         }
         return wallet.isConnected ? 'Wallet connected. Preparing to sign in...' : 'Connect your wallet to continue';
       case 'authenticating':
-        return 'Signing in with your wallet... Please confirm any MetaMask prompts.';
+        return 'Signing in with your wallet... Please confirm the request in your wallet.';
       case 'role-selection':
         return 'Please select your role to complete setup';
       case 'authenticated':
         return 'Successfully authenticated!';
       case 'manual-signin':
+        if (sessionNotice) {
+          return 'Click the button below to sign in again.';
+        }
         return 'Auto sign-in failed. Click the button below to sign in manually.';
       case 'error':
         return 'Authentication failed. Please try again.';
@@ -345,6 +370,18 @@ export const AuthenticationWrapper: React.FC<AuthenticationWrapperProps> = ({
             </p>
           </div>
 
+          {/* Session Notice */}
+          {sessionNotice && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="flex items-start space-x-2">
+                <span className="text-yellow-500 mt-0.5">🔒</span>
+                <p className="text-yellow-700 text-sm">
+                  {sessionNotice}
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Status */}
           <div className="mb-6 text-center">
             <p className={`text-sm font-medium ${getStatusColor()}`}>
@@ -433,9 +470,9 @@ export const AuthenticationWrapper: React.FC<AuthenticationWrapperProps> = ({
 
           {/* Instructions */}
           <div className="mt-6 text-center space-y-3">
-            {!wallet.isMetaMaskInstalled ? (
+            {!wallet.isWalletAvailable ? (
               <div className="text-sm text-gray-600">
-                <p className="mb-2">MetaMask is required to use this application.</p>
+                <p className="mb-2">A crypto wallet is required to use this application.</p>
                 <p>
                   <a 
                     href="https://metamask.io/download/" 
@@ -449,16 +486,16 @@ export const AuthenticationWrapper: React.FC<AuthenticationWrapperProps> = ({
               </div>
             ) : !wallet.isConnected ? (
               <div className="text-sm text-gray-600">
-                <p className="mb-2">Click "Connect Wallet" to link your MetaMask account.</p>
+                <p className="mb-2">Choose a wallet above to connect your account.</p>
                 <p className="text-xs text-gray-500">
-                  Make sure MetaMask is unlocked and you have an account selected.
+                  Use WalletConnect to sign in with a phone wallet. Make sure your wallet is unlocked.
                 </p>
               </div>
             ) : authState === 'connecting' && countdown === 0 ? (
               <div className="text-sm text-gray-600">
                 <p>Wallet connected! Authentication will begin automatically.</p>
               </div>
-            ) : authState === 'manual-signin' ? (
+            ) : authState === 'manual-signin' && !sessionNotice ? (
               <div className="text-sm text-gray-600">
                 <p className="mb-2">Automatic sign-in was unsuccessful.</p>
                 <p className="text-xs text-gray-500">
@@ -0,0 +1,70 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { authFetch } from "@/lib/firebase/client-auth";
+import { loadCachedPhoto } from "@/lib/offline/gate-store";
+
+interface PhotoImageProps {
+  // Photo URL from the API (/api/photos/...), or null when there is no photo
+  src: string | null;
+  alt: string;
+  className?: string;
+  // Read the photo from the offline gate cache instead of the API
+  cached?: boolean;
+}
+
+/**
+ * Shows a photo served by /api/photos. Photos need the Authorization header, so they are
+ * fetched and shown from an object URL instead of a plain <img src>. In offline gate mode they
+ * come from the copies cached with the roster.
+ */
+const PhotoImage: React.FC<PhotoImageProps> = ({ src, alt, className = "w-24 h-24", cached = false }) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setObjectUrl(null);
+    setFailed(false);
+    if (!src) return;
+
+    let url: string | null = null;
+    let cancelled = false;
+
+    const loadPhoto = async (): Promise<Blob> => {
+      if (cached) {
+        const photo = await loadCachedPhoto(src);
+        if (!photo) throw new Error("Photo is not cached on this device");
+        return photo;
+      }
+      const response = await authFetch(src);
+      if (!response.ok) throw new Error(`Photo request failed with status ${response.status}`);
+      return response.blob();
+    };
+
+    loadPhoto()
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setObjectUrl(url);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [src, cached]);
+
+  if (objectUrl) {
+    return <img src={objectUrl} alt={alt} className={`${className} object-cover rounded-lg border border-gray-200`} />;
+  }
+
+  return (
+    <div className={`${className} rounded-lg border border-dashed border-gray-300 bg-gray-50 flex items-center justify-center text-xs text-gray-400 text-center p-1`}>
+      {!src || failed ? "No photo on file" : "Loading..."}
+    </div>
+  );
+};
+
+export default PhotoImage;
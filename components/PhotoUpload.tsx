@@ -0,0 +1,79 @@
+"use client";
+import React, { useRef, useState } from "react";
+import { authFetch } from "@/lib/firebase/client-auth";
+import PhotoImage from "./PhotoImage";
+
+interface PhotoUploadProps {
+  kind: "user" | "student";
+  id: string; // Wallet address or student ID
+  label?: string;
+  // Only show the photo, for people who may view but not replace it
+  readOnly?: boolean;
+}
+
+/**
+ * Shows the photo staff will see at pickup and lets the owner (or the parent of a student) replace it
+ */
+const PhotoUpload: React.FC<PhotoUploadProps> = ({ kind, id, label = "Photo", readOnly = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [photoUrl, setPhotoUrl] = useState(`/api/photos/${kind}/${encodeURIComponent(id)}`);
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploading(true);
+    setMessage(null);
+
+    try {
+      const form = new FormData();
+      form.append("photo", file);
+      const response = await authFetch(`/api/photos/${kind}/${encodeURIComponent(id)}`, {
+        method: "PUT",
+        body: form,
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to upload photo");
+      }
+      setPhotoUrl(data.photo.url);
+      setMessage("Photo updated");
+    } catch (e: any) {
+      setMessage(e.message || "Failed to upload photo");
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-4">
+      <PhotoImage src={photoUrl} alt={label} className="w-16 h-16" />
+      <div className="space-y-1">
+        <div className="text-sm font-semibold text-slate-700">{label}</div>
+        {!readOnly && (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <button
+              type="button"
+              className="text-sm text-blue-600 hover:text-blue-800 underline disabled:opacity-50"
+              onClick={() => inputRef.current?.click()}
+              disabled={uploading}
+            >
+              {uploading ? "Uploading..." : "Upload photo"}
+            </button>
+          </>
+        )}
+        {message && <div className="text-xs text-slate-500">{message}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default PhotoUpload;
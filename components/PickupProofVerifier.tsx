@@ -0,0 +1,214 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { createPickupEventHash } from '@/lib/blockchain/hashing';
+import { verifyEventProof } from '@/lib/blockchain/merkle';
+import { getPickupEventFromChain, verifyPickupEventProof } from '@/lib/blockchain/contract';
+import { getNetworkConfig } from '@/lib/blockchain/constants';
+import type { PickupEventProof } from '@/lib/blockchain/types';
+
+type CheckState = 'pass' | 'fail' | 'skipped';
+
+interface ProofCheck {
+  label: string;
+  state: CheckState;
+  detail: string;
+}
+
+interface PickupProofVerifierProps {
+  initialId?: string;
+}
+
+const checkStyles: Record<CheckState, { icon: string; className: string }> = {
+  pass: { icon: '✅', className: 'bg-green-50 border-green-200 text-green-800' },
+  fail: { icon: '❌', className: 'bg-red-50 border-red-200 text-red-800' },
+  skipped: { icon: '⏳', className: 'bg-gray-50 border-gray-200 text-gray-700' },
+};
+
+/**
+ * Checks a pickup record against the chain. Only the preimage and proof come from
+ * our API; the leaf is recomputed here and the contract is read over a public RPC.
+ */
+export const PickupProofVerifier: React.FC<PickupProofVerifierProps> = ({ initialId = '' }) => {
+  const [recordId, setRecordId] = useState(initialId);
+  const [rpcUrl, setRpcUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [proof, setProof] = useState<PickupEventProof | null>(null);
+  const [checks, setChecks] = useState<ProofCheck[]>([]);
+
+  const runChecks = async (data: PickupEventProof): Promise<ProofCheck[]> => {
+    const results: ProofCheck[] = [];
+
+    // 1. The leaf must be the hash of the published preimage
+    const leaf = createPickupEventHash({ ...data.event, eventHash: '' });
+    results.push({
+      label: 'Event hash',
+      state: leaf === data.eventHash ? 'pass' : 'fail',
+      detail: leaf === data.eventHash
+        ? 'Recomputed from the event details'
+        : `Recomputed ${leaf}, record says ${data.eventHash}`,
+    });
+
+    // 2. The leaf must be in the batch root
+    if (data.anchorMode === 'batch' && data.merkleRoot) {
+      const inRoot = verifyEventProof(leaf, data.proof, data.merkleRoot);
+      results.push({
+        label: 'Merkle proof',
+        state: inRoot ? 'pass' : 'fail',
+        detail: inRoot ? `Leads to root ${data.merkleRoot}` : 'Proof does not lead to the batch root',
+      });
+    }
+
+    // 3. The chain must agree
+    if (data.anchorStatus !== 'confirmed' || !data.chainId || !data.contractAddress) {
+      results.push({
+        label: 'On-chain record',
+        state: 'skipped',
+        detail: 'This pickup has not been anchored on chain yet',
+      });
+      return results;
+    }
+
+    const network = getNetworkConfig(data.chainId);
+    const readRpcUrl = rpcUrl.trim() || network?.rpcUrl;
+    if (!readRpcUrl) {
+      results.push({
+        label: 'On-chain record',
+        state: 'skipped',
+        detail: `No RPC URL known for chain ${data.chainId}`,
+      });
+      return results;
+    }
+
+    const provider = new ethers.JsonRpcProvider(readRpcUrl, data.chainId, { staticNetwork: true });
+    const config = { contractAddress: data.contractAddress, rpcUrl: readRpcUrl, chainId: data.chainId };
+    const chainName = network?.name || `chain ${data.chainId}`;
+
+    if (data.anchorMode === 'batch' && data.batchNumber !== null) {
+      const onChain = await verifyPickupEventProof(provider, leaf, data.batchNumber, data.proof, config);
+      results.push({
+        label: 'On-chain record',
+        state: onChain ? 'pass' : 'fail',
+        detail: onChain
+          ? `PickupSecurity.verifyPickupEvent accepted the proof for batch #${data.batchNumber} on ${chainName}`
+          : `PickupSecurity.verifyPickupEvent rejected the proof for batch #${data.batchNumber} on ${chainName}`,
+      });
+    } else {
+      const event = await getPickupEventFromChain(provider, leaf, config);
+      const matches = Boolean(event) &&
+        event!.studentHash === data.event.studentHash &&
+        event!.qrCodeHash === data.event.qrCodeHash &&
+        event!.pickupWallet.toLowerCase() === data.event.pickupWallet.toLowerCase() &&
+        event!.staffWallet.toLowerCase() === data.event.staffWallet.toLowerCase();
+      results.push({
+        label: 'On-chain record',
+        state: matches ? 'pass' : 'fail',
+        detail: matches
+          ? `PickupSecurity.getPickupEvent returned the same event on ${chainName}`
+          : event ? 'The on-chain event does not match these details' : `Event not found on ${chainName}`,
+      });
+    }
+
+    return results;
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recordId.trim()) return;
+
+    setIsLoading(true);
+    setError(null);
+    setProof(null);
+    setChecks([]);
+
+    try {
+      const response = await fetch(`/api/pickup/history/${encodeURIComponent(recordId.trim())}/proof`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load pickup proof');
+      }
+
+      setProof(result.data);
+      setChecks(await runChecks(result.data));
+    } catch (err: any) {
+      setError(err.message || 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const allPassed = checks.length > 0 && checks.every(check => check.state === 'pass');
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="text-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Verify a Pickup</h2>
+          <p className="text-gray-600">
+            Check that a pickup record was anchored on chain, without relying on the school&apos;s database.
+          </p>
+        </div>
+
+        <form onSubmit={handleVerify} className="space-y-3 mb-6">
+          <input
+            type="text"
+            value={recordId}
+            onChange={(e) => setRecordId(e.target.value)}
+            placeholder="Pickup record ID"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-200 focus:border-blue-500"
+          />
+          <input
+            type="url"
+            value={rpcUrl}
+            onChange={(e) => setRpcUrl(e.target.value)}
+            placeholder="Your own RPC URL (optional)"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-200 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !recordId.trim()}
+            className="w-full py-3 px-4 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isLoading ? 'Verifying...' : 'Verify'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-center space-x-2">
+              <span className="text-red-500">⚠️</span>
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {proof && (
+          <div className="space-y-3">
+            {checks.map(check => (
+              <div key={check.label} className={`p-3 border rounded-lg ${checkStyles[check.state].className}`}>
+                <div className="font-medium">{checkStyles[check.state].icon} {check.label}</div>
+                <div className="text-sm mt-1 break-all">{check.detail}</div>
+              </div>
+            ))}
+
+            {allPassed && (
+              <p className="text-center text-green-700 font-semibold">This pickup is anchored on chain.</p>
+            )}
+
+            <details className="text-sm text-gray-700">
+              <summary className="cursor-pointer font-medium">Proof details</summary>
+              <pre className="mt-2 p-3 bg-gray-50 rounded-lg overflow-x-auto text-xs">
+                {JSON.stringify(proof, null, 2)}
+              </pre>
+            </details>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PickupProofVerifier;
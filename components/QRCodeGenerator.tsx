@@ -1,15 +1,40 @@
-import React from "react";
+"use client";
+import React, { useEffect, useState } from "react";
 import QRCode from "react-qr-code";
+import { appendRotatingCode, type QRRotation } from "@/lib/firebase/qr-totp";
 
 interface QRCodeGeneratorProps {
   value: string;
+  // When set, a new code is shown every rotation interval
+  rotation?: QRRotation | null;
 }
 
-const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ value }) => (
-  <div className="flex flex-col items-center">
-    <QRCode value={value} size={160} />
-    <div className="mt-2 text-xs text-gray-500 break-all">{value}</div>
-  </div>
-);
+const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ value, rotation }) => {
+  const [now, setNow] = useState(Date.now);
 
-export default QRCodeGenerator;
\ No newline at end of file
+  // Tick every second for the countdown; the code itself changes once per interval
+  useEffect(() => {
+    if (!rotation) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [rotation]);
+
+  const displayed = rotation ? appendRotatingCode(value, rotation, now) : value;
+  const secondsLeft = rotation
+    ? rotation.intervalSeconds - (Math.floor(now / 1000) % rotation.intervalSeconds)
+    : 0;
+
+  return (
+    <div className="flex flex-col items-center">
+      <QRCode value={displayed} size={160} />
+      {rotation && (
+        <div className="mt-2 text-xs font-medium text-gray-600">
+          Code changes in {secondsLeft}s. Screenshots will not work.
+        </div>
+      )}
+      <div className="mt-2 text-xs text-gray-500 break-all">{displayed}</div>
+    </div>
+  );
+};
+
+export default QRCodeGenerator;
@@ -2,12 +2,16 @@
 import { useEffect, useRef, useState } from "react";
 import { BrowserMultiFormatReader } from "@zxing/browser";
 import { Result, Exception } from "@zxing/library";
+import { isSignedQRToken } from "@/lib/firebase/qr-tokens";
+import { splitRotatingCode } from "@/lib/firebase/qr-totp";
 
 interface QRCodeScannerProps {
   onScan?: (data: any) => void;
+  // Codes are checked on the device against the cached roster
+  offline?: boolean;
 }
 
-export default function QRCodeScanner({ onScan }: QRCodeScannerProps) {
+export default function QRCodeScanner({ onScan, offline = false }: QRCodeScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const isScanned = useRef(false);
   const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
@@ -70,6 +74,12 @@ export default function QRCodeScanner({ onScan }: QRCodeScannerProps) {
   }, [onScan]);
 
   const handleManualScan = () => {
+    // Signed tokens and rotating codes are not JSON; pass them through like a camera scan
+    if (isSignedQRToken(manualInput.trim()) || splitRotatingCode(manualInput.trim()).rotating) {
+      onScan?.({ rawData: manualInput.trim() });
+      setManualInput("");
+      return;
+    }
     try {
       const data = JSON.parse(manualInput);
       onScan?.(data);
@@ -93,6 +103,12 @@ export default function QRCodeScanner({ onScan }: QRCodeScannerProps) {
 
   return (
     <div className="space-y-6">
+      {offline && (
+        <div className="bg-amber-50 rounded-xl border border-amber-200 p-3 text-sm text-amber-800">
+          Offline: signed QR codes are checked on this device and pickups are recorded once the connection is back.
+        </div>
+      )}
+
       {/* Camera Scanner */}
       <div className="bg-blue-50 rounded-xl border border-blue-200 p-6">
         <div className="text-center mb-4">
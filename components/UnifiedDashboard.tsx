@@ -30,6 +30,7 @@ const UnifiedDashboard: React.FC<UnifiedDashboardProps> = ({ role }) => {
     case 'pickup':
       return <PickupDashboardSection />;
     case 'staff':
+    case 'admin':
       return <StaffDashboardSection />;
     default:
       return (
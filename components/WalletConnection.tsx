@@ -26,7 +26,7 @@ export const WalletConnection: React.FC<WalletConnectionProps> = ({
 
   // Auto-connect on mount if requested
   useEffect(() => {
-    if (autoConnect && !wallet.isConnected && !wallet.isLoading && wallet.isMetaMaskInstalled) {
+    if (autoConnect && !wallet.isConnected && !wallet.isLoading && wallet.isWalletAvailable) {
       // Check if there are already connected accounts first
       const checkExistingConnection = async () => {
         try {
@@ -38,12 +38,12 @@ export const WalletConnection: React.FC<WalletConnectionProps> = ({
       
       checkExistingConnection();
     }
-  }, [autoConnect, wallet.isConnected, wallet.isLoading, wallet.isMetaMaskInstalled, wallet.checkConnection]);
+  }, [autoConnect, wallet.isConnected, wallet.isLoading, wallet.isWalletAvailable, wallet.checkConnection]);
 
-  const handleConnect = useCallback(async () => {
+  const handleConnect = useCallback(async (providerId?: string) => {
     try {
       setIsConnecting(true);
-      const result = await wallet.connect();
+      const result = await wallet.connect(providerId);
       
       if (!result.success) {
         console.error('Wallet connection failed:', result.error);
@@ -73,8 +73,8 @@ export const WalletConnection: React.FC<WalletConnectionProps> = ({
   };
 
   const getStatusText = () => {
-    if (!wallet.isMetaMaskInstalled) {
-      return 'MetaMask not installed';
+    if (!wallet.isWalletAvailable) {
+      return 'No wallet found';
     }
     if (wallet.isLoading || isConnecting) {
       return 'Connecting...';
@@ -89,8 +89,8 @@ export const WalletConnection: React.FC<WalletConnectionProps> = ({
   };
 
   const getButtonText = () => {
-    if (!wallet.isMetaMaskInstalled) {
-      return 'Install MetaMask';
+    if (!wallet.isWalletAvailable) {
+      return 'Install a Wallet';
     }
     if (wallet.isLoading || isConnecting) {
       return 'Connecting...';
@@ -102,19 +102,22 @@ export const WalletConnection: React.FC<WalletConnectionProps> = ({
   };
 
   const handleButtonClick = () => {
-    if (!wallet.isMetaMaskInstalled) {
+    if (!wallet.isWalletAvailable) {
       window.open('https://metamask.io/download/', '_blank');
       return;
     }
     if (wallet.isConnected) {
       handleDisconnect();
     } else {
-      handleConnect();
+      handleConnect(wallet.providerOptions[0]?.id);
     }
   };
 
   const isButtonDisabled = wallet.isLoading || isConnecting;
 
+  // Let the user choose when more than one wallet is available
+  const showProviderPicker = !wallet.isConnected && wallet.providerOptions.length > 1;
+
   return (
     <div className="wallet-connection">
       {showStatus && (
@@ -126,20 +129,43 @@ export const WalletConnection: React.FC<WalletConnectionProps> = ({
           
           {wallet.isConnected && !wallet.isNetworkSupported && (
             <div className="mt-2 text-sm text-yellow-600">
-              ⚠️ Unsupported network. Please switch to a supported network.
+              ⚠️ Unsupported network.{' '}
+              <button
+                onClick={() => wallet.switchNetwork()}
+                className="underline hover:text-yellow-800"
+              >
+                Switch to {wallet.defaultNetwork.name}
+              </button>
             </div>
           )}
         </div>
       )}
 
-      <button
-        onClick={handleButtonClick}
-        disabled={isButtonDisabled}
-        className="w-full py-2 px-4 text-white font-semibold rounded-lg disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center space-x-2"
-        style={{backgroundColor: 'var(--color-dark)'}}
-      >
-        <span>{getButtonText()}</span>
-      </button>
+      {showProviderPicker ? (
+        <div className="space-y-2">
+          {wallet.providerOptions.map(option => (
+            <button
+              key={option.id}
+              onClick={() => handleConnect(option.id)}
+              disabled={isButtonDisabled}
+              className="w-full py-2 px-4 text-white font-semibold rounded-lg disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center space-x-2"
+              style={{backgroundColor: 'var(--color-dark)'}}
+            >
+              {option.icon && <img src={option.icon} alt="" className="w-5 h-5" />}
+              <span>{isButtonDisabled ? 'Connecting...' : option.name}</span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <button
+          onClick={handleButtonClick}
+          disabled={isButtonDisabled}
+          className="w-full py-2 px-4 text-white font-semibold rounded-lg disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center space-x-2"
+          style={{backgroundColor: 'var(--color-dark)'}}
+        >
+          <span>{getButtonText()}</span>
+        </button>
+      )}
     </div>
   );
 };
@@ -1,7 +1,9 @@
 'use client';
 
-import React, { ReactNode } from 'react';
+import React, { ReactNode, useState } from 'react';
 import { DashboardTab } from '../../types/dashboard';
+import { useWallet } from '../../hooks/useWallet';
+import { getNetworkInfo } from '../../lib/wallet/connection';
 
 interface BaseDashboardProps {
   tabs: DashboardTab[];
@@ -18,6 +20,42 @@ const BaseDashboard: React.FC<BaseDashboardProps> = ({
   children,
   signingError
 }) => {
+  const wallet = useWallet();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [switchError, setSwitchError] = useState<string | null>(null);
+
+  const handleSwitchNetwork = async () => {
+    setIsSwitching(true);
+    setSwitchError(null);
+    const result = await wallet.switchNetwork();
+    if (!result.success) {
+      setSwitchError(result.error || 'Failed to switch network');
+    }
+    setIsSwitching(false);
+  };
+
+  // Block the dashboard while the wallet is on a chain we do not support, so nothing gets signed there
+  if (wallet.isConnected && wallet.chainId && !wallet.isNetworkSupported) {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-6 space-y-4">
+        <div>
+          <div className="text-yellow-800 font-semibold mb-2">Wrong Network</div>
+          <div className="text-yellow-700">
+            Your wallet is connected to {getNetworkInfo(wallet.chainId).name}. Switch to {wallet.defaultNetwork.name} to keep using KidGuard.
+          </div>
+        </div>
+        {switchError && <div className="text-sm text-red-600">{switchError}</div>}
+        <button
+          onClick={handleSwitchNetwork}
+          disabled={isSwitching}
+          className="px-6 py-2 bg-[#003751] text-white rounded-lg hover:opacity-90 disabled:opacity-50 font-medium"
+        >
+          {isSwitching ? 'Switching...' : `Switch to ${wallet.defaultNetwork.name}`}
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-8">
       {/* Error Display */}
@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import TabContainer from './TabContainer';
+import { authFetch } from '../../lib/firebase/client-auth';
+import { DeviceSession } from '../../types/dashboard';
+
+interface DeviceSessionsTabProps {
+  // Staff can look up another wallet's sessions, e.g. to revoke a stolen device
+  allowWalletLookup?: boolean;
+}
+
+const STATUS_STYLES: Record<DeviceSession['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  ended: 'bg-slate-100 text-slate-700',
+  expired: 'bg-yellow-100 text-yellow-800',
+  revoked: 'bg-red-100 text-red-800',
+};
+
+const formatDateTime = (iso?: string) => {
+  if (!iso) return '-';
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? '-' : d.toLocaleString();
+};
+
+const shortenWallet = (addr: string) => {
+  return addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr;
+};
+
+const DeviceSessionsTab: React.FC<DeviceSessionsTabProps> = ({ allowWalletLookup = false }) => {
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [viewedWallet, setViewedWallet] = useState<string | null>(null);
+  const [lookupWallet, setLookupWallet] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async (wallet?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const url = wallet ? `/api/sessions?wallet=${encodeURIComponent(wallet)}` : '/api/sessions';
+      const res = await authFetch(url);
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load sessions');
+      }
+      setSessions(data.sessions || []);
+      setViewedWallet(data.wallet || null);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    const wallet = lookupWallet.trim().toLowerCase();
+    if (!/^0x[a-f0-9]{40}$/.test(wallet)) {
+      setError('Enter a valid wallet address');
+      return;
+    }
+    setSuccessMsg(null);
+    fetchSessions(wallet);
+  };
+
+  const handleRevoke = async (session: DeviceSession) => {
+    if (!confirm(`Sign out "${session.deviceLabel}"? The device will have to sign in again with its wallet.`)) {
+      return;
+    }
+
+    setRevokingId(session.id);
+    setError(null);
+    setSuccessMsg(null);
+    try {
+      const res = await authFetch(`/api/sessions?sessionId=${encodeURIComponent(session.id)}`, {
+        method: 'DELETE',
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to revoke session');
+      }
+      setSuccessMsg(`Signed out ${session.deviceLabel}`);
+      await fetchSessions(viewedWallet || undefined);
+    } catch (e: any) {
+      setError(e.message || 'Failed to revoke session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const activeCount = sessions.filter(s => s.status === 'active').length;
+
+  return (
+    <TabContainer
+      title="My Devices"
+      description="Devices signed in with your wallet. Sign out any device you don't recognise."
+    >
+      <div className="space-y-6">
+        {allowWalletLookup && (
+          <form onSubmit={handleLookup} className="flex flex-col md:flex-row gap-3">
+            <input
+              type="text"
+              value={lookupWallet}
+              onChange={(e) => setLookupWallet(e.target.value)}
+              placeholder="Look up sessions for wallet 0x..."
+              className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+            >
+              Look Up
+            </button>
+            <button
+              type="button"
+              onClick={() => { setLookupWallet(''); setSuccessMsg(null); fetchSessions(); }}
+              className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 font-medium"
+            >
+              My Devices
+            </button>
+          </form>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-slate-600">
+            {viewedWallet && <span className="font-mono mr-2">{shortenWallet(viewedWallet)}</span>}
+            Active sessions: {activeCount}
+          </div>
+          <button
+            onClick={() => fetchSessions(viewedWallet || undefined)}
+            className="text-sm text-blue-600 hover:text-blue-800 underline"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+        {successMsg && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">{successMsg}</div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8 text-slate-500">Loading sessions...</div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">No sessions found</div>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map(session => (
+              <div
+                key={session.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 bg-white/80 border border-slate-200 rounded-xl"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-slate-900">{session.deviceLabel}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[session.status]}`}>
+                      {session.status}
+                    </span>
+                    {session.isCurrent && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1 space-x-3">
+                    <span>Signed in {formatDateTime(session.createdAt)}</span>
+                    <span>Last active {formatDateTime(session.lastActive)}</span>
+                    {session.ipAddress && <span>IP {session.ipAddress}</span>}
+                  </div>
+                  {session.status === 'revoked' && session.endedBy && (
+                    <div className="text-xs text-red-600 mt-1">
+                      Revoked by {shortenWallet(session.endedBy)} on {formatDateTime(session.endedAt)}
+                    </div>
+                  )}
+                </div>
+                {session.status === 'active' && !session.isCurrent && (
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={revokingId === session.id}
+                    className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 font-medium"
+                  >
+                    {revokingId === session.id ? 'Signing out...' : 'Sign Out Device'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </TabContainer>
+  );
+};
+
+export default DeviceSessionsTab;
@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import TabContainer from './TabContainer';
+import { useWallet } from '../../hooks/useWallet';
+import { authFetch } from '../../lib/firebase/client-auth';
+import { createWalletLinkMessage } from '../../lib/wallet/linking';
+import { signMessageWithAccount } from '../../lib/wallet/signature';
+
+type LinkedWallet = {
+  wallet: string;
+  authorizedBy: string;
+  createdAt: string;
+  isCurrentSigner: boolean;
+};
+
+const shortenWallet = (addr: string) => {
+  return addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr;
+};
+
+const LinkedWalletsTab: React.FC = () => {
+  const { address, signer, provider } = useWallet();
+  const [primaryWallet, setPrimaryWallet] = useState<string | null>(null);
+  const [links, setLinks] = useState<LinkedWallet[]>([]);
+  const [newWallet, setNewWallet] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [linkStep, setLinkStep] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+
+  const fetchLinks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await authFetch('/api/wallets/links');
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load linked wallets');
+      }
+      setPrimaryWallet(data.primaryWallet);
+      setLinks(data.links || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load linked wallets');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const handleLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const linkedWallet = newWallet.trim().toLowerCase();
+
+    setError(null);
+    setSuccessMsg(null);
+
+    if (!/^0x[a-f0-9]{40}$/.test(linkedWallet)) {
+      setError('Enter a valid wallet address');
+      return;
+    }
+    if (!address || !signer || !provider || !primaryWallet) {
+      setError('Wallet not connected. Please reconnect your wallet.');
+      return;
+    }
+    if (linkedWallet === address.toLowerCase() || linkedWallet === primaryWallet) {
+      setError('This wallet is already part of your account');
+      return;
+    }
+
+    try {
+      setLinkStep('Requesting link nonce...');
+      const nonceRes = await authFetch('/api/wallets/links/nonce', { method: 'POST' });
+      const nonceData = await nonceRes.json();
+      if (!nonceRes.ok || !nonceData.success) {
+        throw new Error(nonceData.error || 'Failed to start wallet link');
+      }
+
+      const message = createWalletLinkMessage({
+        accountWallet: primaryWallet,
+        authorizingWallet: address,
+        linkedWallet,
+        nonce: nonceData.nonce,
+        issuedAt: nonceData.issuedAt,
+      });
+
+      setLinkStep('Approve the link with your current wallet...');
+      const signature = await signer.signMessage(message);
+
+      setLinkStep(`Sign the same message with ${shortenWallet(linkedWallet)}...`);
+      const linked = await signMessageWithAccount(provider, linkedWallet, message);
+      if (!linked.success || !linked.signature) {
+        throw new Error(linked.error || 'The new wallet did not sign the link message');
+      }
+
+      setLinkStep('Linking wallet...');
+      const res = await authFetch('/api/wallets/links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature, linkedSignature: linked.signature }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to link wallet');
+      }
+
+      setNewWallet('');
+      setSuccessMsg(`Linked ${shortenWallet(linkedWallet)}. It can now sign in to this account.`);
+      await fetchLinks();
+    } catch (e: any) {
+      setError(e.message || 'Failed to link wallet');
+    } finally {
+      setLinkStep(null);
+    }
+  };
+
+  const handleUnlink = async (link: LinkedWallet) => {
+    if (!confirm(`Unlink ${link.wallet}? It will no longer be able to sign in to this account.`)) {
+      return;
+    }
+
+    setError(null);
+    setSuccessMsg(null);
+    try {
+      const res = await authFetch(`/api/wallets/links?wallet=${encodeURIComponent(link.wallet)}`, {
+        method: 'DELETE',
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to unlink wallet');
+      }
+      setSuccessMsg(`Unlinked ${shortenWallet(link.wallet)}`);
+      await fetchLinks();
+    } catch (e: any) {
+      setError(e.message || 'Failed to unlink wallet');
+    }
+  };
+
+  return (
+    <TabContainer
+      title="Linked Wallets"
+      description="Backup wallets that can sign in to your account if you lose access to your main wallet"
+    >
+      <div className="space-y-6">
+        {primaryWallet && (
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+            Account wallet: <span className="font-mono">{primaryWallet}</span>
+          </div>
+        )}
+
+        <form onSubmit={handleLink} className="space-y-3">
+          <label htmlFor="linkWallet" className="block text-sm font-medium text-slate-700">
+            Link a new wallet
+          </label>
+          <div className="flex flex-col md:flex-row gap-3">
+            <input
+              id="linkWallet"
+              type="text"
+              value={newWallet}
+              onChange={(e) => setNewWallet(e.target.value)}
+              placeholder="0x..."
+              className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!!linkStep}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+            >
+              {linkStep ? 'Linking...' : 'Link Wallet'}
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">
+            Both wallets must be in MetaMask. You will sign once with your current wallet and once with the new one.
+          </p>
+          {linkStep && <p className="text-sm text-blue-600">{linkStep}</p>}
+        </form>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+        {successMsg && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">{successMsg}</div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8 text-slate-500">Loading linked wallets...</div>
+        ) : links.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">No linked wallets yet</div>
+        ) : (
+          <div className="space-y-3">
+            {links.map(link => (
+              <div
+                key={link.wallet}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 bg-white/80 border border-slate-200 rounded-xl"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-mono text-slate-900">{link.wallet}</span>
+                    {link.isCurrentSigner && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        Signed in
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    Linked {new Date(link.createdAt).toLocaleString()} · approved by {shortenWallet(link.authorizedBy)}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleUnlink(link)}
+                  className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium"
+                >
+                  Unlink
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </TabContainer>
+  );
+};
+
+export default LinkedWalletsTab;
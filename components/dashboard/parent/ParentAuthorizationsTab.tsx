@@ -1,18 +1,28 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useFirebaseData } from '../../../hooks/useFirebaseData';
+import { useBlockchain } from '../../../hooks/useBlockchain';
+import type { PickupRevocation } from '@/types/database';
+import type { TransactionStatusListener } from '@/lib/blockchain/types';
+import PhotoUpload from '../../PhotoUpload';
 import TabContainer from '../TabContainer';
 
+// How often pending on-chain revocations are re-checked
+const REVOCATION_POLL_INTERVAL = 15000;
+
 const ParentAuthorizationsTab: React.FC = () => {
   const {
     pickupAuthorizations,
     addPickupAuthorization,
     removePickupAuthorization,
+    recordRevocationTransaction,
+    syncRevocations,
     error,
     clearError,
     refreshData
   } = useFirebaseData();
+  const { revokeAuthorization, revokeAuthorizations, contractVersion } = useBlockchain();
 
   // Form states for authorizing pickup person
   const [pickupPersonWallet, setPickupPersonWallet] = useState("");
@@ -74,15 +84,59 @@ const ParentAuthorizationsTab: React.FC = () => {
     }
   };
 
+  const hasPendingRevocation = Object.values(pickupAuthorizations)
+    .some(person => person.revocation?.status === 'pending');
+
+  // Keep checking pending revocations until they are confirmed or fail
+  useEffect(() => {
+    if (!hasPendingRevocation) return;
+    const interval = setInterval(syncRevocations, REVOCATION_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasPendingRevocation, syncRevocations]);
+
+  // Sends the revocation transactions that still need the parent's signature
+  const signRevocation = async (pickupWallet: string, revocation: PickupRevocation) => {
+    const unsent = revocation.transactions.filter(entry => !entry.txHash);
+    // PickupSecurity v2 revokes them all with one signature
+    const batches = contractVersion === 2 && unsent.length > 1 ? [unsent] : unsent.map(tx => [tx]);
+
+    for (const batch of batches) {
+      // Store the hash once sent; speed-ups are followed on the server from it
+      const onStatus: TransactionStatusListener = async ({ hash, status }) => {
+        if (status !== 'pending') return;
+        for (const tx of batch) {
+          await recordRevocationTransaction(pickupWallet, tx.authHash, hash);
+        }
+      };
+      const result = batch.length > 1
+        ? await revokeAuthorizations(batch.map(tx => tx.authHash), onStatus)
+        : await revokeAuthorization(batch[0].authHash, onStatus);
+      if (!result.success) {
+        setBlockchainResult(`Error revoking on chain: ${result.error}`);
+        return;
+      }
+    }
+    await syncRevocations();
+    setBlockchainResult('Revocation sent successfully. The person is removed once it is confirmed on chain.');
+  };
+
   const handleRemoveAuthorization = async (pickupWallet: string, personName?: string) => {
     if (!confirm(`Are you sure you want to remove pickup authorization for ${personName || pickupWallet}?`)) {
       return;
     }
 
     try {
-      const success = await removePickupAuthorization(pickupWallet);
-      if (success) {
+      const result = await removePickupAuthorization(pickupWallet);
+      if (!result) return;
+
+      if (result.removed) {
         setBlockchainResult(`Authorization removed for ${personName || pickupWallet}`);
+      } else if (result.revocation?.method === 'parent') {
+        await signRevocation(pickupWallet, result.revocation);
+      } else if (result.revocation?.status === 'failed') {
+        setBlockchainResult(`Error revoking on chain: ${result.revocation.error}`);
+      } else {
+        setBlockchainResult(`Revocation submitted successfully for ${personName || pickupWallet}. They can no longer pick up while it is confirmed on chain.`);
       }
     } catch (e: any) {
       setBlockchainResult(`Error removing authorization: ${e.message}`);
@@ -94,7 +148,9 @@ const ParentAuthorizationsTab: React.FC = () => {
     const now = new Date();
     const startDate = new Date(person.startDate);
     const endDate = new Date(person.endDate);
-    const isActive = now >= startDate && now <= endDate;
+    const isRevoking = person.revocation?.status === 'pending';
+    const revocationFailed = person.revocation?.status === 'failed';
+    const isActive = now >= startDate && now <= endDate && !person.revocation;
     const isExpired = now > endDate;
     const isFuture = now < startDate;
     
@@ -104,8 +160,9 @@ const ParentAuthorizationsTab: React.FC = () => {
       isActive,
       isExpired,
       isFuture,
-      statusText: isActive ? 'Active' : isExpired ? 'Expired' : 'Future',
-      statusColor: isActive ? 'green' : isExpired ? 'red' : 'yellow',
+      isRevoking,
+      statusText: isRevoking ? 'Revoking' : revocationFailed ? 'Revocation failed' : isActive ? 'Active' : isExpired ? 'Expired' : 'Future',
+      statusColor: revocationFailed ? 'red' : isRevoking ? 'yellow' : isActive ? 'green' : isExpired ? 'red' : 'yellow',
     };
   });
 
@@ -261,6 +318,23 @@ const ParentAuthorizationsTab: React.FC = () => {
                       <div>Wallet: <span className="font-mono">{person.wallet}</span></div>
                       <div>Valid: {new Date(person.startDate).toLocaleDateString()} to {new Date(person.endDate).toLocaleDateString()}</div>
                     </div>
+                    <div className="mt-3">
+                      <PhotoUpload kind="user" id={person.wallet} label="Photo shown to staff at pickup (uploaded by them)" readOnly />
+                    </div>
+                    {person.revocation && (
+                      <div className="mt-3 p-3 rounded-lg bg-white border border-slate-200 text-sm text-slate-600 space-y-1">
+                        <div>
+                          {person.revocation.status === 'failed'
+                            ? `On-chain revocation failed: ${person.revocation.error || 'unknown error'}`
+                            : 'Revoked. Waiting for the on-chain revocation to be confirmed.'}
+                        </div>
+                        {person.revocation.transactions.map(tx => (
+                          <div key={tx.authHash} className="font-mono text-xs break-all">
+                            {tx.txHash ? `Tx: ${tx.txHash}` : 'Waiting for your wallet signature'}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="text-right">
                     <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium ${
@@ -275,12 +349,22 @@ const ParentAuthorizationsTab: React.FC = () => {
                   </div>
                 </div>
                 <div className="mt-4 flex gap-2">
-                  <button 
-                    onClick={() => handleRemoveAuthorization(person.wallet, person.relationship)}
-                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
-                  >
-                    Remove Authorization
-                  </button>
+                  {person.isRevoking && person.revocation?.method === 'parent' &&
+                    person.revocation.transactions.some(tx => !tx.txHash) ? (
+                    <button 
+                      onClick={() => signRevocation(person.wallet, person.revocation!)}
+                      className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
+                    >
+                      Sign Revocation
+                    </button>
+                  ) : !person.isRevoking && (
+                    <button 
+                      onClick={() => handleRemoveAuthorization(person.wallet, person.relationship)}
+                      className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
+                    >
+                      {person.revocation ? 'Retry Revocation' : 'Remove Authorization'}
+                    </button>
+                  )}
                   <button 
                     onClick={refreshData}
                     className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
@@ -3,8 +3,11 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useWallet } from '../../../hooks/useWallet';
 import { useSignature } from '../../../hooks/useSignature';
+import { useFirebaseAuth } from '../../../hooks/useFirebaseAuth';
 import { DashboardTab } from '../../../types/dashboard';
 import BaseDashboard from '../BaseDashboard';
+import DeviceSessionsTab from '../DeviceSessionsTab';
+import LinkedWalletsTab from '../LinkedWalletsTab';
 import ParentStudentsTab from './ParentStudentsTab';
 import ParentAuthorizationsTab from './ParentAuthorizationsTab';
 import { collection, doc, onSnapshot, query, updateDoc, where } from 'firebase/firestore';
@@ -19,6 +22,14 @@ const PARENT_TABS: DashboardTab[] = [
     key: 'authorize', 
     label: 'Authorize Pickup Person', 
   },
+  { 
+    key: 'wallets', 
+    label: 'Linked Wallets', 
+  },
+  { 
+    key: 'devices', 
+    label: 'My Devices', 
+  },
 ];
 
 const ParentDashboardSection: React.FC = () => {
@@ -26,7 +37,10 @@ const ParentDashboardSection: React.FC = () => {
   const { error: signingError } = useSignature();
   const [activeTab, setActiveTab] = useState(PARENT_TABS[0].key);
   const walletHook = useWallet();
-  const currentWallet = useMemo(() => walletHook.address?.toLowerCase() || null, [walletHook.address]);
+  const { user: authUser } = useFirebaseAuth();
+  // Notifications are addressed to the account wallet, even when signed in with a linked wallet
+  const accountWallet = authUser?.wallet || walletHook.address;
+  const currentWallet = useMemo(() => accountWallet?.toLowerCase() || null, [accountWallet]);
   const [toast, setToast] = useState<null | { title: string; body: string }>(null);
   const [toastTimer, setToastTimer] = useState<NodeJS.Timeout | null>(null);
 
@@ -76,6 +90,10 @@ const ParentDashboardSection: React.FC = () => {
         return <ParentStudentsTab />;
       case 'authorize':
         return <ParentAuthorizationsTab />;
+      case 'wallets':
+        return <LinkedWalletsTab />;
+      case 'devices':
+        return <DeviceSessionsTab />;
       default:
         return <ParentStudentsTab />;
     }
@@ -3,10 +3,13 @@
 import React, { useState } from 'react';
 import { useFirebaseData } from '../../../hooks/useFirebaseData';
 import QRCodeGenerator from '../../QRCodeGenerator';
+import PhotoUpload from '../../PhotoUpload';
+import type { QRRotation } from '@/lib/firebase/qr-totp';
 import TabContainer from '../TabContainer';
 
 const ParentStudentsTab: React.FC = () => {
   const { 
+    currentUser,
     students, 
     loadingStudents, 
     generateQRCode, 
@@ -16,6 +19,7 @@ const ParentStudentsTab: React.FC = () => {
 
   const [selectedChild, setSelectedChild] = useState<string>("");
   const [qrValue, setQrValue] = useState<string | null>(null);
+  const [qrRotation, setQrRotation] = useState<QRRotation | null>(null);
   const [qrExpiration, setQrExpiration] = useState<string | null>(null);
   const [blockchainResult, setBlockchainResult] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -46,6 +50,7 @@ const ParentStudentsTab: React.FC = () => {
       }
 
       setQrValue(result.qrCodeData);
+      setQrRotation(result.rotation);
       setQrExpiration(result.expiresAt);
       setBlockchainResult(`QR code generated successfully for ${selectedChildData.name}!`);
 
@@ -117,6 +122,18 @@ const ParentStudentsTab: React.FC = () => {
           )}
         </div>
 
+        {/* Photos staff compare at the gate */}
+        {(currentUser || selectedChild) && (
+          <div className="rounded-xl p-6 border border-slate-200 bg-white grid grid-cols-1 md:grid-cols-2 gap-4">
+            {currentUser && (
+              <PhotoUpload kind="user" id={currentUser.walletAddress} label="Your photo" />
+            )}
+            {selectedChild && (
+              <PhotoUpload key={selectedChild} kind="student" id={selectedChild} label="Your child's photo" />
+            )}
+          </div>
+        )}
+
         <button
           className="w-full py-4 px-6 text-white rounded-xl disabled:opacity-50 font-semibold transition-all duration-200 shadow-lg hover:shadow-xl disabled:cursor-not-allowed"
           style={{ backgroundColor: 'var(--color-dark)' }}
@@ -153,7 +170,7 @@ const ParentStudentsTab: React.FC = () => {
             <div className="text-center">
               <h4 className="text-xl font-bold mb-4" style={{ color: 'var(--color-dark)' }}>Your Pickup QR Code</h4>
               <div className="bg-white rounded-xl p-6 inline-block shadow-lg">
-                <QRCodeGenerator value={qrValue} />
+                <QRCodeGenerator value={qrValue} rotation={qrRotation} />
               </div>
               <div className="mt-4 text-sm text-indigo-600" style={{ color: 'var(--color-dark)' }}>
                 <p>Show this QR code to staff for pickup authorization</p>
@@ -5,10 +5,12 @@ import { useWallet } from '../../../hooks/useWallet';
 import { useFirebaseData } from '../../../hooks/useFirebaseData';
 import { useFirebaseAuth } from '../../../hooks/useFirebaseAuth';
 import QRCodeGenerator from '../../QRCodeGenerator';
+import PhotoUpload from '../../PhotoUpload';
+import type { QRRotation } from '@/lib/firebase/qr-totp';
 import TabContainer from '../TabContainer';
 
 const PickupAuthorizationsTab: React.FC = () => {
-  const { address, isConnected } = useWallet();
+  const { address: connectedAddress, isConnected } = useWallet();
   const { 
     authorizedStudents, 
     students,
@@ -18,9 +20,12 @@ const PickupAuthorizationsTab: React.FC = () => {
     generateQRCode 
   } = useFirebaseData();
   const { user: authUser } = useFirebaseAuth();
+  // Delegations are keyed by the account wallet, which differs from the connected one when signed in with a linked wallet
+  const address = authUser?.wallet || connectedAddress;
 
   const [selectedStudent, setSelectedStudent] = useState<string>("");
   const [qrValue, setQrValue] = useState<string | null>(null);
+  const [qrRotation, setQrRotation] = useState<QRRotation | null>(null);
   const [result, setResult] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -83,6 +88,7 @@ const PickupAuthorizationsTab: React.FC = () => {
       }
 
       setQrValue(qrData.qrCodeData);
+      setQrRotation(qrData.rotation);
       setResult(`QR code generated successfully! Valid until: ${new Date(qrData.expiresAt).toLocaleString()}`);
 
     } catch (e: any) {
@@ -98,6 +104,13 @@ const PickupAuthorizationsTab: React.FC = () => {
       description="Generate a QR code for authorized child pickup"
     >
       <div className="space-y-6">
+        {/* Staff compare this photo with the person at the gate */}
+        {address && (
+          <div className="rounded-xl p-6 border border-slate-200 bg-white">
+            <PhotoUpload key={address} kind="user" id={address.toLowerCase()} label="Your photo" />
+          </div>
+        )}
+
         <div className="rounded-xl p-6" style={{backgroundColor: 'var(--light-blue)'}}>
           <label className="block text-sm font-semibold text-slate-700 mb-3">
             Select Student (Authorized to You)
@@ -174,7 +187,7 @@ const PickupAuthorizationsTab: React.FC = () => {
             <div className="text-center">
               <h4 className="text-xl font-bold mb-4" style={{color: 'var(--color-dark)'}}>Your Pickup QR Code</h4>
               <div className="bg-white rounded-xl p-6 inline-block shadow-lg">
-                <QRCodeGenerator value={qrValue} />
+                <QRCodeGenerator value={qrValue} rotation={qrRotation} />
               </div>
               <p className="mt-4 text-sm" style={{color: 'var(--color-dark)'}}>
                 Show this QR code to staff for pickup authorization
@@ -5,6 +5,8 @@ import { useWallet } from '../../../hooks/useWallet';
 import { useSignature } from '../../../hooks/useSignature';
 import { DashboardTab } from '../../../types/dashboard';
 import BaseDashboard from '../BaseDashboard';
+import DeviceSessionsTab from '../DeviceSessionsTab';
+import LinkedWalletsTab from '../LinkedWalletsTab';
 import PickupAuthorizationsTab from './PickupAuthorizationsTab';
 import PickupHistoryTab from './PickupHistoryTab';
 
@@ -17,6 +19,14 @@ const PICKUP_TABS: DashboardTab[] = [
     key: 'history', 
     label: 'Pickup History', 
   },
+  { 
+    key: 'wallets', 
+    label: 'Linked Wallets', 
+  },
+  { 
+    key: 'devices', 
+    label: 'My Devices', 
+  },
 ];
 
 const PickupDashboardSection: React.FC = () => {
@@ -40,6 +50,10 @@ const PickupDashboardSection: React.FC = () => {
         return <PickupAuthorizationsTab />;
       case 'history':
         return <PickupHistoryTab />;
+      case 'wallets':
+        return <LinkedWalletsTab />;
+      case 'devices':
+        return <DeviceSessionsTab />;
       default:
         return <PickupAuthorizationsTab />;
     }
@@ -3,10 +3,13 @@
 import React, { useState } from 'react';
 import { useFirebaseData } from '../../../hooks/useFirebaseData';
 import { useWallet } from '../../../hooks/useWallet';
+import { useFirebaseAuth } from '../../../hooks/useFirebaseAuth';
 import TabContainer from '../TabContainer';
 
 const PickupHistoryTab: React.FC = () => {
-  const { address } = useWallet();
+  const { address: connectedAddress } = useWallet();
+  const { user: authUser } = useFirebaseAuth();
+  const address = authUser?.wallet || connectedAddress;
   const { pickupHistory, loading } = useFirebaseData();
   
   const [selectedDate, setSelectedDate] = useState("");
@@ -138,8 +141,20 @@ const PickupHistoryTab: React.FC = () => {
                         {record.status === 'completed' ? 'Completed' : 'Pending'}
                       </span>
                       <div className="text-xs text-slate-500 mt-1">
-                        Tx: {record.contractTxHash.slice(0, 8)}...
+                        {record.contractTxHash
+                          ? `Tx: ${record.contractTxHash.slice(0, 8)}...`
+                          : 'Awaiting on-chain anchor'}
                       </div>
+                      {record.contractTxHash && (
+                        <a
+                          href={`/verify?id=${record.id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-green-700 hover:underline"
+                        >
+                          Verify on chain
+                        </a>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -2,6 +2,7 @@
 
 import React, { useEffect, useRef, useState } from "react";
 import { ReminderConfig, ReminderLog } from "../../../types/reminder";
+import { authFetch } from "../../../lib/firebase/client-auth";
 
 export default function ReminderTab() {
   const [finishSchoolTime, setFinishSchoolTime] = useState("");
@@ -34,7 +35,7 @@ export default function ReminderTab() {
 
   async function fetchConfig() {
     try {
-      const res = await fetch("/api/reminders/config");
+      const res = await authFetch("/api/reminders/config");
       const data: ReminderConfig = await res.json();
       setFinishSchoolTime(data.finishSchoolTime || "");
       finishTimeRef.current = data.finishSchoolTime || "";
@@ -46,7 +47,7 @@ export default function ReminderTab() {
 
   async function fetchParents() {
     try {
-      const res = await fetch("/api/reminders/parents");
+      const res = await authFetch("/api/reminders/parents");
       const data: ReminderLog[] = await res.json();
       setParents(data);
       setStatusList(Object.fromEntries(data.map((p) => [p.parentName, "pending"])));
@@ -60,7 +61,7 @@ export default function ReminderTab() {
     setErrorMsg(null);
     setSuccessMsg(null);
     try {
-      const res = await fetch("/api/reminders/config", {
+      const res = await authFetch("/api/reminders/config", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ finishSchoolTime, messageTemplate }),
@@ -121,7 +122,7 @@ export default function ReminderTab() {
     // Trigger once per day when we reach or pass the target time
     if (targetMinutes !== null && nowMinutes >= targetMinutes && lastSentAutoRef.current !== today) {
       try {
-        const res = await fetch("/api/reminders/send", { method: "POST" });
+        const res = await authFetch("/api/reminders/send", { method: "POST" });
         if (!res.ok) {
           const body = await res.json().catch(() => ({}));
           throw new Error(body?.error || "Failed to send reminders");
@@ -140,7 +141,7 @@ export default function ReminderTab() {
   async function sendNow() {
     try {
       setLoading(true);
-      const res = await fetch("/api/reminders/send", { method: "POST" });
+      const res = await authFetch("/api/reminders/send", { method: "POST" });
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
         throw new Error(body?.error || "Failed to send reminders");
@@ -3,6 +3,8 @@
 import React, { useState } from 'react';
 import { DashboardTab, PickupHistory } from '../../../types/dashboard';
 import BaseDashboard from '../BaseDashboard';
+import DeviceSessionsTab from '../DeviceSessionsTab';
+import WalletRecoveryTab from './WalletRecoveryTab';
 import StaffPickupValidationTab from './StaffPickupValidationTab';
 import StaffPickupLogsTab from './StaffPickupLogsTab';
 import StaffManagementTab from './StaffManagementTab';
@@ -27,6 +29,14 @@ const STAFF_TABS: DashboardTab[] = [
     icon: '🔔', 
     gradientColors: 'from-orange-500 to-orange-600' 
   },
+  { 
+    key: 'recovery', 
+    label: 'Wallet Recovery', 
+  },
+  { 
+    key: 'devices', 
+    label: 'My Devices', 
+  },
 ];
 
 const StaffDashboardSection: React.FC = () => {
@@ -47,6 +57,10 @@ const StaffDashboardSection: React.FC = () => {
         return <StaffManagementTab />;
       case 'reminder':
         return <ReminderTab/>;
+      case 'recovery':
+        return <WalletRecoveryTab />;
+      case 'devices':
+        return <DeviceSessionsTab allowWalletLookup />;
       default:
         return <StaffPickupValidationTab onPickupComplete={handlePickupComplete} />;
     }
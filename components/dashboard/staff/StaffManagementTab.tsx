@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useFirebaseData } from '../../../hooks/useFirebaseData';
 import { useFirebaseAuth } from '../../../hooks/useFirebaseAuth';
 import TabContainer from '../TabContainer';
+import { authFetch } from '../../../lib/firebase/client-auth';
 
 interface Staff {
   id: string;
@@ -64,7 +65,7 @@ const StaffManagementTab: React.FC = () => {
       setStaffLoading(true);
       setStaffError(null);
       try {
-        const res = await fetch("/api/staff?isActive=true&limit=100");
+        const res = await authFetch("/api/staff?isActive=true&limit=100");
         const data = await res.json();
         
         if (res.ok && data.success) {
@@ -107,13 +108,13 @@ const StaffManagementTab: React.FC = () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
         },
         body: JSON.stringify({
           walletAddress: formData.walletId,
           name: formData.parentName,
           contactNumber: formData.phone,
           role: 'parent',
-          idToken,
         }),
       });
 
@@ -140,13 +141,13 @@ const StaffManagementTab: React.FC = () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
         },
         body: JSON.stringify({
           id: studentId,
           name: formData.studentName,
           grade: formData.grade,
           parentId: formData.walletId,
-          idToken,
         }),
       });
 
@@ -188,7 +189,7 @@ const StaffManagementTab: React.FC = () => {
     setAddError(null);
     setAddSuccess(null);
     try {
-      const res = await fetch("/api/staff", {
+      const res = await authFetch("/api/staff", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(staffForm),
@@ -2,6 +2,8 @@
 
 import React, { useEffect, useMemo, useState } from 'react';
 import TabContainer from '../TabContainer';
+import { authFetch } from '../../../lib/firebase/client-auth';
+import type { PickupEvidence } from '@/types/database';
 
 type CanonicalHistory = {
   id: string;
@@ -11,6 +13,7 @@ type CanonicalHistory = {
   time: string; // ISO string
   blockchainHash?: string;
   contractTxHash?: string;
+  evidence?: PickupEvidence | null;
 };
 
 type StudentLite = { id: string; name: string };
@@ -29,7 +32,7 @@ const StaffPickupLogsTab: React.FC = () => {
       setLoading(true);
       setError(null);
       try {
-        const res = await fetch('/api/pickup/history');
+        const res = await authFetch('/api/pickup/history');
         const data = await res.json();
         if (!res.ok || !data.success) {
           throw new Error(data.error || 'Failed to load pickup history');
@@ -51,6 +54,7 @@ const StaffPickupLogsTab: React.FC = () => {
             time: isoTime,
             blockchainHash: h.blockchainHash,
             contractTxHash: h.contractTxHash,
+            evidence: h.evidence,
           };
         }));
       } catch (e: any) {
@@ -65,7 +69,7 @@ const StaffPickupLogsTab: React.FC = () => {
   useEffect(() => {
     const fetchStudents = async () => {
       try {
-        const res = await fetch('/api/students');
+        const res = await authFetch('/api/students');
         const data = await res.json();
         if (res.ok && data.success) {
           const list = (data.students || []).map((s: any) => ({ id: s.id, name: s.name }));
@@ -81,7 +85,7 @@ const StaffPickupLogsTab: React.FC = () => {
   useEffect(() => {
     const fetchUsers = async () => {
       try {
-        const res = await fetch('/api/users');
+        const res = await authFetch('/api/users');
         const data = await res.json();
         if (res.ok && data.success) {
           const list = (data.users || []).map((u: any) => ({
@@ -116,6 +120,17 @@ const StaffPickupLogsTab: React.FC = () => {
     return a.length > 12 ? `${a.slice(0, 6)}...${a.slice(-4)}` : a;
   };
 
+  // Short summary of the checks staff made before confirming
+  const describeEvidence = (evidence?: PickupEvidence | null) => {
+    if (!evidence) return 'Not recorded';
+    const checks = [
+      evidence.studentIdentity && 'Student',
+      evidence.pickupPersonPhoto && 'Photo',
+      evidence.pickupPersonId && 'ID',
+    ].filter(Boolean);
+    return `${checks.length > 0 ? checks.join(' · ') : 'No checks'} (${evidence.relationship})`;
+  };
+
   const rows = useMemo(() => history.map((h: any) => {
     const pickupWallet = (h.pickupBy || '').toLowerCase();
     return {
@@ -126,6 +141,7 @@ const StaffPickupLogsTab: React.FC = () => {
       pickupWallet,
       timestamp: h.time,
       status: 'completed' as const,
+      evidence: h.evidence as PickupEvidence | null | undefined,
     };
   }), [history, studentNameMap, userNameMap]);
 
@@ -157,7 +173,7 @@ const StaffPickupLogsTab: React.FC = () => {
               // simple refresh
               try {
                 setLoading(true);
-                const res = await fetch('/api/pickup/history');
+                const res = await authFetch('/api/pickup/history');
                 const data = await res.json();
                 if (res.ok && data.success) {
                   const items = Array.isArray(data.history) ? data.history : [];
@@ -176,6 +192,7 @@ const StaffPickupLogsTab: React.FC = () => {
                       time: isoTime,
                       blockchainHash: h.blockchainHash,
                       contractTxHash: h.contractTxHash,
+                      evidence: h.evidence,
                     };
                   }));
                 }
@@ -266,6 +283,7 @@ const StaffPickupLogsTab: React.FC = () => {
                   <th className="text-left py-4 px-4 font-semibold text-slate-700">Student</th>
                   <th className="text-left py-4 px-4 font-semibold text-slate-700">Pickup Wallet</th>
                   <th className="text-left py-4 px-4 font-semibold text-slate-700">Date & Time</th>
+                  <th className="text-left py-4 px-4 font-semibold text-slate-700">Verified</th>
                   <th className="text-left py-4 px-4 font-semibold text-slate-700">Status</th>
                 </tr>
               </thead>
@@ -286,6 +304,9 @@ const StaffPickupLogsTab: React.FC = () => {
                         {(() => { const d = new Date(record.timestamp); return isNaN(d.getTime()) ? record.timestamp : d.toLocaleString(undefined, { year: 'numeric', month: 'short', day: '2-digit', hour: 'numeric', minute: '2-digit', hour12: true }); })()}
                       </div>
                     </td>
+                    <td className="py-4 px-4">
+                      <div className="text-slate-600 text-sm">{describeEvidence(record.evidence)}</div>
+                    </td>
                     <td className="py-4 px-4">
                       <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${record.status === 'completed'
                           ? 'bg-green-100 text-green-800'
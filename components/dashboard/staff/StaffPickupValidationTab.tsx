@@ -3,8 +3,19 @@
 import React, { useState } from 'react';
 import { useFirebaseData } from '../../../hooks/useFirebaseData';
 import { useFirebaseAuth } from '../../../hooks/useFirebaseAuth';
+import { useOfflineGate } from '../../../hooks/useOfflineGate';
 import QRCodeScanner from '../../QRCodeScanner';
+import PhotoImage from '../../PhotoImage';
+import { decodeQRToken, isSignedQRToken } from '@/lib/firebase/qr-tokens';
+import { splitRotatingCode } from '@/lib/firebase/qr-totp';
 import TabContainer from '../TabContainer';
+import type { PickupEvidenceChecks } from '@/types/database';
+
+const NO_EVIDENCE: PickupEvidenceChecks = {
+  studentIdentity: false,
+  pickupPersonPhoto: false,
+  pickupPersonId: false,
+};
 
 interface StaffPickupValidationTabProps {
   onPickupComplete?: (pickup: any) => void;
@@ -15,12 +26,14 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
 }) => {
   const { students, refreshData } = useFirebaseData();
   const { getIdToken } = useFirebaseAuth();
+  const offlineGate = useOfflineGate();
   
   const [scannedQR, setScannedQR] = useState<string | null>(null);
   const [qrDetails, setQrDetails] = useState<any>(null);
   const [validationResult, setValidationResult] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [evidence, setEvidence] = useState<PickupEvidenceChecks>(NO_EVIDENCE);
   const [pickupData, setPickupData] = useState<any>(null);
 
   // Parse QR code when scanned
@@ -49,13 +62,23 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
         return;
       }
       
+      // Signed token: show its claims (the server checks the signature)
+      if (isSignedQRToken(qrString)) {
+        const payload = decodeQRToken(qrString);
+        setQrDetails(payload ? { id: payload.aid, hash: payload.h } : { raw: qrString });
+        return;
+      }
+
+      // A rotating code may follow the issued data; the server checks it
+      const issued = splitRotatingCode(qrString).base;
+
       // The QR data format is "id|hash" from our Firebase implementation
-      const [id, hash] = qrString.split('|');
+      const [id, hash] = issued.split('|');
       if (id && hash) {
         setQrDetails({ id, hash });
       } else {
         // Try parsing as JSON (legacy format)
-        const parsed = JSON.parse(qrString);
+        const parsed = JSON.parse(issued);
         setQrDetails(parsed);
       }
     } catch (e) {
@@ -65,6 +88,19 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
     // Do not auto-validate; user will trigger validation
   };
 
+  // Check the code against the roster cached on this device
+  const validateOnDevice = (qrString: string) => {
+    const result = offlineGate.validateOffline(qrString);
+    if (!result.valid || !result.pickup) {
+      throw new Error(result.error || 'Verification failed');
+    }
+    setPickupData({ ...result.pickup, scannedQR: qrString, offline: true });
+    setEvidence(NO_EVIDENCE);
+    setShowConfirmation(true);
+    setValidationResult('✅ QR Code verified offline against the cached roster. Please confirm pickup details below.');
+    setScannedQR(null);
+  };
+
   const handleValidatePickup = async () => {
     console.log('handleValidatePickup called', { scannedQR, loading, showConfirmation });
     
@@ -76,28 +112,42 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
         throw new Error("Please scan QR code first");
       }
 
-      console.log('Making API call to verify QR code...');
-
-      // Get Firebase ID token
-      const idToken = await getIdToken();
-      if (!idToken) {
-        throw new Error("Authentication required");
+      if (offlineGate.isSupported && !offlineGate.isOnline) {
+        validateOnDevice(scannedQR);
+        return;
       }
 
       console.log('Making API call to verify QR code...');
 
-      // Call the QR verification API (verify only, don't record pickup yet)
-      const response = await fetch('/api/qr/verify', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          qrCodeData: scannedQR,
-          idToken,
-          verifyOnly: true // Verify first; staff will confirm before recording
-        })
-      });
+      let idToken: string | null;
+      let response: Response;
+      try {
+        // Get Firebase ID token
+        idToken = await getIdToken();
+        if (!idToken) {
+          throw new Error("Authentication required");
+        }
+
+        // Call the QR verification API (verify only, don't record pickup yet)
+        response = await fetch('/api/qr/verify', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${idToken}`
+          },
+          body: JSON.stringify({
+            qrCodeData: scannedQR,
+            verifyOnly: true // Verify first; staff will confirm before recording
+          })
+        });
+      } catch (networkError) {
+        // The connection dropped without the browser reporting it offline
+        if (networkError instanceof TypeError && offlineGate.isSupported) {
+          validateOnDevice(scannedQR);
+          return;
+        }
+        throw networkError;
+      }
 
       const result = await response.json();
       console.log('API response:', { status: response.status, result });
@@ -113,6 +163,7 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
           scannedQR,
           idToken
         });
+        setEvidence(NO_EVIDENCE);
         setShowConfirmation(true);
         setValidationResult(`✅ QR Code verified! Please confirm pickup details below.`);
         // Close overlay so the staff confirmation section is visible
@@ -136,6 +187,17 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
     setLoading(true);
     
     try {
+      // Pickups confirmed offline wait on this device until they can be recorded
+      if (pickupData?.offline) {
+        await offlineGate.queuePickup(pickupData.scannedQR, evidence);
+        setValidationResult(`✅ Pickup of ${pickupData.studentName} saved on this device. It will be recorded once the connection is back.`);
+        setScannedQR(null);
+        setQrDetails(null);
+        setShowConfirmation(false);
+        setPickupData(null);
+        return;
+      }
+
       if (!pickupData?.scannedQR || !pickupData?.idToken) {
         throw new Error('No verified QR to confirm. Please validate the QR code first.');
       }
@@ -143,12 +205,13 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
       const response = await fetch('/api/qr/verify', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${pickupData.idToken}`
         },
         body: JSON.stringify({
           qrCodeData: pickupData.scannedQR,
-          idToken: pickupData.idToken,
-          confirmPickup: true // Flag to record the pickup
+          confirmPickup: true, // Flag to record the pickup
+          evidence // Checks the staff member made, stored with the pickup
         })
       });
 
@@ -186,10 +249,30 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
     }
   };
 
+  const handleSyncOfflinePickups = async () => {
+    const results = await offlineGate.syncQueuedPickups();
+    if (results.length === 0) return;
+
+    const recorded = results.filter(result => result.outcome === 'recorded').length;
+    const needsAttention = results.length - recorded;
+    setValidationResult(needsAttention > 0
+      ? `❌ ${recorded} offline pickup(s) recorded, ${needsAttention} need attention`
+      : `✅ ${recorded} offline pickup(s) recorded`);
+    await refreshData();
+  };
+
   const handleCancelPickup = () => {
     setShowConfirmation(false);
     setPickupData(null);
     setValidationResult(null);
+    setEvidence(NO_EVIDENCE);
+  };
+
+  // The student must be recognised and the pickup person checked against their photo or ID
+  const identityConfirmed = evidence.studentIdentity && (evidence.pickupPersonPhoto || evidence.pickupPersonId);
+
+  const toggleEvidence = (check: keyof PickupEvidenceChecks) => {
+    setEvidence(current => ({ ...current, [check]: !current[check] }));
   };
 
   // Debug function to test API
@@ -201,11 +284,11 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
       const response = await fetch('/api/qr/verify', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`
         },
         body: JSON.stringify({
           qrCodeData: 'test-qr-data',
-          idToken,
           verifyOnly: true
         })
       });
@@ -224,6 +307,58 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
       description="Scan QR codes and validate pickup authorizations"
     >
       <div className="space-y-6">
+        {/* Offline gate status */}
+        {offlineGate.isSupported && (
+          <div className={`rounded-xl p-4 border text-sm ${
+            offlineGate.isOnline
+              ? 'bg-slate-50 border-slate-200 text-slate-700'
+              : 'bg-amber-50 border-amber-200 text-amber-800'
+          }`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <span className="font-semibold">{offlineGate.isOnline ? 'Online' : 'Offline gate mode'}</span>
+                {offlineGate.roster
+                  ? ` · Roster of ${offlineGate.roster.students.length} students cached ${new Date(offlineGate.roster.generatedAt).toLocaleTimeString()}`
+                  : ' · No roster cached yet'}
+                {offlineGate.queuedPickups.length > 0 && ` · ${offlineGate.queuedPickups.length} pickup(s) waiting to sync`}
+              </div>
+              {offlineGate.isOnline && offlineGate.queuedPickups.length > 0 && (
+                <button
+                  className="py-1 px-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-all duration-200"
+                  onClick={handleSyncOfflinePickups}
+                  disabled={offlineGate.isSyncing}
+                >
+                  {offlineGate.isSyncing ? 'Syncing...' : 'Sync now'}
+                </button>
+              )}
+            </div>
+
+            {offlineGate.conflicts.length > 0 && (
+              <div className="mt-3 space-y-2">
+                <div className="font-semibold text-red-700">Offline pickups that need attention</div>
+                {offlineGate.conflicts.map(conflict => (
+                  <div key={conflict.localId} className="flex items-start justify-between gap-2 bg-white rounded-lg p-2 border border-red-200">
+                    <div>
+                      <div className="text-red-700">{conflict.error}</div>
+                      <div className="text-xs text-gray-500">
+                        Scanned {new Date(conflict.pickup.scannedAt).toLocaleString()}
+                        {conflict.usedBy && ` · already used by ${conflict.usedBy.slice(0, 8)}...${conflict.usedBy.slice(-6)}`}
+                        {conflict.usedAt && ` at ${new Date(conflict.usedAt).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <button
+                      className="text-xs py-1 px-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+                      onClick={() => offlineGate.dismissConflict(conflict.localId)}
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="rounded-xl p-6 relative min-h-[300px]" style={{ backgroundColor: 'var(--light-blue)' }}>
           <label className="block text-sm font-semibold text-slate-700 mb-3">
             Scan Parent/Pickup Person QR Code
@@ -232,7 +367,7 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
           <div className="text-sm text-slate-600 mb-3">
             The QR code will automatically identify the student. No manual selection needed.
           </div>
-          <QRCodeScanner onScan={handleQRScan} />
+          <QRCodeScanner onScan={handleQRScan} offline={offlineGate.isSupported && !offlineGate.isOnline} />
           
           {/* Overlay showing student info and validate button after QR scan */}
           {scannedQR && (
@@ -307,6 +442,11 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                 <div className="space-y-1">
                   <span className="font-semibold text-gray-700">Student Information:</span>
+                  <PhotoImage
+                    src={pickupData.studentPhotoUrl ?? null}
+                    alt={`Photo of ${pickupData.studentName}`}
+                    cached={pickupData.offline}
+                  />
                   <div className="text-lg font-bold text-blue-600">
                     {pickupData.studentName}
                   </div>
@@ -317,6 +457,11 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
                 
                 <div className="space-y-1">
                   <span className="font-semibold text-gray-700">Pickup Person:</span>
+                  <PhotoImage
+                    src={pickupData.pickupPersonPhotoUrl ?? null}
+                    alt="Registered photo of the pickup person"
+                    cached={pickupData.offline}
+                  />
                   <div className="text-lg font-bold text-green-600">
                     {pickupData.pickupPersonName || 'Authorized Person'}
                   </div>
@@ -356,18 +501,43 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
                   <div className="font-semibold mb-2">Staff Verification Required:</div>
                   <div className="space-y-1">
                     <div className="flex items-center space-x-2">
-                      <input type="checkbox" id="verify-student" className="rounded" />
+                      <input
+                        type="checkbox"
+                        id="verify-student"
+                        className="rounded"
+                        checked={evidence.studentIdentity}
+                        onChange={() => toggleEvidence('studentIdentity')}
+                      />
                       <label htmlFor="verify-student" className="text-sm">Student identity confirmed</label>
                     </div>
+                    {pickupData.pickupPersonPhotoUrl && (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          id="verify-pickup-photo"
+                          className="rounded"
+                          checked={evidence.pickupPersonPhoto}
+                          onChange={() => toggleEvidence('pickupPersonPhoto')}
+                        />
+                        <label htmlFor="verify-pickup-photo" className="text-sm">Pickup person matches their registered photo</label>
+                      </div>
+                    )}
                     <div className="flex items-center space-x-2">
-                      <input type="checkbox" id="verify-pickup" className="rounded" />
+                      <input
+                        type="checkbox"
+                        id="verify-pickup"
+                        className="rounded"
+                        checked={evidence.pickupPersonId}
+                        onChange={() => toggleEvidence('pickupPersonId')}
+                      />
                       <label htmlFor="verify-pickup" className="text-sm">Pickup person has valid ID</label>
                     </div>
-                    <div className="flex items-center space-x-2">
-                      <input type="checkbox" id="verify-auth" className="rounded" />
-                      <label htmlFor="verify-auth" className="text-sm">Authorization is current and valid</label>
-                    </div>
                   </div>
+                  {!identityConfirmed && (
+                    <div className="mt-2 text-xs">
+                      Confirm the student and check the pickup person against their photo or ID to continue.
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -376,7 +546,7 @@ const StaffPickupValidationTab: React.FC<StaffPickupValidationTabProps> = ({
               <button
                 className="flex-1 py-3 px-4 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg hover:from-green-600 hover:to-green-700 disabled:opacity-50 font-semibold transition-all duration-200 shadow-md hover:shadow-lg disabled:cursor-not-allowed"
                 onClick={handleConfirmPickup}
-                disabled={loading}
+                disabled={loading || !identityConfirmed}
               >
                 {loading ? (
                   <div className="flex items-center justify-center space-x-2">
@@ -0,0 +1,272 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import TabContainer from '../TabContainer';
+import { authFetch } from '../../../lib/firebase/client-auth';
+import { useFirebaseAuth } from '../../../hooks/useFirebaseAuth';
+
+type Recovery = {
+  id: string;
+  oldWallet: string;
+  newWallet: string;
+  reason: string;
+  status: 'pending' | 'approved' | 'completed' | 'rejected' | 'failed';
+  requestedBy: string;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+  completedAt?: string;
+  error?: string;
+  changes?: {
+    studentIds: string[];
+    pickupParents: string[];
+    linkedWallets: string[];
+  };
+};
+
+const STATUS_STYLES: Record<Recovery['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  rejected: 'bg-slate-100 text-slate-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const shortenWallet = (addr?: string) => {
+  if (!addr) return '';
+  return addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr;
+};
+
+const WalletRecoveryTab: React.FC = () => {
+  const { user } = useFirebaseAuth();
+  const [recoveries, setRecoveries] = useState<Recovery[]>([]);
+  const [form, setForm] = useState({ oldWallet: '', newWallet: '', reason: '' });
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+
+  const fetchRecoveries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await authFetch('/api/wallets/recoveries');
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load recovery requests');
+      }
+      setRecoveries(data.recoveries || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load recovery requests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecoveries();
+  }, [fetchRecoveries]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setSuccessMsg(null);
+    try {
+      const res = await authFetch('/api/wallets/recoveries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          oldWallet: form.oldWallet.trim(),
+          newWallet: form.newWallet.trim(),
+          reason: form.reason,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to create recovery request');
+      }
+      setForm({ oldWallet: '', newWallet: '', reason: '' });
+      setSuccessMsg(data.message);
+      await fetchRecoveries();
+    } catch (e: any) {
+      setError(e.message || 'Failed to create recovery request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReview = async (recovery: Recovery, action: 'approve' | 'reject') => {
+    const prompt = action === 'approve'
+      ? `Move the account of ${recovery.oldWallet} to ${recovery.newWallet}? The old wallet will be disabled.`
+      : 'Reject this recovery request?';
+    if (!confirm(prompt)) {
+      return;
+    }
+
+    setReviewingId(recovery.id);
+    setError(null);
+    setSuccessMsg(null);
+    try {
+      const res = await authFetch(`/api/wallets/recoveries/${recovery.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to review recovery request');
+      }
+      setSuccessMsg(data.message);
+      await fetchRecoveries();
+    } catch (e: any) {
+      setError(e.message || 'Failed to review recovery request');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <TabContainer
+      title="Wallet Recovery"
+      description="Move a parent or pickup account to a new wallet after verifying the owner's identity"
+    >
+      <div className="space-y-8">
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="oldWallet" className="block text-sm font-medium text-slate-700 mb-2">Lost wallet</label>
+            <input
+              id="oldWallet"
+              type="text"
+              required
+              value={form.oldWallet}
+              onChange={(e) => setForm(f => ({ ...f, oldWallet: e.target.value }))}
+              placeholder="0x..."
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="newWallet" className="block text-sm font-medium text-slate-700 mb-2">New wallet</label>
+            <input
+              id="newWallet"
+              type="text"
+              required
+              value={form.newWallet}
+              onChange={(e) => setForm(f => ({ ...f, newWallet: e.target.value }))}
+              placeholder="0x..."
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="reason" className="block text-sm font-medium text-slate-700 mb-2">
+              Reason and identity check performed
+            </label>
+            <textarea
+              id="reason"
+              required
+              rows={3}
+              value={form.reason}
+              onChange={(e) => setForm(f => ({ ...f, reason: e.target.value }))}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+            >
+              {submitting ? 'Submitting...' : 'Request Recovery'}
+            </button>
+            <p className="text-xs text-slate-500 mt-2">
+              Requests must be approved by a second staff member before the account is moved.
+            </p>
+          </div>
+        </form>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+        {successMsg && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">{successMsg}</div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-lg font-semibold text-slate-900">Recovery Requests</h4>
+            <button
+              onClick={fetchRecoveries}
+              className="text-sm text-blue-600 hover:text-blue-800 underline"
+            >
+              Refresh
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8 text-slate-500">Loading recovery requests...</div>
+          ) : recoveries.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No recovery requests</div>
+          ) : (
+            <div className="space-y-3">
+              {recoveries.map(recovery => {
+                const isOwnRequest = recovery.requestedBy === user?.wallet?.toLowerCase();
+                return (
+                  <div key={recovery.id} className="p-4 bg-white/80 border border-slate-200 rounded-xl space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="font-mono text-sm text-slate-900">
+                        {shortenWallet(recovery.oldWallet)} → {shortenWallet(recovery.newWallet)}
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[recovery.status]}`}>
+                        {recovery.status}
+                      </span>
+                    </div>
+                    <p className="text-sm text-slate-700">{recovery.reason}</p>
+                    <div className="text-xs text-slate-500">
+                      Requested by {shortenWallet(recovery.requestedBy)} on {new Date(recovery.requestedAt).toLocaleString()}
+                      {recovery.reviewedBy && recovery.reviewedAt && (
+                        <> · reviewed by {shortenWallet(recovery.reviewedBy)} on {new Date(recovery.reviewedAt).toLocaleString()}</>
+                      )}
+                    </div>
+                    {recovery.changes && (
+                      <div className="text-xs text-slate-500">
+                        Moved {recovery.changes.studentIds.length} student(s), {recovery.changes.pickupParents.length} pickup delegation(s), {recovery.changes.linkedWallets.length} linked wallet(s)
+                      </div>
+                    )}
+                    {recovery.error && (
+                      <div className="text-xs text-red-600">{recovery.error}</div>
+                    )}
+                    {recovery.status === 'pending' && (
+                      isOwnRequest ? (
+                        <p className="text-xs text-slate-500">Waiting for approval by another staff member</p>
+                      ) : (
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => handleReview(recovery, 'approve')}
+                            disabled={reviewingId === recovery.id}
+                            className="px-4 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleReview(recovery, 'reject')}
+                            disabled={reviewingId === recovery.id}
+                            className="px-4 py-1.5 text-sm bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 disabled:opacity-50 font-medium"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </TabContainer>
+  );
+};
+
+export default WalletRecoveryTab;
@@ -96,6 +96,14 @@ contract PickupSecurity is Ownable {
         _;
     }
     
+    modifier onlyParentOrOwner(bytes32 authHash) {
+        require(
+            authorizations[authHash].parentWallet == msg.sender || owner() == msg.sender,
+            "Only parent or owner can perform this action"
+        );
+        _;
+    }
+    
     modifier onlyActiveAuthorization(bytes32 authHash) {
         require(authorizations[authHash].isActive, "Authorization is not active");
         require(block.timestamp >= authorizations[authHash].startDate, "Authorization not yet valid");
@@ -268,15 +276,41 @@ contract PickupSecurity is Ownable {
     }
     
     /**
-     * @dev Revokes an authorization (only parent can do this)
+     * @dev Verifies several pickup events of one batch using a Merkle multiproof
+     * @param eventHashes Hashes of the pickup events, in multiproof order
+     * @param batchNumber Batch number containing the events
+     * @param proof Sibling hashes for the multiproof
+     * @param proofFlags Multiproof flags
+     * @return bool Whether every event is part of the batch
+     */
+    function verifyPickupEvents(
+        bytes32[] memory eventHashes,
+        uint256 batchNumber,
+        bytes32[] memory proof,
+        bool[] memory proofFlags
+    ) external view returns (bool) {
+        require(batchNumber < batchCounter, "Batch does not exist");
+        
+        MerkleBatch memory batch = merkleBatches[batchNumber];
+        
+        return MerkleProof.multiProofVerify(
+            proof,
+            proofFlags,
+            batch.merkleRoot,
+            eventHashes
+        );
+    }
+    
+    /**
+     * @dev Revokes an authorization (the parent, or the owner relaying a parent's request)
      * @param authHash Hash of the authorization to revoke
      */
-    function revokeAuthorization(bytes32 authHash) external onlyParent(authHash) {
+    function revokeAuthorization(bytes32 authHash) external onlyParentOrOwner(authHash) {
         require(authorizations[authHash].isActive, "Authorization is not active");
         
         authorizations[authHash].isActive = false;
         
-        emit AuthorizationRevoked(authHash, msg.sender);
+        emit AuthorizationRevoked(authHash, authorizations[authHash].parentWallet);
     }
     
     /**
@@ -0,0 +1,476 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title PickupSecurityV2
+ * @dev Second version of PickupSecurity, scoped per school
+ * Changes from v1:
+ * - Every authorization and pickup event belongs to a school (bytes32 tenant identifier)
+ * - Each school has an admin who maintains a staff allowlist; only allowlisted staff
+ *   (or the owner relaying for them) can record pickup events
+ * - Authorizations can be created and revoked in batches
+ * - Authorizations may start up to START_DATE_GRACE in the past, so one that starts
+ *   today still goes through when the transaction is delayed
+ * Events keep their v1 signatures so existing indexers read both versions.
+ */
+contract PickupSecurityV2 is Ownable {
+
+    // Maximum authorizations per batch call
+    uint256 public constant MAX_BATCH_SIZE = 50;
+
+    // How far in the past an authorization's start date may be
+    uint256 public constant START_DATE_GRACE = 1 days;
+
+    // Structs
+    struct School {
+        address admin;              // Wallet that manages the staff allowlist
+        bool isActive;              // Whether the school is registered
+    }
+
+    struct AuthorizationInput {
+        bytes32 authHash;           // Hash of the authorization signature
+        address parentWallet;       // Parent's wallet address
+        address pickupWallet;       // Pickup person's wallet address
+        bytes32 studentHash;        // Hash of student ID (for privacy)
+        uint256 startDate;          // Authorization start timestamp
+        uint256 endDate;            // Authorization end timestamp
+    }
+
+    struct Authorization {
+        bytes32 authHash;           // Hash of the authorization signature
+        bytes32 schoolId;           // School the authorization belongs to
+        address parentWallet;       // Parent's wallet address
+        address pickupWallet;       // Pickup person's wallet address
+        bytes32 studentHash;        // Hash of student ID (for privacy)
+        uint256 startDate;          // Authorization start timestamp
+        uint256 endDate;            // Authorization end timestamp
+        uint256 createdAt;          // When authorization was created
+        bool isActive;              // Whether authorization is active
+        bool isVerified;            // Whether signature has been verified
+    }
+
+    struct PickupEvent {
+        bytes32 eventHash;          // Hash of pickup event data
+        bytes32 schoolId;           // School where the pickup happened
+        bytes32 studentHash;        // Hash of student ID
+        address pickupWallet;       // Pickup person's wallet
+        address staffWallet;        // Staff member who verified pickup
+        uint256 timestamp;          // Pickup timestamp
+        bytes32 qrCodeHash;         // Hash of QR code used
+        bool isVerified;            // Whether pickup was verified
+    }
+
+    struct MerkleBatch {
+        bytes32 merkleRoot;         // Merkle root of pickup events
+        uint256 batchNumber;        // Sequential batch number
+        uint256 timestamp;          // When batch was anchored
+        uint256 blockNumber;        // Block number when anchored
+        uint256 eventCount;         // Number of events in this batch
+        string ipfsHash;            // IPFS hash of off-chain data
+    }
+
+    // State variables
+    mapping(bytes32 => School) public schools;
+    mapping(bytes32 => mapping(address => bool)) public schoolStaff;
+    mapping(bytes32 => Authorization) public authorizations;
+    mapping(bytes32 => PickupEvent) public pickupEvents;
+    mapping(uint256 => MerkleBatch) public merkleBatches;
+
+    uint256 public authorizationCounter;
+    uint256 public pickupEventCounter;
+    uint256 public batchCounter;
+
+    // Events
+    event SchoolRegistered(
+        bytes32 indexed schoolId,
+        address indexed admin
+    );
+
+    event SchoolStaffUpdated(
+        bytes32 indexed schoolId,
+        address indexed staffWallet,
+        bool isAllowed
+    );
+
+    event AuthorizationCreated(
+        bytes32 indexed authHash,
+        address indexed parentWallet,
+        address indexed pickupWallet,
+        bytes32 studentHash,
+        uint256 startDate,
+        uint256 endDate
+    );
+
+    event AuthorizationVerified(
+        bytes32 indexed authHash,
+        bool isVerified
+    );
+
+    event PickupEventRecorded(
+        bytes32 indexed eventHash,
+        bytes32 indexed studentHash,
+        address indexed pickupWallet,
+        uint256 timestamp
+    );
+
+    event MerkleBatchAnchored(
+        uint256 indexed batchNumber,
+        bytes32 indexed merkleRoot,
+        uint256 timestamp,
+        uint256 eventCount
+    );
+
+    event AuthorizationRevoked(
+        bytes32 indexed authHash,
+        address indexed parentWallet
+    );
+
+    // Modifiers
+    modifier onlyActiveSchool(bytes32 schoolId) {
+        require(schools[schoolId].isActive, "School is not registered");
+        _;
+    }
+
+    modifier onlySchoolAdminOrOwner(bytes32 schoolId) {
+        require(
+            schools[schoolId].admin == msg.sender || owner() == msg.sender,
+            "Only school admin or owner can perform this action"
+        );
+        _;
+    }
+
+    // Constructor
+    constructor() Ownable(msg.sender) {}
+
+    /**
+     * @dev Registers a school or changes its admin
+     * @param schoolId School identifier
+     * @param admin Wallet that manages the school's staff allowlist
+     */
+    function registerSchool(bytes32 schoolId, address admin) external onlyOwner {
+        require(schoolId != bytes32(0), "Invalid school id");
+        require(admin != address(0), "Invalid admin wallet");
+
+        schools[schoolId] = School({
+            admin: admin,
+            isActive: true
+        });
+
+        emit SchoolRegistered(schoolId, admin);
+    }
+
+    /**
+     * @dev Adds or removes staff wallets from a school's allowlist
+     * @param schoolId School identifier
+     * @param staffWallets Staff wallets to update
+     * @param isAllowed Whether the wallets may record pickups
+     */
+    function setSchoolStaff(
+        bytes32 schoolId,
+        address[] calldata staffWallets,
+        bool isAllowed
+    ) external onlyActiveSchool(schoolId) onlySchoolAdminOrOwner(schoolId) {
+        for (uint256 i = 0; i < staffWallets.length; i++) {
+            require(staffWallets[i] != address(0), "Invalid staff wallet");
+            schoolStaff[schoolId][staffWallets[i]] = isAllowed;
+            emit SchoolStaffUpdated(schoolId, staffWallets[i], isAllowed);
+        }
+    }
+
+    /**
+     * @dev Creates a batch of authorizations for one school. Parents may only create
+     * their own; the school admin or owner may create them on parents' behalf.
+     * @param schoolId School identifier
+     * @param inputs Authorizations to create
+     */
+    function createAuthorizations(
+        bytes32 schoolId,
+        AuthorizationInput[] calldata inputs
+    ) external onlyActiveSchool(schoolId) {
+        require(inputs.length > 0 && inputs.length <= MAX_BATCH_SIZE, "Invalid batch size");
+
+        bool isDelegate = schools[schoolId].admin == msg.sender || owner() == msg.sender;
+
+        for (uint256 i = 0; i < inputs.length; i++) {
+            AuthorizationInput calldata input = inputs[i];
+
+            require(input.authHash != bytes32(0), "Invalid authorization hash");
+            require(input.parentWallet != address(0), "Invalid parent wallet");
+            require(input.pickupWallet != address(0), "Invalid pickup wallet");
+            require(isDelegate || input.parentWallet == msg.sender, "Only parent can create authorization");
+            require(input.startDate < input.endDate, "Invalid date range");
+            require(input.endDate > block.timestamp, "Authorization has expired");
+            require(input.startDate + START_DATE_GRACE >= block.timestamp, "Start date is too far in the past");
+
+            // Check if authorization already exists
+            require(authorizations[input.authHash].authHash == bytes32(0), "Authorization already exists");
+
+            authorizations[input.authHash] = Authorization({
+                authHash: input.authHash,
+                schoolId: schoolId,
+                parentWallet: input.parentWallet,
+                pickupWallet: input.pickupWallet,
+                studentHash: input.studentHash,
+                startDate: input.startDate,
+                endDate: input.endDate,
+                createdAt: block.timestamp,
+                isActive: true,
+                isVerified: false
+            });
+
+            emit AuthorizationCreated(
+                input.authHash,
+                input.parentWallet,
+                input.pickupWallet,
+                input.studentHash,
+                input.startDate,
+                input.endDate
+            );
+        }
+
+        authorizationCounter += inputs.length;
+    }
+
+    /**
+     * @dev Verifies an authorization signature hash
+     * @param authHash Hash of the authorization to verify
+     * @param isVerified Whether the signature is verified
+     */
+    function verifyAuthorization(bytes32 authHash, bool isVerified) external onlyOwner {
+        require(authorizations[authHash].authHash != bytes32(0), "Authorization does not exist");
+
+        authorizations[authHash].isVerified = isVerified;
+
+        emit AuthorizationVerified(authHash, isVerified);
+    }
+
+    /**
+     * @dev Revokes an authorization (the parent, the school admin, or the owner relaying a parent's request)
+     * @param authHash Hash of the authorization to revoke
+     */
+    function revokeAuthorization(bytes32 authHash) public {
+        Authorization storage auth = authorizations[authHash];
+
+        require(auth.isActive, "Authorization is not active");
+        require(
+            auth.parentWallet == msg.sender ||
+            schools[auth.schoolId].admin == msg.sender ||
+            owner() == msg.sender,
+            "Only parent, school admin or owner can perform this action"
+        );
+
+        auth.isActive = false;
+
+        emit AuthorizationRevoked(authHash, auth.parentWallet);
+    }
+
+    /**
+     * @dev Revokes a batch of authorizations; every one must be revocable by the caller
+     * @param authHashes Hashes of the authorizations to revoke
+     */
+    function revokeAuthorizations(bytes32[] calldata authHashes) external {
+        require(authHashes.length > 0 && authHashes.length <= MAX_BATCH_SIZE, "Invalid batch size");
+
+        for (uint256 i = 0; i < authHashes.length; i++) {
+            revokeAuthorization(authHashes[i]);
+        }
+    }
+
+    /**
+     * @dev Records a pickup event. The staff member must be on the school's allowlist and
+     * either send the transaction themselves or have the owner relay it.
+     * @param schoolId School identifier
+     * @param eventHash Hash of the pickup event data
+     * @param studentHash Hash of student ID
+     * @param pickupWallet Pickup person's wallet
+     * @param staffWallet Staff member's wallet
+     * @param qrCodeHash Hash of QR code used
+     */
+    function recordPickupEvent(
+        bytes32 schoolId,
+        bytes32 eventHash,
+        bytes32 studentHash,
+        address pickupWallet,
+        address staffWallet,
+        bytes32 qrCodeHash
+    ) external onlyActiveSchool(schoolId) {
+        require(eventHash != bytes32(0), "Invalid event hash");
+        require(pickupWallet != address(0), "Invalid pickup wallet");
+        require(schoolStaff[schoolId][staffWallet], "Staff wallet is not allowed for this school");
+        require(staffWallet == msg.sender || owner() == msg.sender, "Only staff can record pickup events");
+
+        // Check if event already exists
+        require(pickupEvents[eventHash].eventHash == bytes32(0), "Event already recorded");
+
+        pickupEvents[eventHash] = PickupEvent({
+            eventHash: eventHash,
+            schoolId: schoolId,
+            studentHash: studentHash,
+            pickupWallet: pickupWallet,
+            staffWallet: staffWallet,
+            timestamp: block.timestamp,
+            qrCodeHash: qrCodeHash,
+            isVerified: true
+        });
+
+        pickupEventCounter++;
+
+        emit PickupEventRecorded(
+            eventHash,
+            studentHash,
+            pickupWallet,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Anchors a Merkle root of pickup events
+     * @param merkleRoot Merkle root of pickup events
+     * @param eventCount Number of events in this batch
+     * @param ipfsHash IPFS hash of off-chain data
+     */
+    function anchorMerkleBatch(
+        bytes32 merkleRoot,
+        uint256 eventCount,
+        string memory ipfsHash
+    ) external onlyOwner {
+        require(merkleRoot != bytes32(0), "Invalid Merkle root");
+        require(eventCount > 0, "Invalid event count");
+
+        merkleBatches[batchCounter] = MerkleBatch({
+            merkleRoot: merkleRoot,
+            batchNumber: batchCounter,
+            timestamp: block.timestamp,
+            blockNumber: block.number,
+            eventCount: eventCount,
+            ipfsHash: ipfsHash
+        });
+
+        emit MerkleBatchAnchored(
+            batchCounter,
+            merkleRoot,
+            block.timestamp,
+            eventCount
+        );
+
+        batchCounter++;
+    }
+
+    /**
+     * @dev Verifies a pickup event using Merkle proof
+     * @param eventHash Hash of the pickup event
+     * @param batchNumber Batch number containing the event
+     * @param proof Merkle proof for the event
+     * @return bool Whether the proof is valid
+     */
+    function verifyPickupEvent(
+        bytes32 eventHash,
+        uint256 batchNumber,
+        bytes32[] memory proof
+    ) external view returns (bool) {
+        require(batchNumber < batchCounter, "Batch does not exist");
+
+        return MerkleProof.verify(
+            proof,
+            merkleBatches[batchNumber].merkleRoot,
+            eventHash
+        );
+    }
+
+    /**
+     * @dev Verifies several pickup events of one batch using a Merkle multiproof
+     * @param eventHashes Hashes of the pickup events, in multiproof order
+     * @param batchNumber Batch number containing the events
+     * @param proof Sibling hashes for the multiproof
+     * @param proofFlags Multiproof flags
+     * @return bool Whether every event is part of the batch
+     */
+    function verifyPickupEvents(
+        bytes32[] memory eventHashes,
+        uint256 batchNumber,
+        bytes32[] memory proof,
+        bool[] memory proofFlags
+    ) external view returns (bool) {
+        require(batchNumber < batchCounter, "Batch does not exist");
+
+        return MerkleProof.multiProofVerify(
+            proof,
+            proofFlags,
+            merkleBatches[batchNumber].merkleRoot,
+            eventHashes
+        );
+    }
+
+    /**
+     * @dev Checks whether a wallet may record pickups for a school
+     * @param schoolId School identifier
+     * @param staffWallet Staff member's wallet
+     * @return bool Whether the wallet is allowlisted
+     */
+    function isSchoolStaff(bytes32 schoolId, address staffWallet) external view returns (bool) {
+        return schools[schoolId].isActive && schoolStaff[schoolId][staffWallet];
+    }
+
+    /**
+     * @dev Gets authorization details
+     * @param authHash Hash of the authorization
+     * @return Authorization struct
+     */
+    function getAuthorization(bytes32 authHash) external view returns (Authorization memory) {
+        return authorizations[authHash];
+    }
+
+    /**
+     * @dev Gets pickup event details
+     * @param eventHash Hash of the pickup event
+     * @return PickupEvent struct
+     */
+    function getPickupEvent(bytes32 eventHash) external view returns (PickupEvent memory) {
+        return pickupEvents[eventHash];
+    }
+
+    /**
+     * @dev Gets Merkle batch details
+     * @param batchNumber Batch number
+     * @return MerkleBatch struct
+     */
+    function getMerkleBatch(uint256 batchNumber) external view returns (MerkleBatch memory) {
+        return merkleBatches[batchNumber];
+    }
+
+    /**
+     * @dev Checks if an authorization is valid for pickup
+     * @param authHash Hash of the authorization
+     * @param pickupWallet Pickup person's wallet
+     * @param studentHash Hash of student ID
+     * @return bool Whether authorization is valid
+     */
+    function isAuthorizationValid(
+        bytes32 authHash,
+        address pickupWallet,
+        bytes32 studentHash
+    ) external view returns (bool) {
+        Authorization memory auth = authorizations[authHash];
+
+        return auth.isActive &&
+               auth.isVerified &&
+               schools[auth.schoolId].isActive &&
+               auth.pickupWallet == pickupWallet &&
+               auth.studentHash == studentHash &&
+               block.timestamp >= auth.startDate &&
+               block.timestamp <= auth.endDate;
+    }
+
+    /**
+     * @dev Gets contract statistics
+     * @return uint256 Number of authorizations
+     * @return uint256 Number of pickup events
+     * @return uint256 Number of Merkle batches
+     */
+    function getContractStats() external view returns (uint256, uint256, uint256) {
+        return (authorizationCounter, pickupEventCounter, batchCounter);
+    }
+}
@@ -2,22 +2,28 @@
 pragma solidity ^0.8.20;
 
 contract RoleAuth {
-    enum Role { None, Parent, Staff }
+    // New roles must be appended so existing stored values keep their meaning
+    enum Role { None, Parent, Staff, Admin }
 
     mapping(address => Role) public roles;
     address public admin;
 
+    event RoleUpdated(address indexed user, Role role);
+
     constructor() {
         admin = msg.sender; // deployer is admin
+        roles[msg.sender] = Role.Admin;
+        emit RoleUpdated(msg.sender, Role.Admin);
     }
 
     modifier onlyAdmin() {
-        require(msg.sender == admin, "Not authorized");
+        require(msg.sender == admin || roles[msg.sender] == Role.Admin, "Not authorized");
         _;
     }
 
     function setRole(address user, Role role) public onlyAdmin {
         roles[user] = role;
+        emit RoleUpdated(user, role);
     }
 
     function getRole(address user) public view returns (Role) {
@@ -0,0 +1,43 @@
+/**
+ * Hardhat configuration for the Solidity contracts in contracts/
+ * Networks mirror lib/blockchain/constants.ts; deploy with `npm run contracts:deploy -- --network <name>`
+ * and run the contract tests in test/ with `npm run contracts:test`.
+ */
+
+import type { HardhatUserConfig } from 'hardhat/config';
+import '@nomicfoundation/hardhat-ethers';
+import '@nomicfoundation/hardhat-chai-matchers';
+import { NETWORKS } from './lib/blockchain/constants';
+
+// Key that deploys to public testnets (never needed for the local node)
+const accounts = process.env.DEPLOYER_PRIVATE_KEY ? [process.env.DEPLOYER_PRIVATE_KEY] : [];
+
+const config: HardhatUserConfig = {
+  solidity: {
+    version: '0.8.24',
+    settings: {
+      optimizer: { enabled: true, runs: 200 }
+    }
+  },
+  networks: {
+    hardhat: {
+      chainId: NETWORKS.LOCALHOST.chainId
+    },
+    localhost: {
+      url: NETWORKS.LOCALHOST.rpcUrl,
+      chainId: NETWORKS.LOCALHOST.chainId
+    },
+    amoy: {
+      url: process.env.AMOY_RPC_URL || NETWORKS.POLYGON_AMOY.rpcUrl,
+      chainId: NETWORKS.POLYGON_AMOY.chainId,
+      accounts
+    },
+    sepolia: {
+      url: process.env.SEPOLIA_RPC_URL || NETWORKS.SEPOLIA.rpcUrl,
+      chainId: NETWORKS.SEPOLIA.chainId,
+      accounts
+    }
+  }
+};
+
+export default config;
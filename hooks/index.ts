@@ -7,3 +7,5 @@ export { useWallet } from './useWallet';
 export { useSignature } from './useSignature';
 export { useFirebaseAuth } from './useFirebaseAuth';
 export { useFirebaseData } from './useFirebaseData';
+export { useSessionGuard } from './useSessionGuard';
+export { useOfflineGate } from './useOfflineGate';
@@ -1,18 +1,40 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { ethers } from 'ethers';
 import { useWallet } from './useWallet';
 import * as blockchain from '@/lib/blockchain';
+import { authFetch } from '@/lib/firebase/client-auth';
 import type { 
   AuthorizationData, 
   PickupEventData, 
   MerkleBatchData,
   TransactionResult,
   BatchAnchoringResult,
-  VerificationResult 
+  VerificationResult,
+  RelayRequestKind,
+  RelayCreateAuthorizationMessage,
+  RelayRecordPickupEventMessage,
+  RelayResult,
+  PickupSecurityVersion,
+  TrackedTransactionStatus,
+  TransactionStatusListener,
+  TransactionStatusUpdate
 } from '@/lib/blockchain/types';
 
+// How often pending wallet transactions are re-checked
+const TRANSACTION_POLL_INTERVAL = 15000;
+
+// A transaction sent from the connected wallet, as shown in the UI
+export interface WalletTransaction {
+  hash: string;
+  method: string;
+  status: TrackedTransactionStatus;
+  replacedBy?: string;
+  blockNumber?: number;
+  gasUsed?: number;
+}
+
 interface UseBlockchainReturn {
   // State
   isLoading: boolean;
@@ -22,11 +44,25 @@ interface UseBlockchainReturn {
     pickupEventCount: number;
     batchCount: number;
   };
+  // PickupSecurity version on the connected chain; batch and staff functions need v2
+  contractVersion: PickupSecurityVersion;
+  // Transactions sent from this wallet, by hash; pending ones update live
+  transactions: Record<string, WalletTransaction>;
+  pendingTransactions: WalletTransaction[];
   
   // Authorization functions
   createAuthorization: (authData: AuthorizationData) => Promise<TransactionResult>;
+  createAuthorizations: (authorizations: AuthorizationData[]) => Promise<TransactionResult>;
   verifyAuthorization: (authData: AuthorizationData) => Promise<VerificationResult>;
-  revokeAuthorization: (authHash: string) => Promise<TransactionResult>;
+  revokeAuthorization: (authHash: string, onStatus?: TransactionStatusListener) => Promise<TransactionResult>;
+  revokeAuthorizations: (authHashes: string[], onStatus?: TransactionStatusListener) => Promise<TransactionResult>;
+  
+  // School staff allowlist (v2)
+  setSchoolStaff: (staffWallets: string[], isAllowed: boolean) => Promise<TransactionResult>;
+  
+  // Gasless variants submitted by the school relayer
+  relayCreateAuthorization: (authData: AuthorizationData) => Promise<RelayResult>;
+  relayPickupEvent: (eventData: PickupEventData) => Promise<RelayResult>;
   
   // Pickup event functions
   recordPickupEvent: (eventData: PickupEventData) => Promise<TransactionResult>;
@@ -36,6 +72,10 @@ interface UseBlockchainReturn {
   anchorMerkleBatch: (batchData: MerkleBatchData) => Promise<BatchAnchoringResult>;
   createBatch: (events: PickupEventData[], batchNumber: number) => any;
   
+  // Stuck transactions: re-send with higher fees, or replace with an empty transfer
+  speedUpTransaction: (hash: string) => Promise<TransactionResult>;
+  cancelTransaction: (hash: string) => Promise<TransactionResult>;
+  
   // Utility functions
   clearError: () => void;
   getContractStats: () => Promise<void>;
@@ -50,6 +90,9 @@ export function useBlockchain(): UseBlockchainReturn {
     pickupEventCount: 0,
     batchCount: 0
   });
+  const [transactions, setTransactions] = useState<Record<string, WalletTransaction>>({});
+  // Hashes already reported to /api/transactions
+  const reportedHashes = useRef(new Set<string>());
 
   // Get provider and signer from wallet hook
   const getProvider = useCallback(() => {
@@ -66,6 +109,11 @@ export function useBlockchain(): UseBlockchainReturn {
     return walletHook.signer;
   }, [walletHook.signer]);
 
+  // Contract addresses of the chain the wallet is connected to
+  const getNetwork = useCallback(() => {
+    return blockchain.getPickupSecurityConfig(walletHook.chainId ?? undefined);
+  }, [walletHook.chainId]);
+
   // Clear error
   const clearError = useCallback(() => {
     setError(null);
@@ -75,13 +123,82 @@ export function useBlockchain(): UseBlockchainReturn {
   const getContractStats = useCallback(async () => {
     try {
       const provider = getProvider();
-      const stats = await blockchain.getContractStats(provider);
+      const stats = await blockchain.getContractStats(provider, getNetwork());
       setContractStats(stats);
     } catch (err: any) {
       setError(err.message || 'Failed to get contract stats');
     }
-  }, [getProvider]);
+  }, [getProvider, getNetwork]);
+
+  // Merge a status change into the transaction list
+  const updateTransaction = useCallback((update: TransactionStatusUpdate, method?: string) => {
+    setTransactions(prev => ({
+      ...prev,
+      [update.hash]: {
+        ...prev[update.hash],
+        ...update,
+        method: method || prev[update.hash]?.method || 'unknown'
+      }
+    }));
+  }, []);
+
+  // Let the server follow a transaction so its status survives a reload (best effort)
+  const reportTransaction = useCallback(async (hash: string, method: string, replaces?: string) => {
+    if (reportedHashes.current.has(hash)) return;
+    reportedHashes.current.add(hash);
+
+    try {
+      await authFetch('/api/transactions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ hash, method, replaces })
+      });
+    } catch (err) {
+      console.error('Error reporting transaction:', err);
+    }
+  }, []);
+
+  // Status listener for a write: updates the list, reports new transactions and
+  // replacements made from the wallet itself, then passes the change on
+  const trackStatus = useCallback((method: string, onStatus?: TransactionStatusListener): TransactionStatusListener => {
+    return async (update) => {
+      updateTransaction(update, method);
+      if (update.status === 'pending') {
+        await reportTransaction(update.hash, method);
+      } else if (update.status === 'replaced' && update.replacedBy) {
+        updateTransaction({ hash: update.replacedBy, status: 'pending' }, method);
+        await reportTransaction(update.replacedBy, method, update.hash);
+      }
+      await onStatus?.(update);
+    };
+  }, [updateTransaction, reportTransaction]);
 
+  // Load the wallet's tracked transactions, re-checking pending ones on the server
+  const refreshTransactions = useCallback(async () => {
+    try {
+      const res = await authFetch('/api/transactions');
+      const data = await res.json();
+      if (!res.ok || !data.success) return;
+
+      setTransactions(prev => {
+        const next = { ...prev };
+        for (const record of data.data) {
+          reportedHashes.current.add(record.hash);
+          next[record.hash] = {
+            hash: record.hash,
+            method: record.method,
+            status: record.status,
+            replacedBy: record.replacedBy || undefined,
+            blockNumber: record.blockNumber ?? undefined,
+            gasUsed: record.gasUsed ?? undefined
+          };
+        }
+        return next;
+      });
+    } catch (err) {
+      console.error('Error loading transactions:', err);
+    }
+  }, []);
   // Create authorization on blockchain
   const createAuthorization = useCallback(async (authData: AuthorizationData): Promise<TransactionResult> => {
     setIsLoading(true);
@@ -89,7 +206,7 @@ export function useBlockchain(): UseBlockchainReturn {
 
     try {
       const signer = getSigner();
-      const result = await blockchain.createAuthorizationOnChain(signer, authData);
+      const result = await blockchain.createAuthorizationOnChain(signer, authData, getNetwork(), trackStatus('createAuthorization'));
       
       if (result.success) {
         // Refresh contract stats
@@ -109,7 +226,36 @@ export function useBlockchain(): UseBlockchainReturn {
     } finally {
       setIsLoading(false);
     }
-  }, [getSigner, getContractStats]);
+  }, [getSigner, getNetwork, getContractStats, trackStatus]);
+
+  // Create several authorizations in one transaction (v2)
+  const createAuthorizations = useCallback(async (authorizations: AuthorizationData[]): Promise<TransactionResult> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const signer = getSigner();
+      const result = await blockchain.createAuthorizationsOnChain(signer, authorizations, getNetwork(), trackStatus('createAuthorizations'));
+      
+      if (result.success) {
+        // Refresh contract stats
+        await getContractStats();
+      } else {
+        setError(result.error || 'Failed to create authorizations');
+      }
+      
+      return result;
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to create authorizations on blockchain';
+      setError(errorMessage);
+      return {
+        success: false,
+        error: errorMessage
+      };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getSigner, getNetwork, getContractStats, trackStatus]);
 
   // Verify authorization
   const verifyAuthorization = useCallback(async (authData: AuthorizationData): Promise<VerificationResult> => {
@@ -138,13 +284,16 @@ export function useBlockchain(): UseBlockchainReturn {
   }, [getProvider]);
 
   // Revoke authorization
-  const revokeAuthorization = useCallback(async (authHash: string): Promise<TransactionResult> => {
+  const revokeAuthorization = useCallback(async (
+    authHash: string,
+    onStatus?: TransactionStatusListener
+  ): Promise<TransactionResult> => {
     setIsLoading(true);
     setError(null);
 
     try {
       const signer = getSigner();
-      const result = await blockchain.revokeAuthorizationOnChain(signer, authHash);
+      const result = await blockchain.revokeAuthorizationOnChain(signer, authHash, getNetwork(), trackStatus('revokeAuthorization', onStatus));
       
       if (result.success) {
         // Refresh contract stats
@@ -164,7 +313,65 @@ export function useBlockchain(): UseBlockchainReturn {
     } finally {
       setIsLoading(false);
     }
-  }, [getSigner, getContractStats]);
+  }, [getSigner, getNetwork, getContractStats, trackStatus]);
+
+  // Revoke several authorizations in one transaction (v2)
+  const revokeAuthorizations = useCallback(async (
+    authHashes: string[],
+    onStatus?: TransactionStatusListener
+  ): Promise<TransactionResult> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const signer = getSigner();
+      const result = await blockchain.revokeAuthorizationsOnChain(signer, authHashes, getNetwork(), trackStatus('revokeAuthorizations', onStatus));
+      
+      if (result.success) {
+        // Refresh contract stats
+        await getContractStats();
+      } else {
+        setError(result.error || 'Failed to revoke authorizations');
+      }
+      
+      return result;
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to revoke authorizations on blockchain';
+      setError(errorMessage);
+      return {
+        success: false,
+        error: errorMessage
+      };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getSigner, getNetwork, getContractStats, trackStatus]);
+
+  // Add or remove staff from the school's allowlist (school admin or contract owner)
+  const setSchoolStaff = useCallback(async (staffWallets: string[], isAllowed: boolean): Promise<TransactionResult> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const signer = getSigner();
+      const result = await blockchain.setSchoolStaffOnChain(signer, staffWallets, isAllowed, getNetwork(), trackStatus('setSchoolStaff'));
+      
+      if (!result.success) {
+        setError(result.error || 'Failed to update school staff');
+      }
+      
+      return result;
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to update school staff on blockchain';
+      setError(errorMessage);
+      return {
+        success: false,
+        error: errorMessage
+      };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getSigner, getNetwork, trackStatus]);
 
   // Record pickup event on blockchain
   const recordPickupEvent = useCallback(async (eventData: PickupEventData): Promise<TransactionResult> => {
@@ -173,7 +380,7 @@ export function useBlockchain(): UseBlockchainReturn {
 
     try {
       const signer = getSigner();
-      const result = await blockchain.recordPickupEventOnChain(signer, eventData);
+      const result = await blockchain.recordPickupEventOnChain(signer, eventData, getNetwork(), trackStatus('recordPickupEvent'));
       
       if (result.success) {
         // Refresh contract stats
@@ -193,7 +400,7 @@ export function useBlockchain(): UseBlockchainReturn {
     } finally {
       setIsLoading(false);
     }
-  }, [getSigner, getContractStats]);
+  }, [getSigner, getNetwork, getContractStats, trackStatus]);
 
   // Verify pickup event
   const verifyPickupEvent = useCallback(async (eventData: PickupEventData, merkleProof: any): Promise<VerificationResult> => {
@@ -228,7 +435,7 @@ export function useBlockchain(): UseBlockchainReturn {
 
     try {
       const signer = getSigner();
-      const result = await blockchain.anchorMerkleBatchOnChain(signer, batchData);
+      const result = await blockchain.anchorMerkleBatchOnChain(signer, batchData, getNetwork(), trackStatus('anchorMerkleBatch'));
       
       if (result.success) {
         // Refresh contract stats
@@ -251,8 +458,128 @@ export function useBlockchain(): UseBlockchainReturn {
     } finally {
       setIsLoading(false);
     }
+  }, [getSigner, getNetwork, getContractStats, trackStatus]);
+
+  // Sign a relay request and hand it to the school relayer, which pays the gas
+  const submitRelayRequest = useCallback(async (
+    kind: RelayRequestKind,
+    buildMessage: (nonce: number, deadline: number) => RelayCreateAuthorizationMessage | RelayRecordPickupEventMessage
+  ): Promise<RelayResult> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const signer = getSigner();
+      const signerAddress = (await signer.getAddress()).toLowerCase();
+
+      const statusRes = await authFetch(`/api/relay?signer=${signerAddress}`);
+      const status = await statusRes.json();
+      if (!statusRes.ok || !status.success) {
+        throw new Error(status.error || 'Failed to reach the relayer');
+      }
+      if (!status.enabled) {
+        throw new Error('Gasless transactions are not enabled');
+      }
+
+      const deadline = Math.floor(Date.now() / 1000) + blockchain.RELAY_REQUEST_TTL_SECONDS;
+      const message = buildMessage(status.nonce, deadline);
+      const signature = await blockchain.signRelayRequest(signer, kind, message, status.domain);
+
+      const res = await authFetch('/api/relay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind, message, signature })
+      });
+      const data = await res.json();
+
+      if (!res.ok || !data.success) {
+        const errorMessage = data.error || 'Relayed transaction failed';
+        setError(errorMessage);
+        return { success: false, error: errorMessage, hash: data.hash, requestId: data.requestId };
+      }
+
+      await getContractStats();
+
+      return {
+        success: true,
+        hash: data.hash,
+        blockNumber: data.blockNumber,
+        gasUsed: data.gasUsed,
+        requestId: data.requestId
+      };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to submit gasless transaction';
+      setError(errorMessage);
+      return {
+        success: false,
+        error: errorMessage
+      };
+    } finally {
+      setIsLoading(false);
+    }
   }, [getSigner, getContractStats]);
 
+  // Create authorization without paying gas
+  const relayCreateAuthorization = useCallback((authData: AuthorizationData) => {
+    return submitRelayRequest('createAuthorization', (nonce, deadline) => ({
+      authHash: blockchain.createAuthorizationHash(authData),
+      parentWallet: authData.parentWallet,
+      pickupWallet: authData.pickupWallet,
+      studentHash: authData.studentHash,
+      startDate: authData.startDate,
+      endDate: authData.endDate,
+      nonce,
+      deadline
+    }));
+  }, [submitRelayRequest]);
+
+  // Record pickup event without paying gas
+  const relayPickupEvent = useCallback((eventData: PickupEventData) => {
+    return submitRelayRequest('recordPickupEvent', (nonce, deadline) => ({
+      studentHash: eventData.studentHash,
+      pickupWallet: eventData.pickupWallet,
+      staffWallet: eventData.staffWallet,
+      qrCodeHash: eventData.qrCodeHash,
+      timestamp: eventData.timestamp,
+      nonce,
+      deadline
+    }));
+  }, [submitRelayRequest]);
+
+  // Re-send a stuck transaction with the same nonce, either as is with higher fees or as an empty transfer
+  const replaceTransaction = useCallback(async (hash: string, mode: 'speedUp' | 'cancel'): Promise<TransactionResult> => {
+    setError(null);
+
+    try {
+      const signer = getSigner();
+      const replacement = mode === 'speedUp'
+        ? await blockchain.speedUpTransaction(signer, hash)
+        : await blockchain.cancelTransaction(signer, hash);
+      const method = mode === 'speedUp' ? transactions[hash]?.method || 'unknown' : 'cancel';
+
+      updateTransaction({ hash, status: 'replaced', replacedBy: replacement.hash });
+      updateTransaction({ hash: replacement.hash, status: 'pending' }, method);
+      await reportTransaction(replacement.hash, method, hash);
+
+      return await blockchain.waitForTransaction(replacement, trackStatus(method));
+    } catch (err: any) {
+      const errorMessage = err.message || `Failed to ${mode === 'speedUp' ? 'speed up' : 'cancel'} transaction`;
+      setError(errorMessage);
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }, [getSigner, transactions, updateTransaction, reportTransaction, trackStatus]);
+
+  const speedUpTransaction = useCallback((hash: string) => {
+    return replaceTransaction(hash, 'speedUp');
+  }, [replaceTransaction]);
+
+  const cancelTransaction = useCallback((hash: string) => {
+    return replaceTransaction(hash, 'cancel');
+  }, [replaceTransaction]);
+
   // Create batch (off-chain)
   const createBatch = useCallback((events: PickupEventData[], batchNumber: number) => {
     try {
@@ -270,16 +597,45 @@ export function useBlockchain(): UseBlockchainReturn {
     }
   }, [walletHook.isConnected, getContractStats]);
 
+  // Restore transactions sent before a reload
+  useEffect(() => {
+    if (walletHook.isConnected) {
+      refreshTransactions();
+    }
+  }, [walletHook.isConnected, refreshTransactions]);
+
+  const pendingTransactions = Object.values(transactions).filter(tx => tx.status === 'pending');
+  const hasPendingTransactions = pendingTransactions.length > 0;
+
+  // Keep checking pending transactions until they are mined, replaced or dropped
+  useEffect(() => {
+    if (!hasPendingTransactions) return;
+    const interval = setInterval(refreshTransactions, TRANSACTION_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasPendingTransactions, refreshTransactions]);
+
   return {
     // State
     isLoading,
     error,
     contractStats,
+    contractVersion: getNetwork().contractVersion || 1,
+    transactions,
+    pendingTransactions,
     
     // Authorization functions
     createAuthorization,
+    createAuthorizations,
     verifyAuthorization,
     revokeAuthorization,
+    revokeAuthorizations,
+    
+    // School staff allowlist
+    setSchoolStaff,
+    
+    // Gasless variants
+    relayCreateAuthorization,
+    relayPickupEvent,
     
     // Pickup event functions
     recordPickupEvent,
@@ -289,6 +645,10 @@ export function useBlockchain(): UseBlockchainReturn {
     anchorMerkleBatch,
     createBatch,
     
+    // Stuck transactions
+    speedUpTransaction,
+    cancelTransaction,
+    
     // Utility functions
     clearError,
     getContractStats
@@ -6,15 +6,24 @@ import { useWallet } from './useWallet';
 import { 
   FirebaseAuthService, 
   AuthUser, 
+  AuthRole,
   SignaturePayload 
 } from '@/lib/firebase/client-auth';
 
+/**
+ * Resolves the chain the signer is connected to, so the SIWE message is bound to it
+ */
+const getSignerChainId = async (signer: any): Promise<number> => {
+  const network = await signer.provider.getNetwork();
+  return Number(network.chainId);
+};
+
 interface UseFirebaseAuthReturn {
   user: AuthUser | null;
   isLoading: boolean;
   error: string | null;
   isAuthenticated: boolean;
-  login: (fallbackRole: 'parent' | 'pickup' | 'staff', walletOverride?: { address: string; signer: any }) => Promise<AuthUser>;
+  login: (fallbackRole: AuthRole, walletOverride?: { address: string; signer: any }) => Promise<AuthUser>;
   logout: () => Promise<void>;
   clearError: () => void;
   getIdToken: () => Promise<string | null>;
@@ -62,7 +71,7 @@ export function useFirebaseAuth(): UseFirebaseAuthReturn {
     setError(null);
   }, []);
 
-  const register = useCallback(async (role: 'parent' | 'pickup' | 'staff'): Promise<AuthUser> => {
+  const register = useCallback(async (role: AuthRole): Promise<AuthUser> => {
     setIsLoading(true);
     setError(null);
 
@@ -79,19 +88,18 @@ export function useFirebaseAuth(): UseFirebaseAuthReturn {
       const walletAddress = walletHook.address;
       const signer = walletHook.signer;
 
-      // Create signed payload
-      const nonce = FirebaseAuthService.generateNonce();
-      const message = FirebaseAuthService.createSignatureMessage(walletAddress, role, nonce);
+      // Create signed SIWE payload using a server-issued nonce
+      const chainId = await getSignerChainId(signer);
+      const authNonce = await FirebaseAuthService.requestNonce(walletAddress, role, 'register');
+      const message = FirebaseAuthService.createSignatureMessage(walletAddress, role, authNonce, chainId);
       const signature = await signer.signMessage(message);
-      const timestamp = Math.floor(Date.now() / 1000);
 
       const payload: SignaturePayload = {
         wallet: walletAddress,
         message,
         signature,
         role,
-        timestamp,
-        nonce
+        nonce: authNonce.nonce
       };
 
       const authUser = await FirebaseAuthService.registerWithSignature(payload);
@@ -108,7 +116,7 @@ export function useFirebaseAuth(): UseFirebaseAuthReturn {
     }
   }, [walletHook]);
 
-  const login = useCallback(async (fallbackRole: 'parent' | 'pickup' | 'staff', walletOverride?: { address: string; signer: any }): Promise<AuthUser> => {
+  const login = useCallback(async (fallbackRole: AuthRole, walletOverride?: { address: string; signer: any }): Promise<AuthUser> => {
     setIsLoading(true);
     setError(null);
 
@@ -142,19 +150,18 @@ export function useFirebaseAuth(): UseFirebaseAuthReturn {
         console.log('Could not fetch user role from Firebase, using fallback role:', fallbackRole);
       }
 
-      // Create signed payload with the actual role
-      const nonce = FirebaseAuthService.generateNonce();
-      const message = FirebaseAuthService.createSignatureMessage(walletAddress, actualRole, nonce);
+      // Create signed SIWE payload with the actual role using a server-issued nonce
+      const chainId = await getSignerChainId(signer);
+      const authNonce = await FirebaseAuthService.requestNonce(walletAddress, actualRole, 'login');
+      const message = FirebaseAuthService.createSignatureMessage(walletAddress, actualRole, authNonce, chainId);
       const signature = await signer.signMessage(message);
-      const timestamp = Math.floor(Date.now() / 1000);
 
       const payload: SignaturePayload = {
         wallet: walletAddress,
         message,
         signature,
         role: actualRole,
-        timestamp,
-        nonce
+        nonce: authNonce.nonce
       };
 
       try {
@@ -173,14 +180,15 @@ export function useFirebaseAuth(): UseFirebaseAuthReturn {
           // Show a temporary status while auto-registering
           setError('New user detected - creating account automatically...');
           
-          // For new users, use the fallback role for registration
+          // For new users, use the fallback role for registration with a fresh nonce
+          const registrationNonce = await FirebaseAuthService.requestNonce(walletAddress, fallbackRole, 'register');
+          const registrationMessage = FirebaseAuthService.createSignatureMessage(walletAddress, fallbackRole, registrationNonce, chainId);
           const registrationPayload: SignaturePayload = {
             wallet: walletAddress,
-            message: FirebaseAuthService.createSignatureMessage(walletAddress, fallbackRole, nonce),
-            signature: await signer.signMessage(FirebaseAuthService.createSignatureMessage(walletAddress, fallbackRole, nonce)),
+            message: registrationMessage,
+            signature: await signer.signMessage(registrationMessage),
             role: fallbackRole,
-            timestamp,
-            nonce
+            nonce: registrationNonce.nonce
           };
           
           // Attempt automatic registration
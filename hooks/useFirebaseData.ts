@@ -2,14 +2,31 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useFirebaseAuth } from './useFirebaseAuth';
+import { authFetch } from '@/lib/firebase/client-auth';
+import type { QRRotation } from '@/lib/firebase/qr-totp';
 import type { 
   Student, 
   User, 
   PickupHistory, 
   AuthorizationRecord, 
-  PickupPerson 
+  PickupPerson,
+  PickupRevocation
 } from '@/types/database';
 
+// A generated QR code; rotation is set when the school rotates the displayed code
+export interface GeneratedQRCode {
+  qrCodeData: string;
+  expiresAt: string;
+  authorizationId: string;
+  rotation: QRRotation | null;
+}
+
+// Outcome of removing a pickup person: removed at once, or revoking on chain first
+export interface PickupRemovalResult {
+  removed: boolean;
+  revocation?: PickupRevocation;
+}
+
 interface UseFirebaseDataReturn {
   // User data
   currentUser: User | null;
@@ -49,8 +66,10 @@ interface UseFirebaseDataReturn {
   
   // Actions
   addPickupAuthorization: (pickupWallet: string, person: PickupPerson) => Promise<boolean>;
-  removePickupAuthorization: (pickupWallet: string) => Promise<boolean>;
-  generateQRCode: (studentId: string) => Promise<{ qrCodeData: string; expiresAt: string } | null>;
+  removePickupAuthorization: (pickupWallet: string) => Promise<PickupRemovalResult | null>;
+  recordRevocationTransaction: (pickupWallet: string, authHash: string, txHash: string) => Promise<boolean>;
+  syncRevocations: () => Promise<void>;
+  generateQRCode: (studentId: string) => Promise<GeneratedQRCode | null>;
 }
 
 export function useFirebaseData(): UseFirebaseDataReturn {
@@ -94,7 +113,7 @@ export function useFirebaseData(): UseFirebaseDataReturn {
     if (!authUser?.wallet) return;
     
     try {
-      const response = await fetch(`/api/users?wallet=${authUser.wallet}`);
+      const response = await authFetch(`/api/users?wallet=${authUser.wallet}`);
       if (response.ok) {
         const data = await response.json();
         if (data.success && data.user) {
@@ -121,7 +140,7 @@ export function useFirebaseData(): UseFirebaseDataReturn {
       }
       // For pickup persons and staff, fetch all students (needed to check authorizations)
       const url = params.toString() ? `/api/students?${params.toString()}` : '/api/students';
-      const response = await fetch(url);
+      const response = await authFetch(url);
       if (response.ok) {
         const data = await response.json();
         if (data.success) {
@@ -142,7 +161,7 @@ export function useFirebaseData(): UseFirebaseDataReturn {
     
     setLoadingHistory(true);
     try {
-      const response = await fetch('/api/pickup/history');
+      const response = await authFetch('/api/pickup/history');
       if (response.ok) {
         const data = await response.json();
         if (data.success) {
@@ -194,7 +213,7 @@ export function useFirebaseData(): UseFirebaseDataReturn {
     
     setLoadingAllUsers(true);
     try {
-      const response = await fetch('/api/users');
+      const response = await authFetch('/api/users');
       if (response.ok) {
         const data = await response.json();
         if (data.success) {
@@ -241,13 +260,13 @@ export function useFirebaseData(): UseFirebaseDataReturn {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
         },
         body: JSON.stringify({
           pickupWallet,
           relationship: person.relationship,
           startDate: person.startDate,
           endDate: person.endDate,
-          idToken,
         }),
       });
       
@@ -266,11 +285,11 @@ export function useFirebaseData(): UseFirebaseDataReturn {
     }
   }, [getIdToken, fetchCurrentUser]);
 
-  // Remove pickup authorization
-  const removePickupAuthorization = useCallback(async (pickupWallet: string): Promise<boolean> => {
+  // Remove pickup authorization (revoking it on chain first if it exists there)
+  const removePickupAuthorization = useCallback(async (pickupWallet: string): Promise<PickupRemovalResult | null> => {
     try {
       const idToken = await getIdToken();
-      if (!idToken) return false;
+      if (!idToken) return null;
       
       const response = await fetch(`/api/pickup/authorize?pickupWallet=${pickupWallet}`, {
         method: 'DELETE',
@@ -280,24 +299,76 @@ export function useFirebaseData(): UseFirebaseDataReturn {
       });
       
       if (response.ok) {
+        const result = await response.json();
         await fetchCurrentUser(); // Refresh user data
-        return true;
+        return result.data as PickupRemovalResult;
       }
       
       const errorData = await response.json();
       setError(errorData.error || 'Failed to remove pickup authorization');
-      return false;
+      return null;
     } catch (error) {
       console.error('Error removing pickup authorization:', error);
       setError('Failed to remove pickup authorization');
+      return null;
+    }
+  }, [getIdToken, fetchCurrentUser]);
+
+  // Report a revocation transaction sent from the parent's wallet
+  const recordRevocationTransaction = useCallback(async (
+    pickupWallet: string,
+    authHash: string,
+    txHash: string
+  ): Promise<boolean> => {
+    try {
+      const idToken = await getIdToken();
+      if (!idToken) return false;
+      
+      const response = await fetch('/api/pickup/authorize', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ pickupWallet, authHash, txHash }),
+      });
+      
+      if (response.ok) {
+        await fetchCurrentUser(); // Refresh user data
+        return true;
+      }
+      
+      const errorData = await response.json();
+      setError(errorData.error || 'Failed to record revocation transaction');
+      return false;
+    } catch (error) {
+      console.error('Error recording revocation transaction:', error);
+      setError('Failed to record revocation transaction');
       return false;
     }
   }, [getIdToken, fetchCurrentUser]);
 
+  // Check pending revocations on chain, then reload the pickup list
+  const syncRevocations = useCallback(async (): Promise<void> => {
+    try {
+      const idToken = await getIdToken();
+      if (!idToken) return;
+      
+      await fetch('/api/pickup/authorize', {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+      await fetchCurrentUser();
+    } catch (error) {
+      console.error('Error syncing pickup revocations:', error);
+    }
+  }, [getIdToken, fetchCurrentUser]);
+
   // Generate QR code
   const generateQRCode = useCallback(async (
     studentId: string
-  ): Promise<{ qrCodeData: string; expiresAt: string } | null> => {
+  ): Promise<GeneratedQRCode | null> => {
     try {
       const idToken = await getIdToken();
       if (!idToken) return null;
@@ -306,10 +377,10 @@ export function useFirebaseData(): UseFirebaseDataReturn {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
         },
         body: JSON.stringify({
           studentId,
-          idToken,
         }),
       });
       
@@ -319,6 +390,8 @@ export function useFirebaseData(): UseFirebaseDataReturn {
           return {
             qrCodeData: data.data.qrCodeData,
             expiresAt: data.data.expiresAt,
+            authorizationId: data.data.authorizationId,
+            rotation: data.data.rotation ?? null,
           };
         }
       }
@@ -376,7 +449,7 @@ export function useFirebaseData(): UseFirebaseDataReturn {
           
           // Check if this parent has authorized the current pickup person
           const pickupAuth = parentUser.pickup?.[authUser.wallet || ''];
-          if (!pickupAuth) return false;
+          if (!pickupAuth || pickupAuth.revocation) return false;
           
           // Check if this student belongs to this parent
           const studentBelongsToParent = student.parentId === parentUser.id;
@@ -418,6 +491,8 @@ export function useFirebaseData(): UseFirebaseDataReturn {
     clearError,
     addPickupAuthorization,
     removePickupAuthorization,
+    recordRevocationTransaction,
+    syncRevocations,
     generateQRCode,
   };
 }
@@ -0,0 +1,320 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { authFetch } from '@/lib/firebase/client-auth';
+import { decodeQRToken, isSignedQRToken, verifyQRToken } from '@/lib/firebase/qr-tokens';
+import {
+  OfflinePickupConflict,
+  addConflict,
+  addQueuedPickup,
+  getConflicts,
+  getCachedPhotoUrls,
+  getDeviceId,
+  getQueuedPickups,
+  isOfflineGateSupported,
+  loadRoster,
+  removeCachedPhoto,
+  removeConflict,
+  removeQueuedPickup,
+  saveCachedPhoto,
+  saveRoster
+} from '@/lib/offline/gate-store';
+import type { OfflinePickup, OfflinePickupResult, OfflineRoster, PickupEvidenceChecks } from '@/types/database';
+
+// How often the cached roster is refreshed while online
+const ROSTER_REFRESH_INTERVAL = 15 * 60 * 1000;
+
+// A pickup checked against the cached roster, in the shape the confirmation card shows
+export interface OfflineValidation {
+  valid: boolean;
+  error?: string;
+  pickup?: {
+    authorizationId: string;
+    studentId: string;
+    studentName: string;
+    studentGrade: string;
+    parentWallet: string;
+    pickupWallet: string;
+    pickupPersonName?: string;
+    relationship: string;
+    expiresAt: string;
+    // Roster photo URLs, to be read from the device cache (see loadCachedPhoto)
+    studentPhotoUrl: string | null;
+    pickupPersonPhotoUrl: string | null;
+  };
+}
+
+const TOKEN_ERRORS = {
+  malformed: 'Invalid QR code format',
+  unknown_key: 'QR code was signed with a key this device does not have. Reconnect to refresh the roster.',
+  signature: 'Invalid QR code signature',
+  expired: 'QR code has expired',
+};
+
+/**
+ * Caches the photos a roster refers to and drops the ones it no longer does. A photo's URL
+ * changes with every upload, so cached photos never go stale; ones that fail to download are
+ * tried again with the next roster.
+ */
+const cacheRosterPhotos = async (roster: OfflineRoster): Promise<void> => {
+  const urls = new Set(
+    roster.students
+      .flatMap(student => [student.photoUrl, ...student.pickupPersons.map(person => person.photoUrl)])
+      .filter((url): url is string => Boolean(url))
+  );
+  const cached = await getCachedPhotoUrls();
+
+  for (const url of cached.filter(url => !urls.has(url))) {
+    await removeCachedPhoto(url);
+  }
+  for (const url of [...urls].filter(url => !cached.includes(url))) {
+    try {
+      const res = await authFetch(url);
+      if (!res.ok) {
+        throw new Error(`Photo request failed with status ${res.status}`);
+      }
+      await saveCachedPhoto(url, await res.blob());
+    } catch (err) {
+      console.error('Error caching roster photo:', err);
+    }
+  }
+};
+
+interface UseOfflineGateReturn {
+  isSupported: boolean;
+  isOnline: boolean;
+  roster: OfflineRoster | null;
+  queuedPickups: OfflinePickup[];
+  conflicts: OfflinePickupConflict[];
+  isSyncing: boolean;
+  validateOffline: (qrCodeData: string) => OfflineValidation;
+  queuePickup: (qrCodeData: string, evidence?: PickupEvidenceChecks) => Promise<void>;
+  refreshRoster: () => Promise<void>;
+  syncQueuedPickups: () => Promise<OfflinePickupResult[]>;
+  dismissConflict: (localId: string) => Promise<void>;
+}
+
+/**
+ * Offline gate mode for staff devices: keeps a roster and its photos cached in IndexedDB,
+ * validates signed QR codes against it while offline, queues confirmed pickups and reconciles
+ * them through POST /api/qr/verify once the connection is back. Results other than "recorded"
+ * are kept as conflicts until a staff member dismisses them.
+ */
+export function useOfflineGate(): UseOfflineGateReturn {
+  const [isSupported, setIsSupported] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const [roster, setRoster] = useState<OfflineRoster | null>(null);
+  const [queuedPickups, setQueuedPickups] = useState<OfflinePickup[]>([]);
+  const [conflicts, setConflicts] = useState<OfflinePickupConflict[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  // Fetch and cache the roster; the cached copy stays when the request fails
+  const refreshRoster = useCallback(async () => {
+    if (!isSupported) return;
+
+    try {
+      const res = await authFetch('/api/qr/offline-roster');
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load roster');
+      }
+      await saveRoster(data.data);
+      setRoster(data.data);
+
+      // Photos download in the background; the roster is usable without them
+      cacheRosterPhotos(data.data).catch(err => console.error('Error caching roster photos:', err));
+    } catch (err) {
+      console.error('Error refreshing offline roster:', err);
+    }
+  }, [isSupported]);
+
+  // Send queued pickups to the server and keep what could not be recorded
+  const syncQueuedPickups = useCallback(async (): Promise<OfflinePickupResult[]> => {
+    if (!isSupported || syncingRef.current) return [];
+
+    const pending = await getQueuedPickups();
+    if (pending.length === 0) return [];
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const res = await authFetch('/api/qr/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ offlinePickups: pending })
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to sync offline pickups');
+      }
+
+      const results: OfflinePickupResult[] = data.data.results;
+      for (const result of results) {
+        const pickup = pending.find(entry => entry.localId === result.localId);
+        if (!pickup) continue;
+        if (result.outcome !== 'recorded') {
+          await addConflict({ ...result, pickup });
+        }
+        await removeQueuedPickup(result.localId);
+      }
+
+      setQueuedPickups(await getQueuedPickups());
+      setConflicts(await getConflicts());
+      return results;
+    } catch (err) {
+      // Still offline or the server failed; the queue is kept for the next attempt
+      console.error('Error syncing offline pickups:', err);
+      return [];
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [isSupported]);
+
+  // Check a scanned code against the cached roster
+  const validateOffline = useCallback((qrCodeData: string): OfflineValidation => {
+    if (!roster?.publicKey) {
+      return { valid: false, error: 'No roster cached on this device. Connect once to enable offline mode.' };
+    }
+    if (new Date() > new Date(roster.validUntil)) {
+      return { valid: false, error: 'The cached roster is out of date. Reconnect to refresh it.' };
+    }
+    if (!isSignedQRToken(qrCodeData)) {
+      return { valid: false, error: 'Only signed QR codes can be checked offline' };
+    }
+
+    const tokenCheck = verifyQRToken(qrCodeData, roster.publicKey.publicKey);
+    if (!tokenCheck.valid || !tokenCheck.payload) {
+      return { valid: false, error: TOKEN_ERRORS[tokenCheck.error || 'malformed'] };
+    }
+    const payload = tokenCheck.payload;
+
+    // Compare authorizations, not raw data: a rotating code changes what is scanned
+    if (queuedPickups.some(entry => decodeQRToken(entry.qrCodeData)?.aid === payload.aid)) {
+      return { valid: false, error: 'QR code has already been used on this device' };
+    }
+
+    const student = roster.students.find(entry => entry.id === payload.sid);
+    if (!student) {
+      return { valid: false, error: 'Student not found in the cached roster' };
+    }
+
+    const now = new Date();
+    const person = student.pickupPersons.find(entry =>
+      entry.walletAddress === payload.pw &&
+      now >= new Date(entry.startDate) &&
+      now <= new Date(entry.endDate)
+    );
+    if (!person) {
+      return { valid: false, error: 'Not authorized to pick up this student' };
+    }
+
+    return {
+      valid: true,
+      pickup: {
+        authorizationId: payload.aid,
+        studentId: student.id,
+        studentName: student.name,
+        studentGrade: student.grade,
+        parentWallet: student.parentWallet,
+        pickupWallet: person.walletAddress,
+        pickupPersonName: person.name,
+        relationship: person.relationship,
+        expiresAt: new Date(payload.exp * 1000).toISOString(),
+        studentPhotoUrl: student.photoUrl ?? null,
+        pickupPersonPhotoUrl: person.photoUrl ?? null,
+      },
+    };
+  }, [roster, queuedPickups]);
+
+  // Store a confirmed pickup, with the checks staff made, until it can be recorded
+  const queuePickup = useCallback(async (qrCodeData: string, evidence?: PickupEvidenceChecks) => {
+    await addQueuedPickup({
+      localId: crypto.randomUUID(),
+      deviceId: getDeviceId(),
+      qrCodeData,
+      scannedAt: new Date().toISOString(),
+      ...(evidence && { evidence }),
+    });
+    setQueuedPickups(await getQueuedPickups());
+  }, []);
+
+  const dismissConflict = useCallback(async (localId: string) => {
+    await removeConflict(localId);
+    setConflicts(await getConflicts());
+  }, []);
+
+  // IndexedDB only exists in the browser
+  useEffect(() => {
+    setIsSupported(isOfflineGateSupported());
+  }, []);
+
+  // Load what is cached, then refresh and sync if online
+  useEffect(() => {
+    if (!isSupported) return;
+
+    let isCancelled = false;
+    setIsOnline(navigator.onLine);
+
+    (async () => {
+      try {
+        const [cachedRoster, queued, stored] = await Promise.all([loadRoster(), getQueuedPickups(), getConflicts()]);
+        if (isCancelled) return;
+        setRoster(cachedRoster);
+        setQueuedPickups(queued);
+        setConflicts(stored);
+      } catch (err) {
+        console.error('Error loading offline gate data:', err);
+      }
+      if (!isCancelled && navigator.onLine) {
+        await refreshRoster();
+        await syncQueuedPickups();
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isSupported, refreshRoster, syncQueuedPickups]);
+
+  // Follow connectivity, reconciling as soon as the device is back online
+  useEffect(() => {
+    if (!isSupported) return;
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueuedPickups();
+      refreshRoster();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [isSupported, refreshRoster, syncQueuedPickups]);
+
+  // Keep the roster fresh while online
+  useEffect(() => {
+    if (!isSupported || !isOnline) return;
+    const interval = setInterval(refreshRoster, ROSTER_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isSupported, isOnline, refreshRoster]);
+
+  return {
+    isSupported,
+    isOnline,
+    roster,
+    queuedPickups,
+    conflicts,
+    isSyncing,
+    validateOffline,
+    queuePickup,
+    refreshRoster,
+    syncQueuedPickups,
+    dismissConflict
+  };
+}
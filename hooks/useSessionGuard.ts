@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { authFetch, SESSION_ENDED_CODES, SessionEndedCode } from '@/lib/firebase/client-auth';
+
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+export type SessionEndedReason = 'session_revoked' | 'session_expired';
+
+const REASON_BY_CODE: Record<SessionEndedCode, SessionEndedReason> = {
+  SESSION_REVOKED: 'session_revoked',
+  SESSION_EXPIRED: 'session_expired',
+};
+
+/**
+ * Polls the session heartbeat while signed in and reports when the session
+ * has been revoked from another device or expired through inactivity.
+ */
+export function useSessionGuard(
+  isAuthenticated: boolean,
+  onSessionEnded: (reason: SessionEndedReason) => void
+): void {
+  const onSessionEndedRef = useRef(onSessionEnded);
+  onSessionEndedRef.current = onSessionEnded;
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let isCancelled = false;
+
+    const checkSession = async () => {
+      try {
+        const response = await authFetch('/api/sessions/current');
+        if (isCancelled || response.status !== 401) return;
+
+        const { code } = await response.json().catch(() => ({}));
+        if (!isCancelled && SESSION_ENDED_CODES.includes(code)) {
+          isCancelled = true;
+          onSessionEndedRef.current(REASON_BY_CODE[code as SessionEndedCode]);
+        }
+      } catch (error) {
+        // Network errors are transient; the next heartbeat will retry
+        console.error('Session heartbeat failed:', error);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        checkSession();
+      }
+    };
+
+    checkSession();
+    const interval = setInterval(checkSession, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      isCancelled = true;
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isAuthenticated]);
+}
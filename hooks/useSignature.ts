@@ -9,8 +9,11 @@ import { useState, useCallback } from 'react';
 import type {
   SignatureResult,
   AuthorizationMessage,
+  PickupAuthorizationTypedData,
   SignatureVerificationParams,
-  SignatureVerificationResult
+  SignatureVerificationResult,
+  TypedSignatureResult,
+  TypedSignatureVerificationParams
 } from '../types/wallet';
 import {
   signMessage,
@@ -18,7 +21,10 @@ import {
   createAndSignAuthorization,
   createAuthorizationMessage,
   validateAuthorizationMessage,
-  parseAuthorizationMessage
+  parseAuthorizationMessage,
+  createPickupAuthorizationTypedData,
+  signPickupAuthorization,
+  verifyPickupAuthorizationSignature
 } from '../lib/wallet/signature';
 import { useWallet } from './useWallet';
 
@@ -27,17 +33,19 @@ interface UseSignatureState {
   error: string | null;
   lastSignature: string | null;
   lastMessage: string | null;
+  lastTypedData: PickupAuthorizationTypedData | null;
 }
 
 const initialState: UseSignatureState = {
   isLoading: false,
   error: null,
   lastSignature: null,
-  lastMessage: null
+  lastMessage: null,
+  lastTypedData: null
 };
 
 export const useSignature = () => {
-  const { provider, address, isConnected } = useWallet();
+  const { provider, address, chainId, isConnected } = useWallet();
   const [state, setState] = useState<UseSignatureState>(initialState);
 
   /**
@@ -67,7 +75,8 @@ export const useSignature = () => {
         updateState({
           isLoading: false,
           lastSignature: result.signature!,
-          lastMessage: result.message!
+          lastMessage: result.message!,
+          lastTypedData: null
         });
       } else {
         updateState({
@@ -87,7 +96,54 @@ export const useSignature = () => {
   }, [isConnected, provider, updateState]);
 
   /**
-   * Creates and signs an authorization message
+   * Creates and signs a pickup authorization as EIP-712 typed data
+   */
+  const signTypedAuthorization = useCallback(async (
+    authParams: Omit<AuthorizationMessage, 'parentWallet' | 'timestamp' | 'studentName'>
+  ): Promise<TypedSignatureResult> => {
+    if (!isConnected || !provider || !address || !chainId) {
+      return {
+        success: false,
+        error: 'Wallet is not connected. Please connect your wallet first.'
+      };
+    }
+
+    updateState({ isLoading: true, error: null });
+
+    try {
+      const typedData = createPickupAuthorizationTypedData({
+        ...authParams,
+        parentWallet: address
+      });
+
+      const result = await signPickupAuthorization(provider, typedData, chainId);
+
+      if (result.success) {
+        updateState({
+          isLoading: false,
+          lastSignature: result.signature!,
+          lastMessage: null,
+          lastTypedData: result.typedData!
+        });
+      } else {
+        updateState({
+          isLoading: false,
+          error: result.error || 'Failed to sign authorization'
+        });
+      }
+
+      return result;
+
+    } catch (error: any) {
+      console.error('Sign typed authorization error:', error);
+      const errorMessage = error.message || 'Failed to sign authorization';
+      updateState({ isLoading: false, error: errorMessage });
+      return { success: false, error: errorMessage };
+    }
+  }, [isConnected, provider, address, chainId, updateState]);
+
+  /**
+   * Creates and signs a legacy text authorization message
    */
   const signAuthorization = useCallback(async (
     authParams: Omit<AuthorizationMessage, 'parentWallet' | 'timestamp'>
@@ -114,7 +170,8 @@ export const useSignature = () => {
         updateState({
           isLoading: false,
           lastSignature: result.signature!,
-          lastMessage: result.message!
+          lastMessage: result.message!,
+          lastTypedData: null
         });
       } else {
         updateState({
@@ -140,6 +197,13 @@ export const useSignature = () => {
     return verifySignature(params);
   }, []);
 
+  /**
+   * Verifies a typed-data pickup authorization signature (client-side verification)
+   */
+  const verifyTyped = useCallback((params: TypedSignatureVerificationParams): SignatureVerificationResult => {
+    return verifyPickupAuthorizationSignature(params);
+  }, []);
+
   /**
    * Creates a human-readable authorization message without signing
    */
@@ -194,7 +258,9 @@ export const useSignature = () => {
     // Actions
     sign,
     signAuthorization,
+    signTypedAuthorization,
     verify,
+    verifyTyped,
     createMessage,
     validateMessage,
     parseMessage,
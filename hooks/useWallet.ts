@@ -7,16 +7,35 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { BrowserProvider } from 'ethers';
-import type { WalletState, WalletConnectionResult } from '../types/wallet';
+import type {
+  WalletState,
+  WalletConnectionResult,
+  WalletProviderOption,
+  NetworkSwitchResult
+} from '../types/wallet';
 import {
   isMetaMaskInstalled,
+  isWalletAvailable,
   connectWallet,
   getConnectedAccounts,
   getCurrentChainId,
   setupWalletEventListeners,
   createProvider,
-  isNetworkSupported
+  isNetworkSupported,
+  switchNetwork as requestNetworkSwitch
 } from '../lib/wallet/connection';
+import { DEFAULT_NETWORK } from '../lib/blockchain/constants';
+import {
+  getActiveProviderId,
+  getWalletProviderOptions,
+  isWalletConnectActive,
+  onActiveProviderChange,
+  releaseWalletProvider,
+  restoreWalletProvider,
+  selectWalletProvider
+} from '../lib/wallet/providers';
+
+const NO_WALLET_ERROR = 'No wallet found. Install a browser wallet or connect a phone wallet with WalletConnect.';
 
 const initialWalletState: WalletState = {
   isConnected: false,
@@ -31,12 +50,35 @@ const initialWalletState: WalletState = {
 export const useWallet = () => {
   const [walletState, setWalletState] = useState<WalletState>(initialWalletState);
   const [mounted, setMounted] = useState(false);
+  const [providerOptions, setProviderOptions] = useState<WalletProviderOption[]>([]);
+  const [activeProviderId, setActiveProviderId] = useState<string | null>(null);
 
   // SSR safety check
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  /**
+   * Refreshes the list of wallets the user can pick from
+   */
+  const refreshProviderOptions = useCallback(async () => {
+    const options = await getWalletProviderOptions();
+    setProviderOptions(options);
+    return options;
+  }, []);
+
+  // Track the active provider so listeners are re-bound when the user switches wallets
+  useEffect(() => {
+    if (!mounted) return;
+
+    setActiveProviderId(getActiveProviderId());
+    refreshProviderOptions();
+
+    return onActiveProviderChange(() => {
+      setActiveProviderId(getActiveProviderId());
+    });
+  }, [mounted, refreshProviderOptions]);
+
   /**
    * Updates the wallet state
    */
@@ -45,9 +87,9 @@ export const useWallet = () => {
   }, []);
 
   /**
-   * Connects to MetaMask wallet
+   * Connects to a wallet. When a provider option is given it becomes the active provider first.
    */
-  const connect = useCallback(async (): Promise<WalletConnectionResult> => {
+  const connect = useCallback(async (providerId?: string): Promise<WalletConnectionResult> => {
     // Prevent multiple simultaneous connection attempts
     if (walletState.isLoading) {
       return { success: false, error: 'Connection already in progress. Please wait.' };
@@ -56,9 +98,13 @@ export const useWallet = () => {
     updateWalletState({ isLoading: true, error: null });
 
     try {
-      // Check if MetaMask is installed first
-      if (!isMetaMaskInstalled()) {
-        const error = 'MetaMask is not installed. Please install MetaMask to use this application.';
+      if (providerId) {
+        await selectWalletProvider(providerId);
+      }
+
+      // Check if a wallet is available first
+      if (!isWalletAvailable()) {
+        const error = NO_WALLET_ERROR;
         updateWalletState({
           isLoading: false,
           error,
@@ -116,6 +162,14 @@ export const useWallet = () => {
           error: null
         });
 
+        // Prompt for a supported network right away instead of letting the user sign on the wrong chain
+        if (chainId && !isNetworkSupported(chainId)) {
+          const switched = await requestNetworkSwitch(DEFAULT_NETWORK.chainId);
+          if (!switched.success) {
+            updateWalletState({ error: switched.error || 'Unsupported network. Please switch to a supported network.' });
+          }
+        }
+
         return result;
       } catch (signerError) {
         console.error('Error creating signer after connection:', signerError);
@@ -155,9 +209,13 @@ export const useWallet = () => {
   }, [walletState.isLoading, updateWalletState]);
 
   /**
-   * Disconnects the wallet
+   * Disconnects the wallet. WalletConnect sessions are ended as well; injected
+   * wallets stay authorized for the site, as before.
    */
   const disconnect = useCallback(() => {
+    if (isWalletConnectActive()) {
+      releaseWalletProvider();
+    }
     updateWalletState({
       isConnected: false,
       address: null,
@@ -169,16 +227,28 @@ export const useWallet = () => {
     });
   }, [updateWalletState]);
 
+  /**
+   * Asks the wallet to switch to a supported network (the default network unless given)
+   */
+  const switchNetwork = useCallback(async (chainId: number = DEFAULT_NETWORK.chainId): Promise<NetworkSwitchResult> => {
+    const result = await requestNetworkSwitch(chainId);
+    if (!result.success) {
+      updateWalletState({ error: result.error || 'Failed to switch network' });
+    }
+    // On success the chainChanged event updates the state
+    return result;
+  }, [updateWalletState]);
+
   /**
    * Checks if wallet is already connected
    */
   const checkConnection = useCallback(async () => {
     try {
-      // First check if MetaMask is available
-      if (!isMetaMaskInstalled()) {
+      // First check if a wallet is available
+      if (!isWalletAvailable()) {
         updateWalletState({
           isLoading: false,
-          error: 'MetaMask is not installed. Please install MetaMask to use this application.'
+          error: NO_WALLET_ERROR
         });
         return;
       }
@@ -305,6 +375,20 @@ export const useWallet = () => {
     const newChainId = parseInt(chainId, 16);
     updateWalletState({ chainId: newChainId });
 
+    // ethers providers are bound to the network they were created on, so rebuild them
+    try {
+      const provider = createProvider();
+      if (provider) {
+        const accounts = await getConnectedAccounts();
+        updateWalletState({
+          provider,
+          signer: accounts.length > 0 ? await provider.getSigner() : null
+        });
+      }
+    } catch (error) {
+      console.error('Error rebuilding provider after chain change:', error);
+    }
+
     // Check if network is supported
     if (!isNetworkSupported(newChainId)) {
       updateWalletState({
@@ -339,11 +423,14 @@ export const useWallet = () => {
       // Only initialize after component has mounted
       if (!mounted) return;
 
-      // Check if MetaMask is installed (only on client)
-      if (!isMetaMaskInstalled()) {
+      // Pick up the wallet chosen on a previous visit before checking availability
+      await restoreWalletProvider();
+
+      // Check if a wallet is available (only on client)
+      if (!isWalletAvailable()) {
         updateWalletState({
           isLoading: false,
-          error: 'MetaMask is not installed. Please install MetaMask to use this application.'
+          error: NO_WALLET_ERROR
         });
         return;
       }
@@ -368,6 +455,7 @@ export const useWallet = () => {
     };
   }, [
     mounted, // Add mounted as dependency
+    activeProviderId,
     checkConnection,
     handleAccountsChanged,
     handleChainChanged,
@@ -387,10 +475,16 @@ export const useWallet = () => {
       isLoading: true, // Show loading during hydration
       error: null,
       isMetaMaskInstalled: false,
+      isWalletAvailable: false,
       isNetworkSupported: false,
-      connect: async () => ({ success: false, error: 'Not mounted' }),
+      defaultNetwork: DEFAULT_NETWORK,
+      providerOptions: [] as WalletProviderOption[],
+      activeProviderId: null,
+      connect: async (providerId?: string): Promise<WalletConnectionResult> => ({ success: false, error: 'Not mounted' }),
       disconnect: () => {},
-      checkConnection: async () => {}
+      switchNetwork: async (chainId?: number): Promise<NetworkSwitchResult> => ({ success: false, error: 'Not mounted' }),
+      checkConnection: async () => {},
+      refreshProviderOptions: async (): Promise<WalletProviderOption[]> => []
     };
   }
 
@@ -406,12 +500,18 @@ export const useWallet = () => {
     
     // Computed state
     isMetaMaskInstalled: mounted ? isMetaMaskInstalled() : false,
+    isWalletAvailable: mounted ? isWalletAvailable() : false,
     isNetworkSupported: walletState.chainId ? isNetworkSupported(walletState.chainId) : false,
+    defaultNetwork: DEFAULT_NETWORK,
+    providerOptions,
+    activeProviderId,
 
     // Actions
     connect,
     disconnect,
-    checkConnection
+    switchNetwork,
+    checkConnection,
+    refreshProviderOptions
   };
 
   return returnValue;
@@ -0,0 +1,87 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers, Wallet } from 'ethers';
+import { buildMerkleTree } from './merkle-tree';
+import { deployLocalContract, LOCAL_CHAIN_RPC_URL, useLocalChain } from '../../vitest.chain';
+
+// Relayer transactions are tracked in Firestore, which these tests do not need
+vi.mock('../firebase/transactions', () => ({
+  getStuckTransactions: vi.fn(async () => []),
+  recordRelayerTransactionStatus: vi.fn(async () => undefined),
+  refreshTrackedTransaction: vi.fn(async () => null),
+  trackRelayerTransaction: vi.fn(async () => undefined),
+  trackTransaction: vi.fn(async () => undefined),
+}));
+
+// Runs against a local chain (LOCAL_CHAIN_RPC_URL, see vitest.chain.ts)
+describe.skipIf(!LOCAL_CHAIN_RPC_URL)('pickup anchoring', () => {
+  let anchoring: typeof import('./anchoring');
+
+  beforeAll(async () => {
+    const pickupSecurity = await deployLocalContract('PickupSecurity');
+    useLocalChain({ pickupSecurity: await pickupSecurity.getAddress() });
+    anchoring = await import('./anchoring');
+  });
+
+  const newPickupEvent = () => anchoring.createPickupEventData({
+    studentId: `CH${Math.floor(Math.random() * 1e6)}`,
+    pickupWallet: Wallet.createRandom().address,
+    staffWallet: Wallet.createRandom().address,
+    qrCodeData: `qr-${Math.random().toString(36).slice(2)}`,
+    time: new Date(),
+  });
+
+  it('records a pickup event directly from the relayer', async () => {
+    const eventData = newPickupEvent();
+    const onSubmitted = vi.fn(async () => undefined);
+
+    const result = await anchoring.anchorPickupEvent(eventData, onSubmitted);
+
+    expect(result.success).toBe(true);
+    expect(onSubmitted).toHaveBeenCalledTimes(1);
+    expect(onSubmitted.mock.calls[0]).toEqual([expect.objectContaining({ hash: result.hash })]);
+    expect(await anchoring.getPickupEventTransactionStatus(result.hash!)).toEqual({
+      status: 'confirmed',
+      blockNumber: result.blockNumber,
+    });
+    expect(await anchoring.isPickupEventRecorded(eventData.eventHash)).toBe(true);
+  });
+
+  it('does not record an event twice', async () => {
+    const eventData = newPickupEvent();
+    await anchoring.anchorPickupEvent(eventData);
+    const onSubmitted = vi.fn(async () => undefined);
+
+    const result = await anchoring.anchorPickupEvent(eventData, onSubmitted);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Event already recorded');
+    // Rejected by the simulation, so nothing was sent
+    expect(onSubmitted).not.toHaveBeenCalled();
+  });
+
+  it('reports events and transactions the chain does not know', async () => {
+    expect(await anchoring.isPickupEventRecorded(newPickupEvent().eventHash)).toBe(false);
+    expect(await anchoring.getPickupEventTransactionStatus(ethers.id('unknown-tx'))).toEqual({ status: 'dropped' });
+    expect(await anchoring.getMerkleBatchTransactionStatus(ethers.id('unknown-tx'))).toEqual({ status: 'dropped' });
+  });
+
+  it('anchors Merkle batches and reads back their batch numbers', async () => {
+    const { getMerkleBatchFromChain } = await import('./contract');
+    const { getRelayerNetwork } = await import('./relayer');
+    const { getServerProvider } = await import('./provider');
+    const trees = [0, 1].map(() => buildMerkleTree([newPickupEvent(), newPickupEvent(), newPickupEvent()].map(event => event.eventHash)));
+
+    const statuses = [];
+    for (const tree of trees) {
+      const tx = await anchoring.submitMerkleBatch({ merkleRoot: tree.root, eventCount: 3, ipfsHash: '' });
+      statuses.push(await anchoring.getMerkleBatchTransactionStatus(tx.hash, 30000));
+    }
+
+    expect(statuses.map(status => status.status)).toEqual(['confirmed', 'confirmed']);
+    expect(statuses[1].batchNumber).toBe(statuses[0].batchNumber! + 1);
+    for (const [i, tree] of trees.entries()) {
+      const batch = await getMerkleBatchFromChain(getServerProvider(), statuses[i].batchNumber!, getRelayerNetwork());
+      expect(batch).toMatchObject({ merkleRoot: tree.root, batchNumber: statuses[i].batchNumber, eventCount: 3 });
+    }
+  });
+});
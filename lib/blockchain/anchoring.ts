@@ -0,0 +1,176 @@
+/**
+ * Pickup Event Anchoring
+ * Turns confirmed pickups into PickupSecurity events, either recorded directly
+ * from the school relayer wallet or anchored as Merkle batches.
+ * Server-only: uses the relayer key and is intentionally not exported from the index.
+ */
+
+import { ethers } from 'ethers';
+import { EVENT_TYPES } from './constants';
+import { buildRecordPickupEventCall, getContract } from './contract';
+import { createPickupEventHash, createQRCodeHash, createStudentHash } from './hashing';
+import { getServerProvider } from './provider';
+import { getRelayerNetwork, isRelayerConfigured, relayContractCall, submitContractCall } from './relayer';
+import type {
+  MerkleBatchData,
+  MerkleBatchTransactionStatus,
+  PickupEventData,
+  PickupEventTransactionStatus,
+  TransactionResult
+} from './types';
+import type { PickupAnchorMode } from '../../types/database';
+
+/**
+ * Resolves how pickups are anchored (PICKUP_ANCHOR_MODE). Direct anchoring needs
+ * the relayer wallet, so without it every pickup is queued for batching.
+ */
+export const getPickupAnchorMode = (): PickupAnchorMode => {
+  return process.env.PICKUP_ANCHOR_MODE === 'direct' && isRelayerConfigured() ? 'direct' : 'batch';
+};
+
+/**
+ * Builds the pickup event for a confirmed pickup
+ * @param params Student, wallets, the scanned QR payload and the pickup time
+ * @returns Pickup event data including its event hash
+ */
+export const createPickupEventData = (params: {
+  studentId: string;
+  pickupWallet: string;
+  staffWallet: string;
+  qrCodeData: string;
+  time: Date;
+}): PickupEventData => {
+  const eventData: PickupEventData = {
+    eventHash: '',
+    studentHash: createStudentHash(params.studentId),
+    pickupWallet: params.pickupWallet.toLowerCase(),
+    staffWallet: params.staffWallet.toLowerCase(),
+    qrCodeHash: createQRCodeHash(params.qrCodeData),
+    timestamp: Math.floor(params.time.getTime() / 1000)
+  };
+
+  return { ...eventData, eventHash: createPickupEventHash(eventData) };
+};
+
+/**
+ * Records a pickup event on chain from the relayer wallet and waits for confirmation
+ * @param eventData Pickup event data
+ * @param onSubmitted Called with the transaction once sent, before waiting for it
+ * @returns Transaction result
+ */
+export const anchorPickupEvent = async (
+  eventData: PickupEventData,
+  onSubmitted?: (tx: ethers.TransactionResponse) => Promise<void>
+): Promise<TransactionResult> => {
+  if (!isRelayerConfigured()) {
+    return {
+      success: false,
+      error: 'RELAYER_PRIVATE_KEY is not configured'
+    };
+  }
+
+  try {
+    const { method, args } = buildRecordPickupEventCall(
+      { ...eventData, eventHash: createPickupEventHash(eventData) },
+      getRelayerNetwork()
+    );
+    return await relayContractCall(method, args, onSubmitted);
+  } catch (error: any) {
+    console.error('Failed to anchor pickup event:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to anchor pickup event'
+    };
+  }
+};
+
+/**
+ * Sends a Merkle root to PickupSecurity.anchorMerkleBatch from the relayer wallet
+ * without waiting for it to be mined, so the caller can persist the hash first.
+ * The relayer must own the contract.
+ * @param batch Merkle batch data
+ * @returns Submitted transaction
+ */
+export const submitMerkleBatch = async (
+  batch: Pick<MerkleBatchData, 'merkleRoot' | 'eventCount' | 'ipfsHash'>
+): Promise<ethers.TransactionResponse> => {
+  // Simulated first so a revert (e.g. the relayer is not the owner) does not burn gas
+  return submitContractCall('anchorMerkleBatch', [batch.merkleRoot, batch.eventCount, batch.ipfsHash]);
+};
+
+/**
+ * Looks up a Merkle batch transaction, optionally waiting for it to be mined
+ * @param txHash Transaction hash
+ * @param timeout How long to wait for a receipt (0 to only check once)
+ * @returns Transaction status, with the on-chain batch number once confirmed
+ */
+export const getMerkleBatchTransactionStatus = async (
+  txHash: string,
+  timeout: number = 0
+): Promise<MerkleBatchTransactionStatus> => {
+  const provider = getServerProvider();
+  let receipt = await provider.getTransactionReceipt(txHash);
+
+  if (!receipt && timeout > 0) {
+    try {
+      receipt = await provider.waitForTransaction(txHash, 1, timeout);
+    } catch {
+      receipt = null;
+    }
+  }
+
+  if (!receipt) {
+    const tx = await provider.getTransaction(txHash);
+    return { status: tx ? 'pending' : 'dropped' };
+  }
+
+  if (receipt.status !== 1) {
+    return { status: 'failed', blockNumber: receipt.blockNumber };
+  }
+
+  // The contract assigns the batch number, so read it back from the event
+  const contract = getContract(provider, getRelayerNetwork());
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === EVENT_TYPES.MERKLE_BATCH_ANCHORED) {
+      return {
+        status: 'confirmed',
+        batchNumber: Number(parsed.args.batchNumber),
+        blockNumber: receipt.blockNumber
+      };
+    }
+  }
+
+  return { status: 'failed', blockNumber: receipt.blockNumber };
+};
+
+/**
+ * Looks up a direct pickup event transaction (recordPickupEvent)
+ * @param txHash Transaction hash
+ * @returns Transaction status, with the block number once mined
+ */
+export const getPickupEventTransactionStatus = async (txHash: string): Promise<PickupEventTransactionStatus> => {
+  const provider = getServerProvider();
+  const receipt = await provider.getTransactionReceipt(txHash);
+
+  if (!receipt) {
+    const tx = await provider.getTransaction(txHash);
+    return { status: tx ? 'pending' : 'dropped' };
+  }
+
+  return {
+    status: receipt.status === 1 ? 'confirmed' : 'failed',
+    blockNumber: receipt.blockNumber
+  };
+};
+
+/**
+ * Whether PickupSecurity has a pickup event recorded directly. Unlike getPickupEventFromChain,
+ * RPC errors are thrown rather than read as "not recorded".
+ * @param eventHash Pickup event hash
+ */
+export const isPickupEventRecorded = async (eventHash: string): Promise<boolean> => {
+  const contract = getContract(getServerProvider(), getRelayerNetwork());
+  const event = await contract.getPickupEvent(eventHash);
+  return event.eventHash !== ethers.ZeroHash;
+};
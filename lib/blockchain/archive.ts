@@ -0,0 +1,241 @@
+/**
+ * Batch Archive
+ * Content-addressed storage for the full event list behind each Merkle batch, so a
+ * root anchored on chain can always be expanded back into its pickups.
+ * Server-only: uses the filesystem and is intentionally not exported from the index.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IPFS_SETTINGS } from './constants';
+import { createMerkleRoot } from './hashing';
+import { createCompactBatch, reconstructBatch, type BatchData } from './merkle';
+import type { PickupEventData } from './types';
+
+export interface BatchArchive {
+  /** Stores content and returns its CID */
+  put(content: Uint8Array): Promise<string>;
+  /** Loads content by CID, or null if the archive does not have it */
+  get(cid: string): Promise<Uint8Array | null>;
+}
+
+/**
+ * Canonical archive document: the compact batch plus every event.
+ * The CID and on-chain batch number are assigned after it is stored, so neither is part of it.
+ */
+export interface ArchivedBatch {
+  version: 1;
+  merkleRoot: string;
+  timestamp: number;
+  eventCount: number;
+  eventSummaries: ReturnType<typeof createCompactBatch>['eventSummaries'];
+  events: PickupEventData[];
+}
+
+const ARCHIVE_VERSION = 1;
+const DEFAULT_LOCAL_ARCHIVE_DIR = path.join('.data', 'batch-archive');
+
+// CIDv1 prefix for a raw block addressed by sha2-256: version, raw codec, multihash code, digest length
+const RAW_SHA256_CID_PREFIX = [0x01, 0x55, 0x12, 0x20];
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+const toBase32 = (bytes: Uint8Array): string => {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+/**
+ * Computes the CIDv1 (raw, sha2-256, base32) of some content. IPFS gives the same CID
+ * for content added with --cid-version=1 --raw-leaves that fits in a single block.
+ */
+export const computeCid = (content: Uint8Array): string => {
+  const digest = createHash('sha256').update(content).digest();
+  return 'b' + toBase32(Uint8Array.from([...RAW_SHA256_CID_PREFIX, ...digest]));
+};
+
+// Every raw sha2-256 CIDv1 in base32 starts with the same prefix
+const isLocalCid = (cid: string): boolean => /^bafkrei[a-z2-7]{52}$/.test(cid);
+
+/**
+ * Serializes a value with sorted keys, so equal batches always produce the same bytes
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Archive on the local filesystem, one file per CID
+ */
+export const createLocalBatchArchive = (directory: string = DEFAULT_LOCAL_ARCHIVE_DIR): BatchArchive => ({
+  async put(content) {
+    const cid = computeCid(content);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, cid), content);
+    return cid;
+  },
+
+  async get(cid) {
+    if (!isLocalCid(cid)) {
+      return null;
+    }
+    try {
+      const content = new Uint8Array(await fs.readFile(path.join(directory, cid)));
+      if (computeCid(content) !== cid) {
+        throw new Error(`Archived content does not match CID ${cid}`);
+      }
+      return content;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+});
+
+/**
+ * Archive on an IPFS node through its HTTP RPC API (/api/v0/add and /api/v0/cat)
+ * @param apiUrl Base URL of the node's RPC API
+ * @param authorization Optional Authorization header for hosted nodes
+ */
+export const createIpfsBatchArchive = (apiUrl: string, authorization?: string): BatchArchive => {
+  const baseUrl = apiUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = authorization ? { Authorization: authorization } : {};
+
+  return {
+    async put(content) {
+      if (content.byteLength > IPFS_SETTINGS.MAX_FILE_SIZE) {
+        throw new Error('Batch archive exceeds the maximum IPFS file size');
+      }
+
+      const form = new FormData();
+      form.append('file', new Blob([content.slice()], { type: 'application/json' }));
+
+      const response = await fetch(`${baseUrl}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`, {
+        method: 'POST',
+        headers,
+        body: form
+      });
+      if (!response.ok) {
+        throw new Error(`IPFS add failed with status ${response.status}`);
+      }
+
+      const { Hash } = await response.json();
+      return Hash as string;
+    },
+
+    async get(cid) {
+      const response = await fetch(`${baseUrl}/api/v0/cat?arg=${encodeURIComponent(cid)}`, {
+        method: 'POST',
+        headers
+      });
+      if (!response.ok) {
+        return null;
+      }
+
+      const content = new Uint8Array(await response.arrayBuffer());
+      // Single-block raw CIDs can be checked locally; anything else is trusted to the node
+      if (isLocalCid(cid) && computeCid(content) !== cid) {
+        throw new Error(`IPFS content does not match CID ${cid}`);
+      }
+      return content;
+    }
+  };
+};
+
+let batchArchive: BatchArchive | null = null;
+
+/**
+ * Gets the configured archive: IPFS when IPFS_API_URL is set, otherwise the local
+ * filesystem under BATCH_ARCHIVE_DIR (default .data/batch-archive)
+ */
+export const getBatchArchive = (): BatchArchive => {
+  if (!batchArchive) {
+    batchArchive = process.env.IPFS_API_URL
+      ? createIpfsBatchArchive(process.env.IPFS_API_URL, process.env.IPFS_API_AUTHORIZATION)
+      : createLocalBatchArchive(process.env.BATCH_ARCHIVE_DIR || DEFAULT_LOCAL_ARCHIVE_DIR);
+  }
+  return batchArchive;
+};
+
+/**
+ * Builds the canonical archive document of a batch
+ */
+export const createArchivedBatch = (batchData: BatchData): ArchivedBatch => {
+  const { merkleRoot, timestamp, eventCount, eventSummaries } = createCompactBatch(batchData);
+  return {
+    version: ARCHIVE_VERSION,
+    merkleRoot,
+    timestamp,
+    eventCount,
+    eventSummaries,
+    events: batchData.events
+  };
+};
+
+/**
+ * Stores a batch's events in the archive
+ * @param batchData Batch data
+ * @param archive Archive to use (default from environment)
+ * @returns CID to anchor as the batch's ipfsHash
+ */
+export const archiveBatch = async (
+  batchData: BatchData,
+  archive: BatchArchive = getBatchArchive()
+): Promise<string> => {
+  const content = new TextEncoder().encode(canonicalJson(createArchivedBatch(batchData)));
+  return archive.put(content);
+};
+
+/**
+ * Loads a batch from the archive and checks its events still produce the stored root
+ * @param cid CID of the archived batch (the on-chain ipfsHash)
+ * @param batchNumber On-chain batch number, if known
+ * @param archive Archive to use (default from environment)
+ * @returns Full batch data, or null if the archive does not have it
+ */
+export const loadArchivedBatch = async (
+  cid: string,
+  batchNumber: number = 0,
+  archive: BatchArchive = getBatchArchive()
+): Promise<BatchData | null> => {
+  const content = await archive.get(cid);
+  if (!content) {
+    return null;
+  }
+
+  const archived = JSON.parse(new TextDecoder().decode(content)) as ArchivedBatch;
+  if (archived.version !== ARCHIVE_VERSION) {
+    throw new Error(`Unsupported batch archive version ${archived.version}`);
+  }
+
+  const batchData = reconstructBatch({ ...archived, batchNumber, ipfsHash: cid }, archived.events);
+  if (createMerkleRoot(batchData.eventHashes).toLowerCase() !== archived.merkleRoot.toLowerCase()) {
+    throw new Error(`Archived events for ${cid} do not match their Merkle root`);
+  }
+  return batchData;
+};
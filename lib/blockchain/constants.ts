@@ -3,18 +3,21 @@
  * Configuration constants for blockchain operations
  */
 
+import deployments from './deployments.json';
+import type { ContractAddresses, ContractDeployment, FeeCaps, NetworkConfig, PickupSecurityVersion } from './types';
+
 // Network configurations
 export const NETWORKS = {
-  POLYGON_MUMBAI: {
-    chainId: 80001,
-    rpcUrl: 'https://rpc-mumbai.maticvigil.com',
-    name: 'Polygon Mumbai',
-    currency: 'MATIC',
-    blockExplorer: 'https://mumbai.polygonscan.com'
+  POLYGON_AMOY: {
+    chainId: 80002,
+    rpcUrl: 'https://rpc-amoy.polygon.technology',
+    name: 'Polygon Amoy',
+    currency: 'POL',
+    blockExplorer: 'https://amoy.polygonscan.com'
   },
   SEPOLIA: {
     chainId: 11155111,
-    rpcUrl: 'https://sepolia.infura.io/v3/',
+    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
     name: 'Sepolia',
     currency: 'ETH',
     blockExplorer: 'https://sepolia.etherscan.io'
@@ -26,33 +29,123 @@ export const NETWORKS = {
     currency: 'ETH',
     blockExplorer: ''
   }
-} as const;
+} as const satisfies Record<string, NetworkConfig>;
+
+/**
+ * Gets the configuration of a known network
+ * @param chainId Chain ID
+ * @returns Network configuration, or undefined for unknown chains
+ */
+export const getNetworkConfig = (chainId: number): NetworkConfig | undefined => {
+  return Object.values(NETWORKS).find(network => network.chainId === chainId);
+};
+
+/**
+ * Parses a comma-separated list of chain IDs, keeping only known networks
+ */
+const parseChainIds = (value: string | undefined): number[] => {
+  return (value || '')
+    .split(',')
+    .map(id => Number(id.trim()))
+    .filter(chainId => Boolean(getNetworkConfig(chainId)));
+};
+
+// Chains users may connect with (NEXT_PUBLIC_SUPPORTED_CHAIN_IDS, e.g. "80002,11155111")
+const configuredChainIds = parseChainIds(process.env.NEXT_PUBLIC_SUPPORTED_CHAIN_IDS);
+export const SUPPORTED_CHAIN_IDS: number[] = configuredChainIds.length > 0
+  ? configuredChainIds
+  : Object.values(NETWORKS).map(network => network.chainId);
+
+// Default network for development (NEXT_PUBLIC_DEFAULT_CHAIN_ID overrides it)
+export const DEFAULT_NETWORK: NetworkConfig =
+  getNetworkConfig(Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID)) || NETWORKS.POLYGON_AMOY;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 
-// Default network for development
-export const DEFAULT_NETWORK = NETWORKS.POLYGON_MUMBAI;
+// Contracts deployed with `npm run contracts:deploy`, keyed by chain ID (generated file)
+const DEPLOYMENTS = deployments as Record<string, ContractDeployment | undefined>;
 
-// Contract addresses (update these after deployment)
-export const CONTRACT_ADDRESSES = {
-  [NETWORKS.POLYGON_MUMBAI.chainId]: {
-    PICKUP_SECURITY: process.env.NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT || '0x0000000000000000000000000000000000000000'
+// Contract addresses per chain. Next.js only inlines NEXT_PUBLIC_* variables referenced by
+// their full name, so each chain is spelled out. A chain's own variable wins over the
+// generated deployment; the un-suffixed variables remain as a fallback for single-chain setups.
+export const CONTRACT_ADDRESSES: Record<number, ContractAddresses> = {
+  [NETWORKS.POLYGON_AMOY.chainId]: {
+    PICKUP_SECURITY: process.env.NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT_AMOY || DEPLOYMENTS[NETWORKS.POLYGON_AMOY.chainId]?.PICKUP_SECURITY || process.env.NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT || ZERO_ADDRESS,
+    ROLE_AUTH: process.env.NEXT_PUBLIC_ROLE_AUTH_CONTRACT_AMOY || DEPLOYMENTS[NETWORKS.POLYGON_AMOY.chainId]?.ROLE_AUTH || process.env.NEXT_PUBLIC_ROLE_AUTH_CONTRACT || ZERO_ADDRESS
   },
   [NETWORKS.SEPOLIA.chainId]: {
-    PICKUP_SECURITY: process.env.NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT || '0x0000000000000000000000000000000000000000'
+    PICKUP_SECURITY: process.env.NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT_SEPOLIA || DEPLOYMENTS[NETWORKS.SEPOLIA.chainId]?.PICKUP_SECURITY || process.env.NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT || ZERO_ADDRESS,
+    ROLE_AUTH: process.env.NEXT_PUBLIC_ROLE_AUTH_CONTRACT_SEPOLIA || DEPLOYMENTS[NETWORKS.SEPOLIA.chainId]?.ROLE_AUTH || process.env.NEXT_PUBLIC_ROLE_AUTH_CONTRACT || ZERO_ADDRESS
   },
   [NETWORKS.LOCALHOST.chainId]: {
-    PICKUP_SECURITY: process.env.NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT || '0x0000000000000000000000000000000000000000'
+    PICKUP_SECURITY: process.env.NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT_LOCALHOST || DEPLOYMENTS[NETWORKS.LOCALHOST.chainId]?.PICKUP_SECURITY || process.env.NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT || ZERO_ADDRESS,
+    ROLE_AUTH: process.env.NEXT_PUBLIC_ROLE_AUTH_CONTRACT_LOCALHOST || DEPLOYMENTS[NETWORKS.LOCALHOST.chainId]?.ROLE_AUTH || process.env.NEXT_PUBLIC_ROLE_AUTH_CONTRACT || ZERO_ADDRESS
   }
-} as const;
+};
 
-// Gas settings
-export const GAS_SETTINGS = {
-  DEFAULT_GAS_LIMIT: 500000,
-  AUTHORIZATION_GAS_LIMIT: 200000,
-  PICKUP_EVENT_GAS_LIMIT: 150000,
-  MERKLE_BATCH_GAS_LIMIT: 300000,
-  VERIFICATION_GAS_LIMIT: 100000
+/**
+ * Gets the contract addresses deployed on a chain
+ * @param chainId Chain ID
+ * @returns Contract addresses (zero addresses when nothing is deployed there)
+ */
+export const getContractAddresses = (chainId: number): ContractAddresses => {
+  return CONTRACT_ADDRESSES[chainId] || { PICKUP_SECURITY: ZERO_ADDRESS, ROLE_AUTH: ZERO_ADDRESS };
+};
+
+/**
+ * Parses a PickupSecurity version, treating anything but "2" as v1
+ */
+const parseContractVersion = (value: string | number | undefined): PickupSecurityVersion => {
+  return String(value ?? '').trim() === '2' ? 2 : 1;
+};
+
+// PickupSecurity version deployed per chain, resolved like the addresses above
+export const PICKUP_SECURITY_VERSIONS: Record<number, PickupSecurityVersion> = {
+  [NETWORKS.POLYGON_AMOY.chainId]: parseContractVersion(process.env.NEXT_PUBLIC_PICKUP_SECURITY_VERSION_AMOY || DEPLOYMENTS[NETWORKS.POLYGON_AMOY.chainId]?.pickupSecurityVersion || process.env.NEXT_PUBLIC_PICKUP_SECURITY_VERSION),
+  [NETWORKS.SEPOLIA.chainId]: parseContractVersion(process.env.NEXT_PUBLIC_PICKUP_SECURITY_VERSION_SEPOLIA || DEPLOYMENTS[NETWORKS.SEPOLIA.chainId]?.pickupSecurityVersion || process.env.NEXT_PUBLIC_PICKUP_SECURITY_VERSION),
+  [NETWORKS.LOCALHOST.chainId]: parseContractVersion(process.env.NEXT_PUBLIC_PICKUP_SECURITY_VERSION_LOCALHOST || DEPLOYMENTS[NETWORKS.LOCALHOST.chainId]?.pickupSecurityVersion || process.env.NEXT_PUBLIC_PICKUP_SECURITY_VERSION)
+};
+
+/**
+ * Gets the PickupSecurity version deployed on a chain
+ * @param chainId Chain ID
+ * @returns Contract version (1 for unknown chains)
+ */
+export const getPickupSecurityVersion = (chainId: number): PickupSecurityVersion => {
+  return PICKUP_SECURITY_VERSIONS[chainId] || 1;
+};
+
+// School this deployment serves on PickupSecurity v2: a bytes32 id, or a name that is hashed into one
+export const SCHOOL_ID = process.env.NEXT_PUBLIC_SCHOOL_ID || 'default';
+
+// Gas limits and replacement policy for every write (lib/blockchain/transactions.ts)
+export const TRANSACTION_SETTINGS = {
+  GAS_LIMIT_MARGIN_PERCENT: 20, // headroom added to eth_estimateGas
+  FEE_BUMP_PERCENT: 15, // nodes require replacements to pay at least 10% more
+  CANCEL_GAS_LIMIT: 21000,
+  STUCK_AFTER: 3 * 60 * 1000, // 3 minutes pending counts as stuck
+  MAX_SPEED_UPS: 3 // a stuck relayer transaction is cancelled after this many speed-ups
 } as const;
 
+// EIP-1559 fee caps per chain; nothing is sent while the network asks for more
+export const DEFAULT_FEE_CAPS: FeeCaps = { maxFeePerGasGwei: 200, maxPriorityFeePerGasGwei: 5 };
+export const FEE_CAPS: Record<number, FeeCaps> = {
+  [NETWORKS.POLYGON_AMOY.chainId]: { maxFeePerGasGwei: 500, maxPriorityFeePerGasGwei: 60 },
+  [NETWORKS.SEPOLIA.chainId]: DEFAULT_FEE_CAPS,
+  [NETWORKS.LOCALHOST.chainId]: { maxFeePerGasGwei: 1000, maxPriorityFeePerGasGwei: 10 }
+};
+
+/**
+ * Gets the fee caps of a chain (NEXT_PUBLIC_MAX_FEE_PER_GAS_GWEI raises or lowers the max fee everywhere)
+ * @param chainId Chain ID
+ * @returns Fee caps in gwei
+ */
+export const getFeeCaps = (chainId: number): FeeCaps => {
+  const caps = FEE_CAPS[chainId] || DEFAULT_FEE_CAPS;
+  const maxFeeOverride = Number(process.env.NEXT_PUBLIC_MAX_FEE_PER_GAS_GWEI);
+  return maxFeeOverride > 0 ? { ...caps, maxFeePerGasGwei: maxFeeOverride } : caps;
+};
+
 // Batch settings for Merkle tree anchoring
 export const BATCH_SETTINGS = {
   DEFAULT_BATCH_SIZE: 10,
@@ -72,10 +165,13 @@ export const VERIFICATION_SETTINGS = {
 // Error codes
 export const ERROR_CODES = {
   CONTRACT_NOT_DEPLOYED: 'CONTRACT_NOT_DEPLOYED',
+  UNSUPPORTED_CONTRACT_VERSION: 'UNSUPPORTED_CONTRACT_VERSION',
+  FEE_CAP_EXCEEDED: 'FEE_CAP_EXCEEDED',
   INVALID_NETWORK: 'INVALID_NETWORK',
   WALLET_NOT_CONNECTED: 'WALLET_NOT_CONNECTED',
   INSUFFICIENT_GAS: 'INSUFFICIENT_GAS',
   TRANSACTION_FAILED: 'TRANSACTION_FAILED',
+  TRANSACTION_TIMEOUT: 'TRANSACTION_TIMEOUT',
   AUTHORIZATION_NOT_FOUND: 'AUTHORIZATION_NOT_FOUND',
   AUTHORIZATION_EXPIRED: 'AUTHORIZATION_EXPIRED',
   INVALID_SIGNATURE: 'INVALID_SIGNATURE',
@@ -106,7 +202,8 @@ export const HASH_PREFIXES = {
   PICKUP_EVENT: 'PICKUP',
   STUDENT: 'STUDENT',
   QR_CODE: 'QR',
-  MERKLE_ROOT: 'MERKLE'
+  MERKLE_ROOT: 'MERKLE',
+  SCHOOL: 'SCHOOL'
 } as const;
 
 // Blockchain operation timeouts
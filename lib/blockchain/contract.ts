@@ -5,44 +5,29 @@
 
 import { ethers } from 'ethers';
 import { 
-  CONTRACT_ADDRESSES, 
   DEFAULT_NETWORK, 
-  GAS_SETTINGS, 
-  ERROR_CODES,
-  TIMEOUTS 
+  getContractAddresses,
+  getNetworkConfig,
+  getPickupSecurityVersion,
+  SCHOOL_ID,
+  ERROR_CODES
 } from './constants';
 import type { 
   AuthorizationData, 
   PickupEventData, 
   MerkleBatchData,
+  MerkleMultiProof,
   TransactionResult,
   BatchAnchoringResult,
-  BlockchainConfig 
+  BlockchainConfig,
+  PickupSecurityVersion,
+  TransactionStatusListener
 } from './types';
-import { createAuthorizationHash, createPickupEventHash } from './hashing';
+import { createAuthorizationHash, createPickupEventHash, createSchoolId } from './hashing';
+import { sendManagedTransaction } from './transactions';
 
-// Contract ABI (simplified for the main functions)
-const PICKUP_SECURITY_ABI = [
-  // Authorization functions
-  'function createAuthorization(bytes32 authHash, address parentWallet, address pickupWallet, bytes32 studentHash, uint256 startDate, uint256 endDate) external',
-  'function verifyAuthorization(bytes32 authHash, bool isVerified) external',
-  'function revokeAuthorization(bytes32 authHash) external',
-  'function getAuthorization(bytes32 authHash) external view returns (bytes32 authHash, address parentWallet, address pickupWallet, bytes32 studentHash, uint256 startDate, uint256 endDate, uint256 createdAt, bool isActive, bool isVerified)',
-  'function isAuthorizationValid(bytes32 authHash, address pickupWallet, bytes32 studentHash) external view returns (bool)',
-  
-  // Pickup event functions
-  'function recordPickupEvent(bytes32 eventHash, bytes32 studentHash, address pickupWallet, address staffWallet, bytes32 qrCodeHash) external',
-  'function getPickupEvent(bytes32 eventHash) external view returns (bytes32 eventHash, bytes32 studentHash, address pickupWallet, address staffWallet, uint256 timestamp, bytes32 qrCodeHash, bool isVerified)',
-  
-  // Merkle batch functions
-  'function anchorMerkleBatch(bytes32 merkleRoot, uint256 eventCount, string memory ipfsHash) external',
-  'function getMerkleBatch(uint256 batchNumber) external view returns (bytes32 merkleRoot, uint256 batchNumber, uint256 timestamp, uint256 blockNumber, uint256 eventCount, string memory ipfsHash)',
-  'function verifyPickupEvent(bytes32 eventHash, uint256 batchNumber, bytes32[] memory proof) external view returns (bool)',
-  
-  // Statistics
-  'function getContractStats() external view returns (uint256, uint256, uint256)',
-  
-  // Events
+// Events shared by every PickupSecurity version
+const PICKUP_SECURITY_EVENTS = [
   'event AuthorizationCreated(bytes32 indexed authHash, address indexed parentWallet, address indexed pickupWallet, bytes32 studentHash, uint256 startDate, uint256 endDate)',
   'event AuthorizationVerified(bytes32 indexed authHash, bool isVerified)',
   'event PickupEventRecorded(bytes32 indexed eventHash, bytes32 indexed studentHash, address indexed pickupWallet, uint256 timestamp)',
@@ -50,19 +35,94 @@ const PICKUP_SECURITY_ABI = [
   'event AuthorizationRevoked(bytes32 indexed authHash, address indexed parentWallet)'
 ];
 
+// Functions shared by every PickupSecurity version
+const PICKUP_SECURITY_COMMON_FUNCTIONS = [
+  'function verifyAuthorization(bytes32 authHash, bool isVerified) external',
+  'function revokeAuthorization(bytes32 authHash) external',
+  'function isAuthorizationValid(bytes32 authHash, address pickupWallet, bytes32 studentHash) external view returns (bool)',
+  'function anchorMerkleBatch(bytes32 merkleRoot, uint256 eventCount, string memory ipfsHash) external',
+  // Returns the MerkleBatch struct, so the fields come back as one tuple
+  'function getMerkleBatch(uint256 batchNumber) external view returns (tuple(bytes32 merkleRoot, uint256 batchNumber, uint256 timestamp, uint256 blockNumber, uint256 eventCount, string ipfsHash))',
+  'function verifyPickupEvent(bytes32 eventHash, uint256 batchNumber, bytes32[] memory proof) external view returns (bool)',
+  'function verifyPickupEvents(bytes32[] memory eventHashes, uint256 batchNumber, bytes32[] memory proof, bool[] memory proofFlags) external view returns (bool)',
+  'function getContractStats() external view returns (uint256, uint256, uint256)'
+];
+
+// Contract ABI (simplified for the main functions)
+const PICKUP_SECURITY_ABI_V1 = [
+  ...PICKUP_SECURITY_COMMON_FUNCTIONS,
+  'function createAuthorization(bytes32 authHash, address parentWallet, address pickupWallet, bytes32 studentHash, uint256 startDate, uint256 endDate) external',
+  'function getAuthorization(bytes32 authHash) external view returns (bytes32 authHash, address parentWallet, address pickupWallet, bytes32 studentHash, uint256 startDate, uint256 endDate, uint256 createdAt, bool isActive, bool isVerified)',
+  'function recordPickupEvent(bytes32 eventHash, bytes32 studentHash, address pickupWallet, address staffWallet, bytes32 qrCodeHash) external',
+  'function getPickupEvent(bytes32 eventHash) external view returns (bytes32 eventHash, bytes32 studentHash, address pickupWallet, address staffWallet, uint256 timestamp, bytes32 qrCodeHash, bool isVerified)',
+  ...PICKUP_SECURITY_EVENTS
+];
+
+// v2 scopes authorizations and pickups to a school and adds batch calls and staff allowlists
+const PICKUP_SECURITY_ABI_V2 = [
+  ...PICKUP_SECURITY_COMMON_FUNCTIONS,
+  'function registerSchool(bytes32 schoolId, address admin) external',
+  'function setSchoolStaff(bytes32 schoolId, address[] staffWallets, bool isAllowed) external',
+  'function schools(bytes32 schoolId) external view returns (address admin, bool isActive)',
+  'function isSchoolStaff(bytes32 schoolId, address staffWallet) external view returns (bool)',
+  'function createAuthorizations(bytes32 schoolId, tuple(bytes32 authHash, address parentWallet, address pickupWallet, bytes32 studentHash, uint256 startDate, uint256 endDate)[] inputs) external',
+  'function revokeAuthorizations(bytes32[] authHashes) external',
+  'function getAuthorization(bytes32 authHash) external view returns (bytes32 authHash, bytes32 schoolId, address parentWallet, address pickupWallet, bytes32 studentHash, uint256 startDate, uint256 endDate, uint256 createdAt, bool isActive, bool isVerified)',
+  'function recordPickupEvent(bytes32 schoolId, bytes32 eventHash, bytes32 studentHash, address pickupWallet, address staffWallet, bytes32 qrCodeHash) external',
+  'function getPickupEvent(bytes32 eventHash) external view returns (bytes32 eventHash, bytes32 schoolId, bytes32 studentHash, address pickupWallet, address staffWallet, uint256 timestamp, bytes32 qrCodeHash, bool isVerified)',
+  'event SchoolRegistered(bytes32 indexed schoolId, address indexed admin)',
+  'event SchoolStaffUpdated(bytes32 indexed schoolId, address indexed staffWallet, bool isAllowed)',
+  ...PICKUP_SECURITY_EVENTS
+];
+
+export const PICKUP_SECURITY_ABIS: Record<PickupSecurityVersion, string[]> = {
+  1: PICKUP_SECURITY_ABI_V1,
+  2: PICKUP_SECURITY_ABI_V2
+};
+
+// Authorization fields stored on chain
+type OnChainAuthorization = Pick<
+  AuthorizationData,
+  'authHash' | 'parentWallet' | 'pickupWallet' | 'studentHash' | 'startDate' | 'endDate'
+>;
+
+// Pickup event fields stored on chain
+type OnChainPickupEvent = Pick<
+  PickupEventData,
+  'eventHash' | 'studentHash' | 'pickupWallet' | 'staffWallet' | 'qrCodeHash'
+>;
+
+// A contract function and its arguments, for callers that send through their own signer or queue
+export interface ContractCall {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Gets the PickupSecurity configuration for a chain
+ * @param chainId Chain ID (defaults to the default network)
+ * @returns Blockchain configuration pointing at the PickupSecurity contract deployed there
+ */
+export const getPickupSecurityConfig = (chainId: number = DEFAULT_NETWORK.chainId): BlockchainConfig => {
+  const contractVersion = getPickupSecurityVersion(chainId);
+  return {
+    contractAddress: getContractAddresses(chainId).PICKUP_SECURITY,
+    rpcUrl: getNetworkConfig(chainId)?.rpcUrl || DEFAULT_NETWORK.rpcUrl,
+    chainId,
+    contractVersion,
+    ...(contractVersion === 2 && { schoolId: createSchoolId(SCHOOL_ID) })
+  };
+};
+
 /**
  * Gets the contract instance for the specified network
  * @param provider Ethers provider
  * @param network Network configuration
- * @returns Contract instance
+ * @returns Contract instance using the ABI of the deployed version
  */
 export const getContract = (
   provider: ethers.Provider | ethers.Signer,
-  network: BlockchainConfig = { 
-    contractAddress: CONTRACT_ADDRESSES[DEFAULT_NETWORK.chainId].PICKUP_SECURITY,
-    rpcUrl: DEFAULT_NETWORK.rpcUrl,
-    chainId: DEFAULT_NETWORK.chainId
-  }
+  network: BlockchainConfig = getPickupSecurityConfig()
 ) => {
   const contractAddress = network.contractAddress;
   
@@ -70,7 +130,101 @@ export const getContract = (
     throw new Error(ERROR_CODES.CONTRACT_NOT_DEPLOYED);
   }
   
-  return new ethers.Contract(contractAddress, PICKUP_SECURITY_ABI, provider);
+  return new ethers.Contract(contractAddress, PICKUP_SECURITY_ABIS[network.contractVersion || 1], provider);
+};
+
+/**
+ * Gets the school a v2 network is scoped to
+ */
+const getSchoolId = (network: BlockchainConfig): string => {
+  if (!network.schoolId) {
+    throw new Error('PickupSecurity v2 requires a school id (NEXT_PUBLIC_SCHOOL_ID)');
+  }
+  return network.schoolId;
+};
+
+/**
+ * Throws unless the network runs PickupSecurity v2
+ */
+const requireVersion2 = (network: BlockchainConfig): void => {
+  if (network.contractVersion !== 2) {
+    throw new Error(ERROR_CODES.UNSUPPORTED_CONTRACT_VERSION);
+  }
+};
+
+/**
+ * Builds the call that creates authorizations. v1 can only create one per transaction.
+ * @param authorizations Authorizations with their hashes
+ * @param network Network configuration
+ * @returns Contract call for the deployed version
+ */
+export const buildCreateAuthorizationsCall = (
+  authorizations: OnChainAuthorization[],
+  network: BlockchainConfig = getPickupSecurityConfig()
+): ContractCall => {
+  if (network.contractVersion === 2) {
+    return {
+      method: 'createAuthorizations',
+      args: [
+        getSchoolId(network),
+        authorizations.map(auth => ({
+          authHash: auth.authHash,
+          parentWallet: auth.parentWallet,
+          pickupWallet: auth.pickupWallet,
+          studentHash: auth.studentHash,
+          startDate: auth.startDate,
+          endDate: auth.endDate
+        }))
+      ]
+    };
+  }
+
+  if (authorizations.length !== 1) {
+    throw new Error(ERROR_CODES.UNSUPPORTED_CONTRACT_VERSION);
+  }
+  const [auth] = authorizations;
+  return {
+    method: 'createAuthorization',
+    args: [auth.authHash, auth.parentWallet, auth.pickupWallet, auth.studentHash, auth.startDate, auth.endDate]
+  };
+};
+
+/**
+ * Builds the call that records a pickup event
+ * @param eventData Pickup event with its hash
+ * @param network Network configuration
+ * @returns Contract call for the deployed version
+ */
+export const buildRecordPickupEventCall = (
+  eventData: OnChainPickupEvent,
+  network: BlockchainConfig = getPickupSecurityConfig()
+): ContractCall => {
+  const args = [
+    eventData.eventHash,
+    eventData.studentHash,
+    eventData.pickupWallet,
+    eventData.staffWallet,
+    eventData.qrCodeHash
+  ];
+
+  return {
+    method: 'recordPickupEvent',
+    args: network.contractVersion === 2 ? [getSchoolId(network), ...args] : args
+  };
+};
+
+/**
+ * Sends a contract call through the transaction manager and waits for it to be mined
+ */
+const sendContractCall = async (
+  signer: ethers.Signer,
+  call: ContractCall,
+  network?: BlockchainConfig,
+  onStatus?: TransactionStatusListener
+): Promise<TransactionResult> => {
+  const contract = getContract(signer, network);
+  const request = await contract.getFunction(call.method).populateTransaction(...call.args);
+  return sendManagedTransaction(signer, request, onStatus);
 };
 
 /**
@@ -78,120 +232,171 @@ export const getContract = (
  * @param signer Ethers signer
  * @param authData Authorization data
  * @param network Network configuration
+ * @param onStatus Transaction status listener
  * @returns Transaction result
  */
 export const createAuthorizationOnChain = async (
   signer: ethers.Signer,
   authData: AuthorizationData,
-  network?: BlockchainConfig
+  network: BlockchainConfig = getPickupSecurityConfig(),
+  onStatus?: TransactionStatusListener
 ): Promise<TransactionResult> => {
   try {
-    const contract = getContract(signer, network);
     const authHash = createAuthorizationHash(authData);
+    const call = buildCreateAuthorizationsCall([{ ...authData, authHash }], network);
     
-    const tx = await contract.createAuthorization(
-      authHash,
-      authData.parentWallet,
-      authData.pickupWallet,
-      authData.studentHash,
-      authData.startDate,
-      authData.endDate,
-      {
-        gasLimit: GAS_SETTINGS.AUTHORIZATION_GAS_LIMIT
-      }
-    );
-    
-    const receipt = await tx.wait();
-    
+    return await sendContractCall(signer, call, network, onStatus);
+  } catch (error: any) {
     return {
-      success: true,
-      hash: tx.hash,
-      gasUsed: receipt.gasUsed.toNumber(),
-      blockNumber: receipt.blockNumber
+      success: false,
+      error: error.message || 'Failed to create authorization on blockchain'
     };
+  }
+};
+
+/**
+ * Creates several authorizations in one transaction (PickupSecurity v2 only)
+ * @param signer Ethers signer
+ * @param authorizations Authorization data
+ * @param network Network configuration
+ * @param onStatus Transaction status listener
+ * @returns Transaction result
+ */
+export const createAuthorizationsOnChain = async (
+  signer: ethers.Signer,
+  authorizations: AuthorizationData[],
+  network: BlockchainConfig = getPickupSecurityConfig(),
+  onStatus?: TransactionStatusListener
+): Promise<TransactionResult> => {
+  try {
+    requireVersion2(network);
+    const call = buildCreateAuthorizationsCall(
+      authorizations.map(authData => ({ ...authData, authHash: createAuthorizationHash(authData) })),
+      network
+    );
+    
+    return await sendContractCall(signer, call, network, onStatus);
   } catch (error: any) {
     return {
       success: false,
-      error: error.message || 'Failed to create authorization on blockchain'
+      error: error.message || 'Failed to create authorizations on blockchain'
     };
   }
 };
 
 /**
- * Records a pickup event on the blockchain
+ * Records a pickup event on the blockchain. On v2 the sender must be the
+ * allowlisted staff member (or the contract owner relaying for them).
  * @param signer Ethers signer
  * @param eventData Pickup event data
  * @param network Network configuration
+ * @param onStatus Transaction status listener
  * @returns Transaction result
  */
 export const recordPickupEventOnChain = async (
   signer: ethers.Signer,
   eventData: PickupEventData,
-  network?: BlockchainConfig
+  network: BlockchainConfig = getPickupSecurityConfig(),
+  onStatus?: TransactionStatusListener
 ): Promise<TransactionResult> => {
   try {
-    const contract = getContract(signer, network);
     const eventHash = createPickupEventHash(eventData);
+    const call = buildRecordPickupEventCall({ ...eventData, eventHash }, network);
     
-    const tx = await contract.recordPickupEvent(
-      eventHash,
-      eventData.studentHash,
-      eventData.pickupWallet,
-      eventData.staffWallet,
-      eventData.qrCodeHash,
-      {
-        gasLimit: GAS_SETTINGS.PICKUP_EVENT_GAS_LIMIT
-      }
-    );
-    
-    const receipt = await tx.wait();
-    
+    return await sendContractCall(signer, call, network, onStatus);
+  } catch (error: any) {
     return {
-      success: true,
-      hash: tx.hash,
-      gasUsed: receipt.gasUsed.toNumber(),
-      blockNumber: receipt.blockNumber
+      success: false,
+      error: error.message || 'Failed to record pickup event on blockchain'
     };
+  }
+};
+
+/**
+ * Adds or removes staff wallets from the school's allowlist (PickupSecurity v2 only).
+ * The signer must be the school admin or the contract owner.
+ * @param signer Ethers signer
+ * @param staffWallets Staff wallet addresses
+ * @param isAllowed Whether the wallets may record pickups
+ * @param network Network configuration
+ * @param onStatus Transaction status listener
+ * @returns Transaction result
+ */
+export const setSchoolStaffOnChain = async (
+  signer: ethers.Signer,
+  staffWallets: string[],
+  isAllowed: boolean,
+  network: BlockchainConfig = getPickupSecurityConfig(),
+  onStatus?: TransactionStatusListener
+): Promise<TransactionResult> => {
+  try {
+    requireVersion2(network);
+    const call: ContractCall = {
+      method: 'setSchoolStaff',
+      args: [getSchoolId(network), staffWallets.map(wallet => ethers.getAddress(wallet)), isAllowed]
+    };
+    
+    return await sendContractCall(signer, call, network, onStatus);
   } catch (error: any) {
     return {
       success: false,
-      error: error.message || 'Failed to record pickup event on blockchain'
+      error: error.message || 'Failed to update school staff on blockchain'
     };
   }
 };
 
+/**
+ * Checks whether a wallet may record pickups. Always true on v1, where recording is open.
+ * @param provider Ethers provider
+ * @param staffWallet Staff wallet address
+ * @param network Network configuration
+ * @returns Whether the wallet is allowlisted for the school
+ */
+export const isSchoolStaffOnChain = async (
+  provider: ethers.Provider,
+  staffWallet: string,
+  network: BlockchainConfig = getPickupSecurityConfig()
+): Promise<boolean> => {
+  if (network.contractVersion !== 2) {
+    return true;
+  }
+
+  try {
+    const contract = getContract(provider, network);
+    return await contract.isSchoolStaff(getSchoolId(network), ethers.getAddress(staffWallet));
+  } catch (error: any) {
+    console.error('Failed to check school staff on blockchain:', error);
+    return false;
+  }
+};
+
 /**
  * Anchors a Merkle batch on the blockchain
  * @param signer Ethers signer
  * @param batchData Merkle batch data
  * @param network Network configuration
+ * @param onStatus Transaction status listener
  * @returns Batch anchoring result
  */
 export const anchorMerkleBatchOnChain = async (
   signer: ethers.Signer,
   batchData: MerkleBatchData,
-  network?: BlockchainConfig
+  network?: BlockchainConfig,
+  onStatus?: TransactionStatusListener
 ): Promise<BatchAnchoringResult> => {
   try {
-    const contract = getContract(signer, network);
-    
-    const tx = await contract.anchorMerkleBatch(
-      batchData.merkleRoot,
-      batchData.eventCount,
-      batchData.ipfsHash,
-      {
-        gasLimit: GAS_SETTINGS.MERKLE_BATCH_GAS_LIMIT
-      }
-    );
-    
-    const receipt = await tx.wait();
+    const result = await sendContractCall(signer, {
+      method: 'anchorMerkleBatch',
+      args: [batchData.merkleRoot, batchData.eventCount, batchData.ipfsHash]
+    }, network, onStatus);
     
     return {
-      success: true,
+      success: result.success,
       batchNumber: batchData.batchNumber,
       merkleRoot: batchData.merkleRoot,
       eventCount: batchData.eventCount,
-      transactionHash: tx.hash
+      transactionHash: result.hash,
+      error: result.error
     };
   } catch (error: any) {
     return {
@@ -239,7 +444,7 @@ export const verifyAuthorizationOnChain = async (
 export const getAuthorizationFromChain = async (
   provider: ethers.Provider,
   authHash: string,
-  network?: BlockchainConfig
+  network: BlockchainConfig = getPickupSecurityConfig()
 ) => {
   try {
     const contract = getContract(provider, network);
@@ -253,10 +458,11 @@ export const getAuthorizationFromChain = async (
       authHash: auth.authHash,
       parentWallet: auth.parentWallet,
       pickupWallet: auth.pickupWallet,
+      schoolId: network.contractVersion === 2 ? auth.schoolId : undefined,
       studentHash: auth.studentHash,
-      startDate: auth.startDate.toNumber(),
-      endDate: auth.endDate.toNumber(),
-      createdAt: auth.createdAt.toNumber(),
+      startDate: Number(auth.startDate),
+      endDate: Number(auth.endDate),
+      createdAt: Number(auth.createdAt),
       isActive: auth.isActive,
       isVerified: auth.isVerified
     };
@@ -276,7 +482,7 @@ export const getAuthorizationFromChain = async (
 export const getPickupEventFromChain = async (
   provider: ethers.Provider,
   eventHash: string,
-  network?: BlockchainConfig
+  network: BlockchainConfig = getPickupSecurityConfig()
 ) => {
   try {
     const contract = getContract(provider, network);
@@ -288,10 +494,11 @@ export const getPickupEventFromChain = async (
     
     return {
       eventHash: event.eventHash,
+      schoolId: network.contractVersion === 2 ? event.schoolId : undefined,
       studentHash: event.studentHash,
       pickupWallet: event.pickupWallet,
       staffWallet: event.staffWallet,
-      timestamp: event.timestamp.toNumber(),
+      timestamp: Number(event.timestamp),
       qrCodeHash: event.qrCodeHash,
       isVerified: event.isVerified
     };
@@ -323,10 +530,10 @@ export const getMerkleBatchFromChain = async (
     
     return {
       merkleRoot: batch.merkleRoot,
-      batchNumber: batch.batchNumber.toNumber(),
-      timestamp: batch.timestamp.toNumber(),
-      blockNumber: batch.blockNumber.toNumber(),
-      eventCount: batch.eventCount.toNumber(),
+      batchNumber: Number(batch.batchNumber),
+      timestamp: Number(batch.timestamp),
+      blockNumber: Number(batch.blockNumber),
+      eventCount: Number(batch.eventCount),
       ipfsHash: batch.ipfsHash
     };
   } catch (error: any) {
@@ -350,9 +557,9 @@ export const getContractStats = async (
     const stats = await contract.getContractStats();
     
     return {
-      authorizationCount: stats[0].toNumber(),
-      pickupEventCount: stats[1].toNumber(),
-      batchCount: stats[2].toNumber()
+      authorizationCount: Number(stats[0]),
+      pickupEventCount: Number(stats[1]),
+      batchCount: Number(stats[2])
     };
   } catch (error: any) {
     console.error('Failed to get contract stats:', error);
@@ -369,32 +576,46 @@ export const getContractStats = async (
  * @param signer Ethers signer
  * @param authHash Authorization hash
  * @param network Network configuration
+ * @param onStatus Transaction status listener, called with 'pending' as soon as it is sent
  * @returns Transaction result
  */
 export const revokeAuthorizationOnChain = async (
   signer: ethers.Signer,
   authHash: string,
-  network?: BlockchainConfig
+  network?: BlockchainConfig,
+  onStatus?: TransactionStatusListener
 ): Promise<TransactionResult> => {
   try {
-    const contract = getContract(signer, network);
-    
-    const tx = await contract.revokeAuthorization(authHash, {
-      gasLimit: GAS_SETTINGS.AUTHORIZATION_GAS_LIMIT
-    });
-    
-    const receipt = await tx.wait();
-    
+    return await sendContractCall(signer, { method: 'revokeAuthorization', args: [authHash] }, network, onStatus);
+  } catch (error: any) {
     return {
-      success: true,
-      hash: tx.hash,
-      gasUsed: receipt.gasUsed.toNumber(),
-      blockNumber: receipt.blockNumber
+      success: false,
+      error: error.message || 'Failed to revoke authorization on blockchain'
     };
+  }
+};
+
+/**
+ * Revokes several authorizations in one transaction (PickupSecurity v2 only)
+ * @param signer Ethers signer (the parent, the school admin or the contract owner)
+ * @param authHashes Authorization hashes
+ * @param network Network configuration
+ * @param onStatus Transaction status listener, called with 'pending' as soon as it is sent
+ * @returns Transaction result
+ */
+export const revokeAuthorizationsOnChain = async (
+  signer: ethers.Signer,
+  authHashes: string[],
+  network: BlockchainConfig = getPickupSecurityConfig(),
+  onStatus?: TransactionStatusListener
+): Promise<TransactionResult> => {
+  try {
+    requireVersion2(network);
+    return await sendContractCall(signer, { method: 'revokeAuthorizations', args: [authHashes] }, network, onStatus);
   } catch (error: any) {
     return {
       success: false,
-      error: error.message || 'Failed to revoke authorization on blockchain'
+      error: error.message || 'Failed to revoke authorizations on blockchain'
     };
   }
 };
@@ -423,3 +644,31 @@ export const verifyPickupEventProof = async (
     return false;
   }
 };
+
+/**
+ * Verifies several pickup events of one batch using a Merkle multiproof
+ * @param provider Ethers provider
+ * @param multiProof Multiproof with leaves in proof order
+ * @param batchNumber Batch number
+ * @param network Network configuration
+ * @returns Whether every event is part of the batch
+ */
+export const verifyPickupEventsMultiProof = async (
+  provider: ethers.Provider,
+  multiProof: MerkleMultiProof,
+  batchNumber: number,
+  network?: BlockchainConfig
+): Promise<boolean> => {
+  try {
+    const contract = getContract(provider, network);
+    return await contract.verifyPickupEvents(
+      multiProof.leaves,
+      batchNumber,
+      multiProof.proof,
+      multiProof.proofFlags
+    );
+  } catch (error: any) {
+    console.error('Failed to verify pickup events multiproof:', error);
+    return false;
+  }
+};
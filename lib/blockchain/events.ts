@@ -0,0 +1,111 @@
+/**
+ * Contract Event Utilities
+ * Reads PickupSecurity logs and normalizes them into BlockchainEvent records
+ */
+
+import { ethers } from 'ethers';
+import { EVENT_TYPES } from './constants';
+import { getContract, getPickupSecurityConfig } from './contract';
+import type { BlockchainConfig, BlockchainEvent, BlockchainEventType } from './types';
+
+const INDEXED_EVENT_TYPES: string[] = Object.values(EVENT_TYPES);
+
+/**
+ * Converts decoded event arguments into plain values that can be stored anywhere
+ */
+const normalizeEventArgs = (log: ethers.EventLog): BlockchainEvent['data'] => {
+  const data: BlockchainEvent['data'] = {};
+  log.fragment.inputs.forEach((input, index) => {
+    const value = log.args[index];
+    if (typeof value === 'bigint') {
+      data[input.name] = Number(value);
+    } else if (input.type === 'address') {
+      data[input.name] = String(value).toLowerCase();
+    } else {
+      data[input.name] = value;
+    }
+  });
+  return data;
+};
+
+/**
+ * Gets the block timestamps (in seconds) of the given blocks
+ */
+const getBlockTimestamps = async (
+  provider: ethers.Provider,
+  blockNumbers: number[]
+): Promise<Map<number, number>> => {
+  const timestamps = new Map<number, number>();
+  for (const blockNumber of new Set(blockNumbers)) {
+    const block = await provider.getBlock(blockNumber);
+    if (block) {
+      timestamps.set(blockNumber, block.timestamp);
+    }
+  }
+  return timestamps;
+};
+
+/**
+ * Fetches every PickupSecurity event in a block range, oldest first
+ * @param provider Ethers provider
+ * @param fromBlock First block (inclusive)
+ * @param toBlock Last block (inclusive)
+ * @param network Network configuration
+ * @returns Normalized events
+ */
+export const getPickupSecurityEvents = async (
+  provider: ethers.Provider,
+  fromBlock: number,
+  toBlock: number,
+  network: BlockchainConfig = getPickupSecurityConfig()
+): Promise<BlockchainEvent[]> => {
+  const contract = getContract(provider, network);
+  const logs = (await contract.queryFilter('*', fromBlock, toBlock))
+    .filter((log): log is ethers.EventLog =>
+      log instanceof ethers.EventLog && INDEXED_EVENT_TYPES.includes(log.eventName)
+    );
+
+  const timestamps = await getBlockTimestamps(provider, logs.map(log => log.blockNumber));
+
+  return logs
+    .map(log => ({
+      type: log.eventName as BlockchainEventType,
+      data: normalizeEventArgs(log),
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp: timestamps.get(log.blockNumber) ?? 0
+    }))
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+};
+
+/**
+ * Estimates how many blocks are needed before an event counts as final, from
+ * TIMEOUTS.BLOCK_CONFIRMATION and the chain's recent block time
+ * @param provider Ethers provider
+ * @param timeout Time an event should have been on chain (ms)
+ * @param maxConfirmations Upper bound on the result
+ * @returns Number of confirmations
+ */
+export const getConfirmationDepth = async (
+  provider: ethers.Provider,
+  timeout: number,
+  maxConfirmations: number
+): Promise<number> => {
+  const SAMPLE_BLOCKS = 100;
+  const head = await provider.getBlock('latest');
+  if (!head || head.number === 0) {
+    return 1;
+  }
+
+  const sample = await provider.getBlock(Math.max(0, head.number - SAMPLE_BLOCKS));
+  const elapsed = sample ? (head.timestamp - sample.timestamp) * 1000 : 0;
+  const blockTime = elapsed / (head.number - (sample?.number ?? head.number) || 1);
+
+  // Chains that mine on demand (local nodes) report no meaningful block time
+  if (blockTime <= 0) {
+    return 1;
+  }
+  return Math.min(maxConfirmations, Math.max(1, Math.ceil(timeout / blockTime)));
+};
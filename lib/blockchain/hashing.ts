@@ -6,6 +6,7 @@
 import { ethers } from 'ethers';
 import { HASH_PREFIXES } from './constants';
 import type { AuthorizationData, PickupEventData } from './types';
+import { buildMerkleTree, getMerkleProof, hashPair } from './merkle-tree';
 
 /**
  * Creates a hash for authorization data
@@ -64,6 +65,24 @@ export const createStudentHash = (studentId: string): string => {
   return ethers.keccak256(hashData);
 };
 
+/**
+ * Creates the PickupSecurity v2 school identifier
+ * @param school School name, or an existing bytes32 identifier (returned as is)
+ * @returns bytes32 school identifier
+ */
+export const createSchoolId = (school: string): string => {
+  if (ethers.isHexString(school, 32)) {
+    return school.toLowerCase();
+  }
+
+  const hashData = ethers.solidityPacked(
+    ['string', 'string'],
+    [HASH_PREFIXES.SCHOOL, school]
+  );
+  
+  return ethers.keccak256(hashData);
+};
+
 /**
  * Creates a hash for QR code data
  * @param qrCodeData QR code data to hash
@@ -96,40 +115,10 @@ export const createSignatureHash = (message: string, signature: string): string
 /**
  * Creates a Merkle root hash from an array of event hashes
  * @param eventHashes Array of pickup event hashes
- * @returns Merkle root hash
+ * @returns Merkle root hash (sorted-pair, as OpenZeppelin's MerkleProof expects)
  */
 export const createMerkleRoot = (eventHashes: string[]): string => {
-  if (eventHashes.length === 0) {
-    throw new Error('Cannot create Merkle root from empty array');
-  }
-  
-  if (eventHashes.length === 1) {
-    return eventHashes[0];
-  }
-  
-  // Sort hashes for consistent ordering
-  const sortedHashes = [...eventHashes].sort();
-  
-  // Create pairs and hash them
-  const pairedHashes: string[] = [];
-  for (let i = 0; i < sortedHashes.length; i += 2) {
-    if (i + 1 < sortedHashes.length) {
-      // Hash pair of hashes
-      const pairHash = ethers.keccak256(
-        ethers.solidityPacked(['bytes32', 'bytes32'], [sortedHashes[i], sortedHashes[i + 1]])
-      );
-      pairedHashes.push(pairHash);
-    } else {
-      // Odd number of hashes, hash with itself
-      const selfHash = ethers.keccak256(
-        ethers.solidityPacked(['bytes32', 'bytes32'], [sortedHashes[i], sortedHashes[i]])
-      );
-      pairedHashes.push(selfHash);
-    }
-  }
-  
-  // Recursively create Merkle root
-  return createMerkleRoot(pairedHashes);
+  return buildMerkleTree(eventHashes).root;
 };
 
 /**
@@ -139,51 +128,7 @@ export const createMerkleRoot = (eventHashes: string[]): string => {
  * @returns Array of proof hashes
  */
 export const generateMerkleProof = (eventHashes: string[], targetHash: string): string[] => {
-  if (!eventHashes.includes(targetHash)) {
-    throw new Error('Target hash not found in event hashes');
-  }
-  
-  const sortedHashes = [...eventHashes].sort();
-  const proof: string[] = [];
-  
-  let currentLevel = sortedHashes;
-  let targetIndex = sortedHashes.indexOf(targetHash);
-  
-  while (currentLevel.length > 1) {
-    const nextLevel: string[] = [];
-    
-    for (let i = 0; i < currentLevel.length; i += 2) {
-      if (i + 1 < currentLevel.length) {
-        // Hash pair
-        const pairHash = ethers.keccak256(
-          ethers.solidityPacked(['bytes32', 'bytes32'], [currentLevel[i], currentLevel[i + 1]])
-        );
-        nextLevel.push(pairHash);
-        
-        // Add to proof if target is in this pair
-        if (i === targetIndex || i + 1 === targetIndex) {
-          const siblingIndex = i === targetIndex ? i + 1 : i;
-          proof.push(currentLevel[siblingIndex]);
-        }
-      } else {
-        // Hash with itself
-        const selfHash = ethers.keccak256(
-          ethers.solidityPacked(['bytes32', 'bytes32'], [currentLevel[i], currentLevel[i]])
-        );
-        nextLevel.push(selfHash);
-        
-        if (i === targetIndex) {
-          proof.push(currentLevel[i]);
-        }
-      }
-    }
-    
-    // Update target index for next level
-    targetIndex = Math.floor(targetIndex / 2);
-    currentLevel = nextLevel;
-  }
-  
-  return proof;
+  return getMerkleProof(buildMerkleTree(eventHashes), targetHash);
 };
 
 /**
@@ -198,20 +143,8 @@ export const verifyMerkleProof = (
   proof: string[],
   merkleRoot: string
 ): boolean => {
-  let currentHash = targetHash;
-  
-  for (const proofHash of proof) {
-    // Determine order based on hash comparison
-    const [left, right] = currentHash < proofHash 
-      ? [currentHash, proofHash] 
-      : [proofHash, currentHash];
-    
-    currentHash = ethers.keccak256(
-      ethers.solidityPacked(['bytes32', 'bytes32'], [left, right])
-    );
-  }
-  
-  return currentHash === merkleRoot;
+  const computedRoot = proof.reduce((currentHash, proofHash) => hashPair(currentHash, proofHash), targetHash);
+  return computedRoot.toLowerCase() === merkleRoot.toLowerCase();
 };
 
 /**
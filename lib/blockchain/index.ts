@@ -6,8 +6,14 @@
 // Core blockchain utilities
 export * from './contract';
 export * from './merkle';
+export * from './merkle-tree';
 export * from './hashing';
 export * from './verification';
+export * from './roles';
+export * from './provider';
+export * from './typed-data';
+export * from './events';
+export * from './transactions';
 
 // Types
 export * from './types';
@@ -0,0 +1,189 @@
+/**
+ * Sorted-Pair Merkle Tree
+ * Tree layout and proof formats matching OpenZeppelin's MerkleProof (verify and
+ * multiProofVerify), so proofs built here are accepted by PickupSecurity.
+ *
+ * Nodes are stored as a complete binary tree in one array: the root is node 0, the
+ * children of node i are 2i + 1 and 2i + 2, and the sorted leaves fill the end of
+ * the array in reverse. Every level is kept, so proofs are read rather than rebuilt.
+ */
+
+import { ethers } from 'ethers';
+import type { MerkleMultiProof } from './types';
+
+export interface SortedMerkleTree {
+  root: string;
+  /** Leaves in ascending order */
+  leaves: string[];
+  /** Every node of the tree, root first */
+  nodes: string[];
+}
+
+const leftChildIndex = (i: number) => 2 * i + 1;
+const parentIndex = (i: number) => Math.floor((i - 1) / 2);
+const siblingIndex = (i: number) => (i % 2 === 1 ? i + 1 : i - 1);
+
+/**
+ * Hashes two nodes in sorted order, as OpenZeppelin's MerkleProof does
+ */
+export const hashPair = (a: string, b: string): string => {
+  const [left, right] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+  return ethers.keccak256(ethers.concat([left, right]));
+};
+
+/**
+ * Builds a sorted-pair Merkle tree in O(n)
+ * @param leaves Leaf hashes (bytes32), in any order
+ * @returns Tree with every node stored
+ */
+export const buildMerkleTree = (leaves: string[]): SortedMerkleTree => {
+  if (leaves.length === 0) {
+    throw new Error('Cannot create Merkle tree from empty array');
+  }
+
+  const sortedLeaves = leaves.map(leaf => ethers.hexlify(leaf).toLowerCase()).sort();
+  const nodes = new Array<string>(2 * sortedLeaves.length - 1);
+
+  sortedLeaves.forEach((leaf, i) => {
+    nodes[nodes.length - 1 - i] = leaf;
+  });
+  for (let i = nodes.length - 1 - sortedLeaves.length; i >= 0; i--) {
+    nodes[i] = hashPair(nodes[leftChildIndex(i)], nodes[leftChildIndex(i) + 1]);
+  }
+
+  return {
+    root: nodes[0],
+    leaves: sortedLeaves,
+    nodes
+  };
+};
+
+/**
+ * Gets the node index of a leaf
+ */
+const getLeafNodeIndex = (tree: SortedMerkleTree, leaf: string): number => {
+  const leafIndex = tree.leaves.indexOf(leaf.toLowerCase());
+  if (leafIndex === -1) {
+    throw new Error('Target hash not found in event hashes');
+  }
+  return tree.nodes.length - 1 - leafIndex;
+};
+
+/**
+ * Reads the proof of the leaf stored at a node index in O(log n)
+ */
+const getProofAtNode = (tree: SortedMerkleTree, nodeIndex: number): string[] => {
+  const proof: string[] = [];
+  for (let i = nodeIndex; i > 0; i = parentIndex(i)) {
+    proof.push(tree.nodes[siblingIndex(i)]);
+  }
+  return proof;
+};
+
+/**
+ * Gets the proof for one leaf, for MerkleProof.verify
+ * @param tree Merkle tree
+ * @param leaf Leaf hash
+ * @returns Sibling hashes from the leaf up to the root
+ */
+export const getMerkleProof = (tree: SortedMerkleTree, leaf: string): string[] => {
+  return getProofAtNode(tree, getLeafNodeIndex(tree, leaf));
+};
+
+/**
+ * Gets the proof of every leaf in O(n log n)
+ * @returns Map from leaf hash to its proof
+ */
+export const getAllMerkleProofs = (tree: SortedMerkleTree): Map<string, string[]> => {
+  const proofs = new Map<string, string[]>();
+  tree.leaves.forEach((leaf, i) => {
+    proofs.set(leaf, getProofAtNode(tree, tree.nodes.length - 1 - i));
+  });
+  return proofs;
+};
+
+/**
+ * Gets a multiproof for several leaves, for MerkleProof.multiProofVerify.
+ * The returned leaves are in the order the proof expects.
+ * @param tree Merkle tree
+ * @param leaves Leaf hashes to prove (no duplicates)
+ * @returns Multiproof
+ */
+export const getMerkleMultiProof = (tree: SortedMerkleTree, leaves: string[]): MerkleMultiProof => {
+  const indices = leaves.map(leaf => getLeafNodeIndex(tree, leaf)).sort((a, b) => b - a);
+
+  if (indices.some((index, i) => i > 0 && index === indices[i - 1])) {
+    throw new Error('Cannot prove duplicated leaves');
+  }
+
+  const stack = [...indices];
+  const proof: string[] = [];
+  const proofFlags: boolean[] = [];
+
+  while (stack.length > 0 && stack[0] > 0) {
+    const nodeIndex = stack.shift()!;
+    const sibling = siblingIndex(nodeIndex);
+
+    if (sibling === stack[0]) {
+      // Both children are known, so the sibling comes from the stack
+      proofFlags.push(true);
+      stack.shift();
+    } else {
+      proofFlags.push(false);
+      proof.push(tree.nodes[sibling]);
+    }
+    stack.push(parentIndex(nodeIndex));
+  }
+
+  if (indices.length === 0) {
+    proof.push(tree.root);
+  }
+
+  return {
+    leaves: indices.map(index => tree.nodes[index]),
+    proof,
+    proofFlags
+  };
+};
+
+/**
+ * Recomputes the root a multiproof leads to, mirroring MerkleProof.processMultiProof
+ * @returns Merkle root
+ */
+export const processMultiProof = (multiProof: MerkleMultiProof): string => {
+  const { leaves, proofFlags } = multiProof;
+
+  if (multiProof.proof.length + leaves.length !== proofFlags.length + 1) {
+    throw new Error('Invalid multiproof format');
+  }
+
+  const stack = [...leaves];
+  const proof = [...multiProof.proof];
+
+  for (const flag of proofFlags) {
+    const a = stack.shift();
+    const b = flag ? stack.shift() : proof.shift();
+    if (a === undefined || b === undefined) {
+      throw new Error('Invalid multiproof format');
+    }
+    stack.push(hashPair(a, b));
+  }
+
+  const root = stack.pop() ?? proof.shift();
+  if (root === undefined) {
+    throw new Error('Invalid multiproof format');
+  }
+  return root;
+};
+
+/**
+ * Verifies a multiproof against a root, like MerkleProof.multiProofVerify
+ * @returns Whether every leaf in the multiproof is part of the tree
+ */
+export const multiProofVerify = (multiProof: MerkleMultiProof, merkleRoot: string): boolean => {
+  try {
+    return processMultiProof(multiProof).toLowerCase() === merkleRoot.toLowerCase();
+  } catch {
+    return false;
+  }
+};
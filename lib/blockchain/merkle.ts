@@ -5,8 +5,9 @@
 
 import { ethers } from 'ethers';
 import { BATCH_SETTINGS } from './constants';
-import type { PickupEventData, MerkleBatchData } from './types';
+import type { PickupEventData, MerkleBatchData, MerkleMultiProof } from './types';
 import { createPickupEventHash, createMerkleRoot, generateMerkleProof, verifyMerkleProof } from './hashing';
+import { buildMerkleTree, getAllMerkleProofs, getMerkleMultiProof } from './merkle-tree';
 
 export interface MerkleTree {
   root: string;
@@ -36,20 +37,13 @@ export const createMerkleTree = (events: PickupEventData[]): MerkleTree => {
   // Create hashes for all events
   const eventHashes = events.map(event => createPickupEventHash(event));
   
-  // Create Merkle root
-  const root = createMerkleRoot(eventHashes);
-  
-  // Generate proofs for each event
-  const proofs = new Map<string, string[]>();
-  eventHashes.forEach((hash, index) => {
-    const proof = generateMerkleProof(eventHashes, hash);
-    proofs.set(hash, proof);
-  });
+  // Build the tree once and read every proof from it
+  const tree = buildMerkleTree(eventHashes);
 
   return {
-    root,
+    root: tree.root,
     leaves: eventHashes,
-    proofs
+    proofs: getAllMerkleProofs(tree)
   };
 };
 
@@ -136,6 +130,20 @@ export const generateEventProof = (
   return generateMerkleProof(eventHashes, targetHash);
 };
 
+/**
+ * Generates one multiproof covering several events of a batch
+ * @param events Array of all events in the batch
+ * @param targetEvents Events to prove
+ * @returns Multiproof for MerkleProof.multiProofVerify
+ */
+export const generateEventMultiProof = (
+  events: PickupEventData[],
+  targetEvents: PickupEventData[]
+): MerkleMultiProof => {
+  const tree = buildMerkleTree(events.map(event => createPickupEventHash(event)));
+  return getMerkleMultiProof(tree, targetEvents.map(event => createPickupEventHash(event)));
+};
+
 /**
  * Splits events into batches for efficient processing
  * @param events Array of all pickup events
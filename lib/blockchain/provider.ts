@@ -0,0 +1,39 @@
+/**
+ * Server-side Provider Utilities
+ * Read-only JSON-RPC access used by API routes and background jobs
+ */
+
+import { ethers } from 'ethers';
+import { DEFAULT_NETWORK, getNetworkConfig } from './constants';
+
+let cachedProvider: ethers.JsonRpcProvider | null = null;
+
+/**
+ * Resolves the chain the server talks to (BLOCKCHAIN_CHAIN_ID, falling back to the default network)
+ */
+export const getServerChainId = (): number => {
+  const configured = Number(process.env.BLOCKCHAIN_CHAIN_ID);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_NETWORK.chainId;
+};
+
+/**
+ * Resolves the RPC URL for the server chain (BLOCKCHAIN_RPC_URL overrides the network default)
+ */
+export const getServerRpcUrl = (): string => {
+  if (process.env.BLOCKCHAIN_RPC_URL) {
+    return process.env.BLOCKCHAIN_RPC_URL;
+  }
+  return getNetworkConfig(getServerChainId())?.rpcUrl || DEFAULT_NETWORK.rpcUrl;
+};
+
+/**
+ * Gets a shared JSON-RPC provider for server-side reads
+ */
+export const getServerProvider = (): ethers.JsonRpcProvider => {
+  if (!cachedProvider) {
+    cachedProvider = new ethers.JsonRpcProvider(getServerRpcUrl(), getServerChainId(), {
+      staticNetwork: true
+    });
+  }
+  return cachedProvider;
+};
@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers, Wallet } from 'ethers';
+import { createQRCodeHash, createStudentHash } from './hashing';
+import { deployLocalContract, LOCAL_CHAIN_DEPLOYER_KEY, LOCAL_CHAIN_RPC_URL, useLocalChain } from '../../vitest.chain';
+import type { RelayRecordPickupEventMessage } from './types';
+
+// Relayer transactions are tracked in Firestore, which these tests do not need
+vi.mock('../firebase/transactions', () => ({
+  getStuckTransactions: vi.fn(async () => []),
+  recordRelayerTransactionStatus: vi.fn(async () => undefined),
+  refreshTrackedTransaction: vi.fn(async () => null),
+  trackRelayerTransaction: vi.fn(async () => undefined),
+  trackTransaction: vi.fn(async () => undefined),
+}));
+
+// Runs against a local chain (LOCAL_CHAIN_RPC_URL, see vitest.chain.ts)
+describe.skipIf(!LOCAL_CHAIN_RPC_URL)('relayer', () => {
+  let relayer: typeof import('./relayer');
+  let provider: ethers.Provider;
+
+  beforeAll(async () => {
+    const pickupSecurity = await deployLocalContract('PickupSecurity');
+    useLocalChain({ pickupSecurity: await pickupSecurity.getAddress() });
+    relayer = await import('./relayer');
+    provider = (await import('./provider')).getServerProvider();
+  });
+
+  const newPickupMessage = (): RelayRecordPickupEventMessage => ({
+    studentHash: createStudentHash(`CH${Math.floor(Math.random() * 1e6)}`),
+    pickupWallet: Wallet.createRandom().address,
+    staffWallet: Wallet.createRandom().address,
+    qrCodeHash: createQRCodeHash(`qr-${Math.random().toString(36).slice(2)}`),
+    timestamp: Math.floor(Date.now() / 1000),
+    nonce: 0,
+    deadline: Math.floor(Date.now() / 1000) + 600,
+  });
+
+  const nonceOf = async (hash: string) => (await provider.getTransaction(hash))!.nonce;
+
+  it('gives concurrent relayed calls consecutive nonces', async () => {
+    const results = await Promise.all([0, 1, 2].map(() => relayer.relayRecordPickupEvent(newPickupMessage())));
+
+    expect(results.map(result => result.success)).toEqual([true, true, true]);
+    const nonces = (await Promise.all(results.map(result => nonceOf(result.hash!)))).sort((a, b) => a - b);
+    expect(nonces).toEqual([nonces[0], nonces[0] + 1, nonces[0] + 2]);
+  });
+
+  it('re-reads the nonce and retries when another sender used it', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect((await relayer.relayRecordPickupEvent(newPickupMessage())).success).toBe(true);
+
+    // Spend the relayer's next nonce behind its back
+    const sameKey = new Wallet(LOCAL_CHAIN_DEPLOYER_KEY, provider);
+    const outside = await sameKey.sendTransaction({ to: sameKey.address, value: 0 });
+    await outside.wait();
+
+    const result = await relayer.relayRecordPickupEvent(newPickupMessage());
+
+    expect(result.success).toBe(true);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('attempt 1'), expect.anything());
+    expect(await nonceOf(result.hash!)).toBe(outside.nonce + 1);
+    warn.mockRestore();
+  });
+
+  it('returns the revert reason without sending a reverting call', async () => {
+    const message = newPickupMessage();
+    expect((await relayer.relayRecordPickupEvent(message)).success).toBe(true);
+    const nonceBefore = await provider.getTransactionCount(relayer.getRelayerWallet().address);
+
+    const result = await relayer.relayRecordPickupEvent(message);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Event already recorded');
+    expect(await provider.getTransactionCount(relayer.getRelayerWallet().address)).toBe(nonceBefore);
+  });
+});
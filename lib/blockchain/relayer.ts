@@ -0,0 +1,270 @@
+/**
+ * Transaction Relayer
+ * Submits signed parent and staff requests from a school-funded key so they do not pay gas.
+ * Every send is tracked in the Firestore `transactions` collection so stuck ones can be replaced.
+ * Server-only: reads RELAYER_PRIVATE_KEY and is intentionally not exported from the index.
+ */
+
+import { ethers } from 'ethers';
+import { ERROR_CODES, TRANSACTION_SETTINGS, VERIFICATION_SETTINGS } from './constants';
+import {
+  buildCreateAuthorizationsCall,
+  buildRecordPickupEventCall,
+  getContract,
+  getPickupSecurityConfig
+} from './contract';
+import { createPickupEventHash } from './hashing';
+import { getServerChainId, getServerProvider } from './provider';
+import { cancelTransaction, prepareTransaction, speedUpTransaction, waitForTransaction } from './transactions';
+import {
+  getStuckTransactions,
+  recordRelayerTransactionStatus,
+  refreshTrackedTransaction,
+  trackRelayerTransaction,
+  trackTransaction
+} from '../firebase/transactions';
+import type {
+  BlockchainConfig,
+  TransactionResult,
+  RelayCreateAuthorizationMessage,
+  RelayRecordPickupEventMessage
+} from './types';
+
+export const RELAYER_SETTINGS = {
+  MAX_SEND_ATTEMPTS: VERIFICATION_SETTINGS.MAX_RETRY_ATTEMPTS,
+  RETRY_DELAY: VERIFICATION_SETTINGS.RETRY_DELAY,
+  // Relay requests must be submitted before their deadline; this caps how far ahead it may be
+  MAX_DEADLINE_SECONDS: 60 * 60
+} as const;
+
+export interface StuckTransactionReport {
+  checked: number;
+  settled: number; // Mined or dropped by the time they were checked
+  spedUp: number;
+  cancelled: number;
+  waiting: number; // Replacement would exceed the fee cap
+  errors: number;
+}
+
+// Errors worth retrying with a freshly fetched nonce
+const RETRYABLE_ERROR_CODES = ['NONCE_EXPIRED', 'REPLACEMENT_UNDERPRICED', 'NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR'];
+
+let relayerWallet: ethers.Wallet | null = null;
+
+// Next nonce to use, or null to re-read it from the node
+let nextNonce: number | null = null;
+
+// Sends are serialized so concurrent requests never race for the same nonce
+let sendQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Checks whether a relayer key is configured
+ */
+export const isRelayerConfigured = (): boolean => {
+  return Boolean(process.env.RELAYER_PRIVATE_KEY);
+};
+
+/**
+ * Gets the school-funded wallet that submits relayed transactions
+ */
+export const getRelayerWallet = (): ethers.Wallet => {
+  if (!process.env.RELAYER_PRIVATE_KEY) {
+    throw new Error('RELAYER_PRIVATE_KEY is not configured');
+  }
+  if (!relayerWallet) {
+    relayerWallet = new ethers.Wallet(process.env.RELAYER_PRIVATE_KEY, getServerProvider());
+  }
+  return relayerWallet;
+};
+
+/**
+ * Gets the PickupSecurity configuration of the chain the relayer submits to
+ */
+export const getRelayerNetwork = (): BlockchainConfig => {
+  return getPickupSecurityConfig(getServerChainId());
+};
+
+const isRetryableError = (error: any): boolean => {
+  if (RETRYABLE_ERROR_CODES.includes(error?.code)) {
+    return true;
+  }
+  const message = String(error?.message || '').toLowerCase();
+  return message.includes('nonce too low') || message.includes('already known');
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = sendQueue.then(task, task);
+  sendQueue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Sends a transaction from the relayer with estimated gas and capped fees, assigning
+ * nonces locally and re-syncing them from the node when a send fails
+ */
+const sendWithManagedNonce = (request: ethers.TransactionRequest, method: string): Promise<ethers.TransactionResponse> => {
+  return enqueue(async () => {
+    const wallet = getRelayerWallet();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (nextNonce === null) {
+          nextNonce = await wallet.getNonce('pending');
+        }
+        const prepared = await prepareTransaction(wallet, request);
+        const tx = await wallet.sendTransaction({ ...prepared, nonce: nextNonce });
+        nextNonce++;
+        await trackRelayerTransaction(tx, method);
+        return tx;
+      } catch (error) {
+        nextNonce = null;
+        if (attempt >= RELAYER_SETTINGS.MAX_SEND_ATTEMPTS || !isRetryableError(error)) {
+          throw error;
+        }
+        console.warn(`Relayed transaction failed (attempt ${attempt}), retrying:`, error);
+        await delay(RELAYER_SETTINGS.RETRY_DELAY * attempt);
+      }
+    }
+  });
+};
+
+/**
+ * Runs a task that sends from the relayer wallet itself, holding the send queue
+ * so it cannot race relayed transactions for a nonce
+ */
+export const withRelayerWallet = <T>(task: (wallet: ethers.Wallet) => Promise<T>): Promise<T> => {
+  return enqueue(async () => {
+    try {
+      return await task(getRelayerWallet());
+    } finally {
+      // The task picked its own nonce, so re-read it before the next relayed send
+      nextNonce = null;
+    }
+  });
+};
+
+/**
+ * Simulates and sends a PickupSecurity call from the relayer without waiting for it to be mined
+ * @param method Contract function name
+ * @param args Function arguments
+ * @returns Sent transaction
+ */
+export const submitContractCall = async (method: string, args: unknown[]): Promise<ethers.TransactionResponse> => {
+  const contract = getContract(getRelayerWallet(), getRelayerNetwork());
+  const fn = contract.getFunction(method);
+
+  // Simulate first so reverting requests do not burn relayer gas or nonces
+  await fn.staticCall(...args);
+
+  const request = await fn.populateTransaction(...args);
+  return sendWithManagedNonce(request, method);
+};
+
+/**
+ * Simulates and submits a PickupSecurity call from the relayer, then waits for it to be mined
+ * @param method Contract function name
+ * @param args Function arguments
+ * @param onSubmitted Called with the sent transaction before waiting, e.g. to persist its hash
+ * @returns Transaction result
+ */
+export const relayContractCall = async (
+  method: string,
+  args: unknown[],
+  onSubmitted?: (tx: ethers.TransactionResponse) => Promise<void>
+): Promise<TransactionResult> => {
+  try {
+    const tx = await submitContractCall(method, args);
+    await onSubmitted?.(tx);
+    return await waitForTransaction(tx, recordRelayerTransactionStatus);
+  } catch (error: any) {
+    console.error(`Relayed ${method} failed:`, error);
+    return {
+      success: false,
+      error: error.shortMessage || error.reason || error.message || 'Relayed transaction failed'
+    };
+  }
+};
+
+/**
+ * Relays a parent-signed authorization to PickupSecurity (createAuthorization, or
+ * createAuthorizations scoped to the relayer's school on v2)
+ */
+export const relayCreateAuthorization = (message: RelayCreateAuthorizationMessage): Promise<TransactionResult> => {
+  const { method, args } = buildCreateAuthorizationsCall([message], getRelayerNetwork());
+  return relayContractCall(method, args);
+};
+
+/**
+ * Relays a staff-signed pickup to PickupSecurity.recordPickupEvent. On v2 the staff
+ * wallet must be on the school's allowlist.
+ */
+export const relayRecordPickupEvent = (message: RelayRecordPickupEventMessage): Promise<TransactionResult> => {
+  const eventHash = createPickupEventHash({ ...message, eventHash: '' });
+  const { method, args } = buildRecordPickupEventCall({ ...message, eventHash }, getRelayerNetwork());
+  return relayContractCall(method, args);
+};
+
+/**
+ * Sends PickupSecurity.revokeAuthorization for a parent. The relayer must own the
+ * contract; the caller tracks the returned transaction until it is mined.
+ */
+export const submitRelayedRevocation = (authHash: string): Promise<ethers.TransactionResponse> => {
+  return submitContractCall('revokeAuthorization', [authHash]);
+};
+
+/**
+ * Sends PickupSecurityV2.revokeAuthorizations for several of a parent's authorizations at once
+ */
+export const submitRelayedRevocations = (authHashes: string[]): Promise<ethers.TransactionResponse> => {
+  return submitContractCall('revokeAuthorizations', [authHashes]);
+};
+
+/**
+ * Speeds up relayer transactions pending for longer than TRANSACTION_SETTINGS.STUCK_AFTER,
+ * and cancels those still stuck after MAX_SPEED_UPS. Transactions whose replacement would
+ * exceed the fee cap are left to wait. Meant to be called on a schedule.
+ */
+export const processStuckRelayerTransactions = async (): Promise<StuckTransactionReport> => {
+  const report: StuckTransactionReport = { checked: 0, settled: 0, spedUp: 0, cancelled: 0, waiting: 0, errors: 0 };
+  const stuck = await getStuckTransactions('relayer', new Date(Date.now() - TRANSACTION_SETTINGS.STUCK_AFTER));
+
+  for (const record of stuck) {
+    report.checked++;
+
+    const current = await refreshTrackedTransaction(record.hash);
+    if (current?.status !== 'pending') {
+      report.settled++;
+      continue;
+    }
+
+    // A cancelling transfer is only ever sped up
+    const cancel = record.method !== 'cancel' && record.speedUps >= TRANSACTION_SETTINGS.MAX_SPEED_UPS;
+    try {
+      const replacement = await withRelayerWallet(wallet =>
+        cancel ? cancelTransaction(wallet, record.hash) : speedUpTransaction(wallet, record.hash)
+      );
+      await trackTransaction(replacement, {
+        method: cancel ? 'cancel' : record.method,
+        source: 'relayer',
+        replaces: record.hash
+      });
+
+      if (cancel) {
+        report.cancelled++;
+      } else {
+        report.spedUp++;
+      }
+    } catch (error: any) {
+      if (error.message === ERROR_CODES.FEE_CAP_EXCEEDED) {
+        report.waiting++;
+      } else {
+        console.error(`Error replacing stuck transaction ${record.hash}:`, error);
+        report.errors++;
+      }
+    }
+  }
+
+  return report;
+};
@@ -0,0 +1,147 @@
+/**
+ * RoleAuth Contract Client
+ * Reads and writes the on-chain role registry used to gate privileged accounts
+ */
+
+import { ethers } from 'ethers';
+import {
+  DEFAULT_NETWORK,
+  getContractAddresses,
+  getNetworkConfig,
+  ERROR_CODES
+} from './constants';
+import { sendManagedTransaction } from './transactions';
+import type { BlockchainConfig, TransactionResult } from './types';
+
+const ROLE_AUTH_ABI = [
+  'function admin() external view returns (address)',
+  'function roles(address user) external view returns (uint8)',
+  'function getRole(address user) external view returns (uint8)',
+  'function setRole(address user, uint8 role) external',
+  'event RoleUpdated(address indexed user, uint8 role)'
+];
+
+export type OnChainRole = 'none' | 'parent' | 'staff' | 'admin';
+
+// Must match the order of RoleAuth.Role
+const ROLE_VALUES: OnChainRole[] = ['none', 'parent', 'staff', 'admin'];
+
+/**
+ * Converts a RoleAuth enum value into a role name
+ */
+export const toOnChainRole = (value: bigint | number): OnChainRole => {
+  return ROLE_VALUES[Number(value)] ?? 'none';
+};
+
+/**
+ * Converts a role name into its RoleAuth enum value
+ */
+export const fromOnChainRole = (role: OnChainRole): number => {
+  return ROLE_VALUES.indexOf(role);
+};
+
+/**
+ * Gets the RoleAuth configuration for a chain
+ * @param chainId Chain ID (defaults to the default network)
+ * @returns Blockchain configuration pointing at the RoleAuth contract
+ */
+export const getRoleAuthConfig = (chainId: number = DEFAULT_NETWORK.chainId): BlockchainConfig => {
+  return {
+    contractAddress: getContractAddresses(chainId).ROLE_AUTH,
+    rpcUrl: getNetworkConfig(chainId)?.rpcUrl || DEFAULT_NETWORK.rpcUrl,
+    chainId
+  };
+};
+
+/**
+ * Checks whether a RoleAuth contract address is configured
+ * @param network RoleAuth configuration
+ */
+export const isRoleAuthConfigured = (network: BlockchainConfig = getRoleAuthConfig()): boolean => {
+  return Boolean(network.contractAddress) && network.contractAddress !== ethers.ZeroAddress;
+};
+
+/**
+ * Gets the RoleAuth contract instance
+ * @param runner Ethers provider or signer
+ * @param network RoleAuth configuration
+ * @returns Contract instance
+ */
+export const getRoleAuthContract = (
+  runner: ethers.Provider | ethers.Signer,
+  network: BlockchainConfig = getRoleAuthConfig()
+) => {
+  if (!isRoleAuthConfigured(network)) {
+    throw new Error(ERROR_CODES.CONTRACT_NOT_DEPLOYED);
+  }
+
+  return new ethers.Contract(network.contractAddress, ROLE_AUTH_ABI, runner);
+};
+
+/**
+ * Reads the role granted to a wallet
+ * @param provider Ethers provider
+ * @param wallet Wallet address
+ * @param network RoleAuth configuration
+ * @returns Role name ('none' when unset)
+ */
+export const getOnChainRole = async (
+  provider: ethers.Provider,
+  wallet: string,
+  network?: BlockchainConfig
+): Promise<OnChainRole> => {
+  const contract = getRoleAuthContract(provider, network);
+  const value = await contract.getRole(ethers.getAddress(wallet));
+  return toOnChainRole(value);
+};
+
+/**
+ * Grants (or clears) a role on chain. The signer must be the RoleAuth admin or hold the Admin role.
+ * @param signer Ethers signer
+ * @param wallet Wallet address
+ * @param role Role to grant
+ * @param network RoleAuth configuration
+ * @returns Transaction result
+ */
+export const setOnChainRole = async (
+  signer: ethers.Signer,
+  wallet: string,
+  role: OnChainRole,
+  network?: BlockchainConfig
+): Promise<TransactionResult> => {
+  try {
+    const contract = getRoleAuthContract(signer, network);
+    const request = await contract.setRole.populateTransaction(ethers.getAddress(wallet), fromOnChainRole(role));
+
+    return await sendManagedTransaction(signer, request);
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Failed to set role on blockchain'
+    };
+  }
+};
+
+/**
+ * Replays RoleUpdated events to find every wallet that has ever been assigned a role
+ * @param provider Ethers provider
+ * @param fromBlock First block to scan
+ * @param network RoleAuth configuration
+ * @returns Latest role per wallet (lowercase addresses)
+ */
+export const getRoleAssignments = async (
+  provider: ethers.Provider,
+  fromBlock: number = 0,
+  network?: BlockchainConfig
+): Promise<Map<string, OnChainRole>> => {
+  const contract = getRoleAuthContract(provider, network);
+  const events = await contract.queryFilter(contract.filters.RoleUpdated(), fromBlock);
+  const assignments = new Map<string, OnChainRole>();
+
+  for (const event of events) {
+    if (!('args' in event)) continue;
+    assignments.set(String(event.args.user).toLowerCase(), toOnChainRole(event.args.role));
+  }
+
+  return assignments;
+};
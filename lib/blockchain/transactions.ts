@@ -0,0 +1,297 @@
+/**
+ * Transaction Manager
+ * Prepares, sends and follows contract writes: gas limits come from eth_estimateGas plus a
+ * margin, fees are capped per chain (EIP-1559 where supported), and transactions that are
+ * stuck can be sped up or cancelled by re-using their nonce.
+ */
+
+import { ethers } from 'ethers';
+import { ERROR_CODES, TIMEOUTS, TRANSACTION_SETTINGS, getFeeCaps } from './constants';
+import type {
+  FeeOverrides,
+  TransactionResult,
+  TransactionStatusListener,
+  TransactionStatusUpdate
+} from './types';
+
+const maxBigInt = (a: bigint, b: bigint): bigint => (a > b ? a : b);
+const minBigInt = (a: bigint, b: bigint): bigint => (a < b ? a : b);
+const addPercent = (value: bigint, percent: number): bigint => value * BigInt(100 + percent) / BigInt(100);
+
+/**
+ * Gets the provider a signer sends through
+ */
+const getSignerProvider = (signer: ethers.Signer): ethers.Provider => {
+  if (!signer.provider) {
+    throw new Error(ERROR_CODES.WALLET_NOT_CONNECTED);
+  }
+  return signer.provider;
+};
+
+/**
+ * Gets a chain's fee caps in wei
+ */
+const getFeeCapsInWei = (chainId: number) => {
+  const caps = getFeeCaps(chainId);
+  return {
+    maxFeePerGas: ethers.parseUnits(String(caps.maxFeePerGasGwei), 'gwei'),
+    maxPriorityFeePerGas: ethers.parseUnits(String(caps.maxPriorityFeePerGasGwei), 'gwei')
+  };
+};
+
+/**
+ * Gets fees for a new transaction, capped at the chain's limits
+ * @param provider Ethers provider
+ * @returns Fee overrides (EIP-1559 fields, or gasPrice on legacy chains)
+ * @throws FEE_CAP_EXCEEDED while the network's base fee or gas price is above the cap
+ */
+export const getFeeOverrides = async (provider: ethers.Provider): Promise<FeeOverrides> => {
+  const [network, feeData, block] = await Promise.all([
+    provider.getNetwork(),
+    provider.getFeeData(),
+    provider.getBlock('latest')
+  ]);
+  const caps = getFeeCapsInWei(Number(network.chainId));
+  const baseFee = block?.baseFeePerGas;
+
+  if (feeData.maxFeePerGas !== null && baseFee !== null && baseFee !== undefined) {
+    if (baseFee > caps.maxFeePerGas) {
+      throw new Error(ERROR_CODES.FEE_CAP_EXCEEDED);
+    }
+    const maxPriorityFeePerGas = minBigInt(feeData.maxPriorityFeePerGas ?? BigInt(0), caps.maxPriorityFeePerGas);
+    const maxFeePerGas = maxBigInt(minBigInt(feeData.maxFeePerGas, caps.maxFeePerGas), maxPriorityFeePerGas);
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  if (feeData.gasPrice === null) {
+    return {};
+  }
+  if (feeData.gasPrice > caps.maxFeePerGas) {
+    throw new Error(ERROR_CODES.FEE_CAP_EXCEEDED);
+  }
+  return { gasPrice: feeData.gasPrice };
+};
+
+/**
+ * Fills in the gas limit (estimate plus margin) and capped fees of a transaction.
+ * Estimating also simulates the call, so a reverting request fails here instead of on chain.
+ * @param signer Ethers signer that will send it
+ * @param request Transaction request (to, data, value)
+ * @returns Request ready to send
+ */
+export const prepareTransaction = async (
+  signer: ethers.Signer,
+  request: ethers.TransactionRequest
+): Promise<ethers.TransactionRequest> => {
+  const [estimate, fees] = await Promise.all([
+    signer.estimateGas(request),
+    getFeeOverrides(getSignerProvider(signer))
+  ]);
+
+  return {
+    ...request,
+    ...fees,
+    gasLimit: addPercent(estimate, TRANSACTION_SETTINGS.GAS_LIMIT_MARGIN_PERCENT)
+  };
+};
+
+/**
+ * Waits for a transaction to be mined, following speed-ups and reporting each change
+ * @param tx Sent transaction
+ * @param onStatus Status listener
+ * @param timeout How long to wait (ms)
+ * @returns Transaction result; the hash is the replacement's when the transaction was sped up
+ */
+export const waitForTransaction = async (
+  tx: ethers.TransactionResponse,
+  onStatus?: TransactionStatusListener,
+  timeout: number = TIMEOUTS.TRANSACTION_CONFIRMATION
+): Promise<TransactionResult> => {
+  let hash = tx.hash;
+  let receipt: ethers.TransactionReceipt | null;
+
+  try {
+    receipt = await tx.wait(1, timeout);
+  } catch (error: any) {
+    if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+      await onStatus?.({ hash, status: 'replaced', replacedBy: error.replacement.hash });
+      hash = error.replacement.hash;
+
+      if (error.cancelled) {
+        await onStatus?.({ hash, status: 'cancelled', blockNumber: error.receipt.blockNumber });
+        return { success: false, hash, error: 'Transaction was cancelled' };
+      }
+      receipt = error.receipt;
+    } else if (ethers.isError(error, 'CALL_EXCEPTION') && error.receipt) {
+      receipt = error.receipt;
+    } else if (ethers.isError(error, 'TIMEOUT')) {
+      // Still pending: the caller keeps the hash and checks again later
+      return { success: false, hash, error: ERROR_CODES.TRANSACTION_TIMEOUT };
+    } else {
+      throw error;
+    }
+  }
+
+  if (!receipt || receipt.status !== 1) {
+    await onStatus?.({ hash, status: 'failed', blockNumber: receipt?.blockNumber });
+    return {
+      success: false,
+      hash,
+      error: ERROR_CODES.TRANSACTION_FAILED
+    };
+  }
+
+  const result = {
+    success: true,
+    hash,
+    gasUsed: Number(receipt.gasUsed),
+    blockNumber: receipt.blockNumber
+  };
+  await onStatus?.({ hash, status: 'confirmed', blockNumber: result.blockNumber, gasUsed: result.gasUsed });
+  return result;
+};
+
+/**
+ * Prepares and sends a transaction, then waits for it
+ * @param signer Ethers signer
+ * @param request Transaction request (to, data, value)
+ * @param onStatus Status listener, first called with 'pending' as soon as the transaction is sent
+ * @returns Transaction result
+ */
+export const sendManagedTransaction = async (
+  signer: ethers.Signer,
+  request: ethers.TransactionRequest,
+  onStatus?: TransactionStatusListener
+): Promise<TransactionResult> => {
+  const tx = await signer.sendTransaction(await prepareTransaction(signer, request));
+  await onStatus?.({ hash: tx.hash, status: 'pending' });
+  return waitForTransaction(tx, onStatus);
+};
+
+/**
+ * Looks up where a transaction stands on chain
+ * @param provider Ethers provider
+ * @param hash Transaction hash
+ * @returns Status: confirmed, failed, pending, or dropped when the node no longer knows it
+ */
+export const getTransactionStatus = async (
+  provider: ethers.Provider,
+  hash: string
+): Promise<TransactionStatusUpdate> => {
+  const receipt = await provider.getTransactionReceipt(hash);
+
+  if (receipt) {
+    return {
+      hash,
+      status: receipt.status === 1 ? 'confirmed' : 'failed',
+      blockNumber: receipt.blockNumber,
+      gasUsed: Number(receipt.gasUsed)
+    };
+  }
+
+  return {
+    hash,
+    status: (await provider.getTransaction(hash)) ? 'pending' : 'dropped'
+  };
+};
+
+/**
+ * Gets a transaction that is still waiting to be mined and was sent by the signer
+ */
+const getPendingTransaction = async (signer: ethers.Signer, hash: string): Promise<ethers.TransactionResponse> => {
+  const tx = await getSignerProvider(signer).getTransaction(hash);
+
+  if (!tx) {
+    throw new Error('Transaction not found');
+  }
+  if (tx.blockNumber !== null) {
+    throw new Error('Transaction is already mined');
+  }
+  if (tx.from.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+    throw new Error('Transaction was sent from another wallet');
+  }
+  return tx;
+};
+
+/**
+ * Gets fees for a replacement: at least FEE_BUMP_PERCENT above the original and no
+ * lower than the network asks for now, within the chain's cap
+ */
+const getReplacementFees = async (
+  provider: ethers.Provider,
+  tx: ethers.TransactionResponse
+): Promise<FeeOverrides> => {
+  const current = await getFeeOverrides(provider);
+  const caps = getFeeCapsInWei(Number(tx.chainId));
+  const bump = TRANSACTION_SETTINGS.FEE_BUMP_PERCENT;
+
+  if (tx.maxFeePerGas !== null) {
+    const maxPriorityFeePerGas = maxBigInt(
+      addPercent(tx.maxPriorityFeePerGas ?? BigInt(0), bump),
+      current.maxPriorityFeePerGas ?? BigInt(0)
+    );
+    const maxFeePerGas = maxBigInt(
+      maxBigInt(addPercent(tx.maxFeePerGas, bump), current.maxFeePerGas ?? BigInt(0)),
+      maxPriorityFeePerGas
+    );
+    if (maxFeePerGas > caps.maxFeePerGas) {
+      throw new Error(ERROR_CODES.FEE_CAP_EXCEEDED);
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  const gasPrice = maxBigInt(addPercent(tx.gasPrice, bump), current.gasPrice ?? current.maxFeePerGas ?? BigInt(0));
+  if (gasPrice > caps.maxFeePerGas) {
+    throw new Error(ERROR_CODES.FEE_CAP_EXCEEDED);
+  }
+  return { gasPrice };
+};
+
+/**
+ * Re-sends a pending transaction with higher fees under the same nonce
+ * @param signer Ethers signer that sent the original
+ * @param hash Hash of the pending transaction
+ * @returns Replacement transaction
+ */
+export const speedUpTransaction = async (
+  signer: ethers.Signer,
+  hash: string
+): Promise<ethers.TransactionResponse> => {
+  const tx = await getPendingTransaction(signer, hash);
+  const fees = await getReplacementFees(getSignerProvider(signer), tx);
+
+  return signer.sendTransaction({
+    to: tx.to,
+    data: tx.data,
+    value: tx.value,
+    nonce: tx.nonce,
+    gasLimit: tx.gasLimit,
+    chainId: tx.chainId,
+    ...fees
+  });
+};
+
+/**
+ * Replaces a pending transaction with an empty transfer to the sender, so its nonce is
+ * used up without running the original call
+ * @param signer Ethers signer that sent the original
+ * @param hash Hash of the pending transaction
+ * @returns Cancelling transaction
+ */
+export const cancelTransaction = async (
+  signer: ethers.Signer,
+  hash: string
+): Promise<ethers.TransactionResponse> => {
+  const tx = await getPendingTransaction(signer, hash);
+  const fees = await getReplacementFees(getSignerProvider(signer), tx);
+
+  return signer.sendTransaction({
+    to: tx.from,
+    data: '0x',
+    value: BigInt(0),
+    nonce: tx.nonce,
+    gasLimit: TRANSACTION_SETTINGS.CANCEL_GAS_LIMIT,
+    chainId: tx.chainId,
+    ...fees
+  });
+};
@@ -0,0 +1,108 @@
+/**
+ * EIP-712 Typed Data for Relayed Transactions
+ * Requests that parents and staff sign so the school relayer can submit them and pay the gas
+ */
+
+import { ethers } from 'ethers';
+import type {
+  RelayRequestKind,
+  RelayCreateAuthorizationMessage,
+  RelayRecordPickupEventMessage
+} from './types';
+
+export const RELAY_DOMAIN_NAME = 'KidGuard Relayer';
+export const RELAY_DOMAIN_VERSION = '1';
+
+// How long a signed relay request stays valid
+export const RELAY_REQUEST_TTL_SECONDS = 10 * 60;
+
+// Primary EIP-712 type of each relay request kind
+const RELAY_PRIMARY_TYPES: Record<RelayRequestKind, string> = {
+  createAuthorization: 'CreateAuthorization',
+  recordPickupEvent: 'RecordPickupEvent'
+};
+
+const RELAY_TYPE_FIELDS: Record<RelayRequestKind, ethers.TypedDataField[]> = {
+  createAuthorization: [
+    { name: 'authHash', type: 'bytes32' },
+    { name: 'parentWallet', type: 'address' },
+    { name: 'pickupWallet', type: 'address' },
+    { name: 'studentHash', type: 'bytes32' },
+    { name: 'startDate', type: 'uint256' },
+    { name: 'endDate', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ],
+  recordPickupEvent: [
+    { name: 'studentHash', type: 'bytes32' },
+    { name: 'pickupWallet', type: 'address' },
+    { name: 'staffWallet', type: 'address' },
+    { name: 'qrCodeHash', type: 'bytes32' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+/**
+ * Checks whether a value names a supported relay request kind
+ */
+export const isRelayRequestKind = (kind: unknown): kind is RelayRequestKind => {
+  return typeof kind === 'string' && kind in RELAY_PRIMARY_TYPES;
+};
+
+/**
+ * Gets the EIP-712 domain relay requests are signed under
+ * @param chainId Chain the relayer submits to
+ * @param verifyingContract PickupSecurity contract address
+ */
+export const getRelayDomain = (chainId: number, verifyingContract: string): ethers.TypedDataDomain => {
+  return {
+    name: RELAY_DOMAIN_NAME,
+    version: RELAY_DOMAIN_VERSION,
+    chainId,
+    verifyingContract
+  };
+};
+
+/**
+ * Gets the EIP-712 types of a relay request kind (only the primary type, as ethers expects)
+ */
+export const getRelayTypes = (kind: RelayRequestKind): Record<string, ethers.TypedDataField[]> => {
+  return { [RELAY_PRIMARY_TYPES[kind]]: RELAY_TYPE_FIELDS[kind] };
+};
+
+/**
+ * Signs a relay request with the connected wallet
+ * @param signer Wallet signer
+ * @param kind Relay request kind
+ * @param message Request fields
+ * @param domain Domain returned by the relay API
+ * @returns Signature
+ */
+export const signRelayRequest = async (
+  signer: ethers.Signer,
+  kind: RelayRequestKind,
+  message: RelayCreateAuthorizationMessage | RelayRecordPickupEventMessage,
+  domain: ethers.TypedDataDomain
+): Promise<string> => {
+  return signer.signTypedData(domain, getRelayTypes(kind), message);
+};
+
+/**
+ * Recovers the wallet that signed a relay request
+ * @returns Lowercased signer address, or null when the signature is malformed
+ */
+export const recoverRelaySigner = (
+  kind: RelayRequestKind,
+  message: RelayCreateAuthorizationMessage | RelayRecordPickupEventMessage,
+  signature: string,
+  domain: ethers.TypedDataDomain
+): string | null => {
+  try {
+    return ethers.verifyTypedData(domain, getRelayTypes(kind), message, signature).toLowerCase();
+  } catch (error) {
+    console.error('Failed to recover relay signer:', error);
+    return null;
+  }
+};
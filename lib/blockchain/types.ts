@@ -70,16 +70,70 @@ export interface MerkleProof {
   merkleRoot?: string; // Optional merkle root for verification
 }
 
+/**
+ * Everything needed to prove one pickup was anchored without trusting our database
+ */
+export interface PickupEventProof {
+  historyId: string;
+  event: Omit<PickupEventData, 'eventHash'>;
+  eventHash: string; // Merkle leaf
+  anchorMode: 'direct' | 'batch';
+  anchorStatus: string;
+  chainId: number | null;
+  contractAddress: string | null;
+  txHash: string | null;
+  batchNumber: number | null;
+  merkleRoot: string | null;
+  proof: string[];
+}
+
+/**
+ * Multiproof in the format of OpenZeppelin's MerkleProof.multiProofVerify
+ */
+export interface MerkleMultiProof {
+  leaves: string[];
+  proof: string[];
+  proofFlags: boolean[];
+}
+
 export interface ContractStats {
   authorizationCount: number;
   pickupEventCount: number;
   batchCount: number;
 }
 
+export interface NetworkConfig {
+  chainId: number;
+  rpcUrl: string;
+  name: string;
+  currency: string;
+  blockExplorer: string;
+}
+
+export interface ContractAddresses {
+  PICKUP_SECURITY: string;
+  ROLE_AUTH: string;
+}
+
+// Contracts deployed by scripts/deploy-contracts.ts, stored per chain in lib/blockchain/deployments.json
+export interface ContractDeployment extends ContractAddresses {
+  pickupSecurityVersion: PickupSecurityVersion;
+  schoolId?: string;
+  deployer: string;
+  blockNumber: number;
+  deployedAt: string;
+}
+
+// PickupSecurity contract generation (contracts/PickupSecurity.sol, contracts/PickupSecurityV2.sol)
+export type PickupSecurityVersion = 1 | 2;
+
 export interface BlockchainConfig {
   contractAddress: string;
   rpcUrl: string;
   chainId: number;
+  // PickupSecurity only: contract version (1 when unset) and, for v2, the school every call is scoped to
+  contractVersion?: PickupSecurityVersion;
+  schoolId?: string;
   gasPrice?: string;
   gasLimit?: number;
 }
@@ -92,6 +146,32 @@ export interface TransactionResult {
   blockNumber?: number;
 }
 
+export interface FeeCaps {
+  maxFeePerGasGwei: number;
+  maxPriorityFeePerGasGwei: number;
+}
+
+// Fee fields of a transaction request: EIP-1559 when the chain supports it, otherwise gasPrice
+export interface FeeOverrides {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+export type TrackedTransactionStatus = 'pending' | 'confirmed' | 'failed' | 'dropped' | 'replaced' | 'cancelled';
+
+// Live state of a submitted transaction, reported to listeners as it changes
+export interface TransactionStatusUpdate {
+  hash: string;
+  status: TrackedTransactionStatus;
+  // Set on 'replaced': the transaction that took its nonce
+  replacedBy?: string;
+  blockNumber?: number;
+  gasUsed?: number;
+}
+
+export type TransactionStatusListener = (update: TransactionStatusUpdate) => void | Promise<void>;
+
 export interface VerificationResult {
   isValid: boolean;
   error?: string;
@@ -107,6 +187,17 @@ export interface BatchAnchoringResult {
   error?: string;
 }
 
+export interface MerkleBatchTransactionStatus {
+  status: 'pending' | 'dropped' | 'failed' | 'confirmed';
+  batchNumber?: number;
+  blockNumber?: number;
+}
+
+export interface PickupEventTransactionStatus {
+  status: 'pending' | 'dropped' | 'failed' | 'confirmed';
+  blockNumber?: number;
+}
+
 export interface AuthorizationVerificationResult {
   isValid: boolean;
   authorization?: BlockchainAuthorization;
@@ -134,8 +225,42 @@ export type BlockchainEventType =
 
 export interface BlockchainEvent {
   type: BlockchainEventType;
-  data: any;
+  // Event arguments by name: addresses lowercased, integers as numbers
+  data: Record<string, string | number | boolean>;
   blockNumber: number;
+  blockHash: string;
   transactionHash: string;
+  logIndex: number;
   timestamp: number;
 }
+
+export type RelayRequestKind = 'createAuthorization' | 'recordPickupEvent';
+
+export interface RelayCreateAuthorizationMessage {
+  authHash: string;
+  parentWallet: string;
+  pickupWallet: string;
+  studentHash: string;
+  startDate: number;
+  endDate: number;
+  nonce: number;
+  deadline: number;
+}
+
+export interface RelayRecordPickupEventMessage {
+  studentHash: string;
+  pickupWallet: string;
+  staffWallet: string;
+  qrCodeHash: string;
+  timestamp: number;
+  nonce: number;
+  deadline: number;
+}
+
+export type RelayRequest =
+  | { kind: 'createAuthorization'; message: RelayCreateAuthorizationMessage; signature: string }
+  | { kind: 'recordPickupEvent'; message: RelayRecordPickupEventMessage; signature: string };
+
+export interface RelayResult extends TransactionResult {
+  requestId?: string;
+}
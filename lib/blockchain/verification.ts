@@ -171,16 +171,40 @@ export const createComprehensiveProof = (
   try {
     // Create verification hash
     const authHash = createAuthorizationHash(authData);
-    const eventHash = createPickupEventHash(eventData);
-    
+
     // Verify Merkle proof locally first
-    const isLocalProofValid = verifyMerkleProof(
-      eventHash,
-      merkleProof.proof,
-      merkleProof.merkleRoot || '' // This would need to be provided
-    );
+    const pickupProof = createPickupProof(eventData, merkleProof);
+    if (!pickupProof.isValid) {
+      return pickupProof;
+    }
+
+    return {
+      isValid: true,
+      proof: { ...merkleProof, authHash }
+    };
+
+  } catch (error: any) {
+    return {
+      isValid: false,
+      error: error.message || 'Failed to create comprehensive proof'
+    };
+  }
+};
+
+/**
+ * Creates a pickup event proof, checked locally against the batch root
+ * @param eventData Pickup event data (the leaf preimage)
+ * @param merkleProof Merkle proof, including the batch's Merkle root
+ * @returns Verification result whose proof carries the recomputed leaf hash
+ */
+export const createPickupProof = (
+  eventData: PickupEventData,
+  merkleProof: MerkleProof
+): VerificationResult => {
+  try {
+    const eventHash = createPickupEventHash(eventData);
 
-    if (!isLocalProofValid) {
+    if (!merkleProof.merkleRoot || !verifyMerkleProof(eventHash, merkleProof.proof, merkleProof.merkleRoot)) {
       return {
         isValid: false,
         error: ERROR_CODES.MERKLE_PROOF_INVALID
@@ -189,13 +213,13 @@ export const createComprehensiveProof = (
 
     return {
       isValid: true,
-      proof: merkleProof
+      proof: { ...merkleProof, eventHash }
     };
 
   } catch (error: any) {
     return {
       isValid: false,
-      error: error.message || 'Failed to create comprehensive proof'
+      error: error.message || 'Failed to create pickup proof'
     };
   }
 };
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import { verifyIdToken } from './auth';
+import { checkSession, SessionEndReason } from './sessions';
+
+/**
+ * Roles that can be granted access to an API route
+ */
+export type ApiRole = 'parent' | 'pickup' | 'staff' | 'admin';
+
+/**
+ * Access policy for a single route handler
+ */
+export interface RoutePolicy {
+  roles: ApiRole[];
+  // Set to false for polling endpoints that should not keep an idle session alive
+  trackActivity?: boolean;
+}
+
+/**
+ * Per-method policy table declared by each route module
+ */
+export type RoutePolicyTable = Partial<Record<'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE', RoutePolicy>>;
+
+/**
+ * Caller identity injected into authenticated handlers
+ */
+export interface AuthContext {
+  uid: string;
+  wallet: string;
+  role: ApiRole;
+  sessionId: string;
+  token: DecodedIdToken;
+}
+
+// Dynamic segments of the route; a catch-all segment is an array
+export type RouteParams = Record<string, string | string[]>;
+
+type RouteContext<Params extends RouteParams> = { params: Promise<Params> };
+
+export type AuthenticatedHandler<Params extends RouteParams = RouteParams> = (
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext<Params>
+) => Promise<Response>;
+
+// Older user records store the pickup role as 'pickup_person'
+const ROLE_ALIASES: Record<string, ApiRole> = {
+  pickup_person: 'pickup',
+};
+
+// Roles that are granted everything another role can do
+const ROLE_INHERITANCE: Partial<Record<ApiRole, ApiRole[]>> = {
+  admin: ['staff'],
+};
+
+/**
+ * Checks whether a role satisfies a policy, taking role inheritance into account
+ */
+export const isRoleAllowed = (role: ApiRole, policy: RoutePolicy): boolean => {
+  if (policy.roles.includes(role)) {
+    return true;
+  }
+  return (ROLE_INHERITANCE[role] ?? []).some(inherited => policy.roles.includes(inherited));
+};
+
+/**
+ * Uniform 401 response for missing or invalid credentials
+ */
+export const unauthorizedResponse = (message: string = 'Authentication required') => {
+  return NextResponse.json({ error: message, code: 'UNAUTHENTICATED' }, { status: 401 });
+};
+
+/**
+ * Uniform 403 response for authenticated callers without permission
+ */
+export const forbiddenResponse = (message: string = 'You do not have permission to access this resource') => {
+  return NextResponse.json({ error: message, code: 'FORBIDDEN' }, { status: 403 });
+};
+
+const SESSION_END_CODES: Record<SessionEndReason, { code: string; message: string }> = {
+  not_found: { code: 'SESSION_EXPIRED', message: 'Session not found. Please sign in again' },
+  expired: { code: 'SESSION_EXPIRED', message: 'Session expired. Please sign in again' },
+  revoked: { code: 'SESSION_REVOKED', message: 'This session has been signed out from another device' },
+};
+
+/**
+ * Uniform 401 response for tokens whose device session is no longer active
+ */
+export const sessionEndedResponse = (reason: SessionEndReason) => {
+  const { code, message } = SESSION_END_CODES[reason];
+  return NextResponse.json({ error: message, code }, { status: 401 });
+};
+
+/**
+ * Extracts the ID token from an `Authorization: Bearer <token>` header
+ */
+export const getBearerToken = (request: NextRequest): string | null => {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  const token = authHeader.substring(7).trim();
+  return token || null;
+};
+
+/**
+ * Wraps a route handler so it only runs for callers with an active session holding one of
+ * the policy's roles. The decoded wallet, role and session id are passed to the handler.
+ * Routes with dynamic segments give their params shape as the type argument.
+ */
+export const withAuth = <Params extends RouteParams = RouteParams>(
+  policy: RoutePolicy,
+  handler: AuthenticatedHandler<Params>
+) => {
+  return async (request: NextRequest, context: RouteContext<Params>): Promise<Response> => {
+    const idToken = getBearerToken(request);
+    if (!idToken) {
+      return unauthorizedResponse('Authorization header required');
+    }
+
+    const decodedToken = await verifyIdToken(idToken);
+    if (!decodedToken || !decodedToken.wallet) {
+      return unauthorizedResponse('Invalid or expired token');
+    }
+
+    const wallet = String(decodedToken.wallet).toLowerCase();
+
+    // Tokens issued before session tracking carry no sid and must sign in again
+    if (!decodedToken.sid) {
+      return sessionEndedResponse('not_found');
+    }
+    const session = await checkSession(decodedToken.sid, wallet, { trackActivity: policy.trackActivity });
+    if (!session.valid) {
+      return sessionEndedResponse(session.reason);
+    }
+
+    const role = (ROLE_ALIASES[decodedToken.role] ?? decodedToken.role) as ApiRole;
+    if (!isRoleAllowed(role, policy)) {
+      return forbiddenResponse();
+    }
+
+    return handler(request, {
+      uid: decodedToken.uid,
+      wallet,
+      role,
+      sessionId: decodedToken.sid,
+      token: decodedToken,
+    }, context);
+  };
+};
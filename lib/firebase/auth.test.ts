@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Wallet } from 'ethers';
+import { adminDb } from './admin';
+import { consumeAuthNonce, createAuthNonce } from './auth';
+
+// Runs against the Firestore emulator (`npm run test:emulator`)
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('auth nonces', () => {
+  const newWallet = () => Wallet.createRandom().address;
+
+  it('redeems a nonce once', async () => {
+    const wallet = newWallet();
+    const { nonce } = await createAuthNonce(wallet, 'parent', 'login');
+
+    expect(await consumeAuthNonce(nonce, wallet, 'parent', 'login')).toEqual({ valid: true });
+    expect(await consumeAuthNonce(nonce, wallet, 'parent', 'login')).toEqual({ valid: false, error: 'Nonce has already been used' });
+  });
+
+  it('lets only one of two concurrent logins redeem a nonce', async () => {
+    const wallet = newWallet();
+    const { nonce } = await createAuthNonce(wallet, 'parent', 'login');
+
+    const results = await Promise.all([
+      consumeAuthNonce(nonce, wallet, 'parent', 'login'),
+      consumeAuthNonce(nonce, wallet, 'parent', 'login')
+    ]);
+
+    expect(results.filter(result => result.valid)).toHaveLength(1);
+  });
+
+  it('rejects an expired nonce', async () => {
+    const wallet = newWallet();
+    const { nonce } = await createAuthNonce(wallet, 'parent', 'login');
+    await adminDb.collection('authNonces').doc(nonce).update({
+      expiresAt: new Date(Date.now() - 1000).toISOString()
+    });
+
+    expect(await consumeAuthNonce(nonce, wallet, 'parent', 'login')).toEqual({ valid: false, error: 'Nonce has expired' });
+  });
+
+  it('rejects unknown nonces and nonces issued for another request', async () => {
+    const wallet = newWallet();
+    const { nonce } = await createAuthNonce(wallet, 'parent', 'login');
+    const otherRequest = { valid: false, error: 'Nonce was issued for a different request' };
+
+    expect(await consumeAuthNonce('0123456789abcdef', wallet, 'parent', 'login')).toEqual({ valid: false, error: 'Unknown nonce' });
+    expect(await consumeAuthNonce(nonce, newWallet(), 'parent', 'login')).toEqual(otherRequest);
+    expect(await consumeAuthNonce(nonce, wallet, 'staff', 'login')).toEqual(otherRequest);
+    expect(await consumeAuthNonce(nonce, wallet, 'parent', 'register')).toEqual(otherRequest);
+
+    // The failed attempts did not use the nonce up
+    expect(await consumeAuthNonce(nonce, wallet, 'parent', 'login')).toEqual({ valid: true });
+  });
+});
@@ -1,4 +1,5 @@
 import admin from 'firebase-admin';
+import { randomBytes } from 'crypto';
 import { adminDb } from './admin';
 
 /**
@@ -55,12 +56,15 @@ export const verifyIdToken = async (idToken: string) => {
 };
 
 /**
- * Updates custom claims for a user
+ * Updates custom claims for a user, keeping the claims that are not passed
+ * (setCustomUserClaims replaces the whole set)
  */
 export const updateUserClaims = async (walletAddress: string, claims: Record<string, any>): Promise<boolean> => {
   try {
     const normalizedAddress = walletAddress.toLowerCase();
+    const { customClaims } = await admin.auth().getUser(normalizedAddress);
     await admin.auth().setCustomUserClaims(normalizedAddress, {
+      ...customClaims,
       wallet: normalizedAddress,
       ...claims,
     });
@@ -78,7 +82,7 @@ export const createOrUpdateUser = async (
   walletAddress: string,
   userData: {
     name: string;
-    role: 'parent' | 'pickup_person' | 'staff';
+    role: 'parent' | 'pickup_person' | 'staff' | 'admin';
     contactNumber?: string;
   }
 ): Promise<boolean> => {
@@ -157,7 +161,8 @@ export const validatePickupAuthorization = async (
     const pickupPersons = parentData?.pickup || {};
     const pickupPerson = pickupPersons[normalizedPickupAddress];
     
-    if (!pickupPerson) {
+    // A revocation still being confirmed on chain already counts as revoked
+    if (!pickupPerson || pickupPerson.revocation) {
       return { authorized: false };
     }
     
@@ -178,3 +183,98 @@ export const validatePickupAuthorization = async (
     return { authorized: false };
   }
 };
+
+/**
+ * Lifetime of a server-issued authentication nonce
+ */
+export const AUTH_NONCE_TTL_MS = 5 * 60 * 1000;
+
+export type AuthNoncePurpose = 'login' | 'register' | 'link';
+
+export interface AuthNonce {
+  nonce: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Issues a single-use nonce bound to a wallet, role and purpose.
+ * The nonce is stored server-side so it can only be redeemed once.
+ */
+export const createAuthNonce = async (
+  walletAddress: string,
+  role: string,
+  purpose: AuthNoncePurpose
+): Promise<AuthNonce> => {
+  const normalizedAddress = walletAddress.toLowerCase();
+  const nonce = randomBytes(16).toString('hex');
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + AUTH_NONCE_TTL_MS);
+
+  await adminDb.collection('authNonces').doc(nonce).set({
+    wallet: normalizedAddress,
+    role,
+    purpose,
+    used: false,
+    issuedAt: issuedAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  });
+
+  return {
+    nonce,
+    issuedAt: issuedAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+};
+
+/**
+ * Atomically redeems a nonce. Fails if the nonce is unknown, already used,
+ * expired, or was issued for a different wallet, role or purpose.
+ */
+export const consumeAuthNonce = async (
+  nonce: string,
+  walletAddress: string,
+  role: string,
+  purpose: AuthNoncePurpose
+): Promise<{ valid: boolean; error?: string }> => {
+  const normalizedAddress = walletAddress.toLowerCase();
+  const nonceRef = adminDb.collection('authNonces').doc(nonce);
+
+  try {
+    return await adminDb.runTransaction(async (transaction) => {
+      const nonceDoc = await transaction.get(nonceRef);
+
+      if (!nonceDoc.exists) {
+        return { valid: false, error: 'Unknown nonce' };
+      }
+
+      const nonceData = nonceDoc.data()!;
+
+      if (nonceData.used) {
+        return { valid: false, error: 'Nonce has already been used' };
+      }
+
+      if (new Date(nonceData.expiresAt).getTime() < Date.now()) {
+        return { valid: false, error: 'Nonce has expired' };
+      }
+
+      if (
+        nonceData.wallet !== normalizedAddress ||
+        nonceData.role !== role ||
+        nonceData.purpose !== purpose
+      ) {
+        return { valid: false, error: 'Nonce was issued for a different request' };
+      }
+
+      transaction.update(nonceRef, {
+        used: true,
+        usedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { valid: true };
+    });
+  } catch (error) {
+    console.error('Error consuming auth nonce:', error);
+    return { valid: false, error: 'Failed to verify nonce' };
+  }
+};
@@ -0,0 +1,475 @@
+import admin from 'firebase-admin';
+import { adminDb } from './admin';
+import { EVENT_TYPES, TIMEOUTS } from '../blockchain/constants';
+import { getPickupSecurityConfig } from '../blockchain/contract';
+import { getConfirmationDepth, getPickupSecurityEvents } from '../blockchain/events';
+import { getServerChainId, getServerProvider } from '../blockchain/provider';
+import type { BlockchainEvent } from '../blockchain/types';
+import type { ChainDriftKind, ChainDriftRecord, ChainEventRecord, PickupPerson } from '@/types/database';
+
+const chainEventsCollection = () => adminDb.collection('chainEvents');
+const chainDriftCollection = () => adminDb.collection('chainDrift');
+const pickupHistoryCollection = () => adminDb.collection('pickupHistory');
+const pickupBatchesCollection = () => adminDb.collection('pickupBatches');
+const usersCollection = () => adminDb.collection('users');
+const cursorDoc = (chainId: number) => adminDb.collection('chainIndexer').doc(String(chainId));
+
+const INDEXER_SETTINGS = {
+  // Blocks per getLogs call; most public RPCs reject larger ranges
+  MAX_BLOCK_RANGE: 2000,
+  // Blocks one run may index, so a long backfill is spread over several runs
+  MAX_BLOCKS_PER_RUN: 20000,
+  MAX_CONFIRMATIONS: 64,
+  // Hashes of recently indexed blocks kept to find where a reorg started
+  RECENT_BLOCKS: 32,
+  // Firestore allows 500 writes per batch
+  WRITE_BATCH_SIZE: 400,
+  LEASE_DURATION: 5 * 60 * 1000
+} as const;
+
+interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+export interface ChainIndexerResult {
+  skipped?: string;
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  confirmations: number;
+  indexed: number;
+  drift: number;
+  rolledBackTo?: number;
+}
+
+export interface ChainIndexerStatus {
+  chainId: number;
+  lastBlock: number | null;
+  updatedAt: Date | null;
+  drift: ChainDriftRecord[];
+}
+
+const toDate = (value: any): Date | undefined => {
+  return value && typeof value.toDate === 'function' ? value.toDate() : value || undefined;
+};
+
+/**
+ * First block to index (CHAIN_INDEXER_START_BLOCK, usually the contract's deployment block)
+ */
+const getStartBlock = (): number => {
+  const configured = Number(process.env.CHAIN_INDEXER_START_BLOCK);
+  return Number.isInteger(configured) && configured > 0 ? configured : 0;
+};
+
+/**
+ * Takes the indexer lease for a chain and returns its cursor, or null if another run holds it
+ */
+const acquireIndexerLease = async (
+  chainId: number,
+  now: Date
+): Promise<{ lastBlock: number; recentBlocks: IndexedBlock[] } | null> => {
+  return adminDb.runTransaction(async (transaction) => {
+    const doc = await transaction.get(cursorDoc(chainId));
+    const data = doc.data();
+    const leaseUntil = toDate(data?.leaseUntil);
+    if (leaseUntil && leaseUntil > now) {
+      return null;
+    }
+
+    transaction.set(cursorDoc(chainId), {
+      leaseUntil: new Date(now.getTime() + INDEXER_SETTINGS.LEASE_DURATION),
+    }, { merge: true });
+
+    return {
+      lastBlock: typeof data?.lastBlock === 'number' ? data.lastBlock : getStartBlock() - 1,
+      recentBlocks: data?.recentBlocks || [],
+    };
+  });
+};
+
+const releaseIndexerLease = async (chainId: number): Promise<void> => {
+  await cursorDoc(chainId).set({ leaseUntil: null }, { merge: true });
+};
+
+/**
+ * Finds the newest indexed block that is still on the canonical chain
+ * @returns null when nothing was reorganized, otherwise the block to roll back to
+ */
+const findCommonAncestor = async (recentBlocks: IndexedBlock[]): Promise<number | null> => {
+  const provider = getServerProvider();
+
+  for (let i = recentBlocks.length - 1; i >= 0; i--) {
+    const block = await provider.getBlock(recentBlocks[i].number);
+    if (block?.hash === recentBlocks[i].hash) {
+      return i === recentBlocks.length - 1 ? null : recentBlocks[i].number;
+    }
+  }
+
+  // Deeper than every block we remember, so start over
+  return recentBlocks.length > 0 ? getStartBlock() - 1 : null;
+};
+
+/**
+ * Deletes documents matched by a query, in write batches
+ */
+const deleteDocs = async (docs: admin.firestore.QueryDocumentSnapshot[]): Promise<void> => {
+  for (let i = 0; i < docs.length; i += INDEXER_SETTINGS.WRITE_BATCH_SIZE) {
+    const writeBatch = adminDb.batch();
+    docs.slice(i, i + INDEXER_SETTINGS.WRITE_BATCH_SIZE).forEach(doc => writeBatch.delete(doc.ref));
+    await writeBatch.commit();
+  }
+};
+
+const recordDrift = async (
+  chainId: number,
+  kind: ChainDriftKind,
+  ref: string,
+  detail: string,
+  blockNumber: number,
+  transactionHash?: string
+): Promise<void> => {
+  await chainDriftCollection().doc(`${chainId}_${kind}_${ref}`).set({
+    chainId,
+    kind,
+    ref,
+    detail,
+    blockNumber,
+    transactionHash: transactionHash || null,
+    detectedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+/**
+ * Removes indexed events above the block a reorg started from
+ */
+const rollbackEvents = async (chainId: number, ancestor: number, lastBlock: number): Promise<void> => {
+  const snapshot = await chainEventsCollection().where('blockNumber', '>', ancestor).get();
+  await deleteDocs(snapshot.docs.filter(doc => doc.data().chainId === chainId));
+
+  await recordDrift(
+    chainId,
+    'reorg',
+    String(lastBlock),
+    `Blocks after ${ancestor} were replaced; their events were re-indexed`,
+    ancestor
+  );
+};
+
+const saveEvents = async (chainId: number, events: BlockchainEvent[]): Promise<void> => {
+  for (let i = 0; i < events.length; i += INDEXER_SETTINGS.WRITE_BATCH_SIZE) {
+    const writeBatch = adminDb.batch();
+    events.slice(i, i + INDEXER_SETTINGS.WRITE_BATCH_SIZE).forEach(event => {
+      const record: Omit<ChainEventRecord, 'id' | 'indexedAt'> = { ...event, chainId };
+      writeBatch.set(chainEventsCollection().doc(`${chainId}_${event.transactionHash}_${event.logIndex}`), {
+        ...record,
+        indexedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await writeBatch.commit();
+  }
+};
+
+const findChainEvents = async (
+  chainId: number,
+  type: BlockchainEvent['type'],
+  field: string,
+  value: string | number
+): Promise<BlockchainEvent[]> => {
+  const snapshot = await chainEventsCollection()
+    .where('type', '==', type)
+    .where(`data.${field}`, '==', value)
+    .get();
+  return snapshot.docs
+    .map(doc => doc.data() as ChainEventRecord)
+    .filter(event => event.chainId === chainId);
+};
+
+/**
+ * Checks a pickup event on chain against its pickupHistory record
+ */
+const checkPickupEvent = async (chainId: number, event: BlockchainEvent): Promise<boolean> => {
+  const eventHash = String(event.data.eventHash);
+  const snapshot = await pickupHistoryCollection().where('blockchainHash', '==', eventHash).limit(1).get();
+
+  if (snapshot.empty) {
+    await recordDrift(chainId, 'unknownPickupEvent', eventHash,
+      'Pickup event recorded on chain has no pickup history record', event.blockNumber, event.transactionHash);
+    return true;
+  }
+
+  const record = snapshot.docs[0].data();
+  if (record.anchorStatus !== 'confirmed' || record.contractTxHash !== event.transactionHash) {
+    await recordDrift(chainId, 'pickupNotConfirmed', eventHash,
+      `Pickup history ${snapshot.docs[0].id} is ${record.anchorStatus || 'not anchored'} but the event is on chain`,
+      event.blockNumber, event.transactionHash);
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Checks an anchored Merkle batch against its pickupBatches record
+ */
+const checkMerkleBatch = async (chainId: number, event: BlockchainEvent): Promise<boolean> => {
+  const merkleRoot = String(event.data.merkleRoot);
+  const snapshot = await pickupBatchesCollection().where('merkleRoot', '==', merkleRoot).get();
+  const batchDoc = snapshot.docs.find(doc => doc.data().chainId === chainId);
+
+  if (!batchDoc) {
+    await recordDrift(chainId, 'unknownMerkleBatch', merkleRoot,
+      `Batch #${event.data.batchNumber} anchored on chain has no pickup batch record`,
+      event.blockNumber, event.transactionHash);
+    return true;
+  }
+
+  // The anchoring job may not have seen the receipt yet; this clears up on its next run
+  const batch = batchDoc.data();
+  if (batch.status !== 'anchored' || batch.batchNumber !== event.data.batchNumber) {
+    await recordDrift(chainId, 'batchNotConfirmed', merkleRoot,
+      `Pickup batch ${batchDoc.id} is ${batch.status} but is anchored on chain as batch #${event.data.batchNumber}`,
+      event.blockNumber, event.transactionHash);
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Gets the pickup persons in a parent's list, optionally leaving out ones being revoked
+ */
+const getUserPickupWallets = async (parentWallet: string, includeRevoking: boolean = true): Promise<string[]> => {
+  const userDoc = await usersCollection().doc(parentWallet).get();
+  return Object.entries<PickupPerson>(userDoc.data()?.pickup || {})
+    .filter(([, person]) => includeRevoking || !person.revocation)
+    .map(([wallet]) => wallet.toLowerCase());
+};
+
+/**
+ * Checks that an active on-chain authorization is also in the parent's pickup list
+ */
+const checkAuthorizationCreated = async (chainId: number, event: BlockchainEvent): Promise<boolean> => {
+  const authHash = String(event.data.authHash);
+  if (Number(event.data.endDate) * 1000 < Date.now()) {
+    return false;
+  }
+  if ((await findChainEvents(chainId, EVENT_TYPES.AUTHORIZATION_REVOKED, 'authHash', authHash)).length > 0) {
+    return false;
+  }
+
+  const parentWallet = String(event.data.parentWallet);
+  const pickupWallet = String(event.data.pickupWallet);
+  if (!(await getUserPickupWallets(parentWallet)).includes(pickupWallet)) {
+    await recordDrift(chainId, 'authorizationNotInUser', authHash,
+      `Authorization for ${pickupWallet} is active on chain but missing from parent ${parentWallet}`,
+      event.blockNumber, event.transactionHash);
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Checks that a revoked authorization was also removed from the parent's pickup list
+ */
+const checkAuthorizationRevoked = async (chainId: number, event: BlockchainEvent): Promise<boolean> => {
+  const authHash = String(event.data.authHash);
+  const [created] = await findChainEvents(chainId, EVENT_TYPES.AUTHORIZATION_CREATED, 'authHash', authHash);
+  if (!created) {
+    return false;
+  }
+
+  const parentWallet = String(created.data.parentWallet);
+  const pickupWallet = String(created.data.pickupWallet);
+  if (!(await getUserPickupWallets(parentWallet, false)).includes(pickupWallet)) {
+    return false;
+  }
+
+  // A newer authorization for the same person keeps them in the list legitimately
+  const reauthorized = (await findChainEvents(chainId, EVENT_TYPES.AUTHORIZATION_CREATED, 'parentWallet', parentWallet))
+    .some(other => other.data.pickupWallet === pickupWallet && other.blockNumber > event.blockNumber);
+  if (reauthorized) {
+    return false;
+  }
+
+  await recordDrift(chainId, 'revokedAuthorizationInUser', authHash,
+    `Authorization for ${pickupWallet} was revoked on chain but is still listed for parent ${parentWallet}`,
+    event.blockNumber, event.transactionHash);
+  return true;
+};
+
+/**
+ * Checks an indexed event against our records
+ * @returns Whether drift was found
+ */
+const checkEvent = async (chainId: number, event: BlockchainEvent): Promise<boolean> => {
+  switch (event.type) {
+    case EVENT_TYPES.PICKUP_EVENT_RECORDED:
+      return checkPickupEvent(chainId, event);
+    case EVENT_TYPES.MERKLE_BATCH_ANCHORED:
+      return checkMerkleBatch(chainId, event);
+    case EVENT_TYPES.AUTHORIZATION_CREATED:
+      return checkAuthorizationCreated(chainId, event);
+    case EVENT_TYPES.AUTHORIZATION_REVOKED:
+      return checkAuthorizationRevoked(chainId, event);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks that pickups marked confirmed in a block range really are on chain
+ * @returns Number of records with drift
+ */
+const reconcileConfirmedPickups = async (chainId: number, fromBlock: number, toBlock: number): Promise<number> => {
+  const snapshot = await pickupHistoryCollection()
+    .where('blockNumber', '>=', fromBlock)
+    .where('blockNumber', '<=', toBlock)
+    .get();
+
+  let drift = 0;
+  for (const doc of snapshot.docs) {
+    const record = doc.data();
+    if (record.chainId !== chainId || record.anchorStatus !== 'confirmed') {
+      continue;
+    }
+
+    const onChain = record.anchorMode === 'direct'
+      ? await findChainEvents(chainId, EVENT_TYPES.PICKUP_EVENT_RECORDED, 'eventHash', record.blockchainHash)
+      : await findChainEvents(chainId, EVENT_TYPES.MERKLE_BATCH_ANCHORED, 'batchNumber', record.batchNumber);
+
+    if (!onChain.some(event => event.transactionHash === record.contractTxHash)) {
+      await recordDrift(chainId, 'pickupMissingOnChain', doc.id,
+        `Pickup history is confirmed in block ${record.blockNumber}, but transaction ${record.contractTxHash} has no matching event`,
+        record.blockNumber, record.contractTxHash);
+      drift++;
+    }
+  }
+  return drift;
+};
+
+/**
+ * Indexes PickupSecurity events on the server chain up to the confirmed head, then
+ * flags drift against pickupHistory, pickupBatches and users' pickup lists. Each run
+ * continues from the last indexed block; a reorg rolls indexed events back first.
+ */
+export const runChainIndexer = async (now: Date = new Date()): Promise<ChainIndexerResult> => {
+  const chainId = getServerChainId();
+  const network = getPickupSecurityConfig(chainId);
+  const provider = getServerProvider();
+
+  const cursor = await acquireIndexerLease(chainId, now);
+  if (!cursor) {
+    return {
+      skipped: 'Another indexer run is in progress',
+      chainId, fromBlock: 0, toBlock: 0, confirmations: 0, indexed: 0, drift: 0,
+    };
+  }
+
+  try {
+    let { lastBlock, recentBlocks } = cursor;
+    let rolledBackTo: number | undefined;
+
+    const ancestor = await findCommonAncestor(recentBlocks);
+    if (ancestor !== null) {
+      await rollbackEvents(chainId, ancestor, lastBlock);
+      lastBlock = ancestor;
+      recentBlocks = recentBlocks.filter(block => block.number <= ancestor);
+      rolledBackTo = ancestor;
+      await cursorDoc(chainId).set({ lastBlock, recentBlocks }, { merge: true });
+    }
+
+    const confirmations = await getConfirmationDepth(
+      provider,
+      TIMEOUTS.BLOCK_CONFIRMATION,
+      INDEXER_SETTINGS.MAX_CONFIRMATIONS
+    );
+    const confirmedHead = (await provider.getBlockNumber()) - confirmations + 1;
+    const fromBlock = lastBlock + 1;
+    const toBlock = Math.min(confirmedHead, lastBlock + INDEXER_SETTINGS.MAX_BLOCKS_PER_RUN);
+    const result: ChainIndexerResult = { chainId, fromBlock, toBlock, confirmations, indexed: 0, drift: 0, rolledBackTo };
+
+    for (let start = fromBlock; start <= toBlock; start += INDEXER_SETTINGS.MAX_BLOCK_RANGE) {
+      const end = Math.min(start + INDEXER_SETTINGS.MAX_BLOCK_RANGE - 1, toBlock);
+      const events = await getPickupSecurityEvents(provider, start, end, network);
+
+      await saveEvents(chainId, events);
+      result.indexed += events.length;
+      for (const event of events) {
+        if (await checkEvent(chainId, event)) {
+          result.drift++;
+        }
+      }
+
+      // Remember where this chunk ended so the next run can detect a reorg below it
+      const endBlock = await provider.getBlock(end);
+      recentBlocks = [...recentBlocks, { number: end, hash: endBlock!.hash! }].slice(-INDEXER_SETTINGS.RECENT_BLOCKS);
+      await cursorDoc(chainId).set({
+        lastBlock: end,
+        recentBlocks,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+    }
+
+    if (toBlock >= fromBlock) {
+      result.drift += await reconcileConfirmedPickups(chainId, fromBlock, toBlock);
+    }
+    return result;
+  } finally {
+    await releaseIndexerLease(chainId);
+  }
+};
+
+/**
+ * Runs the indexer on every new block, for a long-running worker process.
+ * Runs never overlap; a block that arrives mid-run is picked up by the next one.
+ * @returns Function that stops following
+ */
+export const followChainEvents = (onResult?: (result: ChainIndexerResult) => void): (() => void) => {
+  const provider = getServerProvider();
+  let running = false;
+
+  const onBlock = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await runChainIndexer();
+      onResult?.(result);
+    } catch (error) {
+      console.error('Error indexing chain events:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  provider.on('block', onBlock);
+  return () => {
+    provider.off('block', onBlock);
+  };
+};
+
+/**
+ * Gets the indexer position and the most recent drift findings for the server chain
+ */
+export const getChainIndexerStatus = async (limit: number = 50): Promise<ChainIndexerStatus> => {
+  const chainId = getServerChainId();
+
+  try {
+    const [cursor, drift] = await Promise.all([
+      cursorDoc(chainId).get(),
+      chainDriftCollection().orderBy('detectedAt', 'desc').limit(limit).get(),
+    ]);
+
+    return {
+      chainId,
+      lastBlock: cursor.data()?.lastBlock ?? null,
+      updatedAt: toDate(cursor.data()?.updatedAt) ?? null,
+      drift: drift.docs
+        .map(doc => ({ ...doc.data(), id: doc.id, detectedAt: toDate(doc.data().detectedAt) } as ChainDriftRecord))
+        .filter(record => record.chainId === chainId),
+    };
+  } catch (error) {
+    console.error('Error getting chain indexer status:', error);
+    return { chainId, lastBlock: null, updatedAt: null, drift: [] };
+  }
+};
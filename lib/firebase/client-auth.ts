@@ -3,11 +3,14 @@
 import { signInWithCustomToken, signOut, onAuthStateChanged, User } from 'firebase/auth';
 import { auth } from './client-config';
 import { ethers } from 'ethers';
+import { createSiweMessage, SIWE_ROLE_RESOURCE_PREFIX } from '@/lib/wallet/siwe';
+
+export type AuthRole = 'parent' | 'pickup' | 'staff' | 'admin';
 
 export interface AuthUser {
   uid: string;
   wallet: string;
-  role: 'parent' | 'pickup' | 'staff';
+  role: AuthRole;
   firebaseUser: User;
 }
 
@@ -15,40 +18,78 @@ export interface SignaturePayload {
   wallet: string;
   message: string;
   signature: string;
-  role: 'parent' | 'pickup' | 'staff';
-  timestamp: number;
+  role: AuthRole;
   nonce: string;
 }
 
-export class FirebaseAuthService {
-  /**
-   * Creates a signature message for wallet authentication
-   */
-  static createSignatureMessage(wallet: string, role: string, nonce: string): string {
-    const timestamp = Math.floor(Date.now() / 1000);
-    return `Welcome to KidGuard!
+// API error codes returned once the device session behind a token has ended
+export const SESSION_ENDED_CODES = ['SESSION_REVOKED', 'SESSION_EXPIRED'] as const;
 
-Sign this message to authenticate your ${role} role.
+export type SessionEndedCode = typeof SESSION_ENDED_CODES[number];
 
-Wallet: ${wallet.toLowerCase()}
-Role: ${role}
-Nonce: ${nonce}
-Timestamp: ${timestamp}
+export interface AuthNonceResponse {
+  nonce: string;
+  issuedAt: string;
+  expiresAt: string;
+}
 
-This request will not trigger a blockchain transaction or cost any gas fees.`;
+export class FirebaseAuthService {
+  /**
+   * Creates a Sign-In With Ethereum (EIP-4361) message for wallet authentication
+   */
+  static createSignatureMessage(
+    wallet: string,
+    role: string,
+    authNonce: AuthNonceResponse,
+    chainId: number
+  ): string {
+    return createSiweMessage({
+      domain: window.location.host,
+      address: wallet,
+      statement: `Sign in to KidGuard as ${role}. This request will not trigger a blockchain transaction or cost any gas fees.`,
+      uri: window.location.origin,
+      version: '1',
+      chainId,
+      nonce: authNonce.nonce,
+      issuedAt: authNonce.issuedAt,
+      expirationTime: authNonce.expiresAt,
+      resources: [`${SIWE_ROLE_RESOURCE_PREFIX}${role}`]
+    });
   }
 
   /**
-   * Generates a random nonce for signature security
+   * Requests a single-use nonce from the server for a login or registration attempt
    */
-  static generateNonce(): string {
-    return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+  static async requestNonce(
+    walletAddress: string,
+    role: AuthRole,
+    purpose: 'login' | 'register'
+  ): Promise<AuthNonceResponse> {
+    const response = await fetch('/api/auth/nonce', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        wallet: walletAddress.toLowerCase(),
+        role,
+        purpose
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to obtain authentication nonce');
+    }
+
+    const { nonce, issuedAt, expiresAt } = await response.json();
+    return { nonce, issuedAt, expiresAt };
   }
 
   /**
    * Gets the user's role from Firebase without authentication
    */
-  static async getUserRoleFromFirebase(walletAddress: string): Promise<'parent' | 'pickup' | 'staff' | null> {
+  static async getUserRoleFromFirebase(walletAddress: string): Promise<AuthRole | null> {
     try {
       const response = await fetch('/api/auth/get-user-role', {
         method: 'POST',
@@ -120,8 +161,7 @@ This request will not trigger a blockchain transaction or cost any gas fees.`;
           role: payload.role,
           signature: payload.signature,
           message: payload.message,
-          nonce: payload.nonce,
-          timestamp: payload.timestamp
+          nonce: payload.nonce
         }),
       });
 
@@ -165,12 +205,6 @@ This request will not trigger a blockchain transaction or cost any gas fees.`;
         throw new Error('Invalid signature');
       }
 
-      // Check timestamp (5 minutes tolerance)
-      const currentTime = Math.floor(Date.now() / 1000);
-      if (currentTime - payload.timestamp > 300) {
-        throw new Error('Signature expired');
-      }
-
       // Get custom token from server
       const response = await fetch('/api/auth/login', {
         method: 'POST',
@@ -181,8 +215,7 @@ This request will not trigger a blockchain transaction or cost any gas fees.`;
           wallet: payload.wallet.toLowerCase(),
           signature: payload.signature,
           message: payload.message,
-          nonce: payload.nonce,
-          timestamp: payload.timestamp
+          nonce: payload.nonce
         }),
       });
 
@@ -192,14 +225,15 @@ This request will not trigger a blockchain transaction or cost any gas fees.`;
         throw new Error(error.error || error.message || 'Authentication failed');
       }
 
-      const { customToken, role } = await response.json();
+      const { customToken, role, user } = await response.json();
 
       // Sign in with custom token
       const userCredential = await signInWithCustomToken(auth, customToken);
       
       return {
         uid: userCredential.user.uid,
-        wallet: payload.wallet.toLowerCase(),
+        // A linked wallet signs in to its primary account
+        wallet: user?.wallet || payload.wallet.toLowerCase(),
         role: role,
         firebaseUser: userCredential.user
       };
@@ -210,11 +244,25 @@ This request will not trigger a blockchain transaction or cost any gas fees.`;
     }
   }
 
+  /**
+   * Ends the server-side session for this device. Best effort: a session that was
+   * already revoked or expired simply answers 401.
+   */
+  static async endCurrentSession(): Promise<void> {
+    try {
+      if (!auth.currentUser) return;
+      await authFetch('/api/sessions/current', { method: 'DELETE' });
+    } catch (error) {
+      console.error('Error ending session:', error);
+    }
+  }
+
   /**
    * Signs out the current user
    */
   static async signOut(): Promise<void> {
     try {
+      await this.endCurrentSession();
       await signOut(auth);
     } catch (error) {
       console.error('Error signing out:', error);
@@ -275,6 +323,20 @@ This request will not trigger a blockchain transaction or cost any gas fees.`;
   }
 }
 
+/**
+ * fetch() wrapper that attaches the current user's ID token as a Bearer header
+ */
+export const authFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+  const idToken = await FirebaseAuthService.getIdToken();
+  const headers = new Headers(init.headers);
+
+  if (idToken) {
+    headers.set('Authorization', `Bearer ${idToken}`);
+  }
+
+  return fetch(input, { ...init, headers });
+};
+
 // Legacy functions for backward compatibility
 export const signInWithWallet = async (customToken: string): Promise<boolean> => {
   try {
@@ -275,33 +275,29 @@ export const updateAuthorizationStatus = async (authId: string, isActive: boolea
 };
 
 // User session operations
-export const createUserSession = async (session: UserSession): Promise<boolean> => {
-  try {
-    const sessionDoc = doc(userSessionsCollection, session.wallet.toLowerCase());
-    await setDoc(sessionDoc, {
-      ...session,
-      wallet: session.wallet.toLowerCase(),
-      lastActive: Timestamp.now(),
-    });
-    return true;
-  } catch (error) {
-    console.error('Error creating user session:', error);
-    return false;
-  }
-};
+// Sessions are created, touched and revoked by the API routes; clients can only read their own
+const toUserSession = (id: string, data: any): UserSession => ({
+  id,
+  wallet: data.wallet,
+  role: data.role,
+  userAgent: data.userAgent || '',
+  deviceLabel: data.deviceLabel || 'Unknown device',
+  ipAddress: data.ipAddress || undefined,
+  status: data.status || 'active',
+  createdAt: data.createdAt.toDate(),
+  lastActive: data.lastActive.toDate(),
+  endedAt: data.endedAt ? data.endedAt.toDate() : undefined,
+  endedBy: data.endedBy || undefined,
+  signerWallet: data.signerWallet || undefined,
+});
 
-export const getUserSession = async (walletAddress: string): Promise<UserSession | null> => {
+export const getUserSession = async (sessionId: string): Promise<UserSession | null> => {
   try {
-    const sessionDoc = doc(userSessionsCollection, walletAddress.toLowerCase());
+    const sessionDoc = doc(userSessionsCollection, sessionId);
     const sessionSnap = await getDoc(sessionDoc);
     
     if (sessionSnap.exists()) {
-      const data = sessionSnap.data();
-      return {
-        wallet: data.wallet,
-        role: data.role,
-        lastActive: data.lastActive.toDate(),
-      };
+      return toUserSession(sessionSnap.id, sessionSnap.data());
     }
     return null;
   } catch (error) {
@@ -310,38 +306,31 @@ export const getUserSession = async (walletAddress: string): Promise<UserSession
   }
 };
 
-// NEW: Get user role
-export const getUserRole = async (walletAddress: string): Promise<string | null> => {
+export const getUserSessionsByWallet = async (walletAddress: string): Promise<UserSession[]> => {
   try {
-    const session = await getUserSession(walletAddress);
-    return session?.role || null;
-  } catch (error) {
-    console.error('Error getting user role:', error);
-    return null;
-  }
-};
+    const q = query(
+      userSessionsCollection,
+      where('wallet', '==', walletAddress.toLowerCase())
+    );
+    const snapshot = await getDocs(q);
 
-export const updateUserSession = async (walletAddress: string): Promise<boolean> => {
-  try {
-    const sessionDoc = doc(userSessionsCollection, walletAddress.toLowerCase());
-    await updateDoc(sessionDoc, {
-      lastActive: Timestamp.now(),
-    });
-    return true;
+    return snapshot.docs
+      .map(sessionDoc => toUserSession(sessionDoc.id, sessionDoc.data()))
+      .sort((a, b) => b.lastActive.getTime() - a.lastActive.getTime());
   } catch (error) {
-    console.error('Error updating user session:', error);
-    return false;
+    console.error('Error getting user sessions by wallet:', error);
+    return [];
   }
 };
 
-export const deleteUserSession = async (walletAddress: string): Promise<boolean> => {
+// NEW: Get user role
+export const getUserRole = async (walletAddress: string): Promise<string | null> => {
   try {
-    const sessionDoc = doc(userSessionsCollection, walletAddress.toLowerCase());
-    await deleteDoc(sessionDoc);
-    return true;
+    const userSnap = await getDoc(doc(usersCollection, walletAddress.toLowerCase()));
+    return userSnap.exists() ? userSnap.data().role || null : null;
   } catch (error) {
-    console.error('Error deleting user session:', error);
-    return false;
+    console.error('Error getting user role:', error);
+    return null;
   }
 };
 
@@ -16,6 +16,8 @@ export * from './collections';
 
 // QR Code utilities
 export * from './qr-utils';
+export * from './qr-tokens';
+export * from './qr-totp';
 
 // Legacy user utilities (consider migrating to new collections)
 export * from '../firebaseUtils';
@@ -0,0 +1,88 @@
+import { getAllStudents, getUserById } from './server-collections';
+import { getQRPublicKeyInfo } from './qr-utils';
+import { getPhotoUrl } from './photos';
+import type {
+  OfflineRoster,
+  OfflineRosterPickupPerson,
+  PickupPerson,
+  User
+} from '@/types/database';
+
+// How long a device may validate offline with one roster
+const OFFLINE_ROSTER_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Loads users by wallet, skipping the ones that do not exist
+ */
+const getUsersByWallet = async (wallets: string[]): Promise<Map<string, User>> => {
+  const users = await Promise.all(wallets.map(wallet => getUserById(wallet)));
+  return new Map(
+    users
+      .filter((user): user is User => Boolean(user))
+      .map(user => [user.walletAddress.toLowerCase(), user])
+  );
+};
+
+/**
+ * Builds the roster a staff device caches for offline gate mode: every student with the
+ * wallets that may pick them up (the parent, plus pickup persons that are not revoked and
+ * whose authorization has not ended), the URLs of everyone's photos and the public key signed
+ * QR codes are checked against
+ */
+export const buildOfflineRoster = async (): Promise<OfflineRoster> => {
+  const now = new Date();
+  const students = await getAllStudents();
+
+  const parentWallets = [...new Set(students.map(student => student.parentId.toLowerCase()))];
+  const parents = await getUsersByWallet(parentWallets);
+
+  const activePickup = (parent: User | undefined): [string, PickupPerson][] => {
+    return Object.entries(parent?.pickup || {})
+      .filter(([, person]) => !person.revocation && new Date(person.endDate) >= now);
+  };
+
+  const pickupWallets = [...new Set(
+    [...parents.values()].flatMap(parent => activePickup(parent).map(([wallet]) => wallet))
+  )];
+  const pickupUsers = await getUsersByWallet(pickupWallets);
+
+  const publicKey = getQRPublicKeyInfo();
+
+  return {
+    generatedAt: now.toISOString(),
+    validUntil: new Date(now.getTime() + OFFLINE_ROSTER_TTL_MS).toISOString(),
+    publicKey: publicKey ? { keyId: publicKey.keyId, publicKey: publicKey.publicKey } : null,
+    students: students.map(student => {
+      const parentWallet = student.parentId.toLowerCase();
+      const parent = parents.get(parentWallet);
+
+      const pickupPersons: OfflineRosterPickupPerson[] = [
+        {
+          walletAddress: parentWallet,
+          name: parent?.name,
+          relationship: 'parent',
+          photoUrl: getPhotoUrl('user', parentWallet, parent?.photo),
+          startDate: new Date(0).toISOString(),
+          endDate: new Date(now.getTime() + OFFLINE_ROSTER_TTL_MS).toISOString(),
+        },
+        ...activePickup(parent).map(([wallet, person]) => ({
+          walletAddress: wallet,
+          name: pickupUsers.get(wallet)?.name,
+          relationship: person.relationship,
+          photoUrl: getPhotoUrl('user', wallet, pickupUsers.get(wallet)?.photo),
+          startDate: person.startDate,
+          endDate: person.endDate,
+        })),
+      ];
+
+      return {
+        id: student.id,
+        name: student.name,
+        grade: student.grade,
+        parentWallet,
+        photoUrl: getPhotoUrl('student', student.id, student.photo),
+        pickupPersons,
+      };
+    }),
+  };
+};
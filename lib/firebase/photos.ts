@@ -0,0 +1,230 @@
+/**
+ * Photos of users and students, shown to staff when they verify a pickup.
+ * The image is kept in photo storage (Firebase Storage, or the local filesystem in dev) and
+ * referenced from the owner's document as `photo`.
+ * Server-only: uses the filesystem and is intentionally not exported from the index.
+ */
+
+import admin from 'firebase-admin';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { adminDb } from './admin';
+import type { PhotoReference } from '@/types/database';
+
+export type PhotoOwnerKind = 'user' | 'student';
+
+export interface StoredPhoto {
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface PhotoStorage {
+  /** Stores a photo under a key */
+  put(key: string, content: Uint8Array, contentType: string): Promise<void>;
+  /** Loads a photo, or null if the storage does not have it */
+  get(key: string): Promise<StoredPhoto | null>;
+  /** Removes a photo; removing a missing one is not an error */
+  delete(key: string): Promise<void>;
+}
+
+export const PHOTO_SETTINGS = {
+  MAX_SIZE: 2 * 1024 * 1024, // 2 MB
+} as const;
+
+const DEFAULT_LOCAL_PHOTO_DIR = path.join('.data', 'photos');
+
+const OWNER_COLLECTIONS: Record<PhotoOwnerKind, string> = {
+  user: 'users',
+  student: 'students',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// Keys are generated here; anything else is refused so a key can never leave the directory
+const isPhotoKey = (key: string): boolean => /^(users|students)\/[A-Za-z0-9_-]+\.(jpg|png|webp)$/.test(key);
+
+/**
+ * Detects a supported image type from its first bytes, ignoring what the client claims
+ * @returns The content type, or null if it is not a JPEG, PNG or WebP image
+ */
+export const detectPhotoType = (content: Uint8Array): string | null => {
+  const startsWith = (bytes: number[], offset: number = 0) =>
+    bytes.every((byte, index) => content[offset + index] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+  return null;
+};
+
+/**
+ * Checks an owner ID can be used in a photo key (wallet addresses and student IDs)
+ */
+export const isValidPhotoOwnerId = (id: string): boolean => /^[A-Za-z0-9_-]{1,64}$/.test(id);
+
+/**
+ * Photo storage on the local filesystem, for development
+ */
+export const createLocalPhotoStorage = (directory: string = DEFAULT_LOCAL_PHOTO_DIR): PhotoStorage => {
+  const contentTypes = Object.fromEntries(Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type]));
+
+  const resolve = (key: string): string => {
+    if (!isPhotoKey(key)) {
+      throw new Error(`Invalid photo key ${key}`);
+    }
+    return path.join(directory, key);
+  };
+
+  return {
+    async put(key, content) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, content);
+    },
+
+    async get(key) {
+      try {
+        const content = new Uint8Array(await fs.readFile(resolve(key)));
+        return { content, contentType: contentTypes[key.split('.').pop()!] };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    }
+  };
+};
+
+/**
+ * Photo storage in a Firebase Storage (Google Cloud Storage) bucket
+ * @param bucketName Bucket name, e.g. <project>.appspot.com
+ */
+export const createFirebasePhotoStorage = (bucketName: string): PhotoStorage => {
+  const bucket = admin.storage().bucket(bucketName);
+
+  return {
+    async put(key, content, contentType) {
+      await bucket.file(key).save(Buffer.from(content), { contentType, resumable: false });
+    },
+
+    async get(key) {
+      const file = bucket.file(key);
+      const [exists] = await file.exists();
+      if (!exists) {
+        return null;
+      }
+
+      const [[content], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+      return { content: new Uint8Array(content), contentType: metadata.contentType || 'application/octet-stream' };
+    },
+
+    async delete(key) {
+      await bucket.file(key).delete({ ignoreNotFound: true });
+    }
+  };
+};
+
+let photoStorage: PhotoStorage | null = null;
+
+/**
+ * Gets the configured photo storage: the Firebase Storage bucket PHOTO_STORAGE_BUCKET when
+ * set, otherwise the local filesystem under PHOTO_STORAGE_DIR (default .data/photos)
+ */
+export const getPhotoStorage = (): PhotoStorage => {
+  if (!photoStorage) {
+    photoStorage = process.env.PHOTO_STORAGE_BUCKET
+      ? createFirebasePhotoStorage(process.env.PHOTO_STORAGE_BUCKET)
+      : createLocalPhotoStorage(process.env.PHOTO_STORAGE_DIR || DEFAULT_LOCAL_PHOTO_DIR);
+  }
+  return photoStorage;
+};
+
+/**
+ * Gets the URL staff devices load a photo from. The version changes with every upload, so
+ * cached copies of an old photo are not shown.
+ */
+export const getPhotoUrl = (kind: PhotoOwnerKind, id: string, photo?: PhotoReference | null): string | null => {
+  if (!photo) {
+    return null;
+  }
+  return `/api/photos/${kind}/${encodeURIComponent(id)}?v=${encodeURIComponent(photo.updatedAt)}`;
+};
+
+/**
+ * Gets the photo reference stored on a user or student
+ */
+export const getPhotoReference = async (kind: PhotoOwnerKind, id: string): Promise<PhotoReference | null> => {
+  const doc = await adminDb.collection(OWNER_COLLECTIONS[kind]).doc(id).get();
+  return doc.data()?.photo || null;
+};
+
+/**
+ * Stores a new photo for a user or student and replaces the previous one
+ * @param content Image bytes (JPEG, PNG or WebP, at most PHOTO_SETTINGS.MAX_SIZE)
+ * @param updatedBy Wallet of the uploader
+ * @returns An error for content that is not accepted; storage failures are thrown
+ */
+export const savePhoto = async (
+  kind: PhotoOwnerKind,
+  id: string,
+  content: Uint8Array,
+  updatedBy: string,
+  storage: PhotoStorage = getPhotoStorage()
+): Promise<{ success: boolean; photo?: PhotoReference; error?: string }> => {
+  const contentType = detectPhotoType(content);
+  if (!contentType) {
+    return { success: false, error: 'Photo must be a JPEG, PNG or WebP image' };
+  }
+  if (content.byteLength > PHOTO_SETTINGS.MAX_SIZE) {
+    return { success: false, error: 'Photo must be at most 2 MB' };
+  }
+  if (!isValidPhotoOwnerId(id)) {
+    return { success: false, error: 'Invalid photo owner' };
+  }
+
+  const ownerRef = adminDb.collection(OWNER_COLLECTIONS[kind]).doc(id);
+  const previous: PhotoReference | undefined = (await ownerRef.get()).data()?.photo;
+
+  const photo: PhotoReference = {
+    key: `${OWNER_COLLECTIONS[kind]}/${id}.${EXTENSIONS[contentType]}`,
+    contentType,
+    updatedAt: new Date().toISOString(),
+    updatedBy: updatedBy.toLowerCase(),
+  };
+  await storage.put(photo.key, content, contentType);
+  await ownerRef.update({ photo });
+
+  // Same key means the file was overwritten in place
+  if (previous?.key && previous.key !== photo.key) {
+    await storage.delete(previous.key);
+  }
+
+  return { success: true, photo };
+};
+
+/**
+ * Loads the current photo of a user or student
+ */
+export const loadPhoto = async (
+  kind: PhotoOwnerKind,
+  id: string,
+  storage: PhotoStorage = getPhotoStorage()
+): Promise<StoredPhoto | null> => {
+  const photo = await getPhotoReference(kind, id);
+  return photo ? storage.get(photo.key) : null;
+};
@@ -0,0 +1,493 @@
+import admin from 'firebase-admin';
+import { adminDb } from './admin';
+import { BATCH_SETTINGS, TIMEOUTS } from '../blockchain/constants';
+import { createBatch, createMerkleTree, prepareBatchForAnchoring, validateBatch } from '../blockchain/merkle';
+import {
+  getMerkleBatchTransactionStatus,
+  getPickupEventTransactionStatus,
+  isPickupEventRecorded,
+  submitMerkleBatch
+} from '../blockchain/anchoring';
+import { archiveBatch } from '../blockchain/archive';
+import { getRelayerNetwork, isRelayerConfigured } from '../blockchain/relayer';
+import { resolveTransactionHash } from './transactions';
+import type { PickupEventData } from '../blockchain/types';
+import type { PickupBatchRecord, PickupHistory } from '@/types/database';
+
+const pickupHistoryCollection = () => adminDb.collection('pickupHistory');
+const pickupBatchesCollection = () => adminDb.collection('pickupBatches');
+const jobLeaseDoc = () => adminDb.collection('pickupBatchJobs').doc('anchoring');
+
+const ANCHOR_JOB_SETTINGS = {
+  // A batch that failed this many times is left for an admin to retry
+  MAX_ATTEMPTS: 5,
+  // Base retry delay, doubled for every failed attempt
+  RETRY_DELAY: 60 * 1000,
+  // How long a run may hold the job before another run can take over
+  LEASE_DURATION: 10 * 60 * 1000,
+  // How long a run waits for an anchoring transaction before leaving it for the next run
+  CONFIRMATION_WAIT: TIMEOUTS.TRANSACTION_CONFIRMATION,
+  // How long a direct anchor may stay pending before the request is taken to have died
+  DIRECT_ANCHOR_TIMEOUT: 5 * 60 * 1000
+} as const;
+
+export interface PickupBatchJobResult {
+  skipped?: string;
+  // Direct anchors the job checked on: found on chain, or handed over to batching
+  directConfirmed: string[];
+  directRequeued: string[];
+  created: string[];
+  anchored: string[];
+  pending: string[];
+  failed: { batchId: string; error: string }[];
+}
+
+type UnanchoredPickup = Pick<PickupHistory, 'id' | 'blockchainHash' | 'time' | 'pickupEvent'>;
+
+const toDate = (value: any): Date | undefined => {
+  return value && typeof value.toDate === 'function' ? value.toDate() : value || undefined;
+};
+
+const toBatchRecord = (doc: admin.firestore.DocumentSnapshot): PickupBatchRecord => {
+  const data = doc.data()!;
+  return {
+    ...data,
+    id: doc.id,
+    nextAttemptAt: toDate(data.nextAttemptAt),
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  } as PickupBatchRecord;
+};
+
+const toPickupEventData = (record: UnanchoredPickup): PickupEventData => ({
+  ...record.pickupEvent!,
+  eventHash: record.blockchainHash,
+});
+
+/**
+ * Takes the job lease so overlapping runs never submit the same batch twice
+ */
+const acquireJobLease = async (now: Date): Promise<boolean> => {
+  return adminDb.runTransaction(async (transaction) => {
+    const leaseDoc = await transaction.get(jobLeaseDoc());
+    const leaseUntil = toDate(leaseDoc.data()?.leaseUntil);
+    if (leaseUntil && leaseUntil > now) {
+      return false;
+    }
+
+    transaction.set(jobLeaseDoc(), {
+      leaseUntil: new Date(now.getTime() + ANCHOR_JOB_SETTINGS.LEASE_DURATION),
+      startedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+};
+
+const releaseJobLease = async (): Promise<void> => {
+  await jobLeaseDoc().set({
+    leaseUntil: null,
+    finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, { merge: true });
+};
+
+/**
+ * Gets pickups waiting to be batched, oldest first: queued ones, and direct anchors that
+ * reconcileDirectPickups handed over. Records from before on-chain anchoring have no event
+ * and are skipped.
+ */
+const getUnanchoredPickups = async (): Promise<UnanchoredPickup[]> => {
+  const snapshot = await pickupHistoryCollection()
+    .where('anchorStatus', 'in', ['queued', 'failed'])
+    .get();
+
+  return snapshot.docs
+    .map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        blockchainHash: data.blockchainHash,
+        time: toDate(data.time)!,
+        pickupEvent: data.pickupEvent,
+        batchId: data.batchId,
+        anchorMode: data.anchorMode,
+      };
+    })
+    // Direct anchors may still land on chain, so they wait for reconcileDirectPickups
+    .filter(record => !record.batchId && record.pickupEvent && record.anchorMode !== 'direct')
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+/**
+ * Settles direct anchors whose request failed or died: ones that failed, and ones pending
+ * for longer than DIRECT_ANCHOR_TIMEOUT since the anchor was requested. The sent transaction (following speed-ups) and then
+ * the contract decide: an event already on chain is marked confirmed, one whose transaction
+ * is still pending is left for the next run, and anything else is queued for batching, so no
+ * event is anchored twice.
+ */
+const reconcileDirectPickups = async (
+  now: Date,
+  result: PickupBatchJobResult
+): Promise<void> => {
+  const snapshot = await pickupHistoryCollection()
+    .where('anchorMode', '==', 'direct')
+    .where('anchorStatus', 'in', ['pending', 'failed'])
+    .get();
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    // Aged from the anchor request: an offline pickup's time is its scan, possibly hours before
+    // it synced. Records from before anchorRequestedAt fall back to the pickup time.
+    const requestedAt = toDate(data.anchorRequestedAt) ?? toDate(data.time)!;
+    if (data.anchorStatus === 'pending' && now.getTime() - requestedAt.getTime() < ANCHOR_JOB_SETTINGS.DIRECT_ANCHOR_TIMEOUT) {
+      continue;
+    }
+
+    try {
+      if (data.submittedTxHash) {
+        const txHash = await resolveTransactionHash(data.submittedTxHash);
+        const tx = await getPickupEventTransactionStatus(txHash);
+
+        if (tx.status === 'pending') {
+          continue;
+        }
+        if (tx.status === 'confirmed') {
+          await doc.ref.update({
+            anchorStatus: 'confirmed',
+            contractTxHash: txHash,
+            blockNumber: tx.blockNumber,
+            chainId: getRelayerNetwork().chainId,
+            anchorError: admin.firestore.FieldValue.delete(),
+          });
+          result.directConfirmed.push(doc.id);
+          continue;
+        }
+      }
+
+      // No transaction landed, but an earlier attempt may have recorded the event
+      if (await isPickupEventRecorded(data.blockchainHash)) {
+        await doc.ref.update({
+          anchorStatus: 'confirmed',
+          chainId: getRelayerNetwork().chainId,
+          anchorError: admin.firestore.FieldValue.delete(),
+        });
+        result.directConfirmed.push(doc.id);
+        continue;
+      }
+
+      await doc.ref.update({
+        anchorMode: 'batch',
+        anchorStatus: 'queued',
+        submittedTxHash: admin.firestore.FieldValue.delete(),
+      });
+      result.directRequeued.push(doc.id);
+    } catch (error) {
+      // Left as is; the next run checks again
+      console.error(`Error checking direct anchor of pickup ${doc.id}:`, error);
+    }
+  }
+};
+
+/**
+ * Splits pending pickups into batches of at most MAX_BATCH_SIZE. A batch smaller than
+ * MIN_BATCH_SIZE is only formed once its oldest pickup has waited BATCH_TIMEOUT.
+ */
+const planBatches = (pickups: UnanchoredPickup[], now: Date): UnanchoredPickup[][] => {
+  const groups: UnanchoredPickup[][] = [];
+  for (let i = 0; i < pickups.length; i += BATCH_SETTINGS.MAX_BATCH_SIZE) {
+    groups.push(pickups.slice(i, i + BATCH_SETTINGS.MAX_BATCH_SIZE));
+  }
+
+  return groups.filter(group =>
+    group.length >= BATCH_SETTINGS.MIN_BATCH_SIZE ||
+    now.getTime() - group[0].time.getTime() >= BATCH_SETTINGS.BATCH_TIMEOUT
+  );
+};
+
+/**
+ * Builds a Merkle batch and claims its pickups in one transaction, storing each
+ * pickup's proof up front so a later run only needs the batch to resume
+ */
+const createPickupBatch = async (pickups: UnanchoredPickup[]): Promise<PickupBatchRecord | null> => {
+  const events = pickups.map(toPickupEventData);
+  const batchData = createBatch(events, 0);
+
+  // Stored hashes must match their preimages, or the proofs would not verify
+  if (batchData.eventHashes.some((hash, index) => hash !== pickups[index].blockchainHash)) {
+    throw new Error('Pickup event hash does not match its stored preimage');
+  }
+  if (events.length >= BATCH_SETTINGS.MIN_BATCH_SIZE && !validateBatch(batchData)) {
+    throw new Error('Built an invalid Merkle batch');
+  }
+
+  // The full event list goes to the archive first; its CID is anchored with the root
+  batchData.ipfsHash = await archiveBatch(batchData);
+
+  const anchorData = prepareBatchForAnchoring(batchData);
+  const tree = createMerkleTree(events);
+  const batchRef = pickupBatchesCollection().doc();
+  const historyRefs = pickups.map(pickup => pickupHistoryCollection().doc(pickup.id));
+
+  const claimed = await adminDb.runTransaction(async (transaction) => {
+    const historyDocs = await Promise.all(historyRefs.map(ref => transaction.get(ref)));
+    if (historyDocs.some(doc => !doc.exists || doc.data()!.batchId)) {
+      return false;
+    }
+
+    transaction.set(batchRef, {
+      status: 'pending',
+      historyIds: pickups.map(pickup => pickup.id),
+      eventHashes: batchData.eventHashes,
+      merkleRoot: anchorData.merkleRoot,
+      eventCount: anchorData.eventCount,
+      ipfsHash: anchorData.ipfsHash,
+      chainId: getRelayerNetwork().chainId,
+      attempts: 0,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    historyRefs.forEach((ref, index) => {
+      transaction.update(ref, {
+        batchId: batchRef.id,
+        merkleRoot: batchData.merkleRoot,
+        merkleProof: tree.proofs.get(batchData.eventHashes[index]) || [],
+        anchorMode: 'batch',
+        anchorStatus: 'pending',
+        anchorError: admin.firestore.FieldValue.delete(),
+      });
+    });
+    return true;
+  });
+
+  if (!claimed) {
+    return null;
+  }
+  return toBatchRecord(await batchRef.get());
+};
+
+/**
+ * Updates a batch and, optionally, every pickup in it
+ */
+const updateBatch = async (
+  batch: PickupBatchRecord,
+  batchUpdates: Record<string, unknown>,
+  historyUpdates?: Record<string, unknown>
+): Promise<void> => {
+  const writeBatch = adminDb.batch();
+  writeBatch.update(pickupBatchesCollection().doc(batch.id), {
+    ...batchUpdates,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  if (historyUpdates) {
+    batch.historyIds.forEach(id => writeBatch.update(pickupHistoryCollection().doc(id), historyUpdates));
+  }
+  await writeBatch.commit();
+};
+
+const recordBatchFailure = async (batch: PickupBatchRecord, attempts: number, error: string): Promise<void> => {
+  const exhausted = attempts >= ANCHOR_JOB_SETTINGS.MAX_ATTEMPTS;
+  const retryDelay = ANCHOR_JOB_SETTINGS.RETRY_DELAY * 2 ** (attempts - 1);
+
+  await updateBatch(batch, {
+    status: 'failed',
+    attempts,
+    lastError: error,
+    nextAttemptAt: exhausted ? null : new Date(Date.now() + retryDelay),
+  }, exhausted ? { anchorStatus: 'failed', anchorError: error } : undefined);
+};
+
+/**
+ * Submits a batch (or checks on an earlier submission) and stores the outcome.
+ * The tx hash is persisted before waiting, so a crashed run resumes from the chain.
+ * @returns Batch status after this run
+ */
+const processBatch = async (batch: PickupBatchRecord): Promise<PickupBatchRecord['status']> => {
+  let txHash = batch.status === 'submitted' ? batch.txHash : undefined;
+  let attempts = batch.attempts;
+  // Once a hash is stored the transaction may still land, so errors must not trigger a resend
+  let hasStoredTx = Boolean(txHash);
+
+  try {
+    if (txHash) {
+      // Follow the relayer's speed-ups so a replaced transaction is not mistaken for a dropped one
+      const latestHash = await resolveTransactionHash(txHash);
+      if (latestHash !== txHash.toLowerCase()) {
+        txHash = latestHash;
+        await updateBatch(batch, { txHash });
+      }
+
+      const previous = await getMerkleBatchTransactionStatus(txHash);
+      if (previous.status === 'pending') {
+        return 'submitted';
+      }
+      if (previous.status === 'dropped') {
+        txHash = undefined;
+        hasStoredTx = false;
+      }
+    }
+
+    if (!txHash) {
+      attempts++;
+      const tx = await submitMerkleBatch({
+        merkleRoot: batch.merkleRoot,
+        eventCount: batch.eventCount,
+        ipfsHash: batch.ipfsHash || '',
+      });
+      txHash = tx.hash;
+      await updateBatch(batch, { status: 'submitted', txHash, attempts, lastError: null });
+      hasStoredTx = true;
+    }
+
+    const outcome = await getMerkleBatchTransactionStatus(txHash, ANCHOR_JOB_SETTINGS.CONFIRMATION_WAIT);
+
+    if (outcome.status === 'pending' || outcome.status === 'dropped') {
+      // Left as submitted; the next run checks again and resends a dropped transaction
+      return 'submitted';
+    }
+
+    if (outcome.status === 'failed') {
+      await recordBatchFailure(batch, attempts, 'Anchoring transaction reverted');
+      return 'failed';
+    }
+
+    await updateBatch(batch, {
+      status: 'anchored',
+      batchNumber: outcome.batchNumber,
+      blockNumber: outcome.blockNumber,
+      nextAttemptAt: null,
+    }, {
+      anchorStatus: 'confirmed',
+      contractTxHash: txHash,
+      batchNumber: outcome.batchNumber,
+      blockNumber: outcome.blockNumber,
+      chainId: batch.chainId,
+    });
+    return 'anchored';
+
+  } catch (error: any) {
+    console.error(`Error anchoring pickup batch ${batch.id}:`, error);
+    const message = error.shortMessage || error.message || 'Anchoring failed';
+
+    if (hasStoredTx) {
+      await updateBatch(batch, { lastError: message });
+      return 'submitted';
+    }
+    await recordBatchFailure(batch, Math.max(attempts, 1), message);
+    return 'failed';
+  }
+};
+
+/**
+ * Batches unanchored pickup history and anchors each Merkle root on chain.
+ * Unfinished batches from earlier runs (pending, submitted, or failed and due for
+ * a retry) are resumed, and direct anchors that did not finish are settled, before new
+ * batches are built.
+ */
+export const runPickupBatchAnchoring = async (now: Date = new Date()): Promise<PickupBatchJobResult> => {
+  const result: PickupBatchJobResult = {
+    directConfirmed: [],
+    directRequeued: [],
+    created: [],
+    anchored: [],
+    pending: [],
+    failed: [],
+  };
+
+  if (!isRelayerConfigured()) {
+    throw new Error('RELAYER_PRIVATE_KEY is not configured');
+  }
+
+  if (!(await acquireJobLease(now))) {
+    return { ...result, skipped: 'Another anchoring run is in progress' };
+  }
+
+  const track = async (batch: PickupBatchRecord) => {
+    const status = await processBatch(batch);
+    if (status === 'anchored') {
+      result.anchored.push(batch.id);
+    } else if (status === 'submitted') {
+      result.pending.push(batch.id);
+    } else {
+      const latest = toBatchRecord(await pickupBatchesCollection().doc(batch.id).get());
+      result.failed.push({ batchId: batch.id, error: latest.lastError || 'Anchoring failed' });
+    }
+  };
+
+  try {
+    const unfinished = await pickupBatchesCollection()
+      .where('status', 'in', ['pending', 'submitted', 'failed'])
+      .get();
+
+    for (const doc of unfinished.docs) {
+      const batch = toBatchRecord(doc);
+      if (batch.status === 'failed' && (!batch.nextAttemptAt || batch.nextAttemptAt > now)) {
+        continue;
+      }
+      await track(batch);
+    }
+
+    await reconcileDirectPickups(now, result);
+
+    for (const pickups of planBatches(await getUnanchoredPickups(), now)) {
+      const batch = await createPickupBatch(pickups);
+      if (!batch) {
+        continue;
+      }
+      result.created.push(batch.id);
+      await track(batch);
+    }
+
+    return result;
+  } finally {
+    await releaseJobLease();
+  }
+};
+
+/**
+ * Makes a failed batch eligible for the next run again, resetting its attempts
+ */
+export const retryPickupBatch = async (batchId: string): Promise<boolean> => {
+  try {
+    const batchDoc = await pickupBatchesCollection().doc(batchId).get();
+    if (!batchDoc.exists || batchDoc.data()!.status !== 'failed') {
+      return false;
+    }
+
+    await updateBatch(toBatchRecord(batchDoc), {
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    }, { anchorStatus: 'pending', anchorError: admin.firestore.FieldValue.delete() });
+    return true;
+  } catch (error) {
+    console.error('Error retrying pickup batch:', error);
+    return false;
+  }
+};
+
+/**
+ * Lists the most recent pickup batches
+ */
+export const getRecentPickupBatches = async (limit: number = 20): Promise<PickupBatchRecord[]> => {
+  try {
+    const snapshot = await pickupBatchesCollection()
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(toBatchRecord);
+  } catch (error) {
+    console.error('Error getting pickup batches:', error);
+    return [];
+  }
+};
+
+/**
+ * Counts pickups still waiting to be batched
+ */
+export const countUnanchoredPickups = async (): Promise<number> => {
+  try {
+    return (await getUnanchoredPickups()).length;
+  } catch (error) {
+    console.error('Error counting unanchored pickups:', error);
+    return 0;
+  }
+};
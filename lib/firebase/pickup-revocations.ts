@@ -0,0 +1,327 @@
+import admin from 'firebase-admin';
+import { ethers } from 'ethers';
+import { adminDb } from './admin';
+import { removePickupPersonFromParent } from './server-collections';
+import { resolveTransactionHash } from './transactions';
+import { EVENT_TYPES } from '../blockchain/constants';
+import { getContract, getPickupSecurityConfig } from '../blockchain/contract';
+import { getServerChainId, getServerProvider } from '../blockchain/provider';
+import { isRelayerConfigured, submitRelayedRevocation, submitRelayedRevocations } from '../blockchain/relayer';
+import type {
+  PickupPerson,
+  PickupRevocation,
+  PickupRevocationMethod,
+  PickupRevocationTx
+} from '@/types/database';
+
+const usersCollection = () => adminDb.collection('users');
+const pickupRevocationsCollection = () => adminDb.collection('pickupRevocations');
+const chainEventsCollection = () => adminDb.collection('chainEvents');
+
+export interface PickupRevocationResult {
+  success: boolean;
+  // True when there was nothing on chain and the person was removed straight away
+  removed?: boolean;
+  revocation?: PickupRevocation;
+  error?: string;
+}
+
+type RevocationTxStatus = 'pending' | 'dropped' | 'failed' | 'confirmed';
+
+const isBytes32 = (value: unknown): value is string => {
+  return typeof value === 'string' && ethers.isHexString(value, 32);
+};
+
+/**
+ * Gets one pickup person of a parent
+ */
+const getPickupPerson = async (parentWallet: string, pickupWallet: string): Promise<PickupPerson | null> => {
+  const userDoc = await usersCollection().doc(parentWallet).get();
+  return userDoc.data()?.pickup?.[pickupWallet] || null;
+};
+
+/**
+ * Replaces the revocation state of a pickup person
+ * @returns false when the person is no longer in the parent's list
+ */
+const setRevocation = async (
+  parentWallet: string,
+  pickupWallet: string,
+  revocation: PickupRevocation
+): Promise<boolean> => {
+  return adminDb.runTransaction(async (transaction) => {
+    const userRef = usersCollection().doc(parentWallet);
+    const userDoc = await transaction.get(userRef);
+    const currentPickup = userDoc.data()?.pickup || {};
+
+    if (!currentPickup[pickupWallet]) {
+      return false;
+    }
+
+    currentPickup[pickupWallet] = { ...currentPickup[pickupWallet], revocation };
+    transaction.update(userRef, { pickup: currentPickup });
+    return true;
+  });
+};
+
+/**
+ * Finds the authorizations for a pickup person that are still active on chain: the one
+ * stored with the person, plus any the chain indexer has seen for the same parent
+ */
+const findActiveAuthorizations = async (
+  parentWallet: string,
+  pickupWallet: string,
+  person: PickupPerson,
+  chainId: number
+): Promise<string[]> => {
+  const network = getPickupSecurityConfig(chainId);
+  if (network.contractAddress === ethers.ZeroAddress) {
+    return [];
+  }
+
+  const candidates = new Set<string>();
+  if (person.authHash) {
+    candidates.add(person.authHash.toLowerCase());
+  }
+
+  const indexed = await chainEventsCollection()
+    .where('type', '==', EVENT_TYPES.AUTHORIZATION_CREATED)
+    .where('data.parentWallet', '==', parentWallet)
+    .get();
+  indexed.docs
+    .map(doc => doc.data())
+    .filter(event => event.chainId === chainId && event.data.pickupWallet === pickupWallet)
+    .forEach(event => candidates.add(String(event.data.authHash)));
+
+  // Read the contract directly so an RPC failure surfaces instead of looking like "not found"
+  const contract = getContract(getServerProvider(), network);
+  const active: string[] = [];
+  for (const authHash of candidates) {
+    const auth = await contract.getAuthorization(authHash);
+    if (
+      auth.isActive &&
+      String(auth.parentWallet).toLowerCase() === parentWallet &&
+      String(auth.pickupWallet).toLowerCase() === pickupWallet
+    ) {
+      active.push(authHash);
+    }
+  }
+  return active;
+};
+
+/**
+ * Looks up a revocation transaction and checks it emitted AuthorizationRevoked for its authorization
+ */
+const getRevocationTxStatus = async (tx: PickupRevocationTx, chainId: number): Promise<RevocationTxStatus> => {
+  const provider = getServerProvider();
+  // Relayer transactions may have been sped up or cancelled since the hash was stored
+  const txHash = await resolveTransactionHash(tx.txHash!);
+  const receipt = await provider.getTransactionReceipt(txHash);
+
+  if (!receipt) {
+    return (await provider.getTransaction(txHash)) ? 'pending' : 'dropped';
+  }
+  if (receipt.status !== 1) {
+    return 'failed';
+  }
+
+  const contract = getContract(provider, getPickupSecurityConfig(chainId));
+  const revoked = receipt.logs.some(log => {
+    const parsed = contract.interface.parseLog(log);
+    return parsed?.name === EVENT_TYPES.AUTHORIZATION_REVOKED &&
+      String(parsed.args.authHash).toLowerCase() === tx.authHash.toLowerCase();
+  });
+  return revoked ? 'confirmed' : 'failed';
+};
+
+/**
+ * Starts revoking a pickup person. If they have an active authorization on chain, the person
+ * is marked as pending revocation (and treated as revoked from then on) until every
+ * revokeAuthorization transaction is confirmed; otherwise they are removed straight away.
+ * @param method Who sends the transactions (defaults to the relayer when one is configured)
+ */
+export const requestPickupRevocation = async (
+  parentWallet: string,
+  pickupWallet: string,
+  method?: PickupRevocationMethod
+): Promise<PickupRevocationResult> => {
+  const normalizedParentAddress = parentWallet.toLowerCase();
+  const normalizedPickupAddress = pickupWallet.toLowerCase();
+
+  try {
+    const person = await getPickupPerson(normalizedParentAddress, normalizedPickupAddress);
+    if (!person) {
+      return { success: false, error: 'Pickup person not found' };
+    }
+    if (person.revocation?.status === 'pending') {
+      return { success: true, revocation: person.revocation };
+    }
+
+    const chainId = getServerChainId();
+    const authHashes = await findActiveAuthorizations(normalizedParentAddress, normalizedPickupAddress, person, chainId);
+
+    if (authHashes.length === 0) {
+      const removed = await removePickupPersonFromParent(normalizedParentAddress, normalizedPickupAddress);
+      return removed
+        ? { success: true, removed: true }
+        : { success: false, error: 'Failed to remove pickup authorization' };
+    }
+
+    const revocationMethod = method || (isRelayerConfigured() ? 'relayer' : 'parent');
+    if (revocationMethod === 'relayer' && !isRelayerConfigured()) {
+      return { success: false, error: 'Gasless transactions are not enabled' };
+    }
+
+    // Mark the person as revoked before anything is sent
+    let revocation: PickupRevocation = {
+      status: 'pending',
+      method: revocationMethod,
+      chainId,
+      transactions: authHashes.map(authHash => ({ authHash })),
+      requestedAt: new Date().toISOString(),
+    };
+    await setRevocation(normalizedParentAddress, normalizedPickupAddress, revocation);
+
+    if (revocationMethod === 'relayer') {
+      try {
+        if (getPickupSecurityConfig(chainId).contractVersion === 2) {
+          // v2 revokes them all in one transaction, tracked under each authorization
+          const { hash } = await submitRelayedRevocations(authHashes);
+          revocation.transactions.forEach(tx => { tx.txHash = hash; });
+        } else {
+          for (const tx of revocation.transactions) {
+            tx.txHash = (await submitRelayedRevocation(tx.authHash)).hash;
+          }
+        }
+      } catch (error: any) {
+        console.error('Error submitting relayed revocation:', error);
+        revocation = {
+          ...revocation,
+          status: 'failed',
+          error: error.shortMessage || error.message || 'Failed to submit revocation',
+        };
+      }
+      await setRevocation(normalizedParentAddress, normalizedPickupAddress, revocation);
+    }
+
+    return { success: true, revocation };
+  } catch (error) {
+    console.error('Error requesting pickup revocation:', error);
+    return { success: false, error: 'Failed to revoke pickup authorization' };
+  }
+};
+
+/**
+ * Stores the hash of a revokeAuthorization transaction the parent sent from their own wallet
+ */
+export const recordPickupRevocationTransaction = async (
+  parentWallet: string,
+  pickupWallet: string,
+  authHash: string,
+  txHash: string
+): Promise<PickupRevocationResult> => {
+  const normalizedParentAddress = parentWallet.toLowerCase();
+  const normalizedPickupAddress = pickupWallet.toLowerCase();
+
+  if (!isBytes32(authHash) || !isBytes32(txHash)) {
+    return { success: false, error: 'Invalid authorization or transaction hash' };
+  }
+
+  try {
+    const person = await getPickupPerson(normalizedParentAddress, normalizedPickupAddress);
+    const revocation = person?.revocation;
+    if (!revocation || revocation.method !== 'parent' || revocation.status === 'confirmed') {
+      return { success: false, error: 'No revocation is waiting for this pickup person' };
+    }
+
+    const tx = revocation.transactions.find(entry => entry.authHash === authHash.toLowerCase());
+    if (!tx) {
+      return { success: false, error: 'Authorization is not part of this revocation' };
+    }
+
+    tx.txHash = txHash.toLowerCase();
+    const updated: PickupRevocation = { ...revocation, status: 'pending' };
+    delete updated.error;
+    await setRevocation(normalizedParentAddress, normalizedPickupAddress, updated);
+
+    return { success: true, revocation: updated };
+  } catch (error) {
+    console.error('Error recording revocation transaction:', error);
+    return { success: false, error: 'Failed to record revocation transaction' };
+  }
+};
+
+/**
+ * Removes a pickup person whose revocation is confirmed and keeps the transactions on record
+ */
+const completeRevocation = async (
+  parentWallet: string,
+  pickupWallet: string,
+  revocation: PickupRevocation
+): Promise<void> => {
+  const completed = await adminDb.runTransaction(async (transaction) => {
+    const userRef = usersCollection().doc(parentWallet);
+    const userDoc = await transaction.get(userRef);
+    const currentPickup = userDoc.data()?.pickup || {};
+
+    // Skip if the person was re-added or the revocation restarted meanwhile
+    if (currentPickup[pickupWallet]?.revocation?.requestedAt !== revocation.requestedAt) {
+      return false;
+    }
+
+    delete currentPickup[pickupWallet];
+    transaction.update(userRef, { pickup: currentPickup });
+    return true;
+  });
+
+  if (completed) {
+    await pickupRevocationsCollection().add({
+      parentWallet,
+      pickupWallet,
+      method: revocation.method,
+      chainId: revocation.chainId,
+      transactions: revocation.transactions,
+      requestedAt: new Date(revocation.requestedAt),
+      confirmedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+};
+
+/**
+ * Checks the parent's pending revocations on chain, removing the pickup persons whose
+ * transactions are confirmed and marking the rest failed if a transaction failed or was dropped
+ */
+export const syncPickupRevocations = async (parentWallet: string): Promise<void> => {
+  const normalizedParentAddress = parentWallet.toLowerCase();
+
+  try {
+    const userDoc = await usersCollection().doc(normalizedParentAddress).get();
+    const pickup: Record<string, PickupPerson> = userDoc.data()?.pickup || {};
+
+    for (const [pickupWallet, person] of Object.entries(pickup)) {
+      const revocation = person.revocation;
+      // Wait until every transaction has been sent
+      if (revocation?.status !== 'pending' || revocation.transactions.some(tx => !tx.txHash)) {
+        continue;
+      }
+
+      const statuses = await Promise.all(
+        revocation.transactions.map(tx => getRevocationTxStatus(tx, revocation.chainId))
+      );
+
+      if (statuses.every(status => status === 'confirmed')) {
+        await completeRevocation(normalizedParentAddress, pickupWallet, revocation);
+      } else if (statuses.some(status => status === 'failed' || status === 'dropped')) {
+        await setRevocation(normalizedParentAddress, pickupWallet, {
+          ...revocation,
+          status: 'failed',
+          error: statuses.includes('failed')
+            ? 'Revocation transaction failed on chain'
+            : 'Revocation transaction was dropped',
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error syncing pickup revocations:', error);
+  }
+};
@@ -0,0 +1,107 @@
+import { adminDb } from './admin';
+import { getUserById } from './server-collections';
+import { SCHOOL_ID } from '../blockchain/constants';
+import type { QRSettings } from '@/types/database';
+
+const qrSettingsCollection = () => adminDb.collection('qrSettings');
+
+export const DEFAULT_QR_SETTINGS: QRSettings = {
+  expiryMinutes: 5,
+  rotationSeconds: 30,
+  driftSteps: 1,
+};
+
+// Accepted ranges; rotationSeconds may also be 0 (no rotation)
+export const QR_SETTINGS_LIMITS = {
+  expiryMinutes: { min: 1, max: 60 },
+  rotationSeconds: { min: 10, max: 120 },
+  driftSteps: { min: 0, max: 3 },
+} as const;
+
+// School ids are Firestore document ids
+const SCHOOL_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const toDate = (value: any): Date | undefined => {
+  return value && typeof value.toDate === 'function' ? value.toDate() : value || undefined;
+};
+
+export const isValidSchoolId = (schoolId: unknown): schoolId is string => {
+  return typeof schoolId === 'string' && SCHOOL_ID_PATTERN.test(schoolId);
+};
+
+/**
+ * Gets the school of a user from their user record. Only the server sets schoolId (users
+ * cannot write it, see firestore.rules); records without one belong to the deployment's
+ * default school (NEXT_PUBLIC_SCHOOL_ID).
+ * @returns The school id, or null when the user does not exist or has an invalid schoolId
+ */
+export const getUserSchoolId = async (wallet: string): Promise<string | null> => {
+  const user = await getUserById(wallet);
+  if (!user) {
+    return null;
+  }
+  const schoolId = user.schoolId ?? SCHOOL_ID;
+  return isValidSchoolId(schoolId) ? schoolId : null;
+};
+
+/**
+ * Gets a school's QR code settings, falling back to the defaults
+ */
+export const getQRSettings = async (schoolId: string): Promise<QRSettings> => {
+  try {
+    const doc = await qrSettingsCollection().doc(schoolId).get();
+    const data = doc.data();
+    if (!data) {
+      return DEFAULT_QR_SETTINGS;
+    }
+    return {
+      ...DEFAULT_QR_SETTINGS,
+      ...data,
+      updatedAt: toDate(data.updatedAt),
+    } as QRSettings;
+  } catch (error) {
+    console.error('Error getting QR settings:', error);
+    return DEFAULT_QR_SETTINGS;
+  }
+};
+
+/**
+ * Checks new QR code settings
+ * @returns Error message, or null when they are valid
+ */
+export const validateQRSettings = (settings: Partial<QRSettings>): string | null => {
+  for (const key of ['expiryMinutes', 'rotationSeconds', 'driftSteps'] as const) {
+    const value = settings[key];
+    if (value === undefined) continue;
+
+    const { min, max } = QR_SETTINGS_LIMITS[key];
+    const disablesRotation = key === 'rotationSeconds' && value === 0;
+    if (!Number.isInteger(value) || (!disablesRotation && (value < min || value > max))) {
+      return `${key} must be a whole number between ${min} and ${max}${key === 'rotationSeconds' ? ', or 0' : ''}`;
+    }
+  }
+
+  const expiryMinutes = settings.expiryMinutes ?? DEFAULT_QR_SETTINGS.expiryMinutes;
+  if (settings.rotationSeconds && settings.rotationSeconds > expiryMinutes * 60) {
+    return 'rotationSeconds cannot be longer than the expiry';
+  }
+  return null;
+};
+
+/**
+ * Updates a school's QR code settings
+ */
+export const updateQRSettings = async (
+  updates: Partial<Pick<QRSettings, 'expiryMinutes' | 'rotationSeconds' | 'driftSteps'>>,
+  updatedBy: string,
+  schoolId: string
+): Promise<QRSettings> => {
+  const settings: QRSettings = {
+    ...(await getQRSettings(schoolId)),
+    ...updates,
+    updatedAt: new Date(),
+    updatedBy: updatedBy.toLowerCase(),
+  };
+  await qrSettingsCollection().doc(schoolId).set(settings);
+  return settings;
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { ethers, Wallet } from 'ethers';
+import type { SignedQRPayload } from '../../types/database';
+import { decodeQRToken, getQRKeyId, isSignedQRToken, signQRToken, verifyQRToken, QR_TOKEN_PREFIX } from './qr-tokens';
+import { appendRotatingCode, generateRotationSecret, splitRotatingCode } from './qr-totp';
+
+const NOW = new Date('2025-06-01T08:00:00.000Z').getTime();
+const schoolKey = new ethers.SigningKey(ethers.hexlify(ethers.randomBytes(32)));
+const otherKey = new ethers.SigningKey(ethers.hexlify(ethers.randomBytes(32)));
+
+const payloadFields = (overrides: Partial<SignedQRPayload> = {}): Omit<SignedQRPayload, 'v' | 'kid'> => ({
+  aid: 'auth-record-1',
+  h: 'verification-hash',
+  sid: 'CH001',
+  pw: Wallet.createRandom().address.toLowerCase(),
+  iat: NOW / 1000,
+  exp: NOW / 1000 + 5 * 60,
+  ...overrides
+});
+
+const encodePart = (data: ethers.BytesLike) =>
+  ethers.encodeBase64(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('signQRToken', () => {
+  it('signs tokens that verify against the school public key', () => {
+    const fields = payloadFields();
+    const token = signQRToken(fields, schoolKey);
+    const result = verifyQRToken(token, schoolKey.publicKey, NOW);
+
+    expect(isSignedQRToken(token)).toBe(true);
+    expect(result).toEqual({ valid: true, payload: { v: 1, ...fields, kid: getQRKeyId(schoolKey.publicKey) } });
+    expect(decodeQRToken(token)).toEqual(result.payload);
+  });
+
+  it('names the same key whether its public key is compressed or not', () => {
+    expect(getQRKeyId(schoolKey.publicKey)).toBe(getQRKeyId(schoolKey.compressedPublicKey));
+    expect(getQRKeyId(schoolKey.publicKey)).not.toBe(getQRKeyId(otherKey.publicKey));
+  });
+});
+
+describe('verifyQRToken', () => {
+  it('rejects a token signed with another key', () => {
+    const token = signQRToken(payloadFields(), otherKey);
+
+    expect(verifyQRToken(token, schoolKey.publicKey, NOW)).toMatchObject({ valid: false, error: 'unknown_key' });
+  });
+
+  it('rejects another key signing a token that names the school key', () => {
+    const [, payloadPart] = signQRToken(payloadFields(), schoolKey).split('.');
+    const forged = otherKey.sign(ethers.keccak256(ethers.toUtf8Bytes(`${QR_TOKEN_PREFIX}.${payloadPart}`))).serialized;
+
+    const result = verifyQRToken(`${QR_TOKEN_PREFIX}.${payloadPart}.${encodePart(forged)}`, schoolKey.publicKey, NOW);
+
+    expect(result).toMatchObject({ valid: false, error: 'signature' });
+  });
+
+  it('rejects a token whose payload was changed after signing', () => {
+    const token = signQRToken(payloadFields(), schoolKey);
+    const payload = { ...decodeQRToken(token)!, pw: Wallet.createRandom().address.toLowerCase() };
+    const [, , signaturePart] = token.split('.');
+
+    const result = verifyQRToken(
+      `${QR_TOKEN_PREFIX}.${encodePart(ethers.toUtf8Bytes(JSON.stringify(payload)))}.${signaturePart}`,
+      schoolKey.publicKey,
+      NOW
+    );
+
+    expect(result).toMatchObject({ valid: false, error: 'signature' });
+  });
+
+  it('rejects tokens at and after their expiry', () => {
+    const fields = payloadFields();
+    const token = signQRToken(fields, schoolKey);
+
+    expect(verifyQRToken(token, schoolKey.publicKey, fields.exp * 1000 - 1).valid).toBe(true);
+    expect(verifyQRToken(token, schoolKey.publicKey, fields.exp * 1000)).toMatchObject({ valid: false, error: 'expired' });
+  });
+
+  it('verifies a token carrying a rotating code by its issued part', () => {
+    const token = signQRToken(payloadFields(), schoolKey);
+    const rotation = { authorizationId: 'auth-record-1', secret: generateRotationSecret(), intervalSeconds: 30 };
+    const scanned = appendRotatingCode(token, rotation, NOW);
+
+    expect(splitRotatingCode(scanned).base).toBe(token);
+    expect(decodeQRToken(scanned)).toEqual(decodeQRToken(token));
+    expect(verifyQRToken(scanned, schoolKey.publicKey, NOW)).toEqual({ valid: true, payload: decodeQRToken(token) });
+  });
+
+  it.each([
+    ['legacy JSON data', () => JSON.stringify({ id: 'qr-1' })],
+    ['another prefix', () => signQRToken(payloadFields(), schoolKey).replace(`${QR_TOKEN_PREFIX}.`, 'KG2.')],
+    ['a missing signature', () => signQRToken(payloadFields(), schoolKey).split('.').slice(0, 2).join('.')],
+    ['a payload that is not JSON', () => `${QR_TOKEN_PREFIX}.${encodePart(ethers.toUtf8Bytes('not json'))}.AA`],
+    ['a payload without a pickup wallet', () => signQRToken(payloadFields({ pw: 'nobody' }), schoolKey)]
+  ])('rejects %s as malformed', (_, token) => {
+    expect(verifyQRToken(token(), schoolKey.publicKey, NOW)).toEqual({ valid: false, error: 'malformed' });
+  });
+});
@@ -0,0 +1,130 @@
+import { ethers } from 'ethers';
+import { splitRotatingCode } from './qr-totp';
+import type { SignedQRPayload } from '@/types/database';
+
+// Signed QR tokens: KG1.<base64url payload>.<base64url secp256k1 signature>
+// The signature covers keccak256("KG1.<payload>"), so a staff device holding the school's
+// public key can check a code without reaching the server. Safe to import on the client.
+export const QR_TOKEN_PREFIX = 'KG1';
+
+export type QRTokenError = 'malformed' | 'unknown_key' | 'signature' | 'expired';
+
+export interface QRTokenVerification {
+  valid: boolean;
+  payload?: SignedQRPayload;
+  error?: QRTokenError;
+}
+
+const toBase64Url = (data: ethers.BytesLike): string => {
+  return ethers.encodeBase64(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return ethers.decodeBase64(base64 + '='.repeat((4 - base64.length % 4) % 4));
+};
+
+const isSignedQRPayload = (value: any): value is SignedQRPayload => {
+  return Boolean(value) &&
+    value.v === 1 &&
+    typeof value.aid === 'string' && value.aid.length > 0 &&
+    typeof value.h === 'string' && value.h.length > 0 &&
+    typeof value.sid === 'string' && value.sid.length > 0 &&
+    typeof value.pw === 'string' && ethers.isAddress(value.pw) &&
+    Number.isInteger(value.iat) &&
+    Number.isInteger(value.exp) &&
+    typeof value.kid === 'string';
+};
+
+/**
+ * Digest a token's signature covers
+ */
+const getSigningDigest = (payloadPart: string): string => {
+  return ethers.keccak256(ethers.toUtf8Bytes(`${QR_TOKEN_PREFIX}.${payloadPart}`));
+};
+
+/**
+ * Short ID of a signing key, carried in each token so devices can tell when the key rotated
+ * @param publicKey secp256k1 public key (compressed or not)
+ */
+export const getQRKeyId = (publicKey: string): string => {
+  return ethers.keccak256(ethers.SigningKey.computePublicKey(publicKey, true)).slice(2, 10);
+};
+
+/**
+ * Checks whether scanned data is a signed token rather than the legacy JSON format
+ */
+export const isSignedQRToken = (qrData: string): boolean => {
+  return qrData.startsWith(`${QR_TOKEN_PREFIX}.`);
+};
+
+/**
+ * Signs a QR payload
+ * @param payload Token payload (kid is filled in from the key)
+ * @param signingKey School signing key
+ * @returns Token string to encode in the QR code
+ */
+export const signQRToken = (
+  payload: Omit<SignedQRPayload, 'v' | 'kid'>,
+  signingKey: ethers.SigningKey
+): string => {
+  const fullPayload: SignedQRPayload = { v: 1, ...payload, kid: getQRKeyId(signingKey.publicKey) };
+  const payloadPart = toBase64Url(ethers.toUtf8Bytes(JSON.stringify(fullPayload)));
+  const signature = signingKey.sign(getSigningDigest(payloadPart)).serialized;
+
+  return `${QR_TOKEN_PREFIX}.${payloadPart}.${toBase64Url(signature)}`;
+};
+
+/**
+ * Reads a token's payload without checking its signature. A rotating code appended to the
+ * token is ignored (see qr-totp.ts).
+ * @returns Payload, or null when the token is malformed
+ */
+export const decodeQRToken = (token: string): SignedQRPayload | null => {
+  const parts = splitRotatingCode(token).base.split('.');
+  if (parts.length !== 3 || parts[0] !== QR_TOKEN_PREFIX) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(ethers.toUtf8String(fromBase64Url(parts[1])));
+    return isSignedQRPayload(payload) ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks a token's signature against a public key and its expiry
+ * @param token Scanned token
+ * @param publicKey School public key (as served by /api/qr/public-key)
+ * @param now Current time (ms)
+ */
+export const verifyQRToken = (
+  token: string,
+  publicKey: string,
+  now: number = Date.now()
+): QRTokenVerification => {
+  const payload = decodeQRToken(token);
+  if (!payload) {
+    return { valid: false, error: 'malformed' };
+  }
+  if (payload.kid !== getQRKeyId(publicKey)) {
+    return { valid: false, payload, error: 'unknown_key' };
+  }
+
+  const [, payloadPart, signaturePart] = splitRotatingCode(token).base.split('.');
+  try {
+    const signer = ethers.recoverAddress(getSigningDigest(payloadPart), ethers.hexlify(fromBase64Url(signaturePart)));
+    if (signer !== ethers.computeAddress(publicKey)) {
+      return { valid: false, payload, error: 'signature' };
+    }
+  } catch {
+    return { valid: false, payload, error: 'signature' };
+  }
+
+  if (payload.exp * 1000 <= now) {
+    return { valid: false, payload, error: 'expired' };
+  }
+  return { valid: true, payload };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendRotatingCode,
+  computeRotatingCode,
+  generateRotationSecret,
+  getRotationStep,
+  splitRotatingCode,
+  verifyRotatingCode,
+  ROTATING_CODE_SEPARATOR
+} from './qr-totp';
+
+const NOW = new Date('2025-06-01T08:00:00.000Z').getTime();
+const INTERVAL = 30;
+const AUTHORIZATION_ID = 'auth-record-1';
+const secret = generateRotationSecret();
+const currentStep = getRotationStep(NOW, INTERVAL);
+
+const codeAt = (step: number) => ({ step, code: computeRotatingCode(secret, AUTHORIZATION_ID, step) });
+
+describe('verifyRotatingCode', () => {
+  it.each([-1, 0, 1])('accepts the code of step %i from now', (offset) => {
+    expect(verifyRotatingCode(secret, AUTHORIZATION_ID, codeAt(currentStep + offset), INTERVAL, 1, NOW)).toBe(true);
+  });
+
+  it.each([-2, 2, -100])('rejects the code of step %i from now', (offset) => {
+    expect(verifyRotatingCode(secret, AUTHORIZATION_ID, codeAt(currentStep + offset), INTERVAL, 1, NOW)).toBe(false);
+  });
+
+  it('rejects a code computed with another secret or for another authorization', () => {
+    const otherSecret = { step: currentStep, code: computeRotatingCode(generateRotationSecret(), AUTHORIZATION_ID, currentStep) };
+    const otherAuthorization = { step: currentStep, code: computeRotatingCode(secret, 'auth-record-2', currentStep) };
+
+    expect(verifyRotatingCode(secret, AUTHORIZATION_ID, otherSecret, INTERVAL, 1, NOW)).toBe(false);
+    expect(verifyRotatingCode(secret, AUTHORIZATION_ID, otherAuthorization, INTERVAL, 1, NOW)).toBe(false);
+  });
+
+  it('rejects a code moved to another step', () => {
+    const { code } = codeAt(currentStep);
+
+    expect(verifyRotatingCode(secret, AUTHORIZATION_ID, { step: currentStep + 1, code }, INTERVAL, 1, NOW)).toBe(false);
+  });
+});
+
+describe('splitRotatingCode', () => {
+  it('splits off the code appendRotatingCode adds', () => {
+    const scanned = appendRotatingCode('KG1.payload.signature', { authorizationId: AUTHORIZATION_ID, secret, intervalSeconds: INTERVAL }, NOW);
+
+    expect(splitRotatingCode(scanned)).toEqual({ base: 'KG1.payload.signature', rotating: codeAt(currentStep) });
+  });
+
+  it('leaves data without a code as it is', () => {
+    expect(splitRotatingCode('KG1.payload.signature')).toEqual({ base: 'KG1.payload.signature' });
+  });
+
+  it.each([
+    ['a missing code', '123'],
+    ['an empty code', '123.'],
+    ['a missing step', '.abcdef'],
+    ['a non-numeric step', 'x12.abcdef'],
+    ['a negative step', '-12.abcdef'],
+    ['a code that is not lowercase hex', '123.ABCDEF'],
+    ['an extra segment', '123.abcdef.abcdef'],
+    ['nothing after the separator', '']
+  ])('rejects %s', (_, suffix) => {
+    const scanned = `KG1.payload.signature${ROTATING_CODE_SEPARATOR}${suffix}`;
+
+    expect(splitRotatingCode(scanned)).toEqual({ base: scanned });
+  });
+});
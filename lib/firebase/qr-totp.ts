@@ -0,0 +1,97 @@
+import { ethers } from 'ethers';
+
+// Rotating QR codes: the pickup device appends ~<step>.<code> to the QR data it was issued,
+// where step counts rotation intervals since the epoch and code is an HMAC of the
+// authorization ID and step under a per-authorization secret. A screenshot stops working
+// once the step is outside the server's drift window. Safe to import on the client.
+export const ROTATING_CODE_SEPARATOR = '~';
+
+// Hex characters of the HMAC kept in the code
+const CODE_LENGTH = 16;
+
+// What /api/qr/generate hands the pickup device for a rotating code
+export interface QRRotation {
+  authorizationId: string;
+  secret: string; // Per-authorization secret (hex)
+  intervalSeconds: number;
+}
+
+export interface RotatingCode {
+  step: number;
+  code: string;
+}
+
+/**
+ * Generates a per-authorization rotation secret
+ */
+export const generateRotationSecret = (): string => {
+  return ethers.hexlify(ethers.randomBytes(32));
+};
+
+/**
+ * Gets the rotation step a time falls in
+ * @param time Time (ms)
+ * @param intervalSeconds Rotation interval
+ */
+export const getRotationStep = (time: number, intervalSeconds: number): number => {
+  return Math.floor(time / 1000 / intervalSeconds);
+};
+
+/**
+ * Computes the code shown during one rotation step
+ */
+export const computeRotatingCode = (secret: string, authorizationId: string, step: number): string => {
+  return ethers.computeHmac('sha256', secret, ethers.toUtf8Bytes(`${authorizationId}:${step}`))
+    .slice(2, 2 + CODE_LENGTH);
+};
+
+/**
+ * Appends the current rotating code to issued QR data
+ * @param qrData QR data from /api/qr/generate
+ * @param rotation Rotation details from /api/qr/generate
+ * @param now Current time (ms)
+ */
+export const appendRotatingCode = (
+  qrData: string,
+  rotation: QRRotation,
+  now: number = Date.now()
+): string => {
+  const step = getRotationStep(now, rotation.intervalSeconds);
+  const code = computeRotatingCode(rotation.secret, rotation.authorizationId, step);
+  return `${qrData}${ROTATING_CODE_SEPARATOR}${step}.${code}`;
+};
+
+/**
+ * Splits scanned QR data into the issued part and its rotating code, if any
+ */
+export const splitRotatingCode = (qrData: string): { base: string; rotating?: RotatingCode } => {
+  const index = qrData.lastIndexOf(ROTATING_CODE_SEPARATOR);
+  if (index < 0) {
+    return { base: qrData };
+  }
+
+  const match = /^(\d+)\.([0-9a-f]+)$/.exec(qrData.slice(index + 1));
+  if (!match) {
+    return { base: qrData };
+  }
+  return { base: qrData.slice(0, index), rotating: { step: Number(match[1]), code: match[2] } };
+};
+
+/**
+ * Checks a rotating code against the step at a given time, allowing driftSteps either side
+ * @param time When the code was scanned (ms)
+ */
+export const verifyRotatingCode = (
+  secret: string,
+  authorizationId: string,
+  rotating: RotatingCode,
+  intervalSeconds: number,
+  driftSteps: number,
+  time: number = Date.now()
+): boolean => {
+  const currentStep = getRotationStep(time, intervalSeconds);
+  if (Math.abs(rotating.step - currentStep) > driftSteps) {
+    return false;
+  }
+  return computeRotatingCode(secret, authorizationId, rotating.step) === rotating.code;
+};
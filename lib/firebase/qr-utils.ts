@@ -1,6 +1,52 @@
 import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { decodeQRToken, getQRKeyId, isSignedQRToken, signQRToken } from './qr-tokens';
+import { splitRotatingCode } from './qr-totp';
 import type { QRCodeContent, AuthorizationRecord } from '@/types/database';
 
+export interface QRPublicKeyInfo {
+  algorithm: 'ES256K';
+  keyId: string;
+  publicKey: string; // Compressed secp256k1 public key
+  address: string; // Address the key signs as
+}
+
+let qrSigningKey: ethers.SigningKey | null | undefined;
+
+/**
+ * Gets the key QR tokens are signed with (QR_SIGNING_PRIVATE_KEY), or null when unset
+ */
+const getQRSigningKey = (): ethers.SigningKey | null => {
+  if (qrSigningKey === undefined) {
+    const privateKey = process.env.QR_SIGNING_PRIVATE_KEY;
+    qrSigningKey = privateKey ? new ethers.SigningKey(privateKey) : null;
+  }
+  return qrSigningKey;
+};
+
+/**
+ * Whether new QR codes are issued as signed tokens
+ */
+export const isQRSigningConfigured = (): boolean => {
+  return getQRSigningKey() !== null;
+};
+
+/**
+ * Gets the public key staff devices cache to verify signed QR codes offline
+ */
+export const getQRPublicKeyInfo = (): QRPublicKeyInfo | null => {
+  const signingKey = getQRSigningKey();
+  if (!signingKey) {
+    return null;
+  }
+  return {
+    algorithm: 'ES256K',
+    keyId: getQRKeyId(signingKey.publicKey),
+    publicKey: signingKey.compressedPublicKey,
+    address: ethers.computeAddress(signingKey.publicKey),
+  };
+};
+
 /**
  * Generates a secure hash for QR code verification
  */
@@ -37,6 +83,29 @@ export const createQRCodeContent = (authorizationId: string, hash: string): QRCo
   };
 };
 
+/**
+ * Creates a signed QR token for an authorization record
+ * @throws When QR_SIGNING_PRIVATE_KEY is not configured
+ */
+export const createSignedQRCode = (
+  authorizationId: string,
+  record: Pick<AuthorizationRecord, 'hash' | 'studentId' | 'pickupWallet' | 'expiresAt'>
+): string => {
+  const signingKey = getQRSigningKey();
+  if (!signingKey) {
+    throw new Error('QR_SIGNING_PRIVATE_KEY is not configured');
+  }
+
+  return signQRToken({
+    aid: authorizationId,
+    h: record.hash,
+    sid: record.studentId,
+    pw: record.pickupWallet.toLowerCase(),
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(record.expiresAt.getTime() / 1000),
+  }, signingKey);
+};
+
 /**
  * Converts QR code content to JSON string for encoding
  */
@@ -45,15 +114,24 @@ export const encodeQRContent = (content: QRCodeContent): string => {
 };
 
 /**
- * Parses QR code string back to content object
+ * Parses QR code string back to content object. Accepts signed tokens and the legacy JSON
+ * format, either with a rotating code appended; signatures and codes are not checked here.
  */
 export const parseQRCodeContent = (qrData: string): QRCodeContent | null => {
+  const { base, rotating } = splitRotatingCode(qrData);
+
+  if (isSignedQRToken(base)) {
+    const payload = decodeQRToken(base);
+    return payload ? { id: payload.aid, hash: payload.h, signed: payload, ...(rotating && { rotating }) } : null;
+  }
+
   try {
-    const parsed = JSON.parse(qrData);
+    const parsed = JSON.parse(base);
     if (parsed.id && parsed.hash && typeof parsed.id === 'string' && typeof parsed.hash === 'string') {
       return {
         id: parsed.id,
         hash: parsed.hash,
+        ...(rotating && { rotating }),
       };
     }
     return null;
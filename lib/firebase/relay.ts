@@ -0,0 +1,87 @@
+import admin from 'firebase-admin';
+import { adminDb } from './admin';
+import type { RelayRequestRecord } from '@/types/database';
+import type { TransactionResult } from '@/lib/blockchain/types';
+
+const relayRequestsCollection = () => adminDb.collection('relayRequests');
+const relayNoncesCollection = () => adminDb.collection('relayNonces');
+
+/**
+ * Gets the nonce the wallet's next relay request must be signed with
+ */
+export const getRelayNonce = async (wallet: string): Promise<number | null> => {
+  try {
+    const nonceDoc = await relayNoncesCollection().doc(wallet.toLowerCase()).get();
+    return nonceDoc.exists ? nonceDoc.data()!.next : 0;
+  } catch (error) {
+    console.error('Error getting relay nonce:', error);
+    return null;
+  }
+};
+
+/**
+ * Redeems a relay nonce. Runs in a transaction so each signed request is
+ * submitted at most once, even when it is posted twice at the same time.
+ */
+export const consumeRelayNonce = async (wallet: string, nonce: number): Promise<boolean> => {
+  const nonceRef = relayNoncesCollection().doc(wallet.toLowerCase());
+
+  try {
+    return await adminDb.runTransaction(async (transaction) => {
+      const nonceDoc = await transaction.get(nonceRef);
+      const expected = nonceDoc.exists ? nonceDoc.data()!.next : 0;
+      if (nonce !== expected) {
+        return false;
+      }
+
+      transaction.set(nonceRef, {
+        next: expected + 1,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+  } catch (error) {
+    console.error('Error consuming relay nonce:', error);
+    return false;
+  }
+};
+
+/**
+ * Records a relay request before it is submitted
+ */
+export const createRelayRequest = async (
+  request: Pick<RelayRequestRecord, 'kind' | 'signer' | 'account' | 'nonce' | 'message' | 'signature' | 'chainId'>
+): Promise<string | null> => {
+  try {
+    const requestRef = relayRequestsCollection().doc();
+    await requestRef.set({
+      ...request,
+      signer: request.signer.toLowerCase(),
+      account: request.account.toLowerCase(),
+      status: 'pending',
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return requestRef.id;
+  } catch (error) {
+    console.error('Error creating relay request:', error);
+    return null;
+  }
+};
+
+/**
+ * Stores the outcome of a submitted relay request
+ */
+export const completeRelayRequest = async (requestId: string, result: TransactionResult): Promise<void> => {
+  try {
+    await relayRequestsCollection().doc(requestId).update({
+      status: result.success ? 'confirmed' : 'failed',
+      txHash: result.hash || null,
+      blockNumber: result.blockNumber ?? null,
+      error: result.error || null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error completing relay request:', error);
+  }
+};
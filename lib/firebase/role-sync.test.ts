@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import admin from 'firebase-admin';
+import { ethers, Wallet } from 'ethers';
+import { adminDb } from './admin';
+import { createUserSession, getUserSession } from './server-collections';
+import { deployLocalContract, LOCAL_CHAIN_RPC_URL, ROLE_AUTH_ROLES, useLocalChain } from '../../vitest.chain';
+
+// Runs against the Firestore and Auth emulators (`npm run test:emulator`) and a local chain (LOCAL_CHAIN_RPC_URL)
+describe.skipIf(
+  !process.env.FIRESTORE_EMULATOR_HOST || !process.env.FIREBASE_AUTH_EMULATOR_HOST || !LOCAL_CHAIN_RPC_URL
+)('syncOnChainRoles', () => {
+  let roleAuth: ethers.Contract;
+  let syncOnChainRoles: typeof import('./role-sync').syncOnChainRoles;
+
+  beforeAll(async () => {
+    roleAuth = await deployLocalContract('RoleAuth');
+    useLocalChain({ roleAuth: await roleAuth.getAddress() });
+    ({ syncOnChainRoles } = await import('./role-sync'));
+  });
+
+  // Registers a wallet in Firebase with a custom claim that the sync must keep
+  const registerUser = async (role: string) => {
+    const wallet = Wallet.createRandom().address.toLowerCase();
+    await admin.auth().createUser({ uid: wallet });
+    await admin.auth().setCustomUserClaims(wallet, { wallet, role, schoolId: 'school-1' });
+    await adminDb.collection('users').doc(wallet).set({ wallet, role, isActive: true, createdAt: new Date() });
+    return wallet;
+  };
+
+  const setRole = async (wallet: string, role: number) => {
+    await (await roleAuth.setRole(wallet, role)).wait();
+  };
+
+  it('promotes users granted staff on chain and keeps their other claims', async () => {
+    const wallet = await registerUser('parent');
+    await setRole(wallet, ROLE_AUTH_ROLES.Staff);
+
+    const result = await syncOnChainRoles();
+
+    expect(result.promoted).toContain(wallet);
+    const userDoc = await adminDb.collection('users').doc(wallet).get();
+    expect(userDoc.data()).toMatchObject({ role: 'staff', isActive: true });
+    const { customClaims } = await admin.auth().getUser(wallet);
+    expect(customClaims).toMatchObject({ wallet, role: 'staff', schoolId: 'school-1' });
+  });
+
+  it('disables admins whose role was removed on chain and revokes their sessions', async () => {
+    const wallet = await registerUser('admin');
+    await setRole(wallet, ROLE_AUTH_ROLES.Admin);
+    await syncOnChainRoles();
+    const sessionId = await createUserSession({ wallet, role: 'admin', userAgent: '', deviceLabel: 'Test device' });
+
+    await setRole(wallet, ROLE_AUTH_ROLES.None);
+    const result = await syncOnChainRoles();
+
+    expect(result.demoted).toContain(wallet);
+    const userDoc = await adminDb.collection('users').doc(wallet).get();
+    expect(userDoc.data()).toMatchObject({ role: 'admin', isActive: false });
+    const { customClaims } = await admin.auth().getUser(wallet);
+    expect(customClaims).toMatchObject({ wallet, role: 'none', schoolId: 'school-1' });
+    const session = await getUserSession(sessionId!);
+    expect(session).toMatchObject({ status: 'revoked', endedBy: 'role-sync' });
+  });
+
+  it('leaves wallets that have not registered alone', async () => {
+    const wallet = Wallet.createRandom().address.toLowerCase();
+    await setRole(wallet, ROLE_AUTH_ROLES.Staff);
+
+    const result = await syncOnChainRoles();
+
+    expect(result.promoted).not.toContain(wallet);
+    const userDoc = await adminDb.collection('users').doc(wallet).get();
+    expect(userDoc.exists).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import admin from 'firebase-admin';
+import { adminDb } from './admin';
+import { updateUserClaims } from './auth';
+import { revokeWalletSessions } from './sessions';
+import {
+  getOnChainRole,
+  getRoleAssignments,
+  getRoleAuthConfig,
+  isRoleAuthConfigured,
+  OnChainRole
+} from '../blockchain/roles';
+import { getServerProvider, getServerChainId } from '../blockchain/provider';
+
+// Firebase roles that are mirrored from the RoleAuth contract
+const PRIVILEGED_ROLES: OnChainRole[] = ['staff', 'admin'];
+
+export interface RoleSyncResult {
+  checked: number;
+  promoted: string[];
+  demoted: string[];
+  unchanged: number;
+  errors: { wallet: string; error: string }[];
+}
+
+/**
+ * Mirrors privileged on-chain roles (staff/admin) into Firestore user records and Firebase custom claims.
+ * Users whose privileged role was removed on chain are disabled and their refresh tokens revoked.
+ */
+export const syncOnChainRoles = async (options: { fromBlock?: number } = {}): Promise<RoleSyncResult> => {
+  const roleAuthConfig = getRoleAuthConfig(getServerChainId());
+  if (!isRoleAuthConfigured(roleAuthConfig)) {
+    throw new Error('RoleAuth contract is not configured');
+  }
+
+  const provider = getServerProvider();
+  const result: RoleSyncResult = { checked: 0, promoted: [], demoted: [], unchanged: 0, errors: [] };
+
+  // Candidates: every wallet with a role event on chain plus every privileged user in Firestore
+  const assignments = await getRoleAssignments(provider, options.fromBlock ?? 0, roleAuthConfig);
+  const privilegedUsers = await adminDb
+    .collection('users')
+    .where('role', 'in', PRIVILEGED_ROLES)
+    .get();
+
+  const wallets = new Set<string>([
+    ...assignments.keys(),
+    ...privilegedUsers.docs.map(doc => doc.id.toLowerCase()),
+  ]);
+
+  for (const wallet of wallets) {
+    result.checked++;
+
+    try {
+      const userRef = adminDb.collection('users').doc(wallet);
+      const userDoc = await userRef.get();
+
+      // Wallets that have not registered yet are picked up on registration
+      if (!userDoc.exists) {
+        result.unchanged++;
+        continue;
+      }
+
+      const userData = userDoc.data()!;
+      // Re-read the current role so the result does not depend on event ordering
+      const onChainRole = await getOnChainRole(provider, wallet, roleAuthConfig);
+      const hasPrivilegedRole = PRIVILEGED_ROLES.includes(onChainRole);
+      const wasPrivileged = PRIVILEGED_ROLES.includes(userData.role);
+
+      if (hasPrivilegedRole) {
+        if (userData.role === onChainRole && userData.isActive !== false) {
+          result.unchanged++;
+          continue;
+        }
+
+        await userRef.update({
+          role: onChainRole,
+          isActive: true,
+          roleSyncedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        await updateUserClaims(wallet, { role: onChainRole });
+        result.promoted.push(wallet);
+      } else if (wasPrivileged) {
+        if (userData.isActive === false) {
+          result.unchanged++;
+          continue;
+        }
+
+        await userRef.update({
+          isActive: false,
+          roleRevokedAt: admin.firestore.FieldValue.serverTimestamp(),
+          roleSyncedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        await updateUserClaims(wallet, { role: 'none' });
+        await revokeWalletSessions(wallet, 'role-sync');
+        result.demoted.push(wallet);
+      } else {
+        result.unchanged++;
+      }
+    } catch (error) {
+      result.errors.push({
+        wallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+};
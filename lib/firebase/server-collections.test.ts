@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Wallet } from 'ethers';
+import { adminDb } from './admin';
+import { consumeAuthorizationRecord, createAuthorizationRecord, getAuthorizationRecordById } from './server-collections';
+import type { PickupHistory } from '../../types/database';
+
+// Runs against the Firestore emulator (`npm run test:emulator`)
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('consumeAuthorizationRecord', () => {
+  const newWallet = () => Wallet.createRandom().address.toLowerCase();
+
+  const createRecord = async (expiresAt: Date = new Date(Date.now() + 5 * 60 * 1000)) => {
+    const hash = `hash-${Math.random().toString(36).slice(2)}`;
+    const id = await createAuthorizationRecord({
+      qrCodeId: `qr-${Math.random().toString(36).slice(2)}`,
+      hash,
+      studentId: `CH${Math.floor(Math.random() * 1e6)}`,
+      pickupWallet: newWallet(),
+      parentWallet: newWallet(),
+      expiresAt,
+      isUsed: false,
+      isActive: true,
+    });
+    return { id: id!, hash };
+  };
+
+  const historyFor = (staffWallet: string): Omit<PickupHistory, 'id' | 'time'> => ({
+    blockchainHash: `0x${'ab'.repeat(32)}`,
+    contractTxHash: '',
+    pickupBy: newWallet(),
+    staffId: staffWallet,
+    studentId: 'CH001',
+    anchorMode: 'batch',
+    anchorStatus: 'queued',
+  });
+
+  it('uses the record and writes its pickup history', async () => {
+    const { id, hash } = await createRecord();
+    const staff = newWallet();
+
+    const result = await consumeAuthorizationRecord(id, hash, historyFor(staff));
+
+    expect(result.status).toBe('consumed');
+    const record = await getAuthorizationRecordById(id);
+    expect(record?.isUsed).toBe(true);
+    expect(record?.usedBy).toBe(staff);
+    expect(record?.pickupHistoryId).toBe(result.pickupHistoryId);
+    const history = await adminDb.collection('pickupHistory').doc(result.pickupHistoryId!).get();
+    expect(history.data()).toMatchObject({ staffId: staff, anchorStatus: 'queued' });
+  });
+
+  it('lets only one of two concurrent confirmations use a record', async () => {
+    const { id, hash } = await createRecord();
+    const [staffA, staffB] = [newWallet(), newWallet()];
+
+    const results = await Promise.all([
+      consumeAuthorizationRecord(id, hash, historyFor(staffA)),
+      consumeAuthorizationRecord(id, hash, historyFor(staffB))
+    ]);
+
+    const consumed = results.filter(result => result.status === 'consumed');
+    expect(consumed).toHaveLength(1);
+    expect(results.filter(result => result.status === 'used')).toHaveLength(1);
+
+    const record = await getAuthorizationRecordById(id);
+    expect(record?.isUsed).toBe(true);
+    expect(record?.pickupHistoryId).toBe(consumed[0].pickupHistoryId);
+
+    // Only the winning transaction wrote a history record
+    const written = await adminDb.collection('pickupHistory')
+      .where('staffId', 'in', [staffA, staffB])
+      .get();
+    expect(written.size).toBe(1);
+  });
+
+  it('rejects a wrong hash, an expired record and a used record', async () => {
+    const { id, hash } = await createRecord();
+    const expired = await createRecord(new Date(Date.now() - 1000));
+    const staff = newWallet();
+
+    expect((await consumeAuthorizationRecord(id, 'other-hash', historyFor(staff))).status).toBe('invalid');
+    expect((await consumeAuthorizationRecord(expired.id, expired.hash, historyFor(staff))).status).toBe('expired');
+
+    await consumeAuthorizationRecord(id, hash, historyFor(staff));
+    const again = await consumeAuthorizationRecord(id, hash, historyFor(newWallet()));
+    expect(again).toMatchObject({ status: 'used', usedBy: staff });
+  });
+});
@@ -1,15 +1,18 @@
 // Server-side Firebase collection operations using Admin SDK
+import { FieldPath, type DocumentSnapshot } from 'firebase-admin/firestore';
 import { adminDb } from './admin';
 import type { 
   Student, 
   Authorization, 
   PickupLog, 
   UserSession, 
+  UserSessionStatus,
   QRCodeData,
   User,
   PickupPerson,
   PickupHistory,
   AuthorizationRecord,
+  AuthorizationConsumeResult,
   QRCodeContent
 } from '@/types/database';
 
@@ -50,6 +53,8 @@ export const getUserById = async (walletAddress: string): Promise<User | null> =
         createdAt: data!.createdAt.toDate(),
         lastLoginAt: data!.lastLoginAt.toDate(),
         pickup: data!.pickup || {},
+        photo: data!.photo,
+        schoolId: data!.schoolId,
       };
     }
     return null;
@@ -217,6 +222,7 @@ export const getStudentById = async (studentId: string): Promise<Student | null>
         grade: data!.grade,
         parentId: data!.parentId,
         createdAt: data!.createdAt,
+        photo: data!.photo,
       };
     }
     return null;
@@ -268,6 +274,42 @@ export const getAllStudents = async (): Promise<Student[]> => {
   }
 };
 
+/**
+ * Whether a parent's delegation to a pickup person is in effect: within its date range and not being revoked
+ */
+export const isPickupPersonActive = (pickupPerson: PickupPerson, at: Date = new Date()): boolean => {
+  if (pickupPerson.revocation) {
+    return false;
+  }
+  return at >= new Date(pickupPerson.startDate) && at <= new Date(pickupPerson.endDate);
+};
+
+/**
+ * Gets the students a pickup person may collect right now: the children of every parent
+ * with an active delegation to them
+ */
+export const getStudentsForPickupPerson = async (pickupWallet: string): Promise<Student[]> => {
+  try {
+    const normalizedAddress = pickupWallet.toLowerCase();
+    const parents = await adminDb.collection('users')
+      .where(new FieldPath('pickup', normalizedAddress, 'walletAddress'), '==', normalizedAddress)
+      .get();
+
+    const parentWallets = parents.docs
+      .filter(doc => {
+        const pickupPerson: PickupPerson | undefined = doc.data().pickup?.[normalizedAddress];
+        return pickupPerson && isPickupPersonActive(pickupPerson);
+      })
+      .map(doc => doc.id);
+
+    const students = await Promise.all(parentWallets.map(getStudentsByParent));
+    return students.flat();
+  } catch (error) {
+    console.error('Error getting students for pickup person:', error);
+    return [];
+  }
+};
+
 export const updateStudent = async (studentId: string, updates: Partial<Student>): Promise<boolean> => {
   try {
     await adminDb.collection('students').doc(studentId).update({
@@ -528,31 +570,49 @@ export const markQRCodeAsUsed = async (qrCodeId: string): Promise<boolean> => {
 // USER SESSION OPERATIONS
 // ===============================
 
-export const createUserSession = async (session: UserSession): Promise<boolean> => {
+const toUserSession = (id: string, data: FirebaseFirestore.DocumentData): UserSession => ({
+  id,
+  wallet: data.wallet,
+  role: data.role,
+  userAgent: data.userAgent || '',
+  deviceLabel: data.deviceLabel || 'Unknown device',
+  ipAddress: data.ipAddress || undefined,
+  status: data.status || 'active',
+  createdAt: data.createdAt.toDate(),
+  lastActive: data.lastActive.toDate(),
+  endedAt: data.endedAt ? data.endedAt.toDate() : undefined,
+  endedBy: data.endedBy || undefined,
+  signerWallet: data.signerWallet || undefined,
+});
+
+export const createUserSession = async (
+  session: Omit<UserSession, 'id' | 'status' | 'createdAt' | 'lastActive' | 'endedAt' | 'endedBy'>
+): Promise<string | null> => {
   try {
-    await adminDb.collection('user-sessions').doc(session.wallet.toLowerCase()).set({
+    const sessionRef = adminDb.collection('user-sessions').doc();
+    await sessionRef.set({
       ...session,
+      id: sessionRef.id,
       wallet: session.wallet.toLowerCase(),
+      ipAddress: session.ipAddress || null,
+      signerWallet: session.signerWallet ? session.signerWallet.toLowerCase() : null,
+      status: 'active',
+      createdAt: new Date(),
       lastActive: new Date(),
     });
-    return true;
+    return sessionRef.id;
   } catch (error) {
     console.error('Error creating user session:', error);
-    return false;
+    return null;
   }
 };
 
-export const getUserSession = async (walletAddress: string): Promise<UserSession | null> => {
+export const getUserSession = async (sessionId: string): Promise<UserSession | null> => {
   try {
-    const sessionDoc = await adminDb.collection('user-sessions').doc(walletAddress.toLowerCase()).get();
+    const sessionDoc = await adminDb.collection('user-sessions').doc(sessionId).get();
     
     if (sessionDoc.exists) {
-      const data = sessionDoc.data();
-      return {
-        wallet: data!.wallet,
-        role: data!.role,
-        lastActive: data!.lastActive.toDate(),
-      };
+      return toUserSession(sessionDoc.id, sessionDoc.data()!);
     }
     return null;
   } catch (error) {
@@ -561,19 +621,34 @@ export const getUserSession = async (walletAddress: string): Promise<UserSession
   }
 };
 
+export const getUserSessionsByWallet = async (walletAddress: string): Promise<UserSession[]> => {
+  try {
+    const snapshot = await adminDb.collection('user-sessions')
+      .where('wallet', '==', walletAddress.toLowerCase())
+      .get();
+
+    return snapshot.docs
+      .map(doc => toUserSession(doc.id, doc.data()))
+      .sort((a, b) => b.lastActive.getTime() - a.lastActive.getTime());
+  } catch (error) {
+    console.error('Error getting user sessions by wallet:', error);
+    return [];
+  }
+};
+
 export const getUserRole = async (walletAddress: string): Promise<string | null> => {
   try {
-    const session = await getUserSession(walletAddress);
-    return session?.role || null;
+    const user = await getUserById(walletAddress);
+    return user?.role || null;
   } catch (error) {
     console.error('Error getting user role:', error);
     return null;
   }
 };
 
-export const updateUserSession = async (walletAddress: string): Promise<boolean> => {
+export const updateUserSession = async (sessionId: string): Promise<boolean> => {
   try {
-    await adminDb.collection('user-sessions').doc(walletAddress.toLowerCase()).update({
+    await adminDb.collection('user-sessions').doc(sessionId).update({
       lastActive: new Date(),
     });
     return true;
@@ -583,9 +658,27 @@ export const updateUserSession = async (walletAddress: string): Promise<boolean>
   }
 };
 
-export const deleteUserSession = async (walletAddress: string): Promise<boolean> => {
+export const endUserSession = async (
+  sessionId: string,
+  status: Exclude<UserSessionStatus, 'active'>,
+  endedBy?: string
+): Promise<boolean> => {
+  try {
+    await adminDb.collection('user-sessions').doc(sessionId).update({
+      status,
+      endedAt: new Date(),
+      endedBy: endedBy ? endedBy.toLowerCase() : null,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error ending user session:', error);
+    return false;
+  }
+};
+
+export const deleteUserSession = async (sessionId: string): Promise<boolean> => {
   try {
-    await adminDb.collection('user-sessions').doc(walletAddress.toLowerCase()).delete();
+    await adminDb.collection('user-sessions').doc(sessionId).delete();
     return true;
   } catch (error) {
     console.error('Error deleting user session:', error);
@@ -634,6 +727,12 @@ export const getAuthorizationRecordById = async (recordId: string): Promise<Auth
         expiresAt: data!.expiresAt.toDate(),
         isUsed: data!.isUsed,
         isActive: data!.isActive,
+        usedAt: data!.usedAt?.toDate(),
+        usedBy: data!.usedBy,
+        pickupHistoryId: data!.pickupHistoryId,
+        rotationSecret: data!.rotationSecret,
+        rotationSeconds: data!.rotationSeconds,
+        rotationDriftSteps: data!.rotationDriftSteps,
       };
     }
     return null;
@@ -666,13 +765,56 @@ export const verifyAuthorizationRecord = async (
   }
 };
 
-export const markAuthorizationRecordAsUsed = async (recordId: string): Promise<boolean> => {
+/**
+ * Uses an authorization record for a pickup and writes its pickup history record, in one
+ * transaction: of two staff confirming the same QR code at once only one succeeds, and a
+ * record is never left used without its history entry.
+ * @param usedAt When the pickup happened; the record must not have expired by then
+ */
+export const consumeAuthorizationRecord = async (
+  recordId: string,
+  hash: string,
+  pickupHistory: Omit<PickupHistory, 'id' | 'time'>,
+  usedAt: Date = new Date()
+): Promise<AuthorizationConsumeResult> => {
+  const authRef = adminDb.collection('authorizationRecords').doc(recordId);
+  const historyRef = adminDb.collection('pickupHistory').doc();
+
   try {
-    await adminDb.collection('authorizationRecords').doc(recordId).update({ isUsed: true });
-    return true;
+    return await adminDb.runTransaction(async (transaction) => {
+      const authDoc = await transaction.get(authRef);
+      const data = authDoc.data();
+
+      if (!data || data.hash !== hash || !data.isActive) {
+        return { status: 'invalid' };
+      }
+      if (data.isUsed) {
+        return { status: 'used', usedBy: data.usedBy, usedAt: data.usedAt?.toDate() };
+      }
+      if (usedAt >= data.expiresAt.toDate()) {
+        return { status: 'expired' };
+      }
+
+      const staffWallet = pickupHistory.staffId.toLowerCase();
+      transaction.update(authRef, {
+        isUsed: true,
+        usedAt,
+        usedBy: staffWallet,
+        pickupHistoryId: historyRef.id,
+      });
+      transaction.set(historyRef, {
+        ...pickupHistory,
+        id: historyRef.id,
+        pickupBy: pickupHistory.pickupBy.toLowerCase(),
+        staffId: staffWallet,
+        time: usedAt,
+      });
+
+      return { status: 'consumed', pickupHistoryId: historyRef.id };
+    });
   } catch (error) {
-    console.error('Error marking authorization record as used:', error);
-    return false;
+    console.error('Error consuming authorization record:', error);
+    return { status: 'error' };
   }
 };
 
@@ -709,7 +851,33 @@ export const getActiveAuthorizationsByPickup = async (pickupWallet: string): Pro
 // PICKUP HISTORY OPERATIONS
 // ===============================
 
-export const createPickupHistory = async (pickupHistory: Omit<PickupHistory, 'id' | 'time'>): Promise<string | null> => {
+const toPickupHistory = (doc: DocumentSnapshot): PickupHistory => {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    blockchainHash: data.blockchainHash,
+    contractTxHash: data.contractTxHash,
+    pickupBy: data.pickupBy,
+    staffId: data.staffId,
+    studentId: data.studentId,
+    time: data.time.toDate(),
+    pickupEvent: data.pickupEvent,
+    anchorMode: data.anchorMode,
+    anchorStatus: data.anchorStatus,
+    anchorError: data.anchorError,
+    chainId: data.chainId,
+    blockNumber: data.blockNumber,
+    batchId: data.batchId,
+    batchNumber: data.batchNumber,
+    merkleRoot: data.merkleRoot,
+    merkleProof: data.merkleProof,
+    evidence: data.evidence,
+  };
+};
+
+export const createPickupHistory = async (
+  pickupHistory: Omit<PickupHistory, 'id' | 'time'> & { time?: Date }
+): Promise<string | null> => {
   try {
     const historyRef = adminDb.collection('pickupHistory').doc();
     await historyRef.set({
@@ -717,7 +885,7 @@ export const createPickupHistory = async (pickupHistory: Omit<PickupHistory, 'id
       id: historyRef.id,
       pickupBy: pickupHistory.pickupBy.toLowerCase(),
       staffId: pickupHistory.staffId.toLowerCase(),
-      time: new Date(),
+      time: pickupHistory.time || new Date(),
     });
     return historyRef.id;
   } catch (error) {
@@ -726,6 +894,32 @@ export const createPickupHistory = async (pickupHistory: Omit<PickupHistory, 'id
   }
 };
 
+/**
+ * Stores the on-chain anchoring outcome of a pickup history record
+ */
+export const updatePickupHistoryAnchor = async (
+  historyId: string,
+  updates: Partial<Pick<PickupHistory, 'contractTxHash' | 'anchorStatus' | 'anchorError' | 'submittedTxHash' | 'chainId' | 'blockNumber'>>
+): Promise<boolean> => {
+  try {
+    await adminDb.collection('pickupHistory').doc(historyId).update(updates);
+    return true;
+  } catch (error) {
+    console.error('Error updating pickup history anchor:', error);
+    return false;
+  }
+};
+
+export const getPickupHistoryById = async (historyId: string): Promise<PickupHistory | null> => {
+  try {
+    const historyDoc = await adminDb.collection('pickupHistory').doc(historyId).get();
+    return historyDoc.exists ? toPickupHistory(historyDoc) : null;
+  } catch (error) {
+    console.error('Error getting pickup history by ID:', error);
+    return null;
+  }
+};
+
 export const getPickupHistoryByStudent = async (studentId: string): Promise<PickupHistory[]> => {
   try {
     const snapshot = await adminDb.collection('pickupHistory')
@@ -733,40 +927,32 @@ export const getPickupHistoryByStudent = async (studentId: string): Promise<Pick
       .orderBy('time', 'desc')
       .get();
     
-    return snapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        blockchainHash: data.blockchainHash,
-        contractTxHash: data.contractTxHash,
-        pickupBy: data.pickupBy,
-        staffId: data.staffId,
-        studentId: data.studentId,
-        time: data.time.toDate(),
-      };
-    });
+    return snapshot.docs.map(toPickupHistory);
   } catch (error) {
     console.error('Error getting pickup history by student:', error);
     return [];
   }
 };
 
+export const getPickupHistoryByPickupWallet = async (pickupWallet: string): Promise<PickupHistory[]> => {
+  try {
+    const snapshot = await adminDb.collection('pickupHistory')
+      .where('pickupBy', '==', pickupWallet.toLowerCase())
+      .orderBy('time', 'desc')
+      .get();
+
+    return snapshot.docs.map(toPickupHistory);
+  } catch (error) {
+    console.error('Error getting pickup history by pickup wallet:', error);
+    return [];
+  }
+};
+
 export const getAllPickupHistory = async (): Promise<PickupHistory[]> => {
   try {
     const snapshot = await adminDb.collection('pickupHistory').orderBy('time', 'desc').get();
     
-    return snapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        blockchainHash: data.blockchainHash,
-        contractTxHash: data.contractTxHash,
-        pickupBy: data.pickupBy,
-        staffId: data.staffId,
-        studentId: data.studentId,
-        time: data.time.toDate(),
-      };
-    });
+    return snapshot.docs.map(toPickupHistory);
   } catch (error) {
     console.error('Error getting all pickup history:', error);
     return [];
@@ -0,0 +1,160 @@
+import admin from 'firebase-admin';
+import type { NextRequest } from 'next/server';
+import type { UserSession } from '@/types/database';
+import {
+  createUserSession,
+  getUserSession,
+  getUserSessionsByWallet,
+  updateUserSession,
+  endUserSession
+} from './server-collections';
+
+/**
+ * Session lifetime settings
+ */
+export const SESSION_SETTINGS = {
+  // Sessions without authenticated API activity for this long are expired
+  IDLE_TIMEOUT_MS: Number(process.env.SESSION_IDLE_TIMEOUT_MINUTES || 30) * 60 * 1000,
+  // Minimum gap between lastActive writes, so each request does not cost a Firestore write
+  ACTIVITY_WRITE_INTERVAL_MS: 60 * 1000,
+} as const;
+
+export type SessionEndReason = 'not_found' | 'expired' | 'revoked';
+
+export type SessionCheckResult =
+  | { valid: true; session: UserSession }
+  | { valid: false; reason: SessionEndReason };
+
+const BROWSER_PATTERNS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OS_PATTERNS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Builds a short human-readable device label such as "Chrome on Windows"
+ */
+export const describeUserAgent = (userAgent: string): string => {
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+};
+
+const getRequestIp = (request: NextRequest): string | undefined => {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || undefined;
+};
+
+/**
+ * Records a new device session for a successful login or registration.
+ * The returned id is embedded in the custom token as the `sid` claim.
+ * `signerWallet` is the linked wallet used to sign in, if not the account wallet.
+ */
+export const startSession = async (
+  wallet: string,
+  role: UserSession['role'],
+  request: NextRequest,
+  signerWallet?: string
+): Promise<string | null> => {
+  const userAgent = request.headers.get('user-agent') || '';
+
+  return createUserSession({
+    wallet: wallet.toLowerCase(),
+    role,
+    userAgent,
+    deviceLabel: describeUserAgent(userAgent),
+    ipAddress: getRequestIp(request),
+    signerWallet: signerWallet && signerWallet.toLowerCase() !== wallet.toLowerCase() ? signerWallet : undefined,
+  });
+};
+
+/**
+ * Checks that a session belongs to the wallet, has not been revoked and is not idle.
+ * Idle sessions are marked expired; active ones have their lastActive refreshed
+ * unless `trackActivity` is false.
+ */
+export const checkSession = async (
+  sessionId: string,
+  wallet: string,
+  options: { trackActivity?: boolean } = {}
+): Promise<SessionCheckResult> => {
+  const session = await getUserSession(sessionId);
+  if (!session || session.wallet !== wallet.toLowerCase()) {
+    return { valid: false, reason: 'not_found' };
+  }
+
+  if (session.status === 'revoked') {
+    return { valid: false, reason: 'revoked' };
+  }
+  if (session.status !== 'active') {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const idleFor = Date.now() - session.lastActive.getTime();
+  if (idleFor > SESSION_SETTINGS.IDLE_TIMEOUT_MS) {
+    await endUserSession(session.id, 'expired');
+    return { valid: false, reason: 'expired' };
+  }
+
+  if (options.trackActivity !== false && idleFor > SESSION_SETTINGS.ACTIVITY_WRITE_INTERVAL_MS) {
+    await updateUserSession(session.id);
+  }
+
+  return { valid: true, session };
+};
+
+/**
+ * Force-logs-out one device: marks its session revoked, so withAuth and firestore.rules reject
+ * every token carrying its sid, including ones it mints with its refresh token. The wallet's other
+ * sessions are untouched (Firebase refresh tokens are per user, so they are left alone too); use
+ * revokeWalletSessions to sign out every device.
+ */
+export const revokeSession = async (session: UserSession, revokedBy: string): Promise<boolean> => {
+  return endUserSession(session.id, 'revoked', revokedBy);
+};
+
+/**
+ * Revokes every active session of a wallet, e.g. when its privileged role is withdrawn, along
+ * with its Firebase refresh tokens. Pass `signerWallet` to only revoke sessions signed in with
+ * that linked wallet; the refresh tokens are then kept, as the other sessions still use them.
+ */
+export const revokeWalletSessions = async (
+  wallet: string,
+  revokedBy: string,
+  signerWallet?: string
+): Promise<number> => {
+  const sessions = await getUserSessionsByWallet(wallet);
+  const activeSessions = sessions.filter(session =>
+    session.status === 'active' &&
+    (!signerWallet || session.signerWallet === signerWallet.toLowerCase())
+  );
+
+  await Promise.all(activeSessions.map(session => endUserSession(session.id, 'revoked', revokedBy)));
+  if (!signerWallet) {
+    await admin.auth().revokeRefreshTokens(wallet.toLowerCase());
+  }
+
+  return activeSessions.length;
+};
+
+/**
+ * Ends a session on normal logout
+ */
+export const endSession = async (sessionId: string, wallet: string): Promise<boolean> => {
+  return endUserSession(sessionId, 'ended', wallet);
+};
@@ -0,0 +1,202 @@
+import admin from 'firebase-admin';
+import { ethers } from 'ethers';
+import { adminDb } from './admin';
+import { getServerChainId, getServerProvider } from '../blockchain/provider';
+import { getTransactionStatus } from '../blockchain/transactions';
+import type { TransactionStatusUpdate } from '../blockchain/types';
+import type { TrackedTransactionRecord, TrackedTransactionSource } from '@/types/database';
+
+const transactionsCollection = () => adminDb.collection('transactions');
+
+// Longest replacement chain followed when resolving a hash
+const MAX_REPLACEMENTS = 10;
+
+export interface TrackTransactionOptions {
+  method: string;
+  source: TrackedTransactionSource;
+  // Hash of the pending transaction this one replaces (speed-up or cancel)
+  replaces?: string;
+}
+
+const toDate = (value: any): Date | undefined => {
+  return value && typeof value.toDate === 'function' ? value.toDate() : value || undefined;
+};
+
+const toTransactionRecord = (doc: admin.firestore.DocumentSnapshot): TrackedTransactionRecord => {
+  const data = doc.data()!;
+  return {
+    ...data,
+    submittedAt: toDate(data.submittedAt),
+    updatedAt: toDate(data.updatedAt),
+  } as TrackedTransactionRecord;
+};
+
+/**
+ * Stores a sent transaction. A replacement is linked to the transaction it replaces.
+ */
+export const trackTransaction = async (
+  tx: ethers.TransactionResponse,
+  options: TrackTransactionOptions
+): Promise<void> => {
+  const hash = tx.hash.toLowerCase();
+  const replaces = options.replaces?.toLowerCase();
+  const previous = replaces ? await transactionsCollection().doc(replaces).get() : null;
+
+  const batch = adminDb.batch();
+  batch.set(transactionsCollection().doc(hash), {
+    hash,
+    chainId: Number(tx.chainId),
+    from: tx.from.toLowerCase(),
+    nonce: tx.nonce,
+    to: tx.to?.toLowerCase() ?? null,
+    method: options.method,
+    source: options.source,
+    status: 'pending',
+    speedUps: previous?.exists ? (previous.data()?.speedUps ?? 0) + 1 : 0,
+    maxFeePerGas: tx.maxFeePerGas?.toString() ?? null,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString() ?? null,
+    gasPrice: tx.maxFeePerGas === null ? tx.gasPrice.toString() : null,
+    replaces: replaces ?? null,
+    submittedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  if (previous?.exists) {
+    batch.update(previous.ref, {
+      replacedBy: hash,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+  await batch.commit();
+};
+
+/**
+ * Stores a status change reported by the transaction manager. Untracked hashes are ignored.
+ */
+export const recordTransactionStatus = async (update: TransactionStatusUpdate): Promise<void> => {
+  const ref = transactionsCollection().doc(update.hash.toLowerCase());
+  const doc = await ref.get();
+  if (!doc.exists) {
+    return;
+  }
+
+  await ref.update({
+    status: update.status,
+    ...(update.replacedBy && { replacedBy: update.replacedBy.toLowerCase() }),
+    ...(update.blockNumber !== undefined && { blockNumber: update.blockNumber }),
+    ...(update.gasUsed !== undefined && { gasUsed: update.gasUsed }),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+/**
+ * Tracks a relayer transaction, logging instead of failing: a send that went out must
+ * not be reported as failed because Firestore was unavailable
+ */
+export const trackRelayerTransaction = async (tx: ethers.TransactionResponse, method: string): Promise<void> => {
+  try {
+    await trackTransaction(tx, { method, source: 'relayer' });
+  } catch (error) {
+    console.error(`Error tracking relayer transaction ${tx.hash}:`, error);
+  }
+};
+
+/**
+ * Stores a relayer transaction's status change, logging instead of failing
+ */
+export const recordRelayerTransactionStatus = async (update: TransactionStatusUpdate): Promise<void> => {
+  try {
+    await recordTransactionStatus(update);
+  } catch (error) {
+    console.error(`Error updating relayer transaction ${update.hash}:`, error);
+  }
+};
+
+/**
+ * Gets a tracked transaction
+ */
+export const getTrackedTransaction = async (hash: string): Promise<TrackedTransactionRecord | null> => {
+  const doc = await transactionsCollection().doc(hash.toLowerCase()).get();
+  return doc.exists ? toTransactionRecord(doc) : null;
+};
+
+/**
+ * Re-reads a pending transaction from the chain and stores its current status.
+ * A transaction that vanished because it was replaced is marked 'replaced', not 'dropped'.
+ * @returns The updated record, or null if it is not tracked
+ */
+export const refreshTrackedTransaction = async (hash: string): Promise<TrackedTransactionRecord | null> => {
+  const record = await getTrackedTransaction(hash);
+  if (!record || record.status !== 'pending' || record.chainId !== getServerChainId()) {
+    return record;
+  }
+
+  const update = await getTransactionStatus(getServerProvider(), record.hash);
+  if (update.status === 'dropped' && record.replacedBy) {
+    update.status = 'replaced';
+  }
+  if (update.status === 'pending') {
+    return record;
+  }
+
+  await recordTransactionStatus(update);
+  return { ...record, ...update, updatedAt: new Date() };
+};
+
+/**
+ * Follows speed-ups and cancellations to the latest transaction sent for a hash's nonce.
+ * Callers that stored a hash (batches, revocations) check this one instead.
+ */
+export const resolveTransactionHash = async (hash: string): Promise<string> => {
+  let current = hash.toLowerCase();
+
+  for (let i = 0; i < MAX_REPLACEMENTS; i++) {
+    const doc = await transactionsCollection().doc(current).get();
+    const replacedBy = doc.data()?.replacedBy;
+    if (!replacedBy) {
+      break;
+    }
+    current = replacedBy;
+  }
+  return current;
+};
+
+/**
+ * Gets transactions on the server chain still pending since before a cutoff, skipping
+ * those already replaced (their replacement is followed instead)
+ */
+export const getStuckTransactions = async (
+  source: TrackedTransactionSource,
+  submittedBefore: Date
+): Promise<TrackedTransactionRecord[]> => {
+  const snapshot = await transactionsCollection()
+    .where('source', '==', source)
+    .where('status', '==', 'pending')
+    .get();
+
+  return snapshot.docs
+    .map(toTransactionRecord)
+    .filter(record =>
+      record.chainId === getServerChainId() &&
+      !record.replacedBy &&
+      record.submittedAt &&
+      record.submittedAt < submittedBefore
+    )
+    .sort((a, b) => a.nonce - b.nonce);
+};
+
+/**
+ * Gets a wallet's most recent tracked transactions, newest first
+ */
+export const getWalletTransactions = async (
+  wallet: string,
+  limit: number = 20
+): Promise<TrackedTransactionRecord[]> => {
+  const snapshot = await transactionsCollection()
+    .where('from', '==', wallet.toLowerCase())
+    .get();
+
+  return snapshot.docs
+    .map(toTransactionRecord)
+    .sort((a, b) => (b.submittedAt?.getTime() ?? 0) - (a.submittedAt?.getTime() ?? 0))
+    .slice(0, limit);
+};
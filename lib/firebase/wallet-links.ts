@@ -0,0 +1,141 @@
+import admin from 'firebase-admin';
+import { adminDb } from './admin';
+import type { WalletLink } from '@/types/database';
+
+/**
+ * Limits for secondary wallets linked to an account
+ */
+export const WALLET_LINK_SETTINGS = {
+  MAX_LINKED_WALLETS: 5,
+} as const;
+
+const walletLinksCollection = () => adminDb.collection('walletLinks');
+
+const toWalletLink = (data: FirebaseFirestore.DocumentData): WalletLink => ({
+  wallet: data.wallet,
+  primaryWallet: data.primaryWallet,
+  authorizedBy: data.authorizedBy,
+  message: data.message,
+  signature: data.signature,
+  linkedSignature: data.linkedSignature,
+  status: data.status,
+  createdAt: data.createdAt.toDate(),
+  revokedAt: data.revokedAt ? data.revokedAt.toDate() : undefined,
+  revokedBy: data.revokedBy || undefined,
+});
+
+/**
+ * Gets the link record for a wallet, whatever its status
+ */
+export const getWalletLink = async (walletAddress: string): Promise<WalletLink | null> => {
+  try {
+    const linkDoc = await walletLinksCollection().doc(walletAddress.toLowerCase()).get();
+    return linkDoc.exists ? toWalletLink(linkDoc.data()!) : null;
+  } catch (error) {
+    console.error('Error getting wallet link:', error);
+    return null;
+  }
+};
+
+/**
+ * Lists the active wallets linked to an account
+ */
+export const getActiveWalletLinks = async (primaryWallet: string): Promise<WalletLink[]> => {
+  try {
+    const snapshot = await walletLinksCollection()
+      .where('primaryWallet', '==', primaryWallet.toLowerCase())
+      .where('status', '==', 'active')
+      .get();
+    return snapshot.docs.map(doc => toWalletLink(doc.data()));
+  } catch (error) {
+    console.error('Error getting wallet links:', error);
+    return [];
+  }
+};
+
+/**
+ * Maps a wallet to the account it signs in to: the primary wallet for an
+ * actively linked wallet, otherwise the wallet itself.
+ */
+export const resolveAccountWallet = async (walletAddress: string): Promise<string> => {
+  const normalizedAddress = walletAddress.toLowerCase();
+  const link = await getWalletLink(normalizedAddress);
+  return link?.status === 'active' ? link.primaryWallet : normalizedAddress;
+};
+
+/**
+ * Checks whether a wallet is already authorized for an account, either as
+ * its primary wallet or as an active linked wallet
+ */
+export const isWalletAuthorizedForAccount = async (walletAddress: string, accountWallet: string): Promise<boolean> => {
+  return (await resolveAccountWallet(walletAddress)) === accountWallet.toLowerCase();
+};
+
+/**
+ * Records a new link. Fails if the wallet already has its own account, is
+ * already linked, or the account has reached the link limit.
+ */
+export const createWalletLink = async (
+  link: Omit<WalletLink, 'status' | 'createdAt' | 'revokedAt' | 'revokedBy'>
+): Promise<{ success: boolean; error?: string }> => {
+  const linkedWallet = link.wallet.toLowerCase();
+  const primaryWallet = link.primaryWallet.toLowerCase();
+  const linkRef = walletLinksCollection().doc(linkedWallet);
+
+  try {
+    return await adminDb.runTransaction(async (transaction) => {
+      const [userDoc, linkDoc, existingLinks] = await Promise.all([
+        transaction.get(adminDb.collection('users').doc(linkedWallet)),
+        transaction.get(linkRef),
+        transaction.get(
+          walletLinksCollection()
+            .where('primaryWallet', '==', primaryWallet)
+            .where('status', '==', 'active')
+        ),
+      ]);
+
+      if (userDoc.exists) {
+        return { success: false, error: 'This wallet already has its own account' };
+      }
+      if (linkDoc.exists && linkDoc.data()!.status === 'active') {
+        return { success: false, error: 'This wallet is already linked to an account' };
+      }
+      if (existingLinks.size >= WALLET_LINK_SETTINGS.MAX_LINKED_WALLETS) {
+        return { success: false, error: `An account can have at most ${WALLET_LINK_SETTINGS.MAX_LINKED_WALLETS} linked wallets` };
+      }
+
+      transaction.set(linkRef, {
+        ...link,
+        wallet: linkedWallet,
+        primaryWallet,
+        authorizedBy: link.authorizedBy.toLowerCase(),
+        status: 'active',
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        revokedAt: null,
+        revokedBy: null,
+      });
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Error creating wallet link:', error);
+    return { success: false, error: 'Failed to link wallet' };
+  }
+};
+
+/**
+ * Unlinks a wallet so it can no longer sign in to the account
+ */
+export const revokeWalletLink = async (walletAddress: string, revokedBy: string): Promise<boolean> => {
+  try {
+    await walletLinksCollection().doc(walletAddress.toLowerCase()).update({
+      status: 'revoked',
+      revokedAt: admin.firestore.FieldValue.serverTimestamp(),
+      revokedBy: revokedBy.toLowerCase(),
+    });
+    return true;
+  } catch (error) {
+    console.error('Error revoking wallet link:', error);
+    return false;
+  }
+};
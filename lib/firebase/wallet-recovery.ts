@@ -0,0 +1,301 @@
+import admin from 'firebase-admin';
+import { adminDb } from './admin';
+import { revokeWalletSessions } from './sessions';
+import type { WalletRecovery, WalletRecoveryStatus } from '@/types/database';
+
+// Only parent and pickup accounts are recoverable; staff and admin roles are granted on chain
+const RECOVERABLE_ROLES = ['parent', 'pickup', 'pickup_person'];
+
+export interface WalletRecoveryResult {
+  success: boolean;
+  recovery?: WalletRecovery;
+  error?: string;
+}
+
+const walletRecoveriesCollection = () => adminDb.collection('walletRecoveries');
+
+const toWalletRecovery = (id: string, data: FirebaseFirestore.DocumentData): WalletRecovery => ({
+  id,
+  oldWallet: data.oldWallet,
+  newWallet: data.newWallet,
+  reason: data.reason,
+  status: data.status,
+  requestedBy: data.requestedBy,
+  requestedAt: data.requestedAt.toDate(),
+  reviewedBy: data.reviewedBy || undefined,
+  reviewedAt: data.reviewedAt ? data.reviewedAt.toDate() : undefined,
+  reviewNote: data.reviewNote || undefined,
+  completedAt: data.completedAt ? data.completedAt.toDate() : undefined,
+  error: data.error || undefined,
+  changes: data.changes || undefined,
+});
+
+/**
+ * JSON-safe form of a recovery record for API responses
+ */
+export const toRecoveryResponse = (recovery: WalletRecovery) => ({
+  ...recovery,
+  requestedAt: recovery.requestedAt.toISOString(),
+  reviewedAt: recovery.reviewedAt?.toISOString(),
+  completedAt: recovery.completedAt?.toISOString(),
+});
+
+export const getWalletRecovery = async (recoveryId: string): Promise<WalletRecovery | null> => {
+  try {
+    const recoveryDoc = await walletRecoveriesCollection().doc(recoveryId).get();
+    return recoveryDoc.exists ? toWalletRecovery(recoveryDoc.id, recoveryDoc.data()!) : null;
+  } catch (error) {
+    console.error('Error getting wallet recovery:', error);
+    return null;
+  }
+};
+
+export const getWalletRecoveries = async (status?: WalletRecoveryStatus): Promise<WalletRecovery[]> => {
+  try {
+    const query = status
+      ? walletRecoveriesCollection().where('status', '==', status)
+      : walletRecoveriesCollection();
+    const snapshot = await query.get();
+
+    return snapshot.docs
+      .map(doc => toWalletRecovery(doc.id, doc.data()))
+      .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
+  } catch (error) {
+    console.error('Error getting wallet recoveries:', error);
+    return [];
+  }
+};
+
+/**
+ * Opens a recovery request moving an account from a lost wallet to a new one.
+ * The request must be approved by a different staff member before anything changes.
+ */
+export const requestWalletRecovery = async (
+  oldWallet: string,
+  newWallet: string,
+  reason: string,
+  requestedBy: string
+): Promise<WalletRecoveryResult> => {
+  const from = oldWallet.toLowerCase();
+  const to = newWallet.toLowerCase();
+
+  if (from === to) {
+    return { success: false, error: 'The new wallet must differ from the lost wallet' };
+  }
+
+  try {
+    const [oldUserDoc, newUserDoc, newWalletLink, pending] = await Promise.all([
+      adminDb.collection('users').doc(from).get(),
+      adminDb.collection('users').doc(to).get(),
+      adminDb.collection('walletLinks').doc(to).get(),
+      walletRecoveriesCollection().where('oldWallet', '==', from).where('status', '==', 'pending').get(),
+    ]);
+
+    if (!oldUserDoc.exists) {
+      return { success: false, error: 'No account found for the lost wallet' };
+    }
+    if (!RECOVERABLE_ROLES.includes(oldUserDoc.data()!.role)) {
+      return { success: false, error: 'Only parent and pickup accounts can be recovered' };
+    }
+    if (newUserDoc.exists) {
+      return { success: false, error: 'The new wallet already has its own account' };
+    }
+    if (newWalletLink.exists && newWalletLink.data()!.status === 'active') {
+      return { success: false, error: 'The new wallet is linked to another account' };
+    }
+    if (!pending.empty) {
+      return { success: false, error: 'A recovery for this wallet is already pending' };
+    }
+
+    const recoveryRef = walletRecoveriesCollection().doc();
+    await recoveryRef.set({
+      oldWallet: from,
+      newWallet: to,
+      reason,
+      status: 'pending',
+      requestedBy: requestedBy.toLowerCase(),
+      requestedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { success: true, recovery: (await getWalletRecovery(recoveryRef.id)) || undefined };
+  } catch (error) {
+    console.error('Error requesting wallet recovery:', error);
+    return { success: false, error: 'Failed to create recovery request' };
+  }
+};
+
+/**
+ * Claims a pending recovery for review. Runs in a transaction so a request is
+ * only ever approved or rejected once, and never by the staff member who opened it.
+ */
+const claimForReview = async (
+  recoveryId: string,
+  reviewer: string,
+  status: 'approved' | 'rejected',
+  reviewNote?: string
+): Promise<{ success: boolean; recovery?: WalletRecovery; error?: string }> => {
+  const recoveryRef = walletRecoveriesCollection().doc(recoveryId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const recoveryDoc = await transaction.get(recoveryRef);
+    if (!recoveryDoc.exists) {
+      return { success: false, error: 'Recovery request not found' };
+    }
+
+    const recovery = toWalletRecovery(recoveryDoc.id, recoveryDoc.data()!);
+    if (recovery.status !== 'pending') {
+      return { success: false, error: `Recovery request is already ${recovery.status}` };
+    }
+    if (recovery.requestedBy === reviewer) {
+      return { success: false, error: 'A recovery must be reviewed by a different staff member' };
+    }
+
+    transaction.update(recoveryRef, {
+      status,
+      reviewedBy: reviewer,
+      reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+      reviewNote: reviewNote || null,
+    });
+
+    return { success: true, recovery };
+  });
+};
+
+/**
+ * Moves the account to the new wallet: copies the user document, re-points
+ * `students.parentId`, re-keys other parents' `pickup` maps and linked wallets,
+ * disables the old account and revokes its sessions. The move runs in one
+ * transaction and aborts if the new wallet has an account by then, so it never
+ * overwrites one. The recovery document records every change as the audit trail.
+ */
+const moveAccount = async (recovery: WalletRecovery, approvedBy: string): Promise<NonNullable<WalletRecovery['changes']>> => {
+  const { oldWallet, newWallet } = recovery;
+  const usersCollection = adminDb.collection('users');
+
+  const changes = await adminDb.runTransaction(async (transaction) => {
+    const [oldUserDoc, newUserDoc, studentsSnap, pickupParentsSnap, linksSnap] = await Promise.all([
+      transaction.get(usersCollection.doc(oldWallet)),
+      transaction.get(usersCollection.doc(newWallet)),
+      transaction.get(adminDb.collection('students').where('parentId', '==', oldWallet)),
+      transaction.get(usersCollection.where(new admin.firestore.FieldPath('pickup', oldWallet, 'walletAddress'), '==', oldWallet)),
+      transaction.get(adminDb.collection('walletLinks').where('primaryWallet', '==', oldWallet).where('status', '==', 'active')),
+    ]);
+
+    if (!oldUserDoc.exists) {
+      throw new Error('Account for the lost wallet no longer exists');
+    }
+    if (newUserDoc.exists) {
+      throw new Error('The new wallet already has its own account');
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+
+    transaction.create(usersCollection.doc(newWallet), {
+      ...oldUserDoc.data(),
+      id: newWallet,
+      wallet: newWallet,
+      walletAddress: newWallet,
+      isActive: true,
+      recoveredFrom: oldWallet,
+      recoveredAt: now,
+    });
+    transaction.update(usersCollection.doc(oldWallet), {
+      isActive: false,
+      recoveredTo: newWallet,
+      recoveredAt: now,
+    });
+
+    studentsSnap.docs.forEach(doc => {
+      transaction.update(doc.ref, { parentId: newWallet });
+    });
+
+    pickupParentsSnap.docs.forEach(doc => {
+      const delegation = doc.data().pickup[oldWallet];
+      transaction.update(
+        doc.ref,
+        new admin.firestore.FieldPath('pickup', newWallet), { ...delegation, walletAddress: newWallet },
+        new admin.firestore.FieldPath('pickup', oldWallet), admin.firestore.FieldValue.delete()
+      );
+    });
+
+    linksSnap.docs.forEach(doc => {
+      transaction.update(doc.ref, { primaryWallet: newWallet });
+    });
+
+    return {
+      studentIds: studentsSnap.docs.map(doc => doc.id),
+      pickupParents: pickupParentsSnap.docs.map(doc => doc.id),
+      linkedWallets: linksSnap.docs.map(doc => doc.id),
+    };
+  });
+
+  try {
+    await revokeWalletSessions(oldWallet, approvedBy);
+  } catch (error) {
+    // The old account is already disabled, so a failed token revocation is not fatal
+    console.error('Error revoking sessions of recovered wallet:', error);
+  }
+
+  return changes;
+};
+
+/**
+ * Approves a pending recovery and moves the account to the new wallet
+ */
+export const approveWalletRecovery = async (
+  recoveryId: string,
+  approvedBy: string,
+  reviewNote?: string
+): Promise<WalletRecoveryResult> => {
+  const reviewer = approvedBy.toLowerCase();
+  const recoveryRef = walletRecoveriesCollection().doc(recoveryId);
+
+  let claimed;
+  try {
+    claimed = await claimForReview(recoveryId, reviewer, 'approved', reviewNote);
+  } catch (error) {
+    console.error('Error approving wallet recovery:', error);
+    return { success: false, error: 'Failed to approve recovery request' };
+  }
+  if (!claimed.success || !claimed.recovery) {
+    return { success: false, error: claimed.error };
+  }
+
+  try {
+    const changes = await moveAccount(claimed.recovery, reviewer);
+    await recoveryRef.update({
+      status: 'completed',
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      changes,
+    });
+  } catch (error) {
+    console.error('Error moving recovered account:', error);
+    await recoveryRef.update({
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { success: false, error: 'Recovery failed while moving the account' };
+  }
+
+  return { success: true, recovery: (await getWalletRecovery(recoveryId)) || undefined };
+};
+
+/**
+ * Rejects a pending recovery without changing the account
+ */
+export const rejectWalletRecovery = async (
+  recoveryId: string,
+  rejectedBy: string,
+  reviewNote?: string
+): Promise<WalletRecoveryResult> => {
+  try {
+    const claimed = await claimForReview(recoveryId, rejectedBy.toLowerCase(), 'rejected', reviewNote);
+    if (!claimed.success) {
+      return { success: false, error: claimed.error };
+    }
+    return { success: true, recovery: (await getWalletRecovery(recoveryId)) || undefined };
+  } catch (error) {
+    console.error('Error rejecting wallet recovery:', error);
+    return { success: false, error: 'Failed to reject recovery request' };
+  }
+};
@@ -0,0 +1,144 @@
+/**
+ * Offline Gate Store
+ * IndexedDB storage for offline gate mode on staff devices: the cached roster and its photos,
+ * pickups confirmed while offline, and reconciliation results that need a staff member's attention
+ */
+
+import type { OfflinePickup, OfflinePickupResult, OfflineRoster } from '@/types/database';
+
+const DB_NAME = 'kidguard-gate';
+const DB_VERSION = 2;
+const ROSTER_STORE = 'roster';
+const QUEUE_STORE = 'queue';
+const CONFLICT_STORE = 'conflicts';
+const PHOTO_STORE = 'photos'; // Photo blobs keyed by their roster URL
+const ROSTER_KEY = 'current';
+const DEVICE_ID_KEY = 'kidguard-gate-device-id';
+
+// A reconciliation result kept with the pickup it belongs to
+export interface OfflinePickupConflict extends OfflinePickupResult {
+  pickup: OfflinePickup;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Opens the database, creating its stores on first use
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(ROSTER_STORE);
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'localId' });
+          db.createObjectStore(CONFLICT_STORE, { keyPath: 'localId' });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(PHOTO_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs one operation against a store
+ */
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(operation(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+/**
+ * Whether this browser can run offline gate mode
+ */
+export const isOfflineGateSupported = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+/**
+ * Gets a stable ID for this device, used to tell devices apart in conflicts
+ */
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+export const saveRoster = async (roster: OfflineRoster): Promise<void> => {
+  await withStore(ROSTER_STORE, 'readwrite', store => store.put(roster, ROSTER_KEY));
+};
+
+export const loadRoster = async (): Promise<OfflineRoster | null> => {
+  const roster = await withStore<OfflineRoster | undefined>(ROSTER_STORE, 'readonly', store => store.get(ROSTER_KEY));
+  return roster || null;
+};
+
+export const addQueuedPickup = async (pickup: OfflinePickup): Promise<void> => {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(pickup));
+};
+
+export const getQueuedPickups = async (): Promise<OfflinePickup[]> => {
+  const pickups = await withStore<OfflinePickup[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+  return pickups.sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+};
+
+export const removeQueuedPickup = async (localId: string): Promise<void> => {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.delete(localId));
+};
+
+export const addConflict = async (conflict: OfflinePickupConflict): Promise<void> => {
+  await withStore(CONFLICT_STORE, 'readwrite', store => store.put(conflict));
+};
+
+export const getConflicts = async (): Promise<OfflinePickupConflict[]> => {
+  return withStore<OfflinePickupConflict[]>(CONFLICT_STORE, 'readonly', store => store.getAll());
+};
+
+export const removeConflict = async (localId: string): Promise<void> => {
+  await withStore(CONFLICT_STORE, 'readwrite', store => store.delete(localId));
+};
+
+export const saveCachedPhoto = async (url: string, photo: Blob): Promise<void> => {
+  await withStore(PHOTO_STORE, 'readwrite', store => store.put(photo, url));
+};
+
+export const loadCachedPhoto = async (url: string): Promise<Blob | null> => {
+  const photo = await withStore<Blob | undefined>(PHOTO_STORE, 'readonly', store => store.get(url));
+  return photo || null;
+};
+
+export const getCachedPhotoUrls = async (): Promise<string[]> => {
+  const keys = await withStore<IDBValidKey[]>(PHOTO_STORE, 'readonly', store => store.getAllKeys());
+  return keys.map(String);
+};
+
+export const removeCachedPhoto = async (url: string): Promise<void> => {
+  await withStore(PHOTO_STORE, 'readwrite', store => store.delete(url));
+};
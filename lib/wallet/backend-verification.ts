@@ -4,8 +4,12 @@
  */
 
 import { verifyMessage } from 'ethers';
-import type { AuthorizationMessage } from '../../types/wallet';
-import { parseAuthorizationMessage } from './signature';
+import type { AuthorizationMessage, PickupAuthorizationTypedData } from '../../types/wallet';
+import {
+  parseAuthorizationMessage,
+  isPickupAuthorizationTypedData,
+  verifyPickupAuthorizationSignature
+} from './signature';
 
 interface BackendVerificationResult {
   isValid: boolean;
@@ -14,12 +18,13 @@ interface BackendVerificationResult {
   studentId?: string;
   studentName?: string;
   authorizationData?: Partial<AuthorizationMessage>;
+  nonce?: string;
   error?: string;
 }
 
 /**
- * Verifies a complete authorization signature on the backend
- * This function should be used by the backend to verify parent authorizations
+ * Verifies a legacy text authorization signature on the backend
+ * Kept for authorizations signed before the EIP-712 format was introduced
  */
 export const verifyParentAuthorization = async (
   message: string,
@@ -86,6 +91,74 @@ export const verifyParentAuthorization = async (
   }
 };
 
+/**
+ * Verifies an EIP-712 pickup authorization signature on the backend
+ * This function should be used by the backend to verify parent authorizations
+ */
+export const verifyParentAuthorizationTypedData = async (
+  typedData: PickupAuthorizationTypedData,
+  signature: string,
+  chainId: number,
+  expectedParentWallet: string
+): Promise<BackendVerificationResult> => {
+  try {
+    if (!isPickupAuthorizationTypedData(typedData)) {
+      return {
+        isValid: false,
+        error: 'Malformed pickup authorization'
+      };
+    }
+
+    const normalizedExpected = expectedParentWallet.toLowerCase();
+
+    if (typedData.parent.toLowerCase() !== normalizedExpected) {
+      return {
+        isValid: false,
+        error: 'Parent wallet in authorization does not match expected wallet'
+      };
+    }
+
+    const verification = verifyPickupAuthorizationSignature({
+      typedData,
+      signature,
+      expectedAddress: normalizedExpected,
+      chainId
+    });
+
+    if (!verification.isValid) {
+      return {
+        isValid: false,
+        error: verification.error ||
+          `Signature verification failed. Expected ${normalizedExpected}, got ${verification.recoveredAddress}`
+      };
+    }
+
+    const authorizationData: Partial<AuthorizationMessage> = {
+      parentWallet: typedData.parent.toLowerCase(),
+      pickupWallet: typedData.pickupWallet.toLowerCase(),
+      studentId: typedData.studentId,
+      startDate: new Date(typedData.startDate * 1000).toISOString(),
+      endDate: new Date(typedData.endDate * 1000).toISOString()
+    };
+
+    return {
+      isValid: true,
+      parentWallet: authorizationData.parentWallet,
+      pickupWallet: authorizationData.pickupWallet,
+      studentId: authorizationData.studentId,
+      authorizationData,
+      nonce: typedData.nonce
+    };
+
+  } catch (error: any) {
+    console.error('Backend typed-data authorization verification error:', error);
+    return {
+      isValid: false,
+      error: error.message || 'Verification failed'
+    };
+  }
+};
+
 /**
  * Validates that an authorization is still valid (within date range)
  */
@@ -1,17 +1,27 @@
 /**
- * Core wallet integration utilities for MetaMask connection and management
- * Handles wallet detection, connection, and basic operations
+ * Core wallet integration utilities for wallet connection and management
+ * Handles wallet detection, connection, and basic operations for the active provider
  */
 
 import { BrowserProvider } from 'ethers';
 import type {
   WalletState,
   WalletConnectionResult,
+  NetworkSwitchResult,
   MetaMaskEthereumProvider,
+  Eip1193Provider,
   NetworkInfo,
   WalletError,
 } from '../../types/wallet';
 import { WalletErrorCode, SUPPORTED_NETWORKS } from '../../types/wallet';
+import { getNetworkConfig } from '../blockchain/constants';
+import {
+  getActiveProvider,
+  hasWalletConnectSession,
+  isWalletConnectActive,
+  isWalletConnectConfigured,
+  requestProviderAccounts
+} from './providers';
 
 /**
  * Checks if MetaMask is installed in the browser
@@ -30,17 +40,27 @@ export const isMetaMaskInstalled = (): boolean => {
 };
 
 /**
- * Gets the MetaMask provider instance
+ * Checks if any wallet can be used: an injected wallet or WalletConnect
  */
-export const getMetaMaskProvider = (): MetaMaskEthereumProvider | null => {
-  if (typeof window === 'undefined' || !window.ethereum) {
+export const isWalletAvailable = (): boolean => {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  return Boolean(getActiveProvider()) || isWalletConnectConfigured();
+};
+
+/**
+ * Gets the EIP-1193 provider of the active wallet
+ */
+export const getWalletProvider = (): Eip1193Provider | null => {
+  if (typeof window === 'undefined') {
     return null;
   }
-  return window.ethereum as MetaMaskEthereumProvider;
+  return getActiveProvider();
 };
 
 /**
- * Creates a BrowserProvider instance from MetaMask
+ * Creates a BrowserProvider instance from the active wallet
  */
 export const createProvider = (): BrowserProvider | null => {
   try {
@@ -49,7 +69,7 @@ export const createProvider = (): BrowserProvider | null => {
       return null;
     }
 
-    const ethereum = getMetaMaskProvider();
+    const ethereum = getWalletProvider();
     if (!ethereum) {
       return null;
     }
@@ -67,7 +87,7 @@ let isConnecting = false;
 let connectionPromise: Promise<WalletConnectionResult> | null = null;
 
 /**
- * Connects to MetaMask wallet
+ * Connects to the active wallet
  */
 export const connectWallet = async (): Promise<WalletConnectionResult> => {
   try {
@@ -76,18 +96,11 @@ export const connectWallet = async (): Promise<WalletConnectionResult> => {
       return await connectionPromise;
     }
 
-    if (!isMetaMaskInstalled()) {
-      return {
-        success: false,
-        error: 'MetaMask is not installed. Please install MetaMask to continue.'
-      };
-    }
-
-    const ethereum = getMetaMaskProvider();
+    const ethereum = getWalletProvider();
     if (!ethereum) {
       return {
         success: false,
-        error: 'Failed to access MetaMask provider.'
+        error: 'No wallet found. Install a browser wallet or connect a phone wallet with WalletConnect.'
       };
     }
 
@@ -97,14 +110,12 @@ export const connectWallet = async (): Promise<WalletConnectionResult> => {
     connectionPromise = (async () => {
       try {
         // Request account access
-        const accounts = await ethereum.request({
-          method: 'eth_requestAccounts'
-        }) as string[];
+        const accounts = await requestProviderAccounts();
 
         if (!accounts || accounts.length === 0) {
           return {
             success: false,
-            error: 'No accounts found. Please make sure MetaMask is unlocked.'
+            error: 'No accounts found. Please make sure your wallet is unlocked.'
           };
         }
 
@@ -129,8 +140,8 @@ export const connectWallet = async (): Promise<WalletConnectionResult> => {
     
     console.error('Failed to connect wallet:', error);
     
-    // Handle specific MetaMask errors
-    if (error.code === WalletErrorCode.USER_REJECTED) {
+    // Handle specific wallet errors
+    if (String(error.code) === WalletErrorCode.USER_REJECTED) {
       return {
         success: false,
         error: 'Connection was rejected. Please approve the connection request.'
@@ -141,7 +152,7 @@ export const connectWallet = async (): Promise<WalletConnectionResult> => {
     if (error.message && error.message.includes('Already processing eth_requestAccounts')) {
       return {
         success: false,
-        error: 'MetaMask is already processing a connection request. Please wait and try again.'
+        error: 'Your wallet is already processing a connection request. Please wait and try again.'
       };
     }
 
@@ -162,11 +173,15 @@ export const getConnectedAccounts = async (): Promise<string[]> => {
       return [];
     }
 
-    const ethereum = getMetaMaskProvider();
+    const ethereum = getWalletProvider();
     if (!ethereum) {
       return [];
     }
 
+    if (isWalletConnectActive() && !hasWalletConnectSession()) {
+      return [];
+    }
+
     const accounts = await ethereum.request({
       method: 'eth_accounts'
     }) as string[];
@@ -187,14 +202,14 @@ export const getConnectedAccounts = async (): Promise<string[]> => {
  */
 export const getCurrentChainId = async (): Promise<number | null> => {
   try {
-    const ethereum = getMetaMaskProvider();
+    const ethereum = getWalletProvider();
     if (!ethereum) return null;
 
     const chainId = await ethereum.request({
       method: 'eth_chainId'
-    }) as string;
+    }) as string | number;
 
-    return parseInt(chainId, 16);
+    return typeof chainId === 'number' ? chainId : parseInt(chainId, 16);
   } catch (error) {
     console.error('Failed to get chain ID:', error);
     return null;
@@ -208,6 +223,13 @@ export const isNetworkSupported = (chainId: number): boolean => {
   return chainId in SUPPORTED_NETWORKS;
 };
 
+/**
+ * Lists the chain IDs the application accepts
+ */
+export const getSupportedChainIds = (): number[] => {
+  return Object.keys(SUPPORTED_NETWORKS).map(Number);
+};
+
 /**
  * Gets network information for a given chain ID
  */
@@ -219,6 +241,74 @@ export const getNetworkInfo = (chainId: number): NetworkInfo => {
   };
 };
 
+const toHexChainIdParam = (chainId: number): string => `0x${chainId.toString(16)}`;
+
+/**
+ * Asks the wallet to add a known network (EIP-3085)
+ */
+export const addNetwork = async (chainId: number): Promise<NetworkSwitchResult> => {
+  const ethereum = getWalletProvider();
+  if (!ethereum) {
+    return { success: false, error: 'No wallet connected.' };
+  }
+
+  const network = getNetworkConfig(chainId);
+  if (!network) {
+    return { success: false, error: `Unknown network (${chainId}).` };
+  }
+
+  try {
+    await ethereum.request({
+      method: 'wallet_addEthereumChain',
+      params: [{
+        chainId: toHexChainIdParam(chainId),
+        chainName: network.name,
+        nativeCurrency: { name: network.currency, symbol: network.currency, decimals: 18 },
+        rpcUrls: [network.rpcUrl],
+        blockExplorerUrls: network.blockExplorer ? [network.blockExplorer] : undefined
+      }]
+    });
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to add network:', error);
+    if (String(error.code) === WalletErrorCode.USER_REJECTED) {
+      return { success: false, error: `Adding ${network.name} was rejected.` };
+    }
+    return { success: false, error: error.message || `Failed to add ${network.name}.` };
+  }
+};
+
+/**
+ * Asks the wallet to switch networks (EIP-3326), adding the network first if the wallet does not know it
+ */
+export const switchNetwork = async (chainId: number): Promise<NetworkSwitchResult> => {
+  const ethereum = getWalletProvider();
+  if (!ethereum) {
+    return { success: false, error: 'No wallet connected.' };
+  }
+
+  try {
+    await ethereum.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: toHexChainIdParam(chainId) }]
+    });
+    return { success: true };
+  } catch (error: any) {
+    // Some wallets wrap the error code of the underlying request
+    const code = String(error.data?.originalError?.code ?? error.code);
+
+    if (code === WalletErrorCode.USER_REJECTED) {
+      return { success: false, error: 'Network switch was rejected. Please switch networks to continue.' };
+    }
+    if (code !== WalletErrorCode.UNRECOGNIZED_CHAIN) {
+      console.error('Failed to switch network:', error);
+      return { success: false, error: error.message || 'Failed to switch network.' };
+    }
+  }
+
+  return addNetwork(chainId);
+};
+
 /**
  * Validates an Ethereum address format
  */
@@ -235,7 +325,16 @@ export const formatAddress = (address: string): string => {
 };
 
 /**
- * Sets up event listeners for wallet events
+ * Normalizes a chain ID to the hex form used by EIP-1193 events.
+ * WalletConnect may report chain IDs as numbers.
+ */
+const toHexChainId = (chainId: unknown): string => {
+  return typeof chainId === 'number' ? `0x${chainId.toString(16)}` : String(chainId);
+};
+
+/**
+ * Sets up event listeners for wallet events on the active provider.
+ * Injected wallets and WalletConnect report through the same callbacks.
  */
 export const setupWalletEventListeners = (
   onAccountsChanged: (accounts: string[]) => void,
@@ -243,22 +342,23 @@ export const setupWalletEventListeners = (
   onConnect: (connectInfo: { chainId: string }) => void,
   onDisconnect: (error: { code: number; message: string }) => void
 ): (() => void) => {
-  const ethereum = getMetaMaskProvider();
+  const ethereum = getWalletProvider();
   if (!ethereum) {
     return () => {}; // Return empty cleanup function
   }
 
   const handleAccountsChanged = (accounts: unknown) => {
-    const accountList = (accounts as string[]).map(addr => addr.toLowerCase());
+    const accountList = ((accounts as string[]) || []).map(addr => addr.toLowerCase());
     onAccountsChanged(accountList);
   };
 
   const handleChainChanged = (chainId: unknown) => {
-    onChainChanged(chainId as string);
+    onChainChanged(toHexChainId(chainId));
   };
 
   const handleConnect = (connectInfo: unknown) => {
-    onConnect(connectInfo as { chainId: string });
+    const info = connectInfo as { chainId?: unknown } | undefined;
+    onConnect({ chainId: toHexChainId(info?.chainId) });
   };
 
   const handleDisconnect = (error: unknown) => {
@@ -5,8 +5,11 @@
 
 // Wallet Connection Utilities
 export * from './connection';
+export * from './providers';
 export * from './signature';
 export * from './backend-verification';
+export * from './siwe';
+export * from './linking';
 
 // Re-export ethers.js utilities that we commonly use
 export { verifyMessage, BrowserProvider } from 'ethers';
@@ -0,0 +1,80 @@
+/**
+ * Wallet linking messages
+ * The same message is signed by an already-authorized wallet of the account and by the
+ * wallet being linked, proving control of both.
+ */
+
+import { getAddress, verifyMessage } from 'ethers';
+import type { WalletLinkMessageFields } from '../../types/wallet';
+
+const LINK_MESSAGE_HEADER = 'KidGuard: link a wallet to this account';
+
+const FIELD_LABELS: Array<[keyof WalletLinkMessageFields, string]> = [
+  ['accountWallet', 'Account'],
+  ['authorizingWallet', 'Authorized by'],
+  ['linkedWallet', 'New wallet'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+];
+
+const ADDRESS_FIELDS: Array<keyof WalletLinkMessageFields> = ['accountWallet', 'authorizingWallet', 'linkedWallet'];
+
+/**
+ * Creates the message both wallets sign to establish a link
+ */
+export const createWalletLinkMessage = (fields: WalletLinkMessageFields): string => {
+  const lines = FIELD_LABELS.map(([key, label]) => {
+    const value = ADDRESS_FIELDS.includes(key) ? getAddress(fields[key]) : fields[key];
+    return `${label}: ${value}`;
+  });
+
+  return [
+    LINK_MESSAGE_HEADER,
+    '',
+    'Signing this message lets the new wallet sign in to the account. It does not trigger a blockchain transaction or cost any gas fees.',
+    '',
+    ...lines
+  ].join('\n');
+};
+
+/**
+ * Parses a wallet link message, returning null if it is malformed.
+ * Addresses are returned lowercase.
+ */
+export const parseWalletLinkMessage = (message: string): WalletLinkMessageFields | null => {
+  const lines = message.split('\n');
+  if (lines[0] !== LINK_MESSAGE_HEADER) {
+    return null;
+  }
+
+  const fields: Partial<WalletLinkMessageFields> = {};
+  for (const [key, label] of FIELD_LABELS) {
+    const line = lines.find(l => l.startsWith(`${label}: `));
+    if (!line) {
+      return null;
+    }
+    const value = line.substring(label.length + 2).trim();
+    if (ADDRESS_FIELDS.includes(key)) {
+      try {
+        fields[key] = getAddress(value).toLowerCase();
+      } catch {
+        return null;
+      }
+    } else {
+      fields[key] = value;
+    }
+  }
+
+  return fields as WalletLinkMessageFields;
+};
+
+/**
+ * Checks that a link message was signed by the expected wallet
+ */
+export const isLinkSignatureValid = (message: string, signature: string, expectedWallet: string): boolean => {
+  try {
+    return verifyMessage(message, signature).toLowerCase() === expectedWallet.toLowerCase();
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,301 @@
+/**
+ * Wallet provider abstraction
+ * Discovers injected wallets through EIP-6963, offers WalletConnect v2 for phone wallets,
+ * and keeps track of the provider the user picked
+ */
+
+import type WalletConnectProvider from '@walletconnect/ethereum-provider';
+import type {
+  Eip1193Provider,
+  Eip6963ProviderDetail,
+  WalletProviderOption
+} from '../../types/wallet';
+import { SUPPORTED_NETWORKS } from '../../types/wallet';
+
+export const WALLETCONNECT_OPTION_ID = 'walletconnect';
+
+// Wallets that predate EIP-6963 are only reachable through window.ethereum
+export const LEGACY_INJECTED_OPTION_ID = 'injected';
+
+const PROVIDER_STORAGE_KEY = 'kidguard.walletProvider';
+
+// How long to wait for wallets to answer an EIP-6963 request
+const DISCOVERY_TIMEOUT_MS = 200;
+
+// Announced wallets keyed by reverse-DNS id, which stays stable across page loads
+const announcedProviders = new Map<string, Eip6963ProviderDetail>();
+let discoveryStarted = false;
+
+let activeProvider: Eip1193Provider | null = null;
+let activeProviderId: string | null = null;
+let walletConnectProvider: WalletConnectProvider | null = null;
+let restorePromise: Promise<void> | null = null;
+const providerListeners = new Set<() => void>();
+
+const startDiscovery = () => {
+  if (discoveryStarted || typeof window === 'undefined') {
+    return;
+  }
+  discoveryStarted = true;
+
+  window.addEventListener('eip6963:announceProvider', (event) => {
+    const { detail } = event as CustomEvent<Eip6963ProviderDetail>;
+    if (detail?.info?.rdns && detail.provider) {
+      announcedProviders.set(detail.info.rdns, detail);
+    }
+  });
+};
+
+/**
+ * Asks every installed wallet extension to announce itself (EIP-6963)
+ */
+export const discoverInjectedProviders = async (): Promise<Eip6963ProviderDetail[]> => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  startDiscovery();
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  await new Promise(resolve => setTimeout(resolve, DISCOVERY_TIMEOUT_MS));
+
+  return Array.from(announcedProviders.values());
+};
+
+/**
+ * WalletConnect needs a project ID from the WalletConnect Cloud dashboard
+ */
+export const isWalletConnectConfigured = (): boolean => {
+  return Boolean(process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID);
+};
+
+/**
+ * Lists the wallets the user can connect with
+ */
+export const getWalletProviderOptions = async (): Promise<WalletProviderOption[]> => {
+  const injected = await discoverInjectedProviders();
+
+  const options: WalletProviderOption[] = injected.map(({ info }) => ({
+    id: info.rdns,
+    kind: 'injected',
+    name: info.name,
+    icon: info.icon,
+    description: 'Browser extension'
+  }));
+
+  if (options.length === 0 && typeof window !== 'undefined' && window.ethereum) {
+    options.push({
+      id: LEGACY_INJECTED_OPTION_ID,
+      kind: 'injected',
+      name: window.ethereum.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+      description: 'Browser extension'
+    });
+  }
+
+  if (isWalletConnectConfigured()) {
+    options.push({
+      id: WALLETCONNECT_OPTION_ID,
+      kind: 'walletconnect',
+      name: 'WalletConnect',
+      description: 'Scan a QR code with a phone wallet'
+    });
+  }
+
+  return options;
+};
+
+/**
+ * Gets the provider wallet calls should go through. Until the user picks one,
+ * this falls back to window.ethereum so existing MetaMask users keep working.
+ */
+export const getActiveProvider = (): Eip1193Provider | null => {
+  if (activeProvider) {
+    return activeProvider;
+  }
+  if (typeof window !== 'undefined' && window.ethereum) {
+    return window.ethereum as Eip1193Provider;
+  }
+  return null;
+};
+
+/**
+ * Gets the option ID of the active provider
+ */
+export const getActiveProviderId = (): string | null => {
+  if (activeProviderId) {
+    return activeProviderId;
+  }
+  return typeof window !== 'undefined' && window.ethereum ? LEGACY_INJECTED_OPTION_ID : null;
+};
+
+export const isWalletConnectActive = (): boolean => {
+  return activeProviderId === WALLETCONNECT_OPTION_ID;
+};
+
+/**
+ * WalletConnect rejects requests until a session is paired, so callers check this
+ * before reading accounts
+ */
+export const hasWalletConnectSession = (): boolean => {
+  return Boolean(walletConnectProvider?.session);
+};
+
+/**
+ * Subscribes to changes of the active provider. Returns an unsubscribe function.
+ */
+export const onActiveProviderChange = (listener: () => void): (() => void) => {
+  providerListeners.add(listener);
+  return () => {
+    providerListeners.delete(listener);
+  };
+};
+
+const setActiveProvider = (id: string | null, provider: Eip1193Provider | null) => {
+  activeProvider = provider;
+  activeProviderId = id;
+
+  if (typeof window !== 'undefined') {
+    if (id) {
+      window.localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } else {
+      window.localStorage.removeItem(PROVIDER_STORAGE_KEY);
+    }
+  }
+
+  providerListeners.forEach(listener => listener());
+};
+
+/**
+ * Lazily initializes the WalletConnect provider. The SDK is large, so it is
+ * only loaded once someone actually chooses WalletConnect.
+ */
+const getWalletConnectProvider = async (): Promise<WalletConnectProvider> => {
+  if (walletConnectProvider) {
+    return walletConnectProvider;
+  }
+
+  const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID;
+  if (!projectId) {
+    throw new Error('WalletConnect is not configured');
+  }
+
+  const { EthereumProvider } = await import('@walletconnect/ethereum-provider');
+  const [firstChain, ...otherChains] = Object.keys(SUPPORTED_NETWORKS).map(Number);
+
+  walletConnectProvider = await EthereumProvider.init({
+    projectId,
+    showQrModal: true,
+    optionalChains: [firstChain, ...otherChains],
+    metadata: {
+      name: 'KidGuard',
+      description: 'Secure child pickup',
+      url: window.location.origin,
+      icons: [`${window.location.origin}/logo.jpg`]
+    }
+  });
+
+  return walletConnectProvider;
+};
+
+/**
+ * Makes the given wallet option the active provider
+ */
+export const selectWalletProvider = async (optionId: string): Promise<Eip1193Provider> => {
+  if (optionId === WALLETCONNECT_OPTION_ID) {
+    const provider = await getWalletConnectProvider();
+    setActiveProvider(optionId, provider as unknown as Eip1193Provider);
+    return provider as unknown as Eip1193Provider;
+  }
+
+  if (optionId === LEGACY_INJECTED_OPTION_ID) {
+    if (typeof window === 'undefined' || !window.ethereum) {
+      throw new Error('No browser wallet found');
+    }
+    setActiveProvider(optionId, window.ethereum as Eip1193Provider);
+    return window.ethereum as Eip1193Provider;
+  }
+
+  let detail = announcedProviders.get(optionId);
+  if (!detail) {
+    await discoverInjectedProviders();
+    detail = announcedProviders.get(optionId);
+  }
+  if (!detail) {
+    throw new Error('Wallet not found. Make sure the extension is installed and enabled.');
+  }
+
+  setActiveProvider(optionId, detail.provider);
+  return detail.provider;
+};
+
+/**
+ * Restores the wallet picked on a previous visit. A WalletConnect choice is only
+ * restored while its session is still alive, so no QR code pops up on page load.
+ */
+export const restoreWalletProvider = (): Promise<void> => {
+  if (!restorePromise) {
+    restorePromise = (async () => {
+      if (typeof window === 'undefined' || activeProvider) {
+        return;
+      }
+
+      const storedId = window.localStorage.getItem(PROVIDER_STORAGE_KEY);
+      if (!storedId) {
+        return;
+      }
+
+      try {
+        if (storedId === WALLETCONNECT_OPTION_ID) {
+          if (!isWalletConnectConfigured()) {
+            return;
+          }
+          const provider = await getWalletConnectProvider();
+          if (provider.session) {
+            setActiveProvider(storedId, provider as unknown as Eip1193Provider);
+          }
+          return;
+        }
+
+        await selectWalletProvider(storedId);
+      } catch (error) {
+        console.error('Failed to restore wallet provider:', error);
+      }
+    })();
+  }
+
+  return restorePromise;
+};
+
+/**
+ * Requests account access from the active provider. WalletConnect opens its QR
+ * modal here; injected wallets show their own connect prompt.
+ */
+export const requestProviderAccounts = async (): Promise<string[]> => {
+  if (isWalletConnectActive() && walletConnectProvider) {
+    return walletConnectProvider.enable();
+  }
+
+  const provider = getActiveProvider();
+  if (!provider) {
+    return [];
+  }
+
+  return (await provider.request({ method: 'eth_requestAccounts' })) as string[];
+};
+
+/**
+ * Forgets the chosen wallet and ends the WalletConnect session if there is one.
+ * Injected wallets cannot be disconnected from the page, only forgotten.
+ */
+export const releaseWalletProvider = async (): Promise<void> => {
+  if (isWalletConnectActive() && walletConnectProvider?.session) {
+    try {
+      await walletConnectProvider.disconnect();
+    } catch (error) {
+      console.error('Failed to end WalletConnect session:', error);
+    }
+  }
+
+  if (activeProviderId) {
+    setActiveProvider(null, null);
+  }
+};
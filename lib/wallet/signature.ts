@@ -1,20 +1,50 @@
 /**
  * Signature utilities for authorization message signing and verification
- * Handles message formatting, signing with MetaMask, and signature validation
+ * Handles message formatting, signing with MetaMask, and signature validation.
+ * Pickup authorizations are signed as EIP-712 typed data; the legacy text
+ * message helpers are kept so previously signed authorizations still verify.
  */
 
-import { BrowserProvider, verifyMessage } from 'ethers';
+import {
+  BrowserProvider,
+  TypedDataDomain,
+  TypedDataField,
+  ZeroAddress,
+  isAddress,
+  randomBytes,
+  toBigInt,
+  verifyMessage,
+  verifyTypedData
+} from 'ethers';
 import type {
   SignatureResult,
   SignatureVerificationParams,
   SignatureVerificationResult,
   AuthorizationMessage,
+  PickupAuthorizationTypedData,
+  TypedSignatureResult,
+  TypedSignatureVerificationParams,
   WalletError
 } from '../../types/wallet';
 import { createWalletError } from './connection';
+import { getContractAddresses } from '../blockchain/constants';
+
+export const PICKUP_AUTHORIZATION_DOMAIN_NAME = 'KidGuard';
+export const PICKUP_AUTHORIZATION_DOMAIN_VERSION = '1';
+
+export const PICKUP_AUTHORIZATION_TYPES: Record<string, TypedDataField[]> = {
+  PickupAuthorization: [
+    { name: 'parent', type: 'address' },
+    { name: 'pickupWallet', type: 'address' },
+    { name: 'studentId', type: 'string' },
+    { name: 'startDate', type: 'uint256' },
+    { name: 'endDate', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+};
 
 /**
- * Creates a human-readable authorization message for signing
+ * Creates a human-readable authorization message for signing (legacy format)
  */
 export const createAuthorizationMessage = (params: AuthorizationMessage): string => {
   const message = [
@@ -87,6 +117,57 @@ export const signMessage = async (
   }
 };
 
+/**
+ * Signs a message with a specific MetaMask account, which need not be the selected one.
+ * If the account has not been shared with the site yet, MetaMask's account picker is opened.
+ */
+export const signMessageWithAccount = async (
+  provider: BrowserProvider,
+  account: string,
+  message: string
+): Promise<SignatureResult> => {
+  try {
+    const hasAccount = async () => {
+      const accounts: string[] = await provider.send('eth_accounts', []);
+      return accounts.some(a => a.toLowerCase() === account.toLowerCase());
+    };
+
+    if (!(await hasAccount())) {
+      await provider.send('wallet_requestPermissions', [{ eth_accounts: {} }]);
+      if (!(await hasAccount())) {
+        return {
+          success: false,
+          error: `Select ${account} in MetaMask so it can sign this message.`
+        };
+      }
+    }
+
+    const signer = await provider.getSigner(account);
+    const signature = await signer.signMessage(message);
+
+    return {
+      success: true,
+      signature,
+      message
+    };
+
+  } catch (error: any) {
+    console.error('Failed to sign message with account:', error);
+
+    if (error.code === 4001 || error.code === 'ACTION_REJECTED') {
+      return {
+        success: false,
+        error: 'Signature was rejected. Please approve the signing request to continue.'
+      };
+    }
+
+    return {
+      success: false,
+      error: error.message || 'Failed to sign message. Please try again.'
+    };
+  }
+};
+
 /**
  * Verifies a signature against an expected address (client-side)
  */
@@ -168,6 +249,156 @@ export const createAndSignAuthorization = async (
   }
 };
 
+/**
+ * Gets the EIP-712 domain pickup authorizations are signed under.
+ * The PickupSecurity contract is the verifying contract once it is deployed on the chain.
+ */
+export const getPickupAuthorizationDomain = (chainId: number): TypedDataDomain => {
+  const { PICKUP_SECURITY } = getContractAddresses(chainId);
+
+  return {
+    name: PICKUP_AUTHORIZATION_DOMAIN_NAME,
+    version: PICKUP_AUTHORIZATION_DOMAIN_VERSION,
+    chainId,
+    ...(PICKUP_SECURITY !== ZeroAddress && { verifyingContract: PICKUP_SECURITY })
+  };
+};
+
+/**
+ * Creates a random authorization nonce (uint256 as a decimal string)
+ */
+export const createAuthorizationNonce = (): string => {
+  return toBigInt(randomBytes(32)).toString();
+};
+
+/**
+ * Builds the typed-data struct for a pickup authorization
+ */
+export const createPickupAuthorizationTypedData = (
+  params: Pick<AuthorizationMessage, 'parentWallet' | 'pickupWallet' | 'studentId' | 'startDate' | 'endDate'>,
+  nonce: string = createAuthorizationNonce()
+): PickupAuthorizationTypedData => {
+  return {
+    parent: params.parentWallet.toLowerCase(),
+    pickupWallet: params.pickupWallet.toLowerCase(),
+    studentId: params.studentId,
+    startDate: Math.floor(new Date(params.startDate).getTime() / 1000),
+    endDate: Math.floor(new Date(params.endDate).getTime() / 1000),
+    nonce
+  };
+};
+
+/**
+ * Checks that a value is a well-formed pickup authorization struct
+ */
+export const isPickupAuthorizationTypedData = (value: unknown): value is PickupAuthorizationTypedData => {
+  const data = value as PickupAuthorizationTypedData;
+
+  return Boolean(data) &&
+    typeof data.parent === 'string' && isAddress(data.parent) &&
+    typeof data.pickupWallet === 'string' && isAddress(data.pickupWallet) &&
+    typeof data.studentId === 'string' && data.studentId.length > 0 &&
+    Number.isSafeInteger(data.startDate) && Number.isSafeInteger(data.endDate) &&
+    data.startDate >= 0 && data.endDate > data.startDate &&
+    typeof data.nonce === 'string' && /^\d+$/.test(data.nonce);
+};
+
+/**
+ * Signs a pickup authorization as EIP-712 typed data
+ */
+export const signPickupAuthorization = async (
+  provider: BrowserProvider,
+  typedData: PickupAuthorizationTypedData,
+  chainId: number
+): Promise<TypedSignatureResult> => {
+  try {
+    if (!provider) {
+      return {
+        success: false,
+        error: 'No wallet provider available. Please connect your wallet first.'
+      };
+    }
+
+    const domain = getPickupAuthorizationDomain(chainId);
+    const signer = await provider.getSigner();
+    const signature = await signer.signTypedData(domain, PICKUP_AUTHORIZATION_TYPES, typedData);
+
+    // Verify the signature matches the parent wallet
+    const verification = verifyPickupAuthorizationSignature({
+      typedData,
+      signature,
+      expectedAddress: typedData.parent,
+      chainId
+    });
+
+    if (!verification.isValid) {
+      return {
+        success: false,
+        error: 'Signature verification failed. The signed authorization does not match the parent wallet.'
+      };
+    }
+
+    return {
+      success: true,
+      signature,
+      typedData,
+      domain
+    };
+
+  } catch (error: any) {
+    console.error('Failed to sign pickup authorization:', error);
+
+    if (error.code === 4001 || error.code === 'ACTION_REJECTED') {
+      return {
+        success: false,
+        error: 'Signature was rejected. Please approve the signing request to continue.'
+      };
+    }
+
+    return {
+      success: false,
+      error: error.message || 'Failed to sign authorization. Please try again.'
+    };
+  }
+};
+
+/**
+ * Verifies a typed-data pickup authorization signature against an expected address
+ */
+export const verifyPickupAuthorizationSignature = (
+  params: TypedSignatureVerificationParams
+): SignatureVerificationResult => {
+  try {
+    const { typedData, signature, expectedAddress, chainId } = params;
+
+    if (!typedData || !signature || !expectedAddress || !chainId) {
+      return {
+        isValid: false,
+        error: 'Missing required parameters for signature verification.'
+      };
+    }
+
+    const recoveredAddress = verifyTypedData(
+      getPickupAuthorizationDomain(chainId),
+      PICKUP_AUTHORIZATION_TYPES,
+      typedData,
+      signature
+    ).toLowerCase();
+
+    return {
+      isValid: recoveredAddress === expectedAddress.toLowerCase(),
+      recoveredAddress
+    };
+
+  } catch (error: any) {
+    console.error('Failed to verify typed-data signature:', error);
+    return {
+      isValid: false,
+      error: error.message || 'Failed to verify signature.'
+    };
+  }
+};
+
 /**
  * Validates authorization message format
  */
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Wallet } from 'ethers';
+import type { SiweMessageFields } from '../../types/wallet';
+import {
+  createSiweMessage,
+  getAllowedSiweDomains,
+  getSiweRole,
+  parseSiweMessage,
+  verifySiweMessage,
+  SIWE_ROLE_RESOURCE_PREFIX
+} from './siwe';
+
+const DOMAIN = 'kidguard.example';
+const NOW = new Date('2025-06-01T08:00:00.000Z');
+const wallet = Wallet.createRandom();
+
+const messageFields = (overrides: Partial<SiweMessageFields> = {}): SiweMessageFields => ({
+  scheme: 'https',
+  domain: DOMAIN,
+  address: wallet.address,
+  statement: 'Sign in to KidGuard',
+  uri: `https://${DOMAIN}/login`,
+  version: '1',
+  chainId: 80002,
+  nonce: 'a1b2c3d4e5f6a7b8',
+  issuedAt: NOW.toISOString(),
+  expirationTime: new Date(NOW.getTime() + 5 * 60 * 1000).toISOString(),
+  resources: [`${SIWE_ROLE_RESOURCE_PREFIX}parent`],
+  ...overrides
+});
+
+const signedMessage = async (overrides: Partial<SiweMessageFields> = {}) => {
+  const message = createSiweMessage(messageFields(overrides));
+  return { message, signature: await wallet.signMessage(message) };
+};
+
+const verify = (message: string, signature: string, options: Partial<Parameters<typeof verifySiweMessage>[2]> = {}) =>
+  verifySiweMessage(message, signature, { domain: [DOMAIN], address: wallet.address, chainIds: [80002], now: NOW, ...options });
+
+describe('parseSiweMessage', () => {
+  it('parses the messages createSiweMessage builds', () => {
+    const fields = messageFields();
+    const parsed = parseSiweMessage(createSiweMessage(fields));
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.fields).toEqual({ ...fields, notBefore: undefined, requestId: undefined });
+    expect(getSiweRole(parsed.fields!)).toBe('parent');
+  });
+
+  it.each([
+    ['an empty message', () => '', 'Message is empty'],
+    ['a missing header', () => createSiweMessage(messageFields()).split('\n').slice(1).join('\n'), 'Invalid SIWE header'],
+    ['a lowercase address', () => createSiweMessage(messageFields()).replace(wallet.address, wallet.address.toLowerCase()), 'Address is not EIP-55 checksummed'],
+    ['a missing URI', () => createSiweMessage(messageFields()).replace(/^URI: .*\n/m, ''), 'Missing URI'],
+    ['an unsupported version', () => createSiweMessage(messageFields()).replace('Version: 1', 'Version: 2'), 'Unsupported SIWE version'],
+    ['a short nonce', () => createSiweMessage(messageFields({ nonce: 'abc' })), 'Invalid nonce'],
+    ['a nonce with symbols', () => createSiweMessage(messageFields({ nonce: 'abcd-efgh-1234' })), 'Invalid nonce'],
+    ['an invalid issued-at', () => createSiweMessage(messageFields({ issuedAt: 'yesterday' })), 'Invalid issued-at timestamp'],
+    ['an invalid expiration', () => createSiweMessage(messageFields({ expirationTime: '2025-13-45T99:00:00Z' })), 'Invalid expiration timestamp'],
+    ['trailing content', () => `${createSiweMessage(messageFields())}\nExtra: field`, 'Unexpected content after SIWE fields']
+  ])('rejects %s', (_, message, error) => {
+    expect(parseSiweMessage(message())).toEqual({ success: false, error });
+  });
+});
+
+describe('verifySiweMessage', () => {
+  it('accepts a message signed for this domain', async () => {
+    const { message, signature } = await signedMessage();
+    const result = verify(message, signature);
+
+    expect(result.isValid).toBe(true);
+    expect(result.recoveredAddress).toBe(wallet.address.toLowerCase());
+  });
+
+  it('rejects malformed messages before checking the signature', async () => {
+    const { message, signature } = await signedMessage();
+    const result = verify(message.replace('Chain ID: 80002', 'Chain ID: polygon'), signature);
+
+    expect(result).toEqual({ isValid: false, error: 'Invalid chain ID' });
+  });
+
+  it('rejects a message signed for another domain', async () => {
+    const { message, signature } = await signedMessage({ domain: 'kidguard.example.evil.test', uri: 'https://kidguard.example.evil.test/login' });
+    const result = verify(message, signature);
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('Message was created for a different domain (kidguard.example.evil.test)');
+  });
+
+  it('rejects a message whose URI points somewhere else', async () => {
+    const { message, signature } = await signedMessage({ uri: 'https://phishing.test/login' });
+
+    expect(verify(message, signature).error).toBe('Message URI does not match its domain');
+  });
+
+  it('rejects every message when no domain is configured', async () => {
+    const { message, signature } = await signedMessage();
+
+    expect(verify(message, signature, { domain: [] }).error).toBe('Sign-in domain is not configured (set SIWE_ALLOWED_DOMAINS or APP_URL)');
+  });
+
+  it('rejects expired messages', async () => {
+    const { message, signature } = await signedMessage();
+    const afterExpiry = new Date(NOW.getTime() + 5 * 60 * 1000);
+
+    expect(verify(message, signature, { now: afterExpiry }).error).toBe('Message has expired');
+  });
+
+  it('rejects messages that are not valid yet or issued in the future', async () => {
+    const notYet = await signedMessage({ notBefore: new Date(NOW.getTime() + 10 * 60 * 1000).toISOString() });
+    const future = await signedMessage({ issuedAt: new Date(NOW.getTime() + 10 * 60 * 1000).toISOString() });
+
+    expect(verify(notYet.message, notYet.signature).error).toBe('Message is not valid yet');
+    expect(verify(future.message, future.signature).error).toBe('Message was issued in the future');
+  });
+
+  it('rejects a message carrying a different nonce than the one issued', async () => {
+    const { message, signature } = await signedMessage();
+
+    expect(verify(message, signature, { nonce: 'ffffffffffffffff' }).error).toBe('Message nonce does not match');
+  });
+
+  it('rejects unsupported chains', async () => {
+    const { message, signature } = await signedMessage({ chainId: 1 });
+
+    expect(verify(message, signature).error).toBe('Chain ID 1 is not supported');
+  });
+
+  it('rejects a signature from another wallet and an edited message', async () => {
+    const { message } = await signedMessage();
+    const otherSignature = await Wallet.createRandom().signMessage(message);
+    const { signature } = await signedMessage();
+
+    expect(verify(message, otherSignature).error).toBe('Invalid signature');
+    expect(verify(message.replace('Sign in to KidGuard', 'Sign in to KidGuard now'), signature).error).toBe('Invalid signature');
+  });
+});
+
+describe('getAllowedSiweDomains', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses SIWE_ALLOWED_DOMAINS first', () => {
+    vi.stubEnv('SIWE_ALLOWED_DOMAINS', 'kidguard.example, staging.kidguard.example ,');
+    vi.stubEnv('APP_URL', 'https://other.example');
+
+    expect(getAllowedSiweDomains()).toEqual(['kidguard.example', 'staging.kidguard.example']);
+  });
+
+  it('falls back to the host of APP_URL', () => {
+    vi.stubEnv('SIWE_ALLOWED_DOMAINS', '');
+    vi.stubEnv('APP_URL', 'https://kidguard.example:8443/dashboard');
+
+    expect(getAllowedSiweDomains()).toEqual(['kidguard.example:8443']);
+  });
+
+  it('allows nothing when neither is configured', () => {
+    vi.stubEnv('SIWE_ALLOWED_DOMAINS', '');
+    vi.stubEnv('APP_URL', '');
+
+    expect(getAllowedSiweDomains()).toEqual([]);
+  });
+});
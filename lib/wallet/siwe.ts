@@ -0,0 +1,300 @@
+/**
+ * Sign-In With Ethereum (EIP-4361) utilities
+ * Builds, parses and validates the structured messages used for wallet authentication
+ */
+
+import { getAddress, verifyMessage } from 'ethers';
+import type {
+  SiweMessageFields,
+  SiweParseResult,
+  SiweValidationOptions,
+  SiweVerificationResult
+} from '../../types/wallet';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const HEADER_PATTERN = /^(?:([a-zA-Z][a-zA-Z0-9+.-]*):\/\/)?([^\s/?#]+) wants you to sign in with your Ethereum account:$/;
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+
+/** Allowed clock skew when checking issued-at / not-before timestamps */
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/** Resource URI prefix used to bind a KidGuard role to a SIWE message */
+export const SIWE_ROLE_RESOURCE_PREFIX = 'urn:kidguard:role:';
+
+/**
+ * Creates an EIP-4361 message string from its fields
+ */
+export const createSiweMessage = (fields: SiweMessageFields): string => {
+  const header = `${fields.scheme ? `${fields.scheme}://` : ''}${fields.domain}${HEADER_SUFFIX}`;
+  const lines = [header, getAddress(fields.address), ''];
+
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  } else {
+    lines.push('');
+  }
+
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+
+  if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+  if (fields.notBefore) lines.push(`Not Before: ${fields.notBefore}`);
+  if (fields.requestId !== undefined) lines.push(`Request ID: ${fields.requestId}`);
+
+  if (fields.resources && fields.resources.length > 0) {
+    lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Checks whether a message looks like a SIWE message (without fully parsing it)
+ */
+export const isSiweMessage = (message: string): boolean => {
+  return message.split('\n', 1)[0].endsWith(HEADER_SUFFIX);
+};
+
+const isValidTimestamp = (value: string): boolean => {
+  return /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value));
+};
+
+/**
+ * Parses an EIP-4361 message. Rejects anything that does not follow the grammar exactly.
+ */
+export const parseSiweMessage = (message: string): SiweParseResult => {
+  if (typeof message !== 'string' || message.length === 0) {
+    return { success: false, error: 'Message is empty' };
+  }
+
+  const lines = message.split('\n');
+  let index = 0;
+
+  const fail = (error: string): SiweParseResult => ({ success: false, error });
+
+  // Header: [scheme://]domain wants you to sign in...
+  const headerMatch = lines[index++].match(HEADER_PATTERN);
+  if (!headerMatch) {
+    return fail('Invalid SIWE header');
+  }
+  const scheme = headerMatch[1];
+  const domain = headerMatch[2];
+
+  // Address (must be EIP-55 checksummed)
+  const address = lines[index++];
+  if (!address || !ADDRESS_PATTERN.test(address)) {
+    return fail('Invalid address line');
+  }
+  try {
+    if (getAddress(address) !== address) {
+      return fail('Address is not EIP-55 checksummed');
+    }
+  } catch {
+    return fail('Invalid address checksum');
+  }
+
+  if (lines[index++] !== '') {
+    return fail('Expected blank line after address');
+  }
+
+  // Optional statement followed by a blank line
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = lines[index++];
+    if (statement === undefined || statement.startsWith('URI: ')) {
+      return fail('Missing blank line before URI');
+    }
+  }
+  if (lines[index++] !== '') {
+    return fail('Expected blank line after statement');
+  }
+
+  const readField = (label: string, required: boolean): string | undefined | null => {
+    const line = lines[index];
+    const prefix = `${label}: `;
+    if (line !== undefined && line.startsWith(prefix)) {
+      index++;
+      return line.slice(prefix.length);
+    }
+    return required ? null : undefined;
+  };
+
+  const uri = readField('URI', true);
+  if (!uri) return fail('Missing URI');
+  try {
+    new URL(uri);
+  } catch {
+    return fail('Invalid URI');
+  }
+
+  const version = readField('Version', true);
+  if (version !== '1') return fail('Unsupported SIWE version');
+
+  const chainIdValue = readField('Chain ID', true);
+  if (!chainIdValue || !/^\d+$/.test(chainIdValue)) return fail('Invalid chain ID');
+
+  const nonce = readField('Nonce', true);
+  if (!nonce || !NONCE_PATTERN.test(nonce)) return fail('Invalid nonce');
+
+  const issuedAt = readField('Issued At', true);
+  if (!issuedAt || !isValidTimestamp(issuedAt)) return fail('Invalid issued-at timestamp');
+
+  const expirationTime = readField('Expiration Time', false);
+  if (expirationTime !== undefined && (!expirationTime || !isValidTimestamp(expirationTime))) {
+    return fail('Invalid expiration timestamp');
+  }
+
+  const notBefore = readField('Not Before', false);
+  if (notBefore !== undefined && (!notBefore || !isValidTimestamp(notBefore))) {
+    return fail('Invalid not-before timestamp');
+  }
+
+  const requestId = readField('Request ID', false);
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    index++;
+    resources = [];
+    while (index < lines.length && lines[index].startsWith('- ')) {
+      resources.push(lines[index++].slice(2));
+    }
+  }
+
+  if (index !== lines.length) {
+    return fail('Unexpected content after SIWE fields');
+  }
+
+  return {
+    success: true,
+    fields: {
+      scheme,
+      domain,
+      address,
+      statement,
+      uri,
+      version: '1',
+      chainId: Number(chainIdValue),
+      nonce,
+      issuedAt,
+      expirationTime: expirationTime || undefined,
+      notBefore: notBefore || undefined,
+      requestId: requestId ?? undefined,
+      resources
+    }
+  };
+};
+
+/**
+ * Validates parsed SIWE fields against what the server expects
+ */
+export const validateSiweMessage = (
+  fields: SiweMessageFields,
+  options: SiweValidationOptions
+): { isValid: boolean; error?: string } => {
+  const now = (options.now ?? new Date()).getTime();
+  const allowedDomains = (Array.isArray(options.domain) ? options.domain : [options.domain])
+    .map(domain => domain.toLowerCase());
+
+  if (allowedDomains.length === 0) {
+    return { isValid: false, error: 'Sign-in domain is not configured (set SIWE_ALLOWED_DOMAINS or APP_URL)' };
+  }
+
+  if (!allowedDomains.includes(fields.domain.toLowerCase())) {
+    return { isValid: false, error: `Message was created for a different domain (${fields.domain})` };
+  }
+
+  // The URI must point at the same authority as the domain
+  if (new URL(fields.uri).host.toLowerCase() !== fields.domain.toLowerCase()) {
+    return { isValid: false, error: 'Message URI does not match its domain' };
+  }
+
+  if (options.address && fields.address.toLowerCase() !== options.address.toLowerCase()) {
+    return { isValid: false, error: 'Message address does not match the wallet' };
+  }
+
+  if (options.nonce && fields.nonce !== options.nonce) {
+    return { isValid: false, error: 'Message nonce does not match' };
+  }
+
+  if (options.chainIds && !options.chainIds.includes(fields.chainId)) {
+    return { isValid: false, error: `Chain ID ${fields.chainId} is not supported` };
+  }
+
+  if (Date.parse(fields.issuedAt) - CLOCK_SKEW_MS > now) {
+    return { isValid: false, error: 'Message was issued in the future' };
+  }
+
+  if (fields.notBefore && Date.parse(fields.notBefore) - CLOCK_SKEW_MS > now) {
+    return { isValid: false, error: 'Message is not valid yet' };
+  }
+
+  if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+    return { isValid: false, error: 'Message has expired' };
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Parses, validates and verifies the signature of a SIWE message
+ */
+export const verifySiweMessage = (
+  message: string,
+  signature: string,
+  options: SiweValidationOptions
+): SiweVerificationResult => {
+  const parsed = parseSiweMessage(message);
+  if (!parsed.success || !parsed.fields) {
+    return { isValid: false, error: parsed.error || 'Malformed SIWE message' };
+  }
+
+  const validation = validateSiweMessage(parsed.fields, options);
+  if (!validation.isValid) {
+    return { isValid: false, fields: parsed.fields, error: validation.error };
+  }
+
+  try {
+    const recoveredAddress = verifyMessage(message, signature).toLowerCase();
+    if (recoveredAddress !== parsed.fields.address.toLowerCase()) {
+      return { isValid: false, fields: parsed.fields, recoveredAddress, error: 'Invalid signature' };
+    }
+    return { isValid: true, fields: parsed.fields, recoveredAddress };
+  } catch (error: any) {
+    return { isValid: false, fields: parsed.fields, error: 'Signature verification failed' };
+  }
+};
+
+/**
+ * Returns the KidGuard role bound to a SIWE message through its resources, if any
+ */
+export const getSiweRole = (fields: SiweMessageFields): string | null => {
+  const resource = fields.resources?.find(r => r.startsWith(SIWE_ROLE_RESOURCE_PREFIX));
+  return resource ? resource.slice(SIWE_ROLE_RESOURCE_PREFIX.length) : null;
+};
+
+/**
+ * Resolves the domains a server accepts SIWE messages for: SIWE_ALLOWED_DOMAINS (comma separated),
+ * otherwise the host of APP_URL. The request's Host header is never used because the caller controls
+ * it, so with neither variable set no domain is allowed and every sign-in is rejected.
+ */
+export const getAllowedSiweDomains = (): string[] => {
+  const configured = process.env.SIWE_ALLOWED_DOMAINS;
+  if (configured) {
+    return configured.split(',').map(domain => domain.trim()).filter(Boolean);
+  }
+
+  if (process.env.APP_URL) {
+    try {
+      return [new URL(process.env.APP_URL).host];
+    } catch {
+      console.error('APP_URL is not a valid URL:', process.env.APP_URL);
+    }
+  }
+  return [];
+};
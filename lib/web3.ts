@@ -1,7 +1,5 @@
 import { ethers } from 'ethers';
-
-// Contract address
-const PICKUP_ANCHOR_ADDRESS = "0x59c4f69453c63c7002d7c8f29b8c1e033bdda825";
+import { getContract } from './blockchain/contract';
 
 // Check if we're in demo mode (no deployed contract)
 const isDemoMode = true; // Temporarily force demo mode for testing
@@ -18,15 +16,8 @@ async function getPickupAnchorContract(signerOrProvider: ethers.Signer | ethers.
     throw new Error('Contract not deployed - using demo mode');
   }
   
-  // Dynamic import to avoid loading during initial render
-  const { default: PickupAnchorABI } = await import('./PickupAnchorABI.json');
-  
-  // Validate contract address format
-  if (!ethers.isAddress(PICKUP_ANCHOR_ADDRESS)) {
-    throw new Error('Invalid contract address format');
-  }
-  
-  return new ethers.Contract(PICKUP_ANCHOR_ADDRESS, PickupAnchorABI, signerOrProvider);
+  // PickupSecurity at the configured address, with the ABI of its version (v1 or v2)
+  return getContract(signerOrProvider);
 }
 
 // Anchor a hash as an authorization (parent signs)
@@ -0,0 +1,77 @@
+/**
+ * Benchmarks Merkle batches of pickup events: building the tree, single and multi proofs,
+ * and the gas PickupSecurityV2 spends verifying them (on the in-process Hardhat network).
+ *
+ * Usage: npm run contracts:bench-merkle
+ *
+ * BENCH_EVENTS   events in the batch (default 10000)
+ */
+
+import { performance } from 'perf_hooks';
+import { ethers } from 'hardhat';
+import {
+  buildMerkleTree,
+  getAllMerkleProofs,
+  getMerkleMultiProof,
+  getMerkleProof,
+  multiProofVerify
+} from '../lib/blockchain/merkle-tree';
+
+const PROVEN_EVENT_COUNTS = [1, 10, 100, 1000];
+
+/**
+ * Runs fn and returns its result with the time it took (ms)
+ */
+const timed = <T>(fn: () => T): [T, number] => {
+  const start = performance.now();
+  const result = fn();
+  return [result, performance.now() - start];
+};
+
+async function main() {
+  const eventCount = Number(process.env.BENCH_EVENTS) || 10000;
+  const eventHashes = Array.from({ length: eventCount }, (_, i) => ethers.id(`pickup-${i}`));
+
+  const [tree, buildMs] = timed(() => buildMerkleTree(eventHashes));
+  const [, allProofsMs] = timed(() => getAllMerkleProofs(tree));
+  console.log(`${eventCount} events: tree built in ${buildMs.toFixed(0)} ms, every single proof in ${allProofsMs.toFixed(0)} ms`);
+
+  const pickupSecurity = await ethers.deployContract('PickupSecurityV2');
+  await (await pickupSecurity.anchorMerkleBatch(tree.root, eventCount, '')).wait();
+
+  const singleProof = getMerkleProof(tree, eventHashes[0]);
+  const singleGas = await pickupSecurity.verifyPickupEvent.estimateGas(eventHashes[0], 0, singleProof);
+  console.log(`Single proof: ${singleProof.length} hashes, ${singleGas} gas to verify`);
+
+  const rows = [];
+  for (const count of [...PROVEN_EVENT_COUNTS.filter(n => n < eventCount), eventCount]) {
+    // Spread the proven events over the batch
+    const step = eventCount / count;
+    const proven = Array.from({ length: count }, (_, i) => eventHashes[Math.floor(i * step)]);
+
+    const [multiProof, proofMs] = timed(() => getMerkleMultiProof(tree, proven));
+    const [valid, verifyMs] = timed(() => multiProofVerify(multiProof, tree.root));
+    if (!valid) {
+      throw new Error(`Multiproof for ${count} events does not verify`);
+    }
+    // Large proofs can need more gas than a block allows
+    const gas = await pickupSecurity.verifyPickupEvents
+      .estimateGas(multiProof.leaves, 0, multiProof.proof, multiProof.proofFlags)
+      .catch(() => null);
+
+    rows.push({
+      events: count,
+      proofHashes: multiProof.proof.length,
+      proofMs: Number(proofMs.toFixed(1)),
+      verifyMs: Number(verifyMs.toFixed(1)),
+      gas: gas === null ? 'over block gas limit' : Number(gas),
+      gasPerEvent: gas === null ? '-' : Math.round(Number(gas) / count)
+    });
+  }
+  console.table(rows);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,80 @@
+/**
+ * Deploys RoleAuth and PickupSecurity (v1 or v2) and records their addresses for the chain in
+ * lib/blockchain/deployments.json, which lib/blockchain/constants.ts reads.
+ *
+ * Usage: npm run contracts:deploy -- --network localhost
+ *
+ * PICKUP_SECURITY_VERSION   1 (default) or 2
+ * SCHOOL_ADMIN_WALLET       v2 only: admin of the registered school (defaults to the deployer)
+ * PICKUP_SECURITY_OWNER     hands PickupSecurity over after setup, e.g. to the relayer wallet
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { SCHOOL_ID } from '../lib/blockchain/constants';
+import { createSchoolId } from '../lib/blockchain/hashing';
+import type { ContractDeployment } from '../lib/blockchain/types';
+
+const DEPLOYMENTS_PATH = path.join(__dirname, '..', 'lib', 'blockchain', 'deployments.json');
+
+/**
+ * Stores a chain's deployment, keeping the other chains' entries
+ */
+const writeDeployment = async (chainId: number, deployment: ContractDeployment): Promise<void> => {
+  const existing = JSON.parse(await fs.readFile(DEPLOYMENTS_PATH, 'utf8').catch(() => '{}'));
+  existing[chainId] = deployment;
+  await fs.writeFile(DEPLOYMENTS_PATH, JSON.stringify(existing, null, 2) + '\n');
+};
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const version = process.env.PICKUP_SECURITY_VERSION?.trim() === '2' ? 2 : 1;
+
+  console.log(`Deploying to ${network.name} (chain ${chainId}) from ${deployer.address}`);
+
+  const roleAuth = await ethers.deployContract('RoleAuth');
+  await roleAuth.waitForDeployment();
+  console.log(`RoleAuth: ${await roleAuth.getAddress()}`);
+
+  const pickupSecurity = await ethers.deployContract(version === 2 ? 'PickupSecurityV2' : 'PickupSecurity');
+  await pickupSecurity.waitForDeployment();
+  console.log(`PickupSecurity v${version}: ${await pickupSecurity.getAddress()}`);
+
+  let schoolId: string | undefined;
+  if (version === 2) {
+    schoolId = createSchoolId(SCHOOL_ID);
+    const schoolAdmin = process.env.SCHOOL_ADMIN_WALLET || deployer.address;
+    await (await pickupSecurity.registerSchool(schoolId, schoolAdmin)).wait();
+    console.log(`Registered school "${SCHOOL_ID}" (${schoolId}) with admin ${schoolAdmin}`);
+  }
+
+  const owner = process.env.PICKUP_SECURITY_OWNER;
+  if (owner) {
+    await (await pickupSecurity.transferOwnership(owner)).wait();
+    console.log(`PickupSecurity ownership transferred to ${owner}`);
+  }
+
+  // The in-process network is gone once the script exits, so there is nothing to record
+  if (network.name === 'hardhat') {
+    console.log('In-process network: deployments.json left unchanged');
+    return;
+  }
+
+  await writeDeployment(chainId, {
+    PICKUP_SECURITY: await pickupSecurity.getAddress(),
+    ROLE_AUTH: await roleAuth.getAddress(),
+    pickupSecurityVersion: version,
+    ...(schoolId && { schoolId }),
+    deployer: deployer.address,
+    blockNumber: await ethers.provider.getBlockNumber(),
+    deployedAt: new Date().toISOString()
+  });
+  console.log(`Saved to ${path.relative(process.cwd(), DEPLOYMENTS_PATH)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
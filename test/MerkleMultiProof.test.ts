@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  buildMerkleTree,
+  getMerkleMultiProof,
+  getMerkleProof,
+  multiProofVerify,
+  processMultiProof
+} from '../lib/blockchain/merkle-tree';
+
+// Checks proofs built off-chain by lib/blockchain/merkle-tree against OpenZeppelin's verification
+// in PickupSecurityV2, for batches of different shapes
+describe('Merkle multiproofs', () => {
+  const eventHashes = (count: number, prefix = 'pickup') =>
+    Array.from({ length: count }, (_, i) => ethers.id(`${prefix}-${i}`));
+
+  // Deterministic selection of `count` distinct events
+  const sample = (hashes: string[], count: number, seed = 7) => {
+    const picked = new Set<number>();
+    let state = seed;
+    while (picked.size < Math.min(count, hashes.length)) {
+      state = (state * 48271) % 2147483647;
+      picked.add(state % hashes.length);
+    }
+    return [...picked].map(i => hashes[i]);
+  };
+
+  const deployFixture = async () => {
+    const pickupSecurity = await ethers.deployContract('PickupSecurityV2');
+    return { pickupSecurity };
+  };
+
+  const BATCH_SIZES = [1, 2, 3, 4, 5, 7, 8, 9, 16, 31, 100];
+
+  // One anchored batch per size, numbered in BATCH_SIZES order
+  const batchesFixture = async () => {
+    const { pickupSecurity } = await deployFixture();
+    const batches = BATCH_SIZES.map(size => {
+      const hashes = eventHashes(size, `batch-${size}`);
+      return { hashes, tree: buildMerkleTree(hashes) };
+    });
+    for (const { hashes, tree } of batches) {
+      await pickupSecurity.anchorMerkleBatch(tree.root, hashes.length, '');
+    }
+    return { pickupSecurity, batches };
+  };
+
+  it('agrees with verifyPickupEvents for every subset shape and batch size', async () => {
+    const { pickupSecurity, batches } = await loadFixture(batchesFixture);
+
+    for (const [batchNumber, { hashes, tree }] of batches.entries()) {
+      const subsets = [
+        [],
+        [hashes[0]],
+        [hashes[hashes.length - 1]],
+        [hashes[0], hashes[hashes.length - 1]],
+        hashes.filter((_, i) => i % 3 === 0),
+        sample(hashes, Math.ceil(hashes.length / 2)),
+        hashes
+      ];
+
+      for (const subset of subsets) {
+        const multiProof = getMerkleMultiProof(tree, [...new Set(subset)]);
+
+        expect(processMultiProof(multiProof)).to.equal(tree.root);
+        expect(multiProofVerify(multiProof, tree.root)).to.equal(true);
+        expect(await pickupSecurity.verifyPickupEvents(multiProof.leaves, batchNumber, multiProof.proof, multiProof.proofFlags))
+          .to.equal(true, `batch of ${hashes.length}, proving ${subset.length}`);
+      }
+    }
+  });
+
+  it('agrees with verifyPickupEvents when a leaf or proof element is forged', async () => {
+    const { pickupSecurity, batches } = await loadFixture(batchesFixture);
+
+    for (const [batchNumber, { hashes, tree }] of batches.entries()) {
+      if (hashes.length < 2) continue;
+      const multiProof = getMerkleMultiProof(tree, sample(hashes, 2));
+      const forgedLeaf = { ...multiProof, leaves: [ethers.id('not-in-batch'), ...multiProof.leaves.slice(1)] };
+      const forgedProof = multiProof.proof.length > 0
+        ? { ...multiProof, proof: [ethers.id('forged'), ...multiProof.proof.slice(1)] }
+        : null;
+
+      for (const forged of [forgedLeaf, forgedProof]) {
+        if (!forged) continue;
+        expect(multiProofVerify(forged, tree.root)).to.equal(false);
+        expect(await pickupSecurity.verifyPickupEvents(forged.leaves, batchNumber, forged.proof, forged.proofFlags))
+          .to.equal(false, `batch of ${hashes.length}`);
+      }
+    }
+  });
+
+  it('proves events from a batch of 10,000', async () => {
+    const { pickupSecurity } = await loadFixture(deployFixture);
+    const hashes = eventHashes(10000);
+    const tree = buildMerkleTree(hashes);
+    await pickupSecurity.anchorMerkleBatch(tree.root, hashes.length, '');
+
+    // Every event at once, off-chain
+    expect(multiProofVerify(getMerkleMultiProof(tree, hashes), tree.root)).to.equal(true);
+
+    const multiProof = getMerkleMultiProof(tree, sample(hashes, 500));
+    expect(await pickupSecurity.verifyPickupEvents(multiProof.leaves, 0, multiProof.proof, multiProof.proofFlags))
+      .to.equal(true);
+
+    for (const eventHash of sample(hashes, 20, 11)) {
+      expect(await pickupSecurity.verifyPickupEvent(eventHash, 0, getMerkleProof(tree, eventHash))).to.equal(true);
+    }
+  });
+});
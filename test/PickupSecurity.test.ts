@@ -0,0 +1,206 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { createQRCodeHash, createStudentHash } from '../lib/blockchain/hashing';
+import { buildMerkleTree, getMerkleMultiProof, getMerkleProof } from '../lib/blockchain/merkle-tree';
+import { connect } from './helpers';
+
+const DAY = 24 * 60 * 60;
+
+describe('PickupSecurity', () => {
+  const deployFixture = async () => {
+    const [owner, parent, pickup, staff, outsider] = await ethers.getSigners();
+    const pickupSecurity = await ethers.deployContract('PickupSecurity');
+    return { pickupSecurity, owner, parent, pickup, staff, outsider };
+  };
+
+  // Authorization starting in an hour and lasting a week
+  const createAuthorization = async (
+    { pickupSecurity, parent, pickup }: Awaited<ReturnType<typeof deployFixture>>,
+    authHash: string = ethers.id('authorization-1')
+  ) => {
+    const startDate = (await time.latest()) + 60 * 60;
+    const endDate = startDate + 7 * DAY;
+    const studentHash = createStudentHash('student-1');
+
+    await connect(pickupSecurity, parent).createAuthorization(authHash, parent.address, pickup.address, studentHash, startDate, endDate);
+
+    return { authHash, studentHash, startDate, endDate };
+  };
+
+  describe('authorizations', () => {
+    it('creates an authorization', async () => {
+      const fixture = await loadFixture(deployFixture);
+      const { pickupSecurity, parent, pickup } = fixture;
+      const startDate = (await time.latest()) + 60 * 60;
+      const endDate = startDate + DAY;
+      const authHash = ethers.id('authorization-1');
+      const studentHash = createStudentHash('student-1');
+
+      await expect(connect(pickupSecurity, parent).createAuthorization(authHash, parent.address, pickup.address, studentHash, startDate, endDate))
+        .to.emit(pickupSecurity, 'AuthorizationCreated')
+        .withArgs(authHash, parent.address, pickup.address, studentHash, startDate, endDate);
+
+      const authorization = await pickupSecurity.getAuthorization(authHash);
+      expect(authorization.parentWallet).to.equal(parent.address);
+      expect(authorization.pickupWallet).to.equal(pickup.address);
+      expect(authorization.isActive).to.equal(true);
+      expect(authorization.isVerified).to.equal(false);
+      expect(await pickupSecurity.authorizationCounter()).to.equal(1);
+    });
+
+    it('rejects invalid authorizations', async () => {
+      const { pickupSecurity, parent, pickup } = await loadFixture(deployFixture);
+      const now = await time.latest();
+      const studentHash = createStudentHash('student-1');
+      const create = (authHash: string, startDate: number, endDate: number, pickupWallet = pickup.address) =>
+        pickupSecurity.createAuthorization(authHash, parent.address, pickupWallet, studentHash, startDate, endDate);
+
+      await expect(create(ethers.ZeroHash, now + 100, now + DAY)).to.be.revertedWith('Invalid authorization hash');
+      await expect(create(ethers.id('a'), now + 100, now + DAY, ethers.ZeroAddress)).to.be.revertedWith('Invalid pickup wallet');
+      await expect(create(ethers.id('a'), now + DAY, now + 100)).to.be.revertedWith('Invalid date range');
+      await expect(create(ethers.id('a'), now - DAY, now + DAY)).to.be.revertedWith('Start date must be in the future');
+    });
+
+    it('rejects a duplicate authorization hash', async () => {
+      const fixture = await loadFixture(deployFixture);
+      const { authHash } = await createAuthorization(fixture);
+
+      await expect(createAuthorization(fixture, authHash)).to.be.revertedWith('Authorization already exists');
+    });
+
+    it('counts an authorization as valid once verified and started', async () => {
+      const fixture = await loadFixture(deployFixture);
+      const { pickupSecurity, pickup, parent } = fixture;
+      const { authHash, studentHash, startDate, endDate } = await createAuthorization(fixture);
+
+      await expect(connect(pickupSecurity, parent).verifyAuthorization(authHash, true))
+        .to.be.revertedWithCustomError(pickupSecurity, 'OwnableUnauthorizedAccount');
+      await expect(pickupSecurity.verifyAuthorization(authHash, true))
+        .to.emit(pickupSecurity, 'AuthorizationVerified')
+        .withArgs(authHash, true);
+
+      expect(await pickupSecurity.isAuthorizationValid(authHash, pickup.address, studentHash)).to.equal(false);
+
+      await time.increaseTo(startDate);
+      expect(await pickupSecurity.isAuthorizationValid(authHash, pickup.address, studentHash)).to.equal(true);
+      expect(await pickupSecurity.isAuthorizationValid(authHash, parent.address, studentHash)).to.equal(false);
+      expect(await pickupSecurity.isAuthorizationValid(authHash, pickup.address, createStudentHash('student-2'))).to.equal(false);
+
+      await time.increaseTo(endDate + 1);
+      expect(await pickupSecurity.isAuthorizationValid(authHash, pickup.address, studentHash)).to.equal(false);
+    });
+  });
+
+  describe('revocation', () => {
+    it('lets the parent revoke their authorization', async () => {
+      const fixture = await loadFixture(deployFixture);
+      const { pickupSecurity, parent } = fixture;
+      const { authHash } = await createAuthorization(fixture);
+
+      await expect(connect(pickupSecurity, parent).revokeAuthorization(authHash))
+        .to.emit(pickupSecurity, 'AuthorizationRevoked')
+        .withArgs(authHash, parent.address);
+      expect((await pickupSecurity.getAuthorization(authHash)).isActive).to.equal(false);
+    });
+
+    it('lets the owner revoke on the parent\'s behalf', async () => {
+      const fixture = await loadFixture(deployFixture);
+      const { pickupSecurity, parent } = fixture;
+      const { authHash } = await createAuthorization(fixture);
+
+      await expect(pickupSecurity.revokeAuthorization(authHash))
+        .to.emit(pickupSecurity, 'AuthorizationRevoked')
+        .withArgs(authHash, parent.address);
+    });
+
+    it('rejects revocation by anyone else, and revoking twice', async () => {
+      const fixture = await loadFixture(deployFixture);
+      const { pickupSecurity, parent, pickup, outsider } = fixture;
+      const { authHash } = await createAuthorization(fixture);
+
+      await expect(connect(pickupSecurity, pickup).revokeAuthorization(authHash))
+        .to.be.revertedWith('Only parent or owner can perform this action');
+      await expect(connect(pickupSecurity, outsider).revokeAuthorization(authHash))
+        .to.be.revertedWith('Only parent or owner can perform this action');
+
+      await connect(pickupSecurity, parent).revokeAuthorization(authHash);
+      await expect(connect(pickupSecurity, parent).revokeAuthorization(authHash))
+        .to.be.revertedWith('Authorization is not active');
+    });
+  });
+
+  describe('pickup events', () => {
+    it('records a pickup event once', async () => {
+      const { pickupSecurity, pickup, staff } = await loadFixture(deployFixture);
+      const eventHash = ethers.id('pickup-1');
+      const studentHash = createStudentHash('student-1');
+      const qrCodeHash = createQRCodeHash('qr-1');
+
+      await expect(pickupSecurity.recordPickupEvent(eventHash, studentHash, pickup.address, staff.address, qrCodeHash))
+        .to.emit(pickupSecurity, 'PickupEventRecorded');
+
+      const event = await pickupSecurity.getPickupEvent(eventHash);
+      expect(event.staffWallet).to.equal(staff.address);
+      expect(event.isVerified).to.equal(true);
+
+      await expect(pickupSecurity.recordPickupEvent(eventHash, studentHash, pickup.address, staff.address, qrCodeHash))
+        .to.be.revertedWith('Event already recorded');
+    });
+  });
+
+  describe('Merkle batches', () => {
+    const eventHashes = Array.from({ length: 7 }, (_, i) => ethers.id(`pickup-${i}`));
+
+    const anchorFixture = async () => {
+      const fixture = await deployFixture();
+      const tree = buildMerkleTree(eventHashes);
+      await fixture.pickupSecurity.anchorMerkleBatch(tree.root, eventHashes.length, 'bafy-batch-0');
+      return { ...fixture, tree };
+    };
+
+    it('anchors a batch (owner only)', async () => {
+      const { pickupSecurity, tree, parent } = await loadFixture(anchorFixture);
+
+      const batch = await pickupSecurity.getMerkleBatch(0);
+      expect(batch.merkleRoot).to.equal(tree.root);
+      expect(batch.eventCount).to.equal(eventHashes.length);
+      expect(batch.ipfsHash).to.equal('bafy-batch-0');
+
+      await expect(connect(pickupSecurity, parent).anchorMerkleBatch(tree.root, 1, ''))
+        .to.be.revertedWithCustomError(pickupSecurity, 'OwnableUnauthorizedAccount');
+      await expect(pickupSecurity.anchorMerkleBatch(ethers.ZeroHash, 1, ''))
+        .to.be.revertedWith('Invalid Merkle root');
+    });
+
+    it('verifies single proofs for every event', async () => {
+      const { pickupSecurity, tree } = await loadFixture(anchorFixture);
+
+      for (const eventHash of eventHashes) {
+        expect(await pickupSecurity.verifyPickupEvent(eventHash, 0, getMerkleProof(tree, eventHash))).to.equal(true);
+      }
+      expect(await pickupSecurity.verifyPickupEvent(ethers.id('not-in-batch'), 0, getMerkleProof(tree, eventHashes[0])))
+        .to.equal(false);
+    });
+
+    it('verifies a multiproof and rejects a tampered one', async () => {
+      const { pickupSecurity, tree } = await loadFixture(anchorFixture);
+      const multiProof = getMerkleMultiProof(tree, [eventHashes[1], eventHashes[4], eventHashes[6]]);
+
+      expect(await pickupSecurity.verifyPickupEvents(multiProof.leaves, 0, multiProof.proof, multiProof.proofFlags))
+        .to.equal(true);
+
+      const tampered = [...multiProof.leaves];
+      tampered[0] = ethers.id('not-in-batch');
+      expect(await pickupSecurity.verifyPickupEvents(tampered, 0, multiProof.proof, multiProof.proofFlags))
+        .to.equal(false);
+    });
+
+    it('rejects proofs against a batch that does not exist', async () => {
+      const { pickupSecurity, tree } = await loadFixture(anchorFixture);
+
+      await expect(pickupSecurity.verifyPickupEvent(eventHashes[0], 1, getMerkleProof(tree, eventHashes[0])))
+        .to.be.revertedWith('Batch does not exist');
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { createQRCodeHash, createSchoolId, createStudentHash } from '../lib/blockchain/hashing';
+import { buildMerkleTree, getMerkleMultiProof } from '../lib/blockchain/merkle-tree';
+import { connect } from './helpers';
+
+const DAY = 24 * 60 * 60;
+
+describe('PickupSecurityV2', () => {
+  const schoolId = createSchoolId('test-school');
+  const otherSchoolId = createSchoolId('other-school');
+
+  const deployFixture = async () => {
+    const [owner, schoolAdmin, parent, otherParent, pickup, staff, outsider] = await ethers.getSigners();
+    const pickupSecurity = await ethers.deployContract('PickupSecurityV2');
+
+    await pickupSecurity.registerSchool(schoolId, schoolAdmin.address);
+    await connect(pickupSecurity, schoolAdmin).setSchoolStaff(schoolId, [staff.address], true);
+
+    return { pickupSecurity, owner, schoolAdmin, parent, otherParent, pickup, staff, outsider };
+  };
+
+  const authorizationInput = async (authHash: string, parentWallet: string, pickupWallet: string) => {
+    const startDate = await time.latest();
+    return {
+      authHash,
+      parentWallet,
+      pickupWallet,
+      studentHash: createStudentHash('student-1'),
+      startDate,
+      endDate: startDate + 7 * DAY
+    };
+  };
+
+  describe('schools and staff', () => {
+    it('registers a school (owner only)', async () => {
+      const { pickupSecurity, schoolAdmin, outsider } = await loadFixture(deployFixture);
+
+      const school = await pickupSecurity.schools(schoolId);
+      expect(school.admin).to.equal(schoolAdmin.address);
+      expect(school.isActive).to.equal(true);
+
+      await expect(connect(pickupSecurity, outsider).registerSchool(otherSchoolId, outsider.address))
+        .to.be.revertedWithCustomError(pickupSecurity, 'OwnableUnauthorizedAccount');
+      await expect(pickupSecurity.registerSchool(ethers.ZeroHash, outsider.address))
+        .to.be.revertedWith('Invalid school id');
+    });
+
+    it('lets the school admin and the owner manage the staff allowlist', async () => {
+      const { pickupSecurity, schoolAdmin, staff, outsider } = await loadFixture(deployFixture);
+
+      expect(await pickupSecurity.isSchoolStaff(schoolId, staff.address)).to.equal(true);
+
+      await expect(connect(pickupSecurity, schoolAdmin).setSchoolStaff(schoolId, [staff.address], false))
+        .to.emit(pickupSecurity, 'SchoolStaffUpdated')
+        .withArgs(schoolId, staff.address, false);
+      expect(await pickupSecurity.isSchoolStaff(schoolId, staff.address)).to.equal(false);
+
+      await pickupSecurity.setSchoolStaff(schoolId, [staff.address], true);
+      expect(await pickupSecurity.isSchoolStaff(schoolId, staff.address)).to.equal(true);
+
+      await expect(connect(pickupSecurity, staff).setSchoolStaff(schoolId, [outsider.address], true))
+        .to.be.revertedWith('Only school admin or owner can perform this action');
+      await expect(pickupSecurity.setSchoolStaff(otherSchoolId, [outsider.address], true))
+        .to.be.revertedWith('School is not registered');
+    });
+  });
+
+  describe('authorizations', () => {
+    it('creates a batch of authorizations', async () => {
+      const { pickupSecurity, parent, pickup, staff } = await loadFixture(deployFixture);
+      const inputs = [
+        await authorizationInput(ethers.id('authorization-1'), parent.address, pickup.address),
+        await authorizationInput(ethers.id('authorization-2'), parent.address, staff.address)
+      ];
+
+      await expect(connect(pickupSecurity, parent).createAuthorizations(schoolId, inputs))
+        .to.emit(pickupSecurity, 'AuthorizationCreated')
+        .withArgs(inputs[1].authHash, parent.address, staff.address, inputs[1].studentHash, inputs[1].startDate, inputs[1].endDate);
+
+      const authorization = await pickupSecurity.getAuthorization(inputs[0].authHash);
+      expect(authorization.schoolId).to.equal(schoolId);
+      expect(authorization.isActive).to.equal(true);
+      expect(await pickupSecurity.authorizationCounter()).to.equal(2);
+    });
+
+    it('only lets parents create their own authorizations', async () => {
+      const { pickupSecurity, schoolAdmin, parent, otherParent, pickup } = await loadFixture(deployFixture);
+      const input = await authorizationInput(ethers.id('authorization-1'), otherParent.address, pickup.address);
+
+      await expect(connect(pickupSecurity, parent).createAuthorizations(schoolId, [input]))
+        .to.be.revertedWith('Only parent can create authorization');
+
+      // The school admin may create it for the parent
+      await expect(connect(pickupSecurity, schoolAdmin).createAuthorizations(schoolId, [input]))
+        .to.emit(pickupSecurity, 'AuthorizationCreated');
+    });
+
+    it('rolls back the whole batch when one authorization is invalid', async () => {
+      const { pickupSecurity, parent, pickup } = await loadFixture(deployFixture);
+      const valid = await authorizationInput(ethers.id('authorization-1'), parent.address, pickup.address);
+      const invalid = { ...valid, authHash: ethers.id('authorization-2'), pickupWallet: ethers.ZeroAddress };
+
+      await expect(connect(pickupSecurity, parent).createAuthorizations(schoolId, [valid, invalid]))
+        .to.be.revertedWith('Invalid pickup wallet');
+      expect((await pickupSecurity.getAuthorization(valid.authHash)).isActive).to.equal(false);
+      expect(await pickupSecurity.authorizationCounter()).to.equal(0);
+    });
+
+    it('accepts start dates within the grace period only', async () => {
+      const { pickupSecurity, parent, pickup } = await loadFixture(deployFixture);
+      const input = await authorizationInput(ethers.id('authorization-1'), parent.address, pickup.address);
+
+      await expect(connect(pickupSecurity, parent).createAuthorizations(schoolId, [
+        { ...input, startDate: input.startDate - DAY + 60 }
+      ])).to.emit(pickupSecurity, 'AuthorizationCreated');
+
+      await expect(connect(pickupSecurity, parent).createAuthorizations(schoolId, [
+        { ...input, authHash: ethers.id('authorization-2'), startDate: input.startDate - 2 * DAY }
+      ])).to.be.revertedWith('Start date is too far in the past');
+    });
+
+    it('rejects empty and oversized batches and unknown schools', async () => {
+      const { pickupSecurity, parent, pickup } = await loadFixture(deployFixture);
+      const input = await authorizationInput(ethers.id('authorization-1'), parent.address, pickup.address);
+      const maxBatchSize = Number(await pickupSecurity.MAX_BATCH_SIZE());
+      const oversized = Array.from({ length: maxBatchSize + 1 }, (_, i) => ({ ...input, authHash: ethers.id(`authorization-${i}`) }));
+
+      await expect(connect(pickupSecurity, parent).createAuthorizations(schoolId, []))
+        .to.be.revertedWith('Invalid batch size');
+      await expect(connect(pickupSecurity, parent).createAuthorizations(schoolId, oversized))
+        .to.be.revertedWith('Invalid batch size');
+      await expect(connect(pickupSecurity, parent).createAuthorizations(otherSchoolId, [input]))
+        .to.be.revertedWith('School is not registered');
+    });
+
+    it('counts a verified authorization as valid', async () => {
+      const { pickupSecurity, parent, pickup } = await loadFixture(deployFixture);
+      const input = await authorizationInput(ethers.id('authorization-1'), parent.address, pickup.address);
+
+      await connect(pickupSecurity, parent).createAuthorizations(schoolId, [input]);
+      expect(await pickupSecurity.isAuthorizationValid(input.authHash, pickup.address, input.studentHash)).to.equal(false);
+
+      await pickupSecurity.verifyAuthorization(input.authHash, true);
+      expect(await pickupSecurity.isAuthorizationValid(input.authHash, pickup.address, input.studentHash)).to.equal(true);
+    });
+  });
+
+  describe('revocation', () => {
+    const revocationFixture = async () => {
+      const fixture = await deployFixture();
+      const { pickupSecurity, parent, pickup } = fixture;
+      const inputs = [
+        await authorizationInput(ethers.id('authorization-1'), parent.address, pickup.address),
+        await authorizationInput(ethers.id('authorization-2'), parent.address, pickup.address)
+      ];
+      await connect(pickupSecurity, parent).createAuthorizations(schoolId, inputs);
+      return { ...fixture, authHashes: inputs.map(input => input.authHash) };
+    };
+
+    it('revokes a batch as the parent', async () => {
+      const { pickupSecurity, parent, authHashes } = await loadFixture(revocationFixture);
+
+      await expect(connect(pickupSecurity, parent).revokeAuthorizations(authHashes))
+        .to.emit(pickupSecurity, 'AuthorizationRevoked')
+        .withArgs(authHashes[1], parent.address);
+
+      for (const authHash of authHashes) {
+        expect((await pickupSecurity.getAuthorization(authHash)).isActive).to.equal(false);
+      }
+    });
+
+    it('lets the school admin and the owner revoke', async () => {
+      const { pickupSecurity, schoolAdmin, authHashes } = await loadFixture(revocationFixture);
+
+      await connect(pickupSecurity, schoolAdmin).revokeAuthorization(authHashes[0]);
+      await pickupSecurity.revokeAuthorization(authHashes[1]);
+
+      expect((await pickupSecurity.getAuthorization(authHashes[0])).isActive).to.equal(false);
+      expect((await pickupSecurity.getAuthorization(authHashes[1])).isActive).to.equal(false);
+    });
+
+    it('rejects revocation by anyone else and keeps the batch intact', async () => {
+      const { pickupSecurity, parent, pickup, staff, authHashes } = await loadFixture(revocationFixture);
+
+      await expect(connect(pickupSecurity, pickup).revokeAuthorization(authHashes[0]))
+        .to.be.revertedWith('Only parent, school admin or owner can perform this action');
+      await expect(connect(pickupSecurity, staff).revokeAuthorizations(authHashes))
+        .to.be.revertedWith('Only parent, school admin or owner can perform this action');
+
+      // A batch with an already revoked entry fails as a whole
+      await connect(pickupSecurity, parent).revokeAuthorization(authHashes[0]);
+      await expect(connect(pickupSecurity, parent).revokeAuthorizations(authHashes))
+        .to.be.revertedWith('Authorization is not active');
+      expect((await pickupSecurity.getAuthorization(authHashes[1])).isActive).to.equal(true);
+    });
+  });
+
+  describe('pickup events', () => {
+    const recordArgs = (eventHash: string, pickupWallet: string, staffWallet: string) =>
+      [schoolId, eventHash, createStudentHash('student-1'), pickupWallet, staffWallet, createQRCodeHash('qr-1')] as const;
+
+    it('lets allowlisted staff record pickups', async () => {
+      const { pickupSecurity, pickup, staff } = await loadFixture(deployFixture);
+      const eventHash = ethers.id('pickup-1');
+
+      await expect(connect(pickupSecurity, staff).recordPickupEvent(...recordArgs(eventHash, pickup.address, staff.address)))
+        .to.emit(pickupSecurity, 'PickupEventRecorded');
+
+      const event = await pickupSecurity.getPickupEvent(eventHash);
+      expect(event.schoolId).to.equal(schoolId);
+      expect(event.staffWallet).to.equal(staff.address);
+
+      await expect(connect(pickupSecurity, staff).recordPickupEvent(...recordArgs(eventHash, pickup.address, staff.address)))
+        .to.be.revertedWith('Event already recorded');
+    });
+
+    it('lets the owner relay a pickup for allowlisted staff', async () => {
+      const { pickupSecurity, pickup, staff } = await loadFixture(deployFixture);
+
+      await expect(pickupSecurity.recordPickupEvent(...recordArgs(ethers.id('pickup-1'), pickup.address, staff.address)))
+        .to.emit(pickupSecurity, 'PickupEventRecorded');
+    });
+
+    it('rejects staff outside the allowlist and staff recording for someone else', async () => {
+      const { pickupSecurity, schoolAdmin, pickup, staff, outsider } = await loadFixture(deployFixture);
+
+      await expect(connect(pickupSecurity, outsider).recordPickupEvent(...recordArgs(ethers.id('pickup-1'), pickup.address, outsider.address)))
+        .to.be.revertedWith('Staff wallet is not allowed for this school');
+      await expect(connect(pickupSecurity, outsider).recordPickupEvent(...recordArgs(ethers.id('pickup-1'), pickup.address, staff.address)))
+        .to.be.revertedWith('Only staff can record pickup events');
+
+      await connect(pickupSecurity, schoolAdmin).setSchoolStaff(schoolId, [staff.address], false);
+      await expect(connect(pickupSecurity, staff).recordPickupEvent(...recordArgs(ethers.id('pickup-1'), pickup.address, staff.address)))
+        .to.be.revertedWith('Staff wallet is not allowed for this school');
+    });
+  });
+
+  describe('Merkle batches', () => {
+    it('verifies a multiproof against an anchored batch', async () => {
+      const { pickupSecurity, schoolAdmin } = await loadFixture(deployFixture);
+      const eventHashes = Array.from({ length: 10 }, (_, i) => ethers.id(`pickup-${i}`));
+      const tree = buildMerkleTree(eventHashes);
+
+      await expect(connect(pickupSecurity, schoolAdmin).anchorMerkleBatch(tree.root, eventHashes.length, ''))
+        .to.be.revertedWithCustomError(pickupSecurity, 'OwnableUnauthorizedAccount');
+      await expect(pickupSecurity.anchorMerkleBatch(tree.root, eventHashes.length, ''))
+        .to.emit(pickupSecurity, 'MerkleBatchAnchored');
+
+      const multiProof = getMerkleMultiProof(tree, [eventHashes[0], eventHashes[3], eventHashes[9]]);
+      expect(await pickupSecurity.verifyPickupEvents(multiProof.leaves, 0, multiProof.proof, multiProof.proofFlags))
+        .to.equal(true);
+      expect(await pickupSecurity.verifyPickupEvents(multiProof.leaves, 0, [ethers.id('forged'), ...multiProof.proof.slice(1)], multiProof.proofFlags))
+        .to.equal(false);
+      await expect(pickupSecurity.verifyPickupEvents(multiProof.leaves, 1, multiProof.proof, multiProof.proofFlags))
+        .to.be.revertedWith('Batch does not exist');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { connect } from './helpers';
+
+// RoleAuth.Role
+const Role = { None: 0, Parent: 1, Staff: 2, Admin: 3 };
+
+describe('RoleAuth', () => {
+  const deployFixture = async () => {
+    const [deployer, admin, staff, parent] = await ethers.getSigners();
+    const roleAuth = await ethers.deployContract('RoleAuth');
+    return { roleAuth, deployer, admin, staff, parent };
+  };
+
+  it('makes the deployer the admin', async () => {
+    const { roleAuth, deployer } = await loadFixture(deployFixture);
+
+    expect(await roleAuth.admin()).to.equal(deployer.address);
+    expect(await roleAuth.getRole(deployer.address)).to.equal(Role.Admin);
+    await expect(roleAuth.deploymentTransaction())
+      .to.emit(roleAuth, 'RoleUpdated')
+      .withArgs(deployer.address, Role.Admin);
+  });
+
+  it('returns None for wallets without a role', async () => {
+    const { roleAuth, parent } = await loadFixture(deployFixture);
+
+    expect(await roleAuth.getRole(parent.address)).to.equal(Role.None);
+  });
+
+  it('lets the admin grant, change and clear roles', async () => {
+    const { roleAuth, staff } = await loadFixture(deployFixture);
+
+    await expect(roleAuth.setRole(staff.address, Role.Staff))
+      .to.emit(roleAuth, 'RoleUpdated')
+      .withArgs(staff.address, Role.Staff);
+    expect(await roleAuth.getRole(staff.address)).to.equal(Role.Staff);
+    expect(await roleAuth.roles(staff.address)).to.equal(Role.Staff);
+
+    await roleAuth.setRole(staff.address, Role.Admin);
+    expect(await roleAuth.getRole(staff.address)).to.equal(Role.Admin);
+
+    await roleAuth.setRole(staff.address, Role.None);
+    expect(await roleAuth.getRole(staff.address)).to.equal(Role.None);
+  });
+
+  it('lets wallets holding the Admin role set roles', async () => {
+    const { roleAuth, admin, parent } = await loadFixture(deployFixture);
+
+    await roleAuth.setRole(admin.address, Role.Admin);
+    await connect(roleAuth, admin).setRole(parent.address, Role.Parent);
+
+    expect(await roleAuth.getRole(parent.address)).to.equal(Role.Parent);
+  });
+
+  it('rejects role changes from staff, parents and wallets without a role', async () => {
+    const { roleAuth, staff, parent } = await loadFixture(deployFixture);
+
+    await roleAuth.setRole(staff.address, Role.Staff);
+    await roleAuth.setRole(parent.address, Role.Parent);
+
+    await expect(connect(roleAuth, staff).setRole(staff.address, Role.Admin))
+      .to.be.revertedWith('Not authorized');
+    await expect(connect(roleAuth, parent).setRole(staff.address, Role.None))
+      .to.be.revertedWith('Not authorized');
+
+    const [, , , , outsider] = await ethers.getSigners();
+    await expect(connect(roleAuth, outsider).setRole(outsider.address, Role.Admin))
+      .to.be.revertedWith('Not authorized');
+  });
+
+  it('stops a demoted admin from setting roles', async () => {
+    const { roleAuth, admin, parent } = await loadFixture(deployFixture);
+
+    await roleAuth.setRole(admin.address, Role.Admin);
+    await roleAuth.setRole(admin.address, Role.Staff);
+
+    await expect(connect(roleAuth, admin).setRole(parent.address, Role.Parent))
+      .to.be.revertedWith('Not authorized');
+  });
+});
@@ -0,0 +1,234 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  buildCreateAuthorizationsCall,
+  buildRecordPickupEventCall,
+  createAuthorizationOnChain,
+  createAuthorizationsOnChain,
+  getAuthorizationFromChain,
+  getContract,
+  getPickupEventFromChain,
+  isSchoolStaffOnChain,
+  recordPickupEventOnChain,
+  setSchoolStaffOnChain
+} from '../lib/blockchain/contract';
+import { ERROR_CODES, NETWORKS } from '../lib/blockchain/constants';
+import {
+  createAuthorizationHash,
+  createPickupEventHash,
+  createQRCodeHash,
+  createSchoolId,
+  createStudentHash
+} from '../lib/blockchain/hashing';
+import type { AuthorizationData, BlockchainConfig, PickupEventData } from '../lib/blockchain/types';
+
+const DAY = 24 * 60 * 60;
+
+// Drives lib/blockchain/contract.ts (the code the app and relayer use) against both contract versions
+describe('lib/blockchain/contract', () => {
+  const schoolId = createSchoolId('test-school');
+
+  const networkFor = async (contract: { getAddress(): Promise<string> }, contractVersion: 1 | 2): Promise<BlockchainConfig> => ({
+    contractAddress: await contract.getAddress(),
+    rpcUrl: NETWORKS.LOCALHOST.rpcUrl,
+    chainId: NETWORKS.LOCALHOST.chainId,
+    contractVersion,
+    ...(contractVersion === 2 && { schoolId })
+  });
+
+  const deployV1Fixture = async () => {
+    const [owner, parent, pickup, staff] = await ethers.getSigners();
+    const pickupSecurity = await ethers.deployContract('PickupSecurity');
+    return { network: await networkFor(pickupSecurity, 1), owner, parent, pickup, staff };
+  };
+
+  const deployV2Fixture = async () => {
+    const [owner, parent, pickup, staff, outsider] = await ethers.getSigners();
+    const pickupSecurity = await ethers.deployContract('PickupSecurityV2');
+    await pickupSecurity.registerSchool(schoolId, owner.address);
+    return { network: await networkFor(pickupSecurity, 2), owner, parent, pickup, staff, outsider };
+  };
+
+  const authorizationFor = async (
+    parentWallet: string,
+    pickupWallet: string,
+    studentId = 'student-1',
+    startOffset = 60
+  ): Promise<AuthorizationData> => {
+    const startDate = (await time.latest()) + startOffset;
+    return {
+      authHash: '',
+      parentWallet,
+      pickupWallet,
+      studentHash: createStudentHash(studentId),
+      startDate,
+      endDate: startDate + 7 * DAY,
+      signature: '0x',
+      message: ''
+    };
+  };
+
+  const pickupEventFor = async (pickupWallet: string, staffWallet: string): Promise<PickupEventData> => ({
+    eventHash: '',
+    studentHash: createStudentHash('student-1'),
+    pickupWallet,
+    staffWallet,
+    qrCodeHash: createQRCodeHash('qr-1'),
+    timestamp: await time.latest()
+  });
+
+  describe('call builders', () => {
+    it('builds v1 calls without a school and one authorization per call', async () => {
+      const { network, parent, pickup, staff } = await loadFixture(deployV1Fixture);
+      const auth = { ...(await authorizationFor(parent.address, pickup.address)), authHash: ethers.id('auth') };
+      const event = { ...(await pickupEventFor(pickup.address, staff.address)), eventHash: ethers.id('event') };
+
+      expect(buildCreateAuthorizationsCall([auth], network)).to.deep.equal({
+        method: 'createAuthorization',
+        args: [auth.authHash, auth.parentWallet, auth.pickupWallet, auth.studentHash, auth.startDate, auth.endDate]
+      });
+      expect(() => buildCreateAuthorizationsCall([auth, auth], network))
+        .to.throw(ERROR_CODES.UNSUPPORTED_CONTRACT_VERSION);
+      expect(buildRecordPickupEventCall(event, network).args).to.deep.equal([
+        event.eventHash, event.studentHash, event.pickupWallet, event.staffWallet, event.qrCodeHash
+      ]);
+    });
+
+    it('builds v2 calls scoped to the school', async () => {
+      const { network, parent, pickup, staff } = await loadFixture(deployV2Fixture);
+      const auth = { ...(await authorizationFor(parent.address, pickup.address)), authHash: ethers.id('auth') };
+      const event = { ...(await pickupEventFor(pickup.address, staff.address)), eventHash: ethers.id('event') };
+
+      const createCall = buildCreateAuthorizationsCall([auth, auth], network);
+      expect(createCall.method).to.equal('createAuthorizations');
+      expect(createCall.args[0]).to.equal(schoolId);
+      expect(createCall.args[1]).to.have.length(2);
+      expect(buildRecordPickupEventCall(event, network).args[0]).to.equal(schoolId);
+      expect(() => buildRecordPickupEventCall(event, { ...network, schoolId: undefined }))
+        .to.throw('PickupSecurity v2 requires a school id');
+    });
+
+    it('encodes built calls with the ABI getContract picks for the version', async () => {
+      const { network: v1, parent, pickup } = await loadFixture(deployV1Fixture);
+      const { network: v2 } = await loadFixture(deployV2Fixture);
+      const auth = { ...(await authorizationFor(parent.address, pickup.address)), authHash: ethers.id('auth') };
+
+      for (const network of [v1, v2]) {
+        const call = buildCreateAuthorizationsCall([auth], network);
+        const contract = getContract(ethers.provider, network);
+        const request = await contract.getFunction(call.method).populateTransaction(...call.args);
+        expect(request.to).to.equal(network.contractAddress);
+      }
+      expect(() => getContract(ethers.provider, { ...v1, contractAddress: ethers.ZeroAddress }))
+        .to.throw(ERROR_CODES.CONTRACT_NOT_DEPLOYED);
+    });
+  });
+
+  describe('PickupSecurity v1', () => {
+    it('creates an authorization on chain', async () => {
+      const { network, parent, pickup } = await loadFixture(deployV1Fixture);
+      const authData = await authorizationFor(parent.address, pickup.address);
+
+      const result = await createAuthorizationOnChain(parent, authData, network);
+
+      expect(result.success).to.equal(true);
+      const onChain = await getAuthorizationFromChain(ethers.provider, createAuthorizationHash(authData), network);
+      expect(onChain).to.include({
+        parentWallet: parent.address,
+        pickupWallet: pickup.address,
+        studentHash: authData.studentHash,
+        startDate: authData.startDate,
+        endDate: authData.endDate,
+        isActive: true,
+        schoolId: undefined
+      });
+    });
+
+    it('returns the revert reason instead of throwing', async () => {
+      const { network, parent, pickup } = await loadFixture(deployV1Fixture);
+      // v1 rejects authorizations that have already started
+      const authData = await authorizationFor(parent.address, pickup.address, 'student-1', -60);
+
+      const result = await createAuthorizationOnChain(parent, authData, network);
+
+      expect(result.success).to.equal(false);
+      expect(result.error).to.contain('Start date must be in the future');
+    });
+
+    it('records a pickup event on chain', async () => {
+      const { network, pickup, staff } = await loadFixture(deployV1Fixture);
+      const eventData = await pickupEventFor(pickup.address, staff.address);
+
+      const result = await recordPickupEventOnChain(staff, eventData, network);
+
+      expect(result.success).to.equal(true);
+      expect(result.blockNumber).to.be.a('number');
+      const onChain = await getPickupEventFromChain(ethers.provider, createPickupEventHash(eventData), network);
+      expect(onChain).to.include({
+        studentHash: eventData.studentHash,
+        pickupWallet: pickup.address,
+        staffWallet: staff.address,
+        qrCodeHash: eventData.qrCodeHash
+      });
+    });
+
+    it('refuses v2-only batches', async () => {
+      const { network, parent, pickup } = await loadFixture(deployV1Fixture);
+      const authData = await authorizationFor(parent.address, pickup.address);
+
+      const result = await createAuthorizationsOnChain(parent, [authData], network);
+
+      expect(result).to.deep.equal({ success: false, error: ERROR_CODES.UNSUPPORTED_CONTRACT_VERSION });
+    });
+  });
+
+  describe('PickupSecurity v2', () => {
+    it('creates a batch of authorizations in the school, starting now', async () => {
+      const { network, parent, pickup, staff } = await loadFixture(deployV2Fixture);
+      const authorizations = [
+        await authorizationFor(parent.address, pickup.address, 'student-1', 0),
+        await authorizationFor(parent.address, staff.address, 'student-2', 0)
+      ];
+
+      const result = await createAuthorizationsOnChain(parent, authorizations, network);
+
+      expect(result.success).to.equal(true);
+      for (const authData of authorizations) {
+        const onChain = await getAuthorizationFromChain(ethers.provider, createAuthorizationHash(authData), network);
+        expect(onChain).to.include({ schoolId, parentWallet: parent.address, pickupWallet: authData.pickupWallet, isActive: true });
+      }
+    });
+
+    it('records pickups only from allowlisted staff', async () => {
+      const { network, owner, pickup, staff } = await loadFixture(deployV2Fixture);
+      const eventData = await pickupEventFor(pickup.address, staff.address);
+
+      const rejected = await recordPickupEventOnChain(staff, eventData, network);
+      expect(rejected.success).to.equal(false);
+      expect(rejected.error).to.contain('Staff wallet is not allowed for this school');
+
+      expect((await setSchoolStaffOnChain(owner, [staff.address], true, network)).success).to.equal(true);
+      expect(await isSchoolStaffOnChain(ethers.provider, staff.address, network)).to.equal(true);
+
+      const recorded = await recordPickupEventOnChain(staff, eventData, network);
+      expect(recorded.success).to.equal(true);
+      const onChain = await getPickupEventFromChain(ethers.provider, createPickupEventHash(eventData), network);
+      expect(onChain).to.include({ schoolId, staffWallet: staff.address, pickupWallet: pickup.address });
+    });
+
+    it('lets the owner relay a pickup for allowlisted staff', async () => {
+      const { network, owner, pickup, staff, outsider } = await loadFixture(deployV2Fixture);
+      await setSchoolStaffOnChain(owner, [staff.address], true, network);
+      const eventData = await pickupEventFor(pickup.address, staff.address);
+
+      const byOutsider = await recordPickupEventOnChain(outsider, eventData, network);
+      expect(byOutsider.success).to.equal(false);
+      expect(byOutsider.error).to.contain('Only staff can record pickup events');
+
+      expect((await recordPickupEventOnChain(owner, eventData, network)).success).to.equal(true);
+      expect(await getPickupEventFromChain(ethers.provider, createPickupEventHash(eventData), network))
+        .to.include({ staffWallet: staff.address });
+    });
+  });
+});
@@ -0,0 +1,9 @@
+import type { Contract, Signer } from 'ethers';
+
+/**
+ * Connects a contract to another signer. Contract.connect() is typed as BaseContract,
+ * which hides the ABI methods without generated typings.
+ */
+export const connect = (contract: Contract, signer: Signer): Contract => {
+  return contract.connect(signer) as Contract;
+};
@@ -47,7 +47,22 @@ export interface Staff {
   updatedAt?: string;
 }
 
-export type DashboardRole = 'parent' | 'pickup' | 'staff';
+export type DashboardRole = 'parent' | 'pickup' | 'staff' | 'admin';
+
+export interface DeviceSession {
+  id: string;
+  wallet: string;
+  role: string;
+  deviceLabel: string;
+  userAgent: string;
+  ipAddress?: string;
+  status: 'active' | 'ended' | 'expired' | 'revoked';
+  createdAt: string;
+  lastActive: string;
+  endedAt?: string;
+  endedBy?: string;
+  isCurrent: boolean;
+}
 
 export interface DashboardTab {
   key: string;
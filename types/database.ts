@@ -1,9 +1,20 @@
+import type { BlockchainEventType, TrackedTransactionStatus } from '../lib/blockchain/types';
+
 export interface Student {
   id: string; // Format: "CH001"
   name: string;
   grade: string;
   parentId: string; // Parent wallet address (lowercase hex)
   createdAt: Date;
+  photo?: PhotoReference;
+}
+
+// A photo in photo storage (see lib/firebase/photos.ts)
+export interface PhotoReference {
+  key: string; // Storage key, e.g. "students/CH001.jpg"
+  contentType: string;
+  updatedAt: string; // ISO date string
+  updatedBy: string; // Uploader's wallet
 }
 
 export interface PickupPerson {
@@ -11,6 +22,40 @@ export interface PickupPerson {
   relationship: string; // e.g., "father", "mother", "guardian", etc.
   startDate: string; // ISO date string
   endDate: string; // ISO date string
+  authHash?: string; // PickupSecurity authorization created for this person, if any
+  // Set while the on-chain authorization is being revoked; the person counts as revoked
+  revocation?: PickupRevocation;
+}
+
+export type PickupRevocationStatus = 'pending' | 'confirmed' | 'failed';
+
+// Who sends revokeAuthorization: the parent's own wallet, or the school relayer
+export type PickupRevocationMethod = 'parent' | 'relayer';
+
+export interface PickupRevocationTx {
+  authHash: string;
+  txHash?: string; // Set once the transaction is sent
+}
+
+export interface PickupRevocation {
+  status: PickupRevocationStatus;
+  method: PickupRevocationMethod;
+  chainId: number;
+  transactions: PickupRevocationTx[];
+  requestedAt: string; // ISO date string
+  error?: string;
+}
+
+// Collection `pickupRevocations`: on-chain revocations that have been confirmed
+export interface PickupRevocationRecord {
+  id: string;
+  parentWallet: string;
+  pickupWallet: string;
+  method: PickupRevocationMethod;
+  chainId: number;
+  transactions: PickupRevocationTx[];
+  requestedAt: Date;
+  confirmedAt: Date;
 }
 
 export interface User {
@@ -18,21 +63,154 @@ export interface User {
   walletAddress: string; // Wallet address (lowercase hex)
   name: string;
   contactNumber?: string;
-  role: 'parent' | 'pickup_person' | 'staff';
+  role: 'parent' | 'pickup_person' | 'staff' | 'admin';
   createdAt: Date;
   lastLoginAt: Date;
   // Pickup collection exists only when role is 'parent'
   pickup?: Record<string, PickupPerson>; // Key is pickup person's wallet address
+  photo?: PhotoReference;
+  schoolId?: string; // School whose QR settings apply; the default school (NEXT_PUBLIC_SCHOOL_ID) when unset
+}
+
+// How a pickup is anchored on chain: recorded directly, or queued for a Merkle batch
+export type PickupAnchorMode = 'direct' | 'batch';
+
+export type PickupAnchorStatus = 'queued' | 'pending' | 'confirmed' | 'failed';
+
+// Preimage of the pickup event hash (see createPickupEventHash)
+export interface PickupEventPreimage {
+  studentHash: string;
+  pickupWallet: string;
+  staffWallet: string;
+  qrCodeHash: string;
+  timestamp: number; // Unix seconds
+}
+
+// Identity checks staff ticked before confirming a pickup
+export interface PickupEvidenceChecks {
+  studentIdentity: boolean; // Student matches their photo or is known to staff
+  pickupPersonPhoto: boolean; // Pickup person matches their registered photo
+  pickupPersonId: boolean; // Pickup person showed valid ID
+}
+
+// What staff had in front of them when they confirmed a pickup
+export interface PickupEvidence extends PickupEvidenceChecks {
+  relationship: string; // Relationship shown to staff
+  // Photos shown to staff (storage keys), null when none was on file or the pickup was offline
+  studentPhotoKey: string | null;
+  pickupPersonPhotoKey: string | null;
 }
 
 export interface PickupHistory {
   id: string; // Random ID
-  blockchainHash: string;
-  contractTxHash: string;
+  blockchainHash: string; // Pickup event hash
+  contractTxHash: string; // Confirmed anchoring transaction, empty until then
   pickupBy: string; // Pickup person wallet address
   staffId: string; // Staff wallet address
   studentId: string; // Student ID
   time: Date;
+  pickupEvent?: PickupEventPreimage;
+  anchorMode?: PickupAnchorMode;
+  anchorStatus?: PickupAnchorStatus;
+  anchorError?: string;
+  // When the direct anchor was requested (not the pickup time, which is the scan time for
+  // offline pickups); the batch job leaves pending direct anchors alone until it is old enough
+  anchorRequestedAt?: Date;
+  // Direct anchoring transaction as sent; the batch job checks it before batching the event
+  submittedTxHash?: string;
+  chainId?: number;
+  blockNumber?: number;
+  // Set once the event is claimed by a Merkle batch
+  batchId?: string;
+  batchNumber?: number; // On-chain batch number, once anchored
+  merkleRoot?: string;
+  merkleProof?: string[];
+  evidence?: PickupEvidence; // Checks unticked for the legacy verify-and-record call; missing on older records
+}
+
+export type PickupBatchStatus = 'pending' | 'submitted' | 'anchored' | 'failed';
+
+// Collection `pickupBatches`: Merkle batches of pickup events anchored on chain
+export interface PickupBatchRecord {
+  id: string;
+  status: PickupBatchStatus;
+  historyIds: string[];
+  eventHashes: string[];
+  merkleRoot: string;
+  eventCount: number;
+  ipfsHash?: string; // CID of the archived event list
+  chainId: number;
+  attempts: number;
+  txHash?: string;
+  batchNumber?: number;
+  blockNumber?: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Collection `chainEvents`: PickupSecurity events indexed from the chain.
+// Document ID is `${chainId}_${transactionHash}_${logIndex}`.
+export interface ChainEventRecord {
+  id: string;
+  chainId: number;
+  type: BlockchainEventType;
+  data: Record<string, string | number | boolean>;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number; // Block timestamp, unix seconds
+  indexedAt: Date;
+}
+
+export type ChainDriftKind =
+  | 'unknownPickupEvent' // Pickup event on chain with no pickupHistory record
+  | 'pickupNotConfirmed' // Pickup event on chain, but the record is not marked confirmed
+  | 'pickupMissingOnChain' // Record marked confirmed, but its event or batch is not on chain
+  | 'unknownMerkleBatch' // Batch anchored on chain with no pickupBatches record
+  | 'batchNotConfirmed' // Batch anchored on chain, but the record is not marked anchored
+  | 'authorizationNotInUser' // Active authorization on chain, missing from the parent's user.pickup
+  | 'revokedAuthorizationInUser' // Authorization revoked on chain, still in the parent's user.pickup
+  | 'reorg'; // Indexed blocks were replaced; events after `blockNumber` were re-indexed
+
+// Collection `chainDrift`: differences between the chain and our records.
+// Document ID is `${chainId}_${kind}_${ref}`, so a repeated finding overwrites itself.
+export interface ChainDriftRecord {
+  id: string;
+  chainId: number;
+  kind: ChainDriftKind;
+  ref: string; // Event hash, Merkle root, history ID or auth hash the finding is about
+  detail: string;
+  blockNumber: number;
+  transactionHash?: string;
+  detectedAt: Date;
+}
+
+export type TrackedTransactionSource = 'relayer' | 'wallet';
+
+// Collection `transactions`: writes sent by the relayer or a user's wallet, followed until mined.
+// Document ID is the lowercase transaction hash.
+export interface TrackedTransactionRecord {
+  hash: string;
+  chainId: number;
+  from: string; // Sender wallet lowercase
+  nonce: number;
+  to: string | null;
+  method: string; // Contract function, or 'cancel' for a cancelling transfer
+  source: TrackedTransactionSource;
+  status: TrackedTransactionStatus;
+  speedUps: number; // Replacements sent before this one for the same nonce
+  maxFeePerGas?: string; // Wei, as decimal strings
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  replaces?: string; // Hash of the transaction this one replaced
+  replacedBy?: string; // Hash of the transaction that replaced this one
+  blockNumber?: number;
+  gasUsed?: number;
+  submittedAt: Date;
+  updatedAt: Date;
 }
 
 export interface AuthorizationRecord {
@@ -46,6 +224,33 @@ export interface AuthorizationRecord {
   expiresAt: Date;
   isUsed: boolean;
   isActive: boolean;
+  usedAt?: Date; // When the pickup was confirmed (the scan time for offline pickups)
+  usedBy?: string; // Staff wallet that confirmed it
+  pickupHistoryId?: string; // Pickup history record written when it was used
+  // Rotating QR codes (settings are copied from the school's at generation)
+  rotationSecret?: string;
+  rotationSeconds?: number;
+  rotationDriftSteps?: number;
+}
+
+// Outcome of using an authorization record for a pickup
+export type AuthorizationConsumeStatus = 'consumed' | 'invalid' | 'expired' | 'used' | 'error';
+
+export interface AuthorizationConsumeResult {
+  status: AuthorizationConsumeStatus;
+  pickupHistoryId?: string; // Set when consumed
+  // Set when already used
+  usedBy?: string;
+  usedAt?: Date;
+}
+
+// QR code settings of a school, `qrSettings/{schoolId}`
+export interface QRSettings {
+  expiryMinutes: number; // How long a generated QR code can be used
+  rotationSeconds: number; // How often the displayed code changes; 0 disables rotation
+  driftSteps: number; // Rotation steps either side of the current one still accepted
+  updatedAt?: Date;
+  updatedBy?: string;
 }
 
 // Legacy interfaces for backward compatibility
@@ -72,10 +277,80 @@ export interface PickupLog {
   qrCodeId: string; // For one-time use tracking
 }
 
+export type UserSessionStatus = 'active' | 'ended' | 'expired' | 'revoked';
+
+// One document per signed-in device, keyed by the `sid` claim in the Firebase token
 export interface UserSession {
+  id: string;
   wallet: string;
-  role: 'parent' | 'pickup_person' | 'staff';
+  role: 'parent' | 'pickup' | 'pickup_person' | 'staff' | 'admin';
+  userAgent: string;
+  deviceLabel: string;
+  ipAddress?: string;
+  status: UserSessionStatus;
+  createdAt: Date;
   lastActive: Date;
+  endedAt?: Date;
+  endedBy?: string; // Wallet (or 'role-sync') that ended the session
+  signerWallet?: string; // Linked wallet used to sign in, when different from `wallet`
+}
+
+// Collection `walletLinks`, keyed by the linked (secondary) wallet
+export interface WalletLink {
+  wallet: string; // Linked wallet (lowercase hex)
+  primaryWallet: string; // Account the wallet signs in to
+  authorizedBy: string; // Already-authorized wallet that signed the link
+  message: string;
+  signature: string; // Signature of `message` by `authorizedBy`
+  linkedSignature: string; // Signature of `message` by `wallet`
+  status: 'active' | 'revoked';
+  createdAt: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
+}
+
+// 'approved' is held while the account is being moved, then becomes 'completed' or 'failed'
+export type WalletRecoveryStatus = 'pending' | 'approved' | 'completed' | 'rejected' | 'failed';
+
+// Collection `walletRecoveries`: staff-assisted moves of an account to a new wallet
+export interface WalletRecovery {
+  id: string;
+  oldWallet: string;
+  newWallet: string;
+  reason: string;
+  status: WalletRecoveryStatus;
+  requestedBy: string; // Staff wallet
+  requestedAt: Date;
+  reviewedBy?: string; // Second staff wallet that approved or rejected
+  reviewedAt?: Date;
+  reviewNote?: string;
+  completedAt?: Date;
+  error?: string;
+  changes?: {
+    studentIds: string[];
+    pickupParents: string[]; // Parents whose `pickup` map was re-keyed
+    linkedWallets: string[];
+  };
+}
+
+export type RelayRequestStatus = 'pending' | 'confirmed' | 'failed';
+
+// Collection `relayRequests`: signed requests submitted on chain by the school relayer
+export interface RelayRequestRecord {
+  id: string;
+  kind: 'createAuthorization' | 'recordPickupEvent';
+  signer: string; // Wallet that signed the typed data (lowercase hex)
+  account: string; // Account the request was made for
+  nonce: number;
+  message: Record<string, unknown>;
+  signature: string;
+  status: RelayRequestStatus;
+  chainId: number;
+  txHash?: string;
+  blockNumber?: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface QRCodeData {
@@ -92,6 +367,68 @@ export interface QRCodeData {
 export interface QRCodeContent {
   id: string; // Authorization record ID
   hash: string; // Verification hash
+  signed?: SignedQRPayload; // Set when the code is a signed token (KG1.<payload>.<signature>)
+  rotating?: { step: number; code: string }; // Set when a rotating code (~<step>.<code>) is appended
+}
+
+// Payload of a signed QR token; keys are short to keep the code scannable
+export interface SignedQRPayload {
+  v: 1;
+  aid: string; // Authorization record ID
+  h: string; // Verification hash of the record
+  sid: string; // Student ID
+  pw: string; // Pickup wallet (lowercase)
+  iat: number; // Issued at (unix seconds)
+  exp: number; // Expires at (unix seconds)
+  kid: string; // ID of the signing key
+}
+
+// Snapshot a staff device caches for offline gate mode (GET /api/qr/offline-roster)
+export interface OfflineRoster {
+  generatedAt: string; // ISO date string
+  validUntil: string; // The device stops validating offline after this
+  publicKey: { keyId: string; publicKey: string } | null; // Key signed QR codes are checked against
+  students: OfflineRosterStudent[];
+}
+
+export interface OfflineRosterStudent {
+  id: string;
+  name: string;
+  grade: string;
+  parentWallet: string;
+  photoUrl: string | null; // Cached on the device with the roster (see getPhotoUrl)
+  pickupPersons: OfflineRosterPickupPerson[]; // Includes the parent
+}
+
+export interface OfflineRosterPickupPerson {
+  walletAddress: string; // lowercase hex
+  name?: string;
+  relationship: string;
+  photoUrl: string | null;
+  startDate: string; // ISO date string
+  endDate: string; // ISO date string
+}
+
+// A pickup confirmed at the gate while offline, waiting to be recorded
+export interface OfflinePickup {
+  localId: string; // Assigned by the device
+  deviceId: string;
+  qrCodeData: string;
+  scannedAt: string; // ISO date string
+  evidence?: PickupEvidenceChecks;
+}
+
+export type OfflinePickupOutcome = 'recorded' | 'conflict' | 'rejected';
+
+// Result of reconciling one offline pickup through POST /api/qr/verify
+export interface OfflinePickupResult {
+  localId: string;
+  outcome: OfflinePickupOutcome;
+  pickupHistoryId?: string;
+  error?: string;
+  // Set for conflicts: who already used the QR code, and when
+  usedBy?: string;
+  usedAt?: string;
 }
 
 // =========================
@@ -3,7 +3,8 @@
  * Defines interfaces and types for wallet integration, signature handling, and MetaMask operations
  */
 
-import { BrowserProvider, JsonRpcSigner } from 'ethers';
+import { BrowserProvider, JsonRpcSigner, TypedDataDomain } from 'ethers';
+import { SUPPORTED_CHAIN_IDS, getNetworkConfig } from '../lib/blockchain/constants';
 
 export interface WalletState {
   isConnected: boolean;
@@ -21,6 +22,11 @@ export interface WalletConnectionResult {
   error?: string;
 }
 
+export interface NetworkSwitchResult {
+  success: boolean;
+  error?: string;
+}
+
 export interface SignatureResult {
   success: boolean;
   signature?: string;
@@ -50,6 +56,36 @@ export interface AuthorizationMessage {
   timestamp: number;
 }
 
+/**
+ * EIP-712 PickupAuthorization struct signed by a parent to delegate a pickup
+ */
+export interface PickupAuthorizationTypedData {
+  parent: string;
+  pickupWallet: string;
+  studentId: string;
+  /** Unix seconds */
+  startDate: number;
+  /** Unix seconds */
+  endDate: number;
+  /** uint256 as a decimal string, unique per authorization */
+  nonce: string;
+}
+
+export interface TypedSignatureResult {
+  success: boolean;
+  signature?: string;
+  typedData?: PickupAuthorizationTypedData;
+  domain?: TypedDataDomain;
+  error?: string;
+}
+
+export interface TypedSignatureVerificationParams {
+  typedData: PickupAuthorizationTypedData;
+  signature: string;
+  expectedAddress: string;
+  chainId: number;
+}
+
 export interface WalletError {
   code: string;
   message: string;
@@ -66,6 +102,43 @@ export interface MetaMaskEthereumProvider {
   isConnected(): boolean;
 }
 
+/**
+ * Minimal EIP-1193 provider shared by injected wallets and WalletConnect
+ */
+export interface Eip1193Provider {
+  request: (args: { method: string; params?: unknown[] | object }) => Promise<unknown>;
+  on: (event: string, handler: (...args: any[]) => void) => void;
+  removeListener: (event: string, handler: (...args: any[]) => void) => void;
+}
+
+/**
+ * Wallet metadata announced through EIP-6963
+ */
+export interface Eip6963ProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface Eip6963ProviderDetail {
+  info: Eip6963ProviderInfo;
+  provider: Eip1193Provider;
+}
+
+export type WalletProviderKind = 'injected' | 'walletconnect';
+
+/**
+ * A wallet the user can pick in the connect dialog
+ */
+export interface WalletProviderOption {
+  id: string;
+  kind: WalletProviderKind;
+  name: string;
+  icon?: string;
+  description?: string;
+}
+
 export interface WindowEthereum {
   ethereum?: MetaMaskEthereumProvider;
 }
@@ -81,6 +154,7 @@ export const WalletErrorCode = {
   UNSUPPORTED_METHOD: '4200',
   DISCONNECTED: '4900',
   CHAIN_DISCONNECTED: '4901',
+  UNRECOGNIZED_CHAIN: '4902',
 } as const;
 
 export interface NetworkInfo {
@@ -89,8 +163,66 @@ export interface NetworkInfo {
   isSupported: boolean;
 }
 
-export const SUPPORTED_NETWORKS: Record<number, NetworkInfo> = {
-  1: { chainId: 1, name: 'Ethereum Mainnet', isSupported: true },
-  11155111: { chainId: 11155111, name: 'Ethereum Sepolia', isSupported: true },
-  1337: { chainId: 1337, name: 'Hardhat', isSupported: true },
-};
+// Built from the chains enabled through NEXT_PUBLIC_SUPPORTED_CHAIN_IDS
+export const SUPPORTED_NETWORKS: Record<number, NetworkInfo> = Object.fromEntries(
+  SUPPORTED_CHAIN_IDS.map(chainId => [
+    chainId,
+    { chainId, name: getNetworkConfig(chainId)?.name || `Chain ${chainId}`, isSupported: true }
+  ])
+);
+
+/**
+ * Fields of a Sign-In With Ethereum (EIP-4361) message
+ */
+export interface SiweMessageFields {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SiweParseResult {
+  success: boolean;
+  fields?: SiweMessageFields;
+  error?: string;
+}
+
+export interface SiweValidationOptions {
+  /** Domain(s) the message must have been created for */
+  domain: string | string[];
+  /** Expected signing address */
+  address?: string;
+  /** Expected nonce */
+  nonce?: string;
+  /** Chain IDs the message may be bound to */
+  chainIds?: number[];
+  /** Reference time for issued-at/expiration checks (defaults to now) */
+  now?: Date;
+}
+
+export interface SiweVerificationResult {
+  isValid: boolean;
+  fields?: SiweMessageFields;
+  recoveredAddress?: string;
+  error?: string;
+}
+
+export interface WalletLinkMessageFields {
+  /** Account the new wallet is being linked to */
+  accountWallet: string;
+  /** Already-authorized wallet approving the link */
+  authorizingWallet: string;
+  /** Wallet being linked */
+  linkedWallet: string;
+  nonce: string;
+  issuedAt: string;
+}
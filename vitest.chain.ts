@@ -0,0 +1,60 @@
+/**
+ * Helpers for tests that run against a local Hardhat node (`npm run contracts:node`) using the
+ * contracts compiled into artifacts/ (`npm run contracts:compile`). Such tests set
+ * LOCAL_CHAIN_RPC_URL to the node's URL and are skipped otherwise.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { vi } from 'vitest';
+
+export const LOCAL_CHAIN_RPC_URL = process.env.LOCAL_CHAIN_RPC_URL;
+
+// Hardhat's chain ID
+const LOCAL_CHAIN_ID = 31337;
+
+// Key of the node's first account (the default Hardhat/Anvil mnemonic), which deploys the contracts
+// and, as their owner, serves as the relayer
+export const LOCAL_CHAIN_DEPLOYER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+// RoleAuth.Role
+export const ROLE_AUTH_ROLES = { None: 0, Parent: 1, Staff: 2, Admin: 3 } as const;
+
+/**
+ * Deploys a compiled contract from the node's first account, which Hardhat keeps unlocked
+ */
+export const deployLocalContract = async (name: string): Promise<ethers.Contract> => {
+  const artifactPath = path.join(__dirname, 'artifacts', 'contracts', `${name}.sol`, `${name}.json`);
+  const artifact = JSON.parse(await fs.readFile(artifactPath, 'utf8'));
+
+  const provider = new ethers.JsonRpcProvider(LOCAL_CHAIN_RPC_URL, LOCAL_CHAIN_ID, { staticNetwork: true });
+  const deployer = await provider.getSigner(0);
+  const contract = await new ethers.ContractFactory(artifact.abi, artifact.bytecode, deployer).deploy();
+  await contract.waitForDeployment();
+
+  return contract as ethers.Contract;
+};
+
+/**
+ * Points the server chain at the local node and the given deployments. With a PickupSecurity
+ * deployment the deployer key becomes the relayer. lib/blockchain reads these when it is
+ * imported, so import the code under test afterwards.
+ */
+export const useLocalChain = (contracts: {
+  roleAuth?: string;
+  pickupSecurity?: string;
+  pickupSecurityVersion?: 1 | 2;
+}) => {
+  vi.stubEnv('BLOCKCHAIN_CHAIN_ID', String(LOCAL_CHAIN_ID));
+  vi.stubEnv('BLOCKCHAIN_RPC_URL', LOCAL_CHAIN_RPC_URL!);
+  if (contracts.roleAuth) {
+    vi.stubEnv('NEXT_PUBLIC_ROLE_AUTH_CONTRACT_LOCALHOST', contracts.roleAuth);
+  }
+  if (contracts.pickupSecurity) {
+    vi.stubEnv('NEXT_PUBLIC_PICKUP_SECURITY_CONTRACT_LOCALHOST', contracts.pickupSecurity);
+    vi.stubEnv('NEXT_PUBLIC_PICKUP_SECURITY_VERSION_LOCALHOST', String(contracts.pickupSecurityVersion ?? 1));
+    vi.stubEnv('RELAYER_PRIVATE_KEY', LOCAL_CHAIN_DEPLOYER_KEY);
+  }
+  vi.resetModules();
+};
@@ -0,0 +1,16 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests live next to the modules they cover (*.test.ts); the contract tests in test/ run with Hardhat
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.')
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['lib/**/*.test.ts', 'app/**/*.test.ts'],
+    setupFiles: ['./vitest.setup.ts']
+  }
+});
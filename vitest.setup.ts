@@ -0,0 +1,11 @@
+/**
+ * Initializes firebase-admin with only a project id before lib/firebase/admin.ts would ask for a
+ * service account, so tests never need (or use) real credentials. Tests that talk to Firestore
+ * run against the emulators started by `npm run test:emulator` and are skipped otherwise.
+ */
+
+import admin from 'firebase-admin';
+
+if (!admin.apps.length) {
+  admin.initializeApp({ projectId: process.env.GCLOUD_PROJECT || 'demo-kidguard' });
+}